@@ -0,0 +1,114 @@
+import { Request, Response } from 'express';
+import { logger } from '../../utils/logger';
+import { apiKeyService, ENV_API_KEY_ID } from '../../services/api-key.service';
+import { CreateApiKeyRequest } from '../../types/api-key';
+
+/**
+ * List all API keys (hashes are never returned)
+ */
+export async function listApiKeys(req: Request, res: Response): Promise<void> {
+  try {
+    const keys = await apiKeyService.listKeys();
+    res.status(200).json({ success: true, keys });
+  } catch (error) {
+    logger.error('Error listing API keys', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Failed to list API keys'
+    });
+  }
+}
+
+/**
+ * Get a single API key
+ */
+export async function getApiKey(req: Request, res: Response): Promise<void> {
+  try {
+    const apiKey = await apiKeyService.getKey(req.params.keyId);
+    if (!apiKey) {
+      res.status(404).json({ success: false, error: 'API key not found' });
+      return;
+    }
+
+    res.status(200).json({ success: true, apiKey });
+  } catch (error) {
+    logger.error('Error getting API key', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get API key'
+    });
+  }
+}
+
+/**
+ * Create an API key. The key is only shown in this response
+ */
+export async function createApiKey(req: Request, res: Response): Promise<void> {
+  try {
+    const { name, scopes, rateLimit, monthlyQuota } = req.body as CreateApiKeyRequest;
+    const { key, apiKey } = await apiKeyService.createKey({ name, scopes, rateLimit, monthlyQuota });
+
+    logger.info(`API key ${apiKey.id} created by ${res.locals.apiKeyId}`);
+    res.status(201).json({ success: true, key, apiKey });
+  } catch (error) {
+    logger.error('Error creating API key', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create API key'
+    });
+  }
+}
+
+/**
+ * Issue a new secret for an API key (body: gracePeriodSeconds to keep the old one working)
+ */
+export async function rotateApiKey(req: Request, res: Response): Promise<void> {
+  try {
+    if (req.params.keyId === ENV_API_KEY_ID) {
+      res.status(400).json({ success: false, error: 'The API_KEY environment key is rotated by changing the variable' });
+      return;
+    }
+
+    const result = await apiKeyService.rotateKey(req.params.keyId, req.body?.gracePeriodSeconds ?? 0);
+    if (!result) {
+      res.status(404).json({ success: false, error: 'API key not found or revoked' });
+      return;
+    }
+
+    logger.info(`API key ${req.params.keyId} rotated by ${res.locals.apiKeyId}`);
+    res.status(200).json({ success: true, key: result.key, apiKey: result.apiKey });
+  } catch (error) {
+    logger.error('Error rotating API key', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Failed to rotate API key'
+    });
+  }
+}
+
+/**
+ * Revoke an API key
+ */
+export async function revokeApiKey(req: Request, res: Response): Promise<void> {
+  try {
+    if (req.params.keyId === res.locals.apiKeyId) {
+      res.status(400).json({ success: false, error: 'An API key cannot revoke itself' });
+      return;
+    }
+
+    const apiKey = await apiKeyService.revokeKey(req.params.keyId);
+    if (!apiKey) {
+      res.status(404).json({ success: false, error: 'API key not found' });
+      return;
+    }
+
+    logger.info(`API key ${req.params.keyId} revoked by ${res.locals.apiKeyId}`);
+    res.status(200).json({ success: true, apiKey });
+  } catch (error) {
+    logger.error('Error revoking API key', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Failed to revoke API key'
+    });
+  }
+}
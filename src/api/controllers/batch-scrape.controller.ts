@@ -1,13 +1,42 @@
 import { Request, Response } from 'express';
 import { logger } from '../../utils/logger';
 import { batchScrapeService } from '../../services/batch-scrape.service';
+import { webhookService } from '../../services/webhook.service';
+import { sessionService } from '../../services/session.service';
+import { apiKeyService } from '../../services/api-key.service';
 import { BatchScrapeRequest } from '../../types';
+import { ApiKeyRecord } from '../../types/api-key';
+import { renderCsv } from '../../utils/table-utils';
 import archiver from 'archiver';
 
 /**
  * Controller for batch scraping operations
  */
 export class BatchScrapeController {
+
+  /**
+   * Whether the calling key may see a batch: admins see every batch, other keys only their own
+   */
+  private async canAccessBatch(batchId: string, res: Response): Promise<boolean> {
+    const caller: ApiKeyRecord | undefined = res.locals.apiKey;
+    if (caller && apiKeyService.hasScope(caller, 'admin')) return true;
+
+    const ownerId = await batchScrapeService.getBatchOwner(batchId);
+    return !ownerId || ownerId === res.locals.apiKeyId;
+  }
+
+  /**
+   * Reply 404 for other keys' batches, so their IDs can't be probed
+   */
+  private async rejectUnownedBatch(batchId: string, res: Response): Promise<boolean> {
+    if (await this.canAccessBatch(batchId, res)) return false;
+
+    res.status(404).json({
+      success: false,
+      error: `Batch ${batchId} not found`
+    });
+    return true;
+  }
   
   /**
    * Initiate a new batch scraping operation
@@ -22,7 +51,13 @@ export class BatchScrapeController {
         userAgent: req.get('User-Agent')
       });
 
-      const result = await batchScrapeService.initiateBatch(batchRequest);
+      const sessionId = batchRequest.options?.sessionId;
+      if (sessionId && !(await sessionService.get(sessionId, res.locals.apiKeyId))) {
+        res.status(400).json({ success: false, error: `Session ${sessionId} not found or expired` });
+        return;
+      }
+
+      const result = await batchScrapeService.initiateBatch(batchRequest, res.locals.apiKeyId);
       
       const statusUrl = `${req.protocol}://${req.get('host')}/api/batch/scrape/${result.batchId}/status`;
       
@@ -32,7 +67,7 @@ export class BatchScrapeController {
         totalUrls: result.totalUrls,
         message: 'Batch scraping initiated successfully',
         statusUrl,
-        webhook: batchRequest.webhook,
+        webhook: webhookService.normalizeConfig(batchRequest.webhook)?.url,
         estimatedTime: result.estimatedTime
       });
 
@@ -58,6 +93,8 @@ export class BatchScrapeController {
       
       logger.debug('Getting batch status', { batchId });
 
+      if (await this.rejectUnownedBatch(batchId, res)) return;
+
       const status = await batchScrapeService.getBatchStatus(batchId);
       
       res.json(status);
@@ -91,6 +128,8 @@ export class BatchScrapeController {
       
       logger.info('Cancelling batch operation', { batchId });
 
+      if (await this.rejectUnownedBatch(batchId, res)) return;
+
       await batchScrapeService.cancelBatch(batchId);
       
       res.json({
@@ -128,6 +167,8 @@ export class BatchScrapeController {
       
       logger.debug('Downloading individual result', { batchId, jobId, format });
 
+      if (await this.rejectUnownedBatch(batchId, res)) return;
+
       const result = await batchScrapeService.getJobResult(batchId, jobId);
       
       if (!result) {
@@ -197,6 +238,8 @@ export class BatchScrapeController {
       
       logger.info('Creating ZIP download for batch', { batchId, format });
 
+      if (await this.rejectUnownedBatch(batchId, res)) return;
+
       const status = await batchScrapeService.getBatchStatus(batchId);
       
       if (!this.hasValidResults(status)) {
@@ -254,20 +297,40 @@ export class BatchScrapeController {
   private addResultsToArchive(archive: any, results: any[], format: string): void {
     for (let i = 0; i < results.length; i++) {
       const result = results[i];
+      if (format === 'csv') {
+        this.addTablesToArchive(archive, result, i);
+        continue;
+      }
       const { filename, content } = this.prepareFileData(result, i, format);
       archive.append(content, { name: filename });
     }
   }
 
+  /**
+   * One CSV file per table found on the page; pages without tables add no files
+   */
+  private addTablesToArchive(archive: any, result: any, index: number): void {
+    const tables: any[] = result.tables ?? [];
+    tables.forEach((table, tableIndex) => {
+      archive.append(renderCsv(table.headers, table.rows), {
+        name: `${this.getFileBaseName(result, index)}_table${tableIndex + 1}.csv`
+      });
+    });
+  }
+
   private prepareFileData(result: any, index: number, format: string): { filename: string; content: string } {
+    const { extension, content } = this.getContentByFormat(result, format);
+    const filename = `${this.getFileBaseName(result, index)}.${extension}`;
+    
+    return { filename, content };
+  }
+
+  private getFileBaseName(result: any, index: number): string {
     const url = new URL(result.url);
     const hostname = url.hostname.replace(/[^a-zA-Z0-9]/g, '_');
     const pathname = url.pathname.replace(/[^a-zA-Z0-9]/g, '_').substring(0, 50);
     
-    const { extension, content } = this.getContentByFormat(result, format);
-    const filename = `${index + 1}_${hostname}${pathname}.${extension}`;
-    
-    return { filename, content };
+    return `${index + 1}_${hostname}${pathname}`;
   }
 
   private getContentByFormat(result: any, format: string): { extension: string; content: string } {
@@ -323,6 +386,8 @@ export class BatchScrapeController {
       
       logger.debug('Downloading batch results as JSON', { batchId });
 
+      if (await this.rejectUnownedBatch(batchId, res)) return;
+
       const status = await batchScrapeService.getBatchStatus(batchId);
       
       if (!status.success || !status.results || status.results.length === 0) {
@@ -0,0 +1,24 @@
+import { Request, Response } from 'express';
+import { logger } from '../../utils/logger';
+import { captureService } from '../../services/capture.service';
+
+/**
+ * Download a screenshot or PDF saved with `capture.storage: 'file'`
+ */
+export async function getCapture(req: Request, res: Response): Promise<void> {
+  try {
+    const filePath = await captureService.resolve(req.params.filename);
+    if (!filePath) {
+      res.status(404).json({ success: false, error: 'Capture not found' });
+      return;
+    }
+
+    res.sendFile(filePath);
+  } catch (error) {
+    logger.error('Error serving capture', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Failed to serve capture'
+    });
+  }
+}
@@ -6,23 +6,57 @@ import {
   CrawlStatusParams, 
   CrawlStatusQuery, 
   CrawlStatusResponse,
-  CrawlCancelResponse
+  CrawlCancelResponse,
+  CrawlResumeResponse,
+  StoredCrawl
 } from '../../types/crawler';
+import { ApiKeyRecord } from '../../types/api-key';
 import { logger } from '../../utils/logger';
 import { WebCrawler } from '../../scraper/crawler';
 import { 
   saveCrawl, 
   getCrawl, 
   getCrawlJobs, 
+  getCrawlJobsCount,
   getCrawlDoneJobs,
   getCrawlDoneJobsCount,
   cancelCrawl,
   isCrawlFinished,
-  getExportedFiles
+  getExportedFiles,
+  updateCrawl,
+  getCrawlFrontierCounts,
+  pruneUnfinishedCrawlJobs,
+  hasPageFingerprints,
+  getCrawlOwner
 } from '../../services/redis.service';
 import { getJob, getJobs, addCrawlJobToQueue } from '../../services/queue.service';
+import { resumeCrawl } from '../../scraper/crawler-processor';
+import { crawlEventsService, CrawlEvent } from '../../services/crawl-events.service';
+import { webhookService } from '../../services/webhook.service';
+import { apiKeyService } from '../../services/api-key.service';
+import { sessionService } from '../../services/session.service';
 import { fileExportService } from '../../services/file-export.service';
 
+// Keep idle SSE connections open through proxies
+const STREAM_HEARTBEAT_INTERVAL = 15000;
+
+/**
+ * Whether the calling key may see a crawl started by `ownerId`: its own crawls, or any crawl for admin keys
+ */
+function canAccessCrawl(ownerId: string | null | undefined, res: Response): boolean {
+  const caller: ApiKeyRecord | undefined = res.locals.apiKey;
+  const isAdmin = caller ? apiKeyService.hasScope(caller, 'admin') : false;
+  return isAdmin || !ownerId || ownerId === res.locals.apiKeyId;
+}
+
+/**
+ * Get a crawl the calling key may see. Other keys' crawls are reported as not found
+ */
+async function getOwnedCrawl(jobId: string, res: Response): Promise<StoredCrawl | null> {
+  const storedCrawl = await getCrawl(jobId);
+  return storedCrawl && canAccessCrawl(storedCrawl.apiKeyId, res) ? storedCrawl : null;
+}
+
 /**
  * Initiate a new crawl job
  */
@@ -45,7 +79,11 @@ export async function crawl(
       scrapeOptions = {},
       webhook,
       strategy,
-      useBrowser = false
+      useBrowser = false,
+      ignoreSitemap = false,
+      includeDocuments = false,
+      politeness,
+      previousCrawlId
     } = req.body;
 
     // Validate URL
@@ -54,6 +92,27 @@ export async function crawl(
       return;
     }
 
+    const webhookError = webhookService.validateConfig(webhook);
+    if (webhookError) {
+      res.status(400).json({ success: false, error: webhookError });
+      return;
+    }
+
+    // Pages are scraped as the session, which must belong to the key starting the crawl
+    if (scrapeOptions.sessionId && !(await sessionService.get(scrapeOptions.sessionId, res.locals.apiKeyId))) {
+      res.status(400).json({ success: false, error: `Session ${scrapeOptions.sessionId} not found or expired` });
+      return;
+    }
+
+    // Incremental re-crawls need the previous crawl's page fingerprints, from a crawl this key may see.
+    // The fingerprints outlive the stored crawl, so the owner is kept next to them
+    if (previousCrawlId && (
+      !(await hasPageFingerprints(previousCrawlId)) || !canAccessCrawl(await getCrawlOwner(previousCrawlId), res)
+    )) {
+      res.status(400).json({ success: false, error: 'Previous crawl not found or its page data has expired' });
+      return;
+    }
+
     // Generate a unique ID for this crawl
     const id = uuidv4();
     
@@ -84,6 +143,7 @@ export async function crawl(
       regexOnFullURL,
       strategy,
       useBrowser,
+      includeDocuments,
       deduplicateSimilarUrls: true // Enable URL deduplication by default
     });
 
@@ -110,8 +170,14 @@ export async function crawl(
       regexOnFullURL,
       strategy,
       useBrowser,
+      ignoreSitemap,
+      includeDocuments,
+      politeness,
+      previousCrawlId,
+      webhook: webhookService.normalizeConfig(webhook),
       scrapeOptions,
-      robots: robotsTxt
+      robots: robotsTxt,
+      apiKeyId: res.locals.apiKeyId
     });
 
     // Kickoff initial job to start the crawl
@@ -121,8 +187,7 @@ export async function crawl(
       scrapeOptions: {
         ...scrapeOptions,
         useBrowser  // Pass browser option to scrape options
-      },
-      webhook,
+      }
     }, 10);
 
     // Return success response with crawl ID
@@ -158,7 +223,7 @@ export async function getCrawlStatus(
       : undefined;
 
     // Get crawl data
-    const storedCrawl = await getCrawl(jobId);
+    const storedCrawl = await getOwnedCrawl(jobId, res);
     if (!storedCrawl) {
       res.status(404).json({ success: false, error: 'Crawl not found' });
       return;
@@ -179,7 +244,7 @@ export async function getCrawlStatus(
     let status: 'completed' | 'cancelled' | 'scraping';
     if (storedCrawl.cancelled) {
       status = 'cancelled';
-    } else if (jobStatuses.every(j => j.status === 'completed') && await isCrawlFinished(jobId)) {
+    } else if (jobStatuses.every(j => j.status === 'completed' || j.status === 'failed') && await isCrawlFinished(jobId)) {
       status = 'completed';
     } else {
       status = 'scraping';
@@ -192,6 +257,7 @@ export async function getCrawlStatus(
     
     // Get exported files information
     const exportedFiles = await getExportedFiles(jobId);
+    const frontier = await getCrawlFrontierCounts(jobId);
     
     // Format jobs for response
     const jobs = await Promise.all(doneJobs.map(async job => {
@@ -199,7 +265,7 @@ export async function getCrawlStatus(
       const returnValue = job.returnvalue;
       
       // Make sure to include content and contentType at the document level
-      let document = returnValue?.document ?? returnValue;
+      const document = returnValue?.document ?? returnValue;
       
       // Ensure we keep the content fields if they exist at the top level
       if (returnValue?.content && !document.content) {
@@ -226,14 +292,24 @@ export async function getCrawlStatus(
     res.status(200).json({
       success: true,
       status,
-      crawl: storedCrawl,
+      // Leave out robots.txt, the owning key and the webhook signing secret
+      crawl: {
+        originUrl: storedCrawl.originUrl,
+        crawlerOptions: storedCrawl.crawlerOptions,
+        scrapeOptions: storedCrawl.scrapeOptions,
+        createdAt: storedCrawl.createdAt,
+        cancelled: storedCrawl.cancelled,
+        previousCrawlId: storedCrawl.previousCrawlId,
+        webhook: storedCrawl.webhook && { ...storedCrawl.webhook, secret: undefined }
+      },
       jobs,
       count: doneCount,
       exportedFiles: {
         count: exportedFiles.length,
         outputDirectory: fileExportService.getCrawlOutputDir(jobId),
         files: exportedFiles.slice(0, 10) // Show first 10 files to avoid huge responses
-      }
+      },
+      frontier
     });
   } catch (error: any) {
     logger.error('Error getting crawl status', { error });
@@ -255,7 +331,7 @@ export async function cancelCrawlJob(
     const { jobId } = req.params;
     
     // Get crawl data
-    const storedCrawl = await getCrawl(jobId);
+    const storedCrawl = await getOwnedCrawl(jobId, res);
     if (!storedCrawl) {
       res.status(404).json({ success: false, error: 'Crawl not found' });
       return;
@@ -263,6 +339,7 @@ export async function cancelCrawlJob(
     
     // Mark as cancelled
     await cancelCrawl(jobId);
+    crawlEventsService.publish(jobId, 'crawl-cancelled');
     
     res.status(200).json({ success: true });
   } catch (error: any) {
@@ -272,4 +349,157 @@ export async function cancelCrawlJob(
       error: error.message ?? 'Internal server error'
     });
   }
-} 
\ No newline at end of file
+}
+
+/**
+ * Resume a crawl whose queued jobs were lost (e.g. after a worker restart)
+ */
+export async function resumeCrawlJob(
+  req: Request<CrawlStatusParams>,
+  res: Response<CrawlResumeResponse>
+): Promise<void> {
+  try {
+    const { jobId } = req.params;
+    
+    const storedCrawl = await getOwnedCrawl(jobId, res);
+    if (!storedCrawl) {
+      res.status(404).json({ success: false, error: 'Crawl not found' });
+      return;
+    }
+    
+    if (await isCrawlFinished(jobId)) {
+      res.status(409).json({ success: false, error: 'Crawl already completed' });
+      return;
+    }
+    
+    // Refuse to resume while jobs for this crawl are still in the queue
+    const queuedJobs = await getJobs(await getCrawlJobs(jobId));
+    const jobStates = await Promise.all(queuedJobs.map(job => job.getState()));
+    if (jobStates.some(state => ['active', 'waiting', 'delayed', 'prioritized', 'waiting-children'].includes(state))) {
+      res.status(409).json({ success: false, error: 'Crawl is still running' });
+      return;
+    }
+    
+    if (storedCrawl.cancelled) {
+      storedCrawl.cancelled = false;
+      await updateCrawl(jobId, storedCrawl);
+    }
+    
+    // Jobs that never finished are gone from the queue; their URLs are re-enqueued below
+    await pruneUnfinishedCrawlJobs(jobId);
+    
+    let requeued = await resumeCrawl(jobId);
+    
+    // Nothing was discovered before the crawl stopped, so start over from the kickoff
+    const frontier = await getCrawlFrontierCounts(jobId);
+    if (requeued === 0 && frontier.done === 0) {
+      await addCrawlJobToQueue(jobId, {
+        url: storedCrawl.originUrl,
+        mode: 'kickoff',
+        scrapeOptions: {
+          ...storedCrawl.scrapeOptions,
+          useBrowser: storedCrawl.crawlerOptions.useBrowser ?? false
+        }
+      }, 10);
+      requeued = 1;
+    }
+    
+    logger.info(`Crawl ${jobId} resumed`, { crawlId: jobId, requeued });
+    
+    res.status(200).json({
+      success: true,
+      id: jobId,
+      requeued,
+      message: requeued > 0 ? 'Crawl resumed' : 'No pending URLs to resume'
+    });
+  } catch (error: any) {
+    logger.error('Error resuming crawl', { error });
+    res.status(500).json({
+      success: false,
+      error: error.message ?? 'Internal server error'
+    });
+  }
+}
+
+/**
+ * Write a single Server-Sent Event
+ */
+function writeStreamEvent(res: Response, event: string, data: any): void {
+  res.write(`event: ${event}\n`);
+  res.write(`data: ${JSON.stringify(data)}\n\n`);
+}
+
+/**
+ * Stream crawl progress as Server-Sent Events
+ */
+export async function streamCrawlEvents(
+  req: Request<CrawlStatusParams>,
+  res: Response
+): Promise<void> {
+  const { jobId } = req.params;
+  
+  try {
+    const storedCrawl = await getOwnedCrawl(jobId, res);
+    if (!storedCrawl) {
+      res.status(404).json({ success: false, error: 'Crawl not found' });
+      return;
+    }
+    
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    });
+    
+    let closed = false;
+    let unsubscribe: () => void = () => {};
+    const heartbeat = setInterval(() => res.write(': ping\n\n'), STREAM_HEARTBEAT_INTERVAL);
+    
+    const close = () => {
+      if (closed) return;
+      closed = true;
+      clearInterval(heartbeat);
+      unsubscribe();
+      res.end();
+    };
+    req.on('close', close);
+    
+    // Subscribe before reading the snapshot so no event falls in between
+    unsubscribe = await crawlEventsService.subscribe(jobId, (event: CrawlEvent) => {
+      writeStreamEvent(res, event.type, { ...event.data, timestamp: event.timestamp });
+      if (event.type === 'crawl-completed' || event.type === 'crawl-cancelled') {
+        close();
+      }
+    });
+    
+    // The client may have gone away while subscribing; close() already ran with the no-op
+    if (closed) {
+      unsubscribe();
+      return;
+    }
+    
+    // Initial snapshot from counters only, so reconnecting dashboards stay cheap
+    const finished = await isCrawlFinished(jobId);
+    writeStreamEvent(res, 'status', {
+      status: storedCrawl.cancelled ? 'cancelled' : finished ? 'completed' : 'scraping',
+      total: await getCrawlJobsCount(jobId),
+      completed: await getCrawlDoneJobsCount(jobId),
+      frontier: await getCrawlFrontierCounts(jobId)
+    });
+    
+    if (storedCrawl.cancelled || finished) {
+      close();
+    }
+  } catch (error: any) {
+    logger.error('Error streaming crawl events', { error, crawlId: jobId });
+    if (!res.headersSent) {
+      res.status(500).json({
+        success: false,
+        error: error.message ?? 'Internal server error'
+      });
+    } else {
+      res.end();
+    }
+  }
+}
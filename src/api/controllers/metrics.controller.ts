@@ -0,0 +1,52 @@
+import crypto from 'crypto';
+import { Request, Response } from 'express';
+import { logger } from '../../utils/logger';
+import { metricsService } from '../../services/metrics.service';
+import { apiKeyService } from '../../services/api-key.service';
+
+/**
+ * Compare a presented secret without leaking its length or contents through timing
+ */
+function matchesSecret(presented: string, expected: string): boolean {
+  const expectedHash = crypto.createHash('sha256').update(expected).digest();
+  const actualHash = crypto.createHash('sha256').update(presented).digest();
+  return crypto.timingSafeEqual(expectedHash, actualHash);
+}
+
+/**
+ * Whether the request may read metrics: the METRICS_TOKEN bearer token, an API key
+ * with the admin scope, or anyone when METRICS_PUBLIC=true
+ */
+async function canReadMetrics(req: Request): Promise<boolean> {
+  if (process.env.METRICS_PUBLIC === 'true') return true;
+
+  const token = process.env.METRICS_TOKEN;
+  const bearer = req.headers.authorization?.replace(/^Bearer\s+/i, '');
+  if (token && bearer && matchesSecret(bearer, token)) return true;
+
+  const apiKey = req.headers['x-api-key'];
+  const record = typeof apiKey === 'string' ? await apiKeyService.authenticate(apiKey) : null;
+  return record !== null && apiKeyService.hasScope(record, 'admin');
+}
+
+/**
+ * Expose metrics in the Prometheus text format to scrapers sending METRICS_TOKEN
+ * as a bearer token, or an admin API key in X-API-Key
+ */
+export async function getMetrics(req: Request, res: Response): Promise<void> {
+  try {
+    if (!(await canReadMetrics(req))) {
+      res.status(401).json({ success: false, error: 'Unauthorized: Invalid or missing metrics token or admin API key' });
+      return;
+    }
+
+    res.setHeader('Content-Type', metricsService.contentType);
+    res.status(200).send(await metricsService.render());
+  } catch (error) {
+    logger.error('Error rendering metrics', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Failed to render metrics'
+    });
+  }
+}
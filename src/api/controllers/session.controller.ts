@@ -0,0 +1,101 @@
+import { Request, Response } from 'express';
+import { logger } from '../../utils/logger';
+import { sessionService } from '../../services/session.service';
+import { CreateSessionRequest } from '../../types/session';
+
+/**
+ * Run a login flow and store the session. A failed login reports what each action did
+ */
+export async function createSession(req: Request, res: Response): Promise<void> {
+  try {
+    if (!sessionService.isEnabled()) {
+      res.status(503).json({ success: false, error: 'Sessions are disabled: SESSION_ENCRYPTION_KEY is not set' });
+      return;
+    }
+
+    const result = await sessionService.create(req.body as CreateSessionRequest, res.locals.apiKeyId);
+    if (result.error) {
+      res.status(400).json({ success: false, error: result.error, actionResults: result.actionResults });
+      return;
+    }
+
+    logger.info(`Session ${result.session?.id} created by ${res.locals.apiKeyId}`);
+    res.status(201).json({ success: true, session: result.session, actionResults: result.actionResults });
+  } catch (error) {
+    logger.error('Error creating session', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create session'
+    });
+  }
+}
+
+/**
+ * Get a session
+ */
+export async function getSession(req: Request, res: Response): Promise<void> {
+  try {
+    const session = await sessionService.getInfo(req.params.sessionId, res.locals.apiKeyId);
+    if (!session) {
+      res.status(404).json({ success: false, error: 'Session not found or expired' });
+      return;
+    }
+
+    res.status(200).json({ success: true, session });
+  } catch (error) {
+    logger.error('Error getting session', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get session'
+    });
+  }
+}
+
+/**
+ * Log in again, e.g. after changing the password the login actions use elsewhere
+ */
+export async function refreshSession(req: Request, res: Response): Promise<void> {
+  try {
+    const session = await sessionService.getInfo(req.params.sessionId, res.locals.apiKeyId);
+    if (!session) {
+      res.status(404).json({ success: false, error: 'Session not found or expired' });
+      return;
+    }
+
+    const refreshed = await sessionService.refresh(req.params.sessionId, res.locals.apiKeyId);
+    if (!refreshed) {
+      res.status(502).json({ success: false, error: 'Logging in again failed' });
+      return;
+    }
+
+    res.status(200).json({ success: true, session: await sessionService.getInfo(refreshed.id, res.locals.apiKeyId) });
+  } catch (error) {
+    logger.error('Error refreshing session', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Failed to refresh session'
+    });
+  }
+}
+
+/**
+ * Delete a session
+ */
+export async function deleteSession(req: Request, res: Response): Promise<void> {
+  try {
+    const deleted = await sessionService.delete(req.params.sessionId, res.locals.apiKeyId);
+    if (!deleted) {
+      res.status(404).json({ success: false, error: 'Session not found or expired' });
+      return;
+    }
+
+    logger.info(`Session ${req.params.sessionId} deleted by ${res.locals.apiKeyId}`);
+    res.status(200).json({ success: true });
+  } catch (error) {
+    logger.error('Error deleting session', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete session'
+    });
+  }
+}
@@ -0,0 +1,89 @@
+import { Request, Response } from 'express';
+import { logger } from '../../utils/logger';
+import { usageService, USAGE_GROUP_BY } from '../../services/usage.service';
+import { apiKeyService } from '../../services/api-key.service';
+import { UsageGroupBy } from '../../types/usage';
+import { ApiKeyRecord } from '../../types/api-key';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_RANGE_DAYS = 30;
+const MAX_RANGE_DAYS = 366;
+
+/**
+ * Aggregate LLM usage and cost over a date range
+ * (query: from, to as YYYY-MM-DD, groupBy, apiKeyId). Keys without the admin
+ * scope only see their own usage.
+ */
+export async function getUsageReport(req: Request, res: Response): Promise<void> {
+  try {
+    const to = req.query.to ? new Date(req.query.to as string) : new Date();
+    const from = req.query.from
+      ? new Date(req.query.from as string)
+      : new Date(to.getTime() - (DEFAULT_RANGE_DAYS - 1) * DAY_MS);
+    const groupBy = (req.query.groupBy as UsageGroupBy | undefined) ?? 'day';
+    const caller: ApiKeyRecord = res.locals.apiKey;
+    const apiKeyId = apiKeyService.hasScope(caller, 'admin')
+      ? req.query.apiKeyId as string | undefined
+      : caller.id;
+
+    if (isNaN(from.getTime()) || isNaN(to.getTime())) {
+      res.status(400).json({ success: false, error: 'from and to must be valid dates (YYYY-MM-DD)' });
+      return;
+    }
+
+    if (from > to) {
+      res.status(400).json({ success: false, error: 'from must not be after to' });
+      return;
+    }
+
+    if ((to.getTime() - from.getTime()) / DAY_MS >= MAX_RANGE_DAYS) {
+      res.status(400).json({ success: false, error: `Date range cannot exceed ${MAX_RANGE_DAYS} days` });
+      return;
+    }
+
+    if (!USAGE_GROUP_BY.includes(groupBy)) {
+      res.status(400).json({
+        success: false,
+        error: `groupBy must be one of: ${USAGE_GROUP_BY.join(', ')}`
+      });
+      return;
+    }
+
+    if (apiKeyId && groupBy === 'apiKey') {
+      res.status(400).json({ success: false, error: 'Reports filtered by apiKeyId cannot be grouped by apiKey' });
+      return;
+    }
+
+    const report = await usageService.getReport(from, to, groupBy, apiKeyId);
+
+    res.status(200).json({ success: true, ...report });
+  } catch (error) {
+    logger.error('Error building usage report', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Failed to build usage report'
+    });
+  }
+}
+
+/**
+ * Get the LLM usage recorded for a single scrape
+ */
+export async function getScrapeUsage(req: Request, res: Response): Promise<void> {
+  try {
+    const caller: ApiKeyRecord = res.locals.apiKey;
+    const usage = await usageService.getScrapeUsage(req.params.scrapeId);
+    if (!usage || (!apiKeyService.hasScope(caller, 'admin') && usage.context.apiKeyId !== caller.id)) {
+      res.status(404).json({ success: false, error: 'Usage not found' });
+      return;
+    }
+
+    res.status(200).json({ success: true, usage });
+  } catch (error) {
+    logger.error('Error getting scrape usage', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get scrape usage'
+    });
+  }
+}
@@ -0,0 +1,90 @@
+import { Request, Response } from 'express';
+import { logger } from '../../utils/logger';
+import { webhookService } from '../../services/webhook.service';
+import { WebhookDeliveryStatus } from '../../types/webhook';
+
+const DELIVERY_STATUSES: WebhookDeliveryStatus[] = ['pending', 'retrying', 'delivered', 'failed'];
+const MAX_PAGE_SIZE = 200;
+
+/**
+ * List webhook deliveries, newest first
+ */
+export async function getWebhookDeliveries(req: Request, res: Response): Promise<void> {
+  try {
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, MAX_PAGE_SIZE);
+    const offset = Math.max(parseInt(req.query.offset as string) || 0, 0);
+    const status = req.query.status as WebhookDeliveryStatus | undefined;
+    const event = req.query.event as string | undefined;
+
+    if (status && !DELIVERY_STATUSES.includes(status)) {
+      res.status(400).json({
+        success: false,
+        error: `Status must be one of: ${DELIVERY_STATUSES.join(', ')}`
+      });
+      return;
+    }
+
+    const { deliveries, total } = await webhookService.getDeliveries({ limit, offset, status, event });
+
+    res.status(200).json({
+      success: true,
+      deliveries,
+      total,
+      limit,
+      offset
+    });
+  } catch (error) {
+    logger.error('Error listing webhook deliveries', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Failed to list webhook deliveries'
+    });
+  }
+}
+
+/**
+ * Get a single webhook delivery with its attempts
+ */
+export async function getWebhookDelivery(req: Request, res: Response): Promise<void> {
+  try {
+    const delivery = await webhookService.getDelivery(req.params.deliveryId);
+    if (!delivery) {
+      res.status(404).json({ success: false, error: 'Delivery not found' });
+      return;
+    }
+
+    res.status(200).json({ success: true, delivery });
+  } catch (error) {
+    logger.error('Error getting webhook delivery', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get webhook delivery'
+    });
+  }
+}
+
+/**
+ * Queue a failed webhook delivery for one more attempt
+ */
+export async function redeliverWebhook(req: Request, res: Response): Promise<void> {
+  try {
+    const result = await webhookService.redeliver(req.params.deliveryId);
+    if (!result) {
+      res.status(404).json({ success: false, error: 'Delivery not found' });
+      return;
+    }
+
+    if (result.error) {
+      res.status(409).json({ success: false, error: result.error });
+      return;
+    }
+
+    res.status(202).json({ success: true, delivery: result.delivery });
+  } catch (error) {
+    logger.error('Error redelivering webhook', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Failed to redeliver webhook'
+    });
+  }
+}
@@ -1,41 +1,116 @@
 import { Request, Response, NextFunction } from 'express';
 import { logger } from '../../utils/logger';
+import { apiKeyService, API_KEY_SCOPES } from '../../services/api-key.service';
+import { rateLimiterService } from '../../services/rate-limiter.service';
+import { setRateLimitHeaders, sendRateLimitExceeded } from './rate-limit.middleware';
+import { ApiKeyRecord, ApiKeyScope } from '../../types/api-key';
 
 /**
  * Middleware to validate API key
+ *
+ * Sets res.locals.apiKey (the key record) and res.locals.apiKeyId for later handlers.
  */
-export const apiKeyAuth = (req: Request, res: Response, next: NextFunction) => {
+export const apiKeyAuth = async (req: Request, res: Response, next: NextFunction) => {
   try {
-    // Get API key from environment
-    const validApiKey = process.env.API_KEY;
-    
+    // Get API key from request
+    // Express normalizes header names to lowercase, so we check 'x-api-key'
+    // This accepts any capitalization: X-API-Key, X-API-KEY, x-api-key, etc.
+    // Keys in query strings end up in access logs and browser history, so they are not accepted
+    const apiKey = req.headers['x-api-key'];
+
     // Skip validation if no API key is set (development only)
-    if (!validApiKey && process.env.NODE_ENV === 'development') {
+    if (!apiKey && !process.env.API_KEY && process.env.NODE_ENV === 'development') {
       logger.warn('No API key set, skipping authentication (development only)');
+      const anonymous: ApiKeyRecord = {
+        id: 'anonymous',
+        name: 'anonymous',
+        keyHash: '',
+        keyPrefix: '',
+        scopes: [...API_KEY_SCOPES],
+        createdAt: new Date(0).toISOString()
+      };
+      res.locals.apiKey = anonymous;
+      res.locals.apiKeyId = anonymous.id;
       return next();
     }
-    
-    // Get API key from request
-    // Express normalizes header names to lowercase, so we check 'x-api-key'
-    // This accepts any capitalization: X-API-Key, X-API-KEY, x-api-key, etc.
-    const apiKey = req.headers['x-api-key'] ?? req.query.apiKey;
-    
+
     // Validate API key
-    if (!apiKey || apiKey !== validApiKey) {
-      logger.warn(`Invalid API key provided: ${apiKey}`);
-      return res.status(401).json({ 
-        success: false, 
-        error: 'Unauthorized: Invalid or missing API key' 
+    const record = typeof apiKey === 'string' ? await apiKeyService.authenticate(apiKey) : null;
+    if (!record) {
+      logger.warn(`Invalid API key provided${typeof apiKey === 'string' ? `: ${apiKey.substring(0, 9)}...` : ''}`);
+      return res.status(401).json({
+        success: false,
+        error: 'Unauthorized: Invalid or missing API key'
       });
     }
-    
-    logger.info('API key validated successfully');
+
+    if (record.rateLimit) {
+      const { requests, windowSeconds } = record.rateLimit;
+      const result = await rateLimiterService.hit(`key:${record.id}`, requests, windowSeconds * 1000);
+      if (!result.allowed) {
+        logger.warn(`API key ${record.id} exceeded its rate limit`);
+        return sendRateLimitExceeded(res, result, 'Rate limit exceeded for this API key');
+      }
+      setRateLimitHeaders(res, result);
+    }
+
+    res.locals.apiKey = record;
+    res.locals.apiKeyId = record.id;
+    logger.info(`API key validated successfully (${record.name})`);
     next();
   } catch (error) {
     logger.error(`Error in auth middleware: ${error instanceof Error ? error.message : String(error)}`);
-    return res.status(500).json({ 
-      success: false, 
-      error: 'Server error during authentication' 
+    return res.status(500).json({
+      success: false,
+      error: 'Server error during authentication'
+    });
+  }
+};
+
+/**
+ * Middleware to count the request against the API key's monthly quota (use after requireScope
+ * on routes that do work, so forbidden requests and status checks don't use it up)
+ */
+export const consumeQuota = async (req: Request<any>, res: Response, next: NextFunction) => {
+  try {
+    const record: ApiKeyRecord | undefined = res.locals.apiKey;
+    const quota = record ? await apiKeyService.consumeQuota(record) : { allowed: true };
+    if (!quota.allowed) {
+      logger.warn(`API key ${record?.id} exceeded its monthly quota`);
+      if (quota.retryAfter !== undefined) {
+        res.setHeader('Retry-After', String(quota.retryAfter));
+      }
+      return res.status(429).json({
+        success: false,
+        error: 'Monthly request quota exceeded for this API key'
+      });
+    }
+
+    next();
+  } catch (error) {
+    logger.error(`Error in quota middleware: ${error instanceof Error ? error.message : String(error)}`);
+    return res.status(500).json({
+      success: false,
+      error: 'Server error while checking the request quota'
     });
   }
-}; 
\ No newline at end of file
+};
+
+/**
+ * Middleware to require a scope on the authenticated API key (use after apiKeyAuth)
+ */
+export const requireScope = (scope: ApiKeyScope) => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const record: ApiKeyRecord | undefined = res.locals.apiKey;
+
+    if (!record || !apiKeyService.hasScope(record, scope)) {
+      logger.warn(`API key ${record?.id ?? 'unknown'} lacks the ${scope} scope for ${req.method} ${req.originalUrl}`);
+      return res.status(403).json({
+        success: false,
+        error: `Forbidden: API key does not have the ${scope} scope`
+      });
+    }
+
+    next();
+  };
+};
@@ -0,0 +1,63 @@
+import { Request, Response, NextFunction } from 'express';
+import { logger } from '../../utils/logger';
+import { rateLimiterService, RateLimitGroup, RateLimitResult } from '../../services/rate-limiter.service';
+
+/**
+ * Set the RateLimit-* headers, keeping the most restrictive limit when several apply
+ */
+export const setRateLimitHeaders = (res: Response, result: RateLimitResult) => {
+  const current = res.getHeader('RateLimit-Remaining');
+  if (current !== undefined && Number(current) < result.remaining) {
+    return;
+  }
+
+  res.setHeader('RateLimit-Limit', String(result.limit));
+  res.setHeader('RateLimit-Remaining', String(result.remaining));
+  res.setHeader('RateLimit-Reset', String(Math.ceil(result.resetMs / 1000)));
+  res.setHeader('RateLimit-Policy', `${result.limit};w=${Math.ceil(result.windowMs / 1000)}`);
+};
+
+/**
+ * Reject a request that exceeded a rate limit
+ */
+export const sendRateLimitExceeded = (res: Response, result: RateLimitResult, error: string) => {
+  setRateLimitHeaders(res, result);
+  res.setHeader('Retry-After', String(Math.max(Math.ceil(result.resetMs / 1000), 1)));
+  return res.status(429).json({
+    success: false,
+    error,
+    retryAfter: Math.max(Math.ceil(result.resetMs / 1000), 1)
+  });
+};
+
+/**
+ * Middleware to rate limit a route group per API key (use after apiKeyAuth)
+ */
+export const rateLimit = (group: RateLimitGroup) => {
+  return async (req: Request<any>, res: Response, next: NextFunction) => {
+    try {
+      const { limit, windowMs } = rateLimiterService.getGroupLimit(group);
+      if (!rateLimiterService.isEnabled() || limit <= 0) {
+        return next();
+      }
+
+      // Limits follow the API key; unauthenticated callers are limited by address
+      const caller = res.locals.apiKeyId ?? `ip:${req.ip}`;
+      const result = await rateLimiterService.hit(`${group}:${caller}`, limit, windowMs);
+
+      if (!result.allowed) {
+        logger.warn(`Rate limit exceeded for ${caller} on ${group} routes`, { limit, windowMs });
+        return sendRateLimitExceeded(res, result, `Rate limit exceeded: ${limit} ${group} requests per ${windowMs / 1000}s`);
+      }
+
+      setRateLimitHeaders(res, result);
+      next();
+    } catch (error) {
+      logger.error(`Error in rate limit middleware: ${error instanceof Error ? error.message : String(error)}`);
+      return res.status(500).json({
+        success: false,
+        error: 'Server error during rate limiting'
+      });
+    }
+  };
+};
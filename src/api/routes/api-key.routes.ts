@@ -0,0 +1,111 @@
+import { Router } from 'express';
+import { body, param } from 'express-validator';
+import {
+  listApiKeys,
+  getApiKey,
+  createApiKey,
+  rotateApiKey,
+  revokeApiKey
+} from '../controllers/api-key.controller';
+import { apiKeyAuth, requireScope } from '../middleware/auth.middleware';
+import { handleValidationErrors } from '../middleware/validation';
+import { API_KEY_SCOPES } from '../../services/api-key.service';
+
+const router = Router();
+
+// Apply API key authentication to all routes; managing keys needs the admin scope
+router.use(apiKeyAuth, requireScope('admin'));
+
+/**
+ * Validation rules for creating a key
+ */
+const createKeyValidation = [
+  body('name')
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Name must be a string with 1-100 characters'),
+  body('scopes')
+    .isArray({ min: 1 })
+    .withMessage('Scopes must be a non-empty array'),
+  body('scopes.*')
+    .isIn(API_KEY_SCOPES)
+    .withMessage(`Each scope must be one of: ${API_KEY_SCOPES.join(', ')}`),
+  body('rateLimit')
+    .optional()
+    .isObject()
+    .withMessage('rateLimit must be an object'),
+  body('rateLimit.requests')
+    .if(body('rateLimit').exists())
+    .isInt({ min: 1 })
+    .withMessage('rateLimit.requests must be a positive integer')
+    .toInt(),
+  body('rateLimit.windowSeconds')
+    .if(body('rateLimit').exists())
+    .isInt({ min: 1, max: 86400 })
+    .withMessage('rateLimit.windowSeconds must be between 1 and 86400')
+    .toInt(),
+  body('monthlyQuota')
+    .optional()
+    .isInt({ min: 0 })
+    .withMessage('monthlyQuota must be a non-negative integer')
+    .toInt()
+];
+
+/**
+ * Validation rules for key ID parameter
+ */
+const keyIdValidation = [
+  param('keyId')
+    .notEmpty()
+    .withMessage('Key ID is required')
+];
+
+/**
+ * @route   GET /api/keys
+ * @desc    List API keys
+ * @access  Private (API Key with admin scope)
+ */
+router.get('/', listApiKeys);
+
+/**
+ * @route   POST /api/keys
+ * @desc    Create an API key (body: name, scopes, rateLimit, monthlyQuota)
+ * @access  Private (API Key with admin scope)
+ */
+router.post('/', createKeyValidation, handleValidationErrors, createApiKey);
+
+/**
+ * @route   GET /api/keys/:keyId
+ * @desc    Get an API key
+ * @access  Private (API Key with admin scope)
+ */
+router.get('/:keyId', keyIdValidation, handleValidationErrors, getApiKey);
+
+/**
+ * @route   POST /api/keys/:keyId/rotate
+ * @desc    Issue a new secret for an API key (body: gracePeriodSeconds)
+ * @access  Private (API Key with admin scope)
+ */
+router.post(
+  '/:keyId/rotate',
+  [
+    ...keyIdValidation,
+    body('gracePeriodSeconds')
+      .optional()
+      .isInt({ min: 0, max: 604800 })
+      .withMessage('gracePeriodSeconds must be between 0 and 604800 (7 days)')
+      .toInt()
+  ],
+  handleValidationErrors,
+  rotateApiKey
+);
+
+/**
+ * @route   DELETE /api/keys/:keyId
+ * @desc    Revoke an API key
+ * @access  Private (API Key with admin scope)
+ */
+router.delete('/:keyId', keyIdValidation, handleValidationErrors, revokeApiKey);
+
+export default router;
@@ -1,8 +1,12 @@
 import { Router } from 'express';
 import { body, param, query } from 'express-validator';
 import { handleValidationErrors } from '../middleware/validation';
-import { apiKeyAuth } from '../middleware/auth.middleware';
+import { apiKeyAuth, requireScope, consumeQuota } from '../middleware/auth.middleware';
+import { rateLimit } from '../middleware/rate-limit.middleware';
 import { batchScrapeController } from '../controllers/batch-scrape.controller';
+import { webhookService } from '../../services/webhook.service';
+import { SCRAPE_FORMATS } from '../../types';
+import { checkBrowserActions } from './scraper';
 
 const router = Router();
 
@@ -22,8 +26,11 @@ const batchScrapeValidation = [
     .withMessage('Concurrency must be between 1 and 10'),
   body('webhook')
     .optional()
-    .isURL()
-    .withMessage('Webhook must be a valid URL'),
+    .custom(value => {
+      const error = webhookService.validateConfig(value);
+      if (error) throw new Error(error);
+      return true;
+    }),
   body('timeout')
     .optional()
     .isInt({ min: 10000 })
@@ -52,7 +59,33 @@ const batchScrapeValidation = [
   body('options.waitForTimeout')
     .optional()
     .isInt({ min: 0, max: 60000 })
-    .withMessage('waitForTimeout must be between 0 and 60000ms')
+    .withMessage('waitForTimeout must be between 0 and 60000ms'),
+  body('options.formats')
+    .optional()
+    .isArray({ min: 1 })
+    .withMessage('formats must be a non-empty array'),
+  body('options.formats.*')
+    .isIn([...SCRAPE_FORMATS])
+    .withMessage(`Each format must be one of: ${SCRAPE_FORMATS.join(', ')}`),
+  body('options.capture.imageFormat')
+    .optional()
+    .isIn(['png', 'jpeg'])
+    .withMessage('capture.imageFormat must be png or jpeg'),
+  body('options.capture.quality')
+    .optional()
+    .isInt({ min: 0, max: 100 })
+    .withMessage('capture.quality must be between 0 and 100'),
+  body('options.capture.storage')
+    .optional()
+    .isIn(['base64', 'file'])
+    .withMessage('capture.storage must be base64 or file'),
+  body('options.sessionId')
+    .optional()
+    .isUUID()
+    .withMessage('sessionId must be a valid UUID'),
+  body('options.actions')
+    .optional()
+    .custom(checkBrowserActions)
 ];
 
 /**
@@ -81,6 +114,9 @@ const cleanupValidation = [
 router.post(
   '/scrape',
   apiKeyAuth,
+  requireScope('batch'),
+  rateLimit('batch'),
+  consumeQuota,
   batchScrapeValidation,
   handleValidationErrors,
   batchScrapeController.initiateBatch.bind(batchScrapeController)
@@ -93,6 +129,7 @@ router.post(
 router.get(
   '/scrape/:batchId/status',
   apiKeyAuth,
+  requireScope('batch'),
   batchIdValidation,
   handleValidationErrors,
   batchScrapeController.getBatchStatus.bind(batchScrapeController)
@@ -105,6 +142,7 @@ router.get(
 router.delete(
   '/scrape/:batchId',
   apiKeyAuth,
+  requireScope('batch'),
   batchIdValidation,
   handleValidationErrors,
   batchScrapeController.cancelBatch.bind(batchScrapeController)
@@ -112,17 +150,18 @@ router.delete(
 
 /**
  * GET /api/batch/scrape/:batchId/download/zip
- * Download all results as a ZIP file
+ * Download all results as a ZIP file (format=csv exports each page's tables instead)
  */
 router.get(
   '/scrape/:batchId/download/zip',
   apiKeyAuth,
+  requireScope('batch'),
   [
     ...batchIdValidation,
     query('format')
       .optional()
-      .isIn(['json', 'markdown', 'html', 'text'])
-      .withMessage('Format must be one of: json, markdown, html, text')
+      .isIn(['json', 'markdown', 'html', 'text', 'csv'])
+      .withMessage('Format must be one of: json, markdown, html, text, csv')
   ],
   handleValidationErrors,
   batchScrapeController.downloadBatchZip.bind(batchScrapeController)
@@ -135,6 +174,7 @@ router.get(
 router.get(
   '/scrape/:batchId/download/json',
   apiKeyAuth,
+  requireScope('batch'),
   batchIdValidation,
   handleValidationErrors,
   batchScrapeController.downloadBatchJson.bind(batchScrapeController)
@@ -147,6 +187,7 @@ router.get(
 router.get(
   '/scrape/:batchId/download/:jobId',
   apiKeyAuth,
+  requireScope('batch'),
   [
     ...batchIdValidation,
     param('jobId')
@@ -168,6 +209,7 @@ router.get(
 router.post(
   '/cleanup',
   apiKeyAuth,
+  requireScope('admin'),
   cleanupValidation,
   handleValidationErrors,
   batchScrapeController.cleanup.bind(batchScrapeController)
@@ -0,0 +1,17 @@
+import { Router } from 'express';
+import { getCapture } from '../controllers/capture.controller';
+import { apiKeyAuth, requireScope } from '../middleware/auth.middleware';
+
+const router = Router();
+
+// Apply API key authentication to all routes
+router.use(apiKeyAuth);
+
+/**
+ * @route   GET /api/captures/:filename
+ * @desc    Download a screenshot or PDF stored in the export directory
+ * @access  Private (API Key with the scrape scope required)
+ */
+router.get('/:filename', requireScope('scrape'), getCapture);
+
+export default router;
@@ -1,18 +1,55 @@
 import { Router } from 'express';
-import { crawl, getCrawlStatus, cancelCrawlJob } from '../controllers/crawler.controller';
-import { apiKeyAuth } from '../middleware/auth.middleware';
+import {
+  crawl,
+  getCrawlStatus,
+  cancelCrawlJob,
+  resumeCrawlJob,
+  streamCrawlEvents
+} from '../controllers/crawler.controller';
+import { body } from 'express-validator';
+import { apiKeyAuth, requireScope, consumeQuota } from '../middleware/auth.middleware';
+import { rateLimit } from '../middleware/rate-limit.middleware';
+import { handleValidationErrors } from '../middleware/validation';
+import { checkBrowserActions } from './scraper';
 
 const router = Router();
 
-// Apply API key authentication to all routes
-router.use(apiKeyAuth);
+// Apply API key authentication to all routes; keys need the crawl scope
+router.use(apiKeyAuth, requireScope('crawl'));
+
+/**
+ * Validation rules for crawl request
+ */
+const crawlValidation = [
+  body('politeness')
+    .optional()
+    .isObject()
+    .withMessage('politeness must be an object'),
+  body('politeness.delayMs')
+    .optional()
+    .isInt({ min: 0, max: 60000 })
+    .withMessage('politeness.delayMs must be an integer between 0 and 60000')
+    .toInt(),
+  body('politeness.burst')
+    .optional()
+    .isInt({ min: 1, max: 10 })
+    .withMessage('politeness.burst must be an integer between 1 and 10')
+    .toInt(),
+  body('politeness.ignoreCrawlDelay')
+    .optional()
+    .isBoolean({ strict: true })
+    .withMessage('politeness.ignoreCrawlDelay must be a boolean'),
+  body('scrapeOptions.actions')
+    .optional()
+    .custom(checkBrowserActions)
+];
 
 /**
  * @route   POST /api/crawl
  * @desc    Initiate a new web crawl
  * @access  Private (API Key required)
  */
-router.post('/', crawl);
+router.post('/', rateLimit('crawl'), consumeQuota, crawlValidation, handleValidationErrors, crawl);
 
 /**
  * @route   GET /api/crawl/:jobId
@@ -21,6 +58,13 @@ router.post('/', crawl);
  */
 router.get('/:jobId', getCrawlStatus);
 
+/**
+ * @route   GET /api/crawl/:jobId/stream
+ * @desc    Stream crawl progress as Server-Sent Events
+ * @access  Private (API Key required)
+ */
+router.get('/:jobId/stream', streamCrawlEvents);
+
 /**
  * @route   DELETE /api/crawl/:jobId
  * @desc    Cancel a running crawl job
@@ -28,4 +72,11 @@ router.get('/:jobId', getCrawlStatus);
  */
 router.delete('/:jobId', cancelCrawlJob);
 
+/**
+ * @route   POST /api/crawl/:jobId/resume
+ * @desc    Resume a crawl from its persisted frontier
+ * @access  Private (API Key required)
+ */
+router.post('/:jobId/resume', rateLimit('crawl'), consumeQuota, resumeCrawlJob);
+
 export default router; 
\ No newline at end of file
@@ -61,12 +61,59 @@
  *                 enum: [bfs, dfs, best_first]
  *                 description: The crawling strategy to use (bfs = breadth-first, dfs = depth-first, best_first = prioritized)
  *                 default: bfs
+ *               ignoreSitemap:
+ *                 type: boolean
+ *                 description: Skip seeding the crawl from sitemaps listed in robots.txt and /sitemap.xml
+ *                 default: false
+ *               includeDocuments:
+ *                 type: boolean
+ *                 description: Follow links to PDF, Word, Excel and PowerPoint files and export them as markdown like any other page
+ *                 default: false
+ *               politeness:
+ *                 type: object
+ *                 description: Per-host request pacing shared by all workers
+ *                 properties:
+ *                   delayMs:
+ *                     type: integer
+ *                     description: Minimum time between requests to the same host (defaults to POLITENESS_DELAY_MS)
+ *                   burst:
+ *                     type: integer
+ *                     description: Requests allowed back to back before delaying
+ *                   ignoreCrawlDelay:
+ *                     type: boolean
+ *                     description: Ignore the Crawl-delay directive from robots.txt
+ *                     default: false
+ *               previousCrawlId:
+ *                 type: string
+ *                 description: ID of an earlier crawl to diff against; only new or modified pages are exported, plus a change manifest
  *               scrapeOptions:
  *                 type: object
  *                 description: Options for the scraper
+ *                 properties:
+ *                   sessionId:
+ *                     type: string
+ *                     description: Scrape every page logged in as a session created with POST /api/sessions
  *               webhook:
- *                 type: string
- *                 description: URL to call when crawl is complete
+ *                 oneOf:
+ *                   - type: string
+ *                     description: URL to notify
+ *                   - type: object
+ *                     properties:
+ *                       url:
+ *                         type: string
+ *                       events:
+ *                         type: array
+ *                         items:
+ *                           type: string
+ *                         description: Event filter (crawl.started, crawl.page, crawl.page.failed, crawl.completed, crawl.failed; wildcards like "*.failed")
+ *                       secret:
+ *                         type: string
+ *                         description: HMAC-SHA256 signing secret (defaults to WEBHOOK_SECRET)
+ *                       headers:
+ *                         type: object
+ *                       metadata:
+ *                         type: object
+ *                 description: Webhook notified of crawl events with signed, retried deliveries
  *           example:
  *             url: https://example.com
  *             includePaths: [".*"]
@@ -0,0 +1,13 @@
+import { Router } from 'express';
+import { getMetrics } from '../controllers/metrics.controller';
+
+const router = Router();
+
+/**
+ * @route   GET /metrics
+ * @desc    Prometheus metrics for scraping, cache, queues and LLM calls
+ * @access  Bearer METRICS_TOKEN or an API key with admin scope (public when METRICS_PUBLIC=true)
+ */
+router.get('/', getMetrics);
+
+export default router;
@@ -2,9 +2,11 @@ import { Router, Request, Response } from 'express';
 import { z } from 'zod';
 import scraperManager from '../../scraper/scraper-manager';
 import { logger } from '../../utils/logger';
-import { apiKeyAuth as auth } from '../middleware/auth.middleware';
+import { apiKeyAuth as auth, requireScope, consumeQuota } from '../middleware/auth.middleware';
 import { validateRequest } from '../middleware/validation';
+import { rateLimit } from '../middleware/rate-limit.middleware';
 import { ExtractionResult } from '../../types/schema';
+import { SCRAPE_FORMATS, BROWSER_ACTION_TYPES, BrowserAction, BrowserActionType } from '../../types';
 
 // Extended ScraperResponse interface to include extraction results
 interface ExtendedScraperResponse {
@@ -32,14 +34,93 @@ interface ExtendedScraperResponse {
 
 const router = Router();
 
-// Browser action schema
-const browserActionSchema = z.object({
-  type: z.enum(['click', 'scroll', 'wait', 'fill', 'select']),
+// Fields each browser action type can't do without
+const REQUIRED_ACTION_FIELDS: Partial<Record<BrowserActionType, Array<keyof BrowserAction>>> = {
+  press: ['key'],
+  hover: ['selector'],
+  waitForFunction: ['script'],
+  evaluate: ['script'],
+  setViewport: ['viewport'],
+  if: ['selector'],
+  repeat: ['actions'],
+  forEach: ['selector']
+};
+
+// How many levels deep if, repeat and forEach actions may nest
+const MAX_ACTION_DEPTH = 3;
+
+// Child actions of an action at `depth`; at the deepest level there can be none
+const nestedActionsSchema = (depth: number) => depth < MAX_ACTION_DEPTH
+  ? z.array(buildBrowserActionSchema(depth + 1)).max(50).optional()
+  : z.undefined({ errorMap: () => ({ message: `actions can be nested at most ${MAX_ACTION_DEPTH} levels deep` }) });
+
+// Browser action schema for actions at `depth` (1 for the top level)
+const buildBrowserActionSchema = (depth: number): z.ZodType<BrowserAction> => z.object({
+  type: z.enum(BROWSER_ACTION_TYPES),
+  name: z.string().max(100).optional(),
   selector: z.string().optional(),
   value: z.string().optional(),
   position: z.number().optional(),
-  timeout: z.number().optional(),
-  optional: z.boolean().optional()
+  timeout: z.number().int().positive().max(300000).optional(),
+  optional: z.boolean().optional(),
+  key: z.string().min(1).optional(),
+  script: z.string().min(1).max(100000).optional(),
+  url: z.string().min(1).optional(),
+  waitUntil: z.enum(['load', 'domcontentloaded', 'networkidle', 'commit']).optional(),
+  idleTime: z.number().int().positive().max(60000).optional(),
+  maxScrolls: z.number().int().positive().max(500).optional(),
+  count: z.number().int().positive().optional(),
+  fullPage: z.boolean().optional(),
+  viewport: z.object({
+    width: z.number().int().min(320).max(7680),
+    height: z.number().int().min(240).max(4320)
+  }).optional(),
+  state: z.enum(['exists', 'visible']).optional(),
+  actions: nestedActionsSchema(depth),
+  elseActions: nestedActionsSchema(depth),
+  maxIterations: z.number().int().positive().max(500).optional(),
+  captureHtml: z.boolean().optional()
+}).superRefine((action, ctx) => {
+  for (const field of REQUIRED_ACTION_FIELDS[action.type] ?? []) {
+    if (action[field] === undefined) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `${field} is required for ${action.type} actions`,
+        path: [field]
+      });
+    }
+  }
+});
+
+// Browser action schema; if, repeat and forEach actions nest further actions
+export const browserActionSchema = buildBrowserActionSchema(1);
+
+/**
+ * express-validator check for the browser actions of routes that don't validate with zod
+ */
+export const checkBrowserActions = (value: unknown): true => {
+  const result = z.array(browserActionSchema).safeParse(value);
+  if (!result.success) {
+    const [issue] = result.error.errors;
+    throw new Error(`actions.${issue.path.join('.')}: ${issue.message}`);
+  }
+  return true;
+};
+
+// Screenshot and PDF capture schema
+const captureOptionsSchema = z.object({
+  viewport: z.object({
+    width: z.number().int().min(320).max(7680),
+    height: z.number().int().min(240).max(4320)
+  }).optional(),
+  fullPage: z.boolean().optional(),
+  selector: z.string().min(1).optional(),
+  imageFormat: z.enum(['png', 'jpeg']).optional(),
+  quality: z.number().int().min(0).max(100).optional(),
+  storage: z.enum(['base64', 'file']).optional()
+}).refine(capture => capture.quality === undefined || capture.imageFormat === 'jpeg', {
+  message: 'quality only applies to jpeg screenshots',
+  path: ['quality']
 });
 
 /**
@@ -50,6 +131,9 @@ const browserActionSchema = z.object({
 router.post(
   '/scrape',
   auth,
+  requireScope('scrape'),
+  rateLimit('scrape'),
+  consumeQuota,
   validateRequest(
     z.object({
       url: z.string().url(),
@@ -60,6 +144,10 @@ router.post(
         skipCache: z.boolean().optional(),
         cacheTtl: z.number().int().positive().optional(),
         extractorFormat: z.enum(['html', 'markdown', 'text']).optional(),
+        formats: z.array(z.enum(SCRAPE_FORMATS)).nonempty().optional(),
+        fullPage: z.boolean().optional(),
+        capture: captureOptionsSchema.optional(),
+        sessionId: z.string().uuid().optional(),
       }).optional()
     })
   ),
@@ -70,7 +158,10 @@ router.post(
       logger.info(`API request received to scrape URL: ${url}`);
       const startTime = Date.now();
       
-      const response = await scraperManager.scrape(url, options);
+      const response = await scraperManager.scrape(url, {
+        ...options,
+        usageContext: { apiKeyId: res.locals.apiKeyId, route: 'scrape' }
+      });
       const processingTime = Date.now() - startTime;
       
       if (response.error) {
@@ -92,6 +183,13 @@ router.post(
         title: response.title ?? "",
         content: response.content,
         contentType: response.contentType,
+        markdown: response.markdown,
+        html: response.html,
+        rawHtml: response.rawHtml,
+        text: response.text,
+        ...(options.formats?.includes('links') && { links: response.links ?? [] }),
+        ...(response.tables && { tables: response.tables }),
+        ...(response.captures && { captures: response.captures }),
         metadata: {
           ...response.metadata,
           processingTime
@@ -117,6 +215,9 @@ router.post(
 router.post(
   '/extract-schema',
   auth,
+  requireScope('extract'),
+  rateLimit('extract'),
+  consumeQuota,
   validateRequest(
     z.object({
       url: z.string().url(),
@@ -130,7 +231,15 @@ router.post(
         extractorFormat: z.enum(['html', 'markdown', 'text']).optional(),
         temperature: z.number().min(0).max(2).optional(),
         maxTokens: z.number().int().positive().optional(),
-        instructions: z.string().optional()
+        instructions: z.string().optional(),
+        chunking: z.object({
+          mode: z.enum(['truncate', 'map-reduce', 'auto']).optional(),
+          chunkTokens: z.number().int().min(500).optional(),
+          maxChunks: z.number().int().positive().max(100).optional(),
+          concurrency: z.number().int().positive().max(10).optional(),
+          maxContentTokens: z.number().int().positive().optional()
+        }).optional(),
+        maxRepairAttempts: z.number().int().min(0).max(5).optional()
       }).optional()
     })
   ),
@@ -150,8 +259,11 @@ router.post(
           instructions: options.instructions,
           temperature: options.temperature,
           maxTokens: options.maxTokens,
-          extractionType: 'structured'
-        }
+          extractionType: 'structured',
+          chunking: options.chunking,
+          maxRepairAttempts: options.maxRepairAttempts
+        },
+        usageContext: { apiKeyId: res.locals.apiKeyId, route: 'extract-schema' }
       };
       
       const response = await scraperManager.scrape(url, scrapingOptions);
@@ -215,6 +327,12 @@ router.post(
         title: extendedResponse.title,
         extractedData: responseData,
         contentType: 'markdown',  // Specify content type as markdown
+        extractionResult: extendedResponse.extractionResult && {
+          success: extendedResponse.extractionResult.success,
+          error: extendedResponse.extractionResult.error,
+          validation: extendedResponse.extractionResult.validation,
+          metadata: extendedResponse.extractionResult.metadata
+        },
         metadata: {
           ...extendedResponse.metadata,
           processingTime
@@ -349,6 +467,9 @@ function formatResponseAsMarkdown(
 router.post(
   '/summarize',
   auth,
+  requireScope('extract'),
+  rateLimit('extract'),
+  consumeQuota,
   validateRequest(
     z.object({
       url: z.string().url(),
@@ -381,7 +502,8 @@ router.post(
           temperature: options.temperature ?? 0.3,
           maxTokens: maxLength * 2, // Approximation for token limit
           extractionType: 'summarize'
-        }
+        },
+        usageContext: { apiKeyId: res.locals.apiKeyId, route: 'summarize' }
       };
       
       const response = await scraperManager.scrape(url, scrapingOptions);
@@ -460,6 +582,7 @@ router.post(
 router.delete(
   '/cache',
   auth,
+  requireScope('admin'),
   validateRequest(
     z.object({
       url: z.string().optional() // If provided, invalidate only this URL
@@ -0,0 +1,68 @@
+import { Router } from 'express';
+import { param } from 'express-validator';
+import { z } from 'zod';
+import { createSession, getSession, refreshSession, deleteSession } from '../controllers/session.controller';
+import { apiKeyAuth, requireScope, consumeQuota } from '../middleware/auth.middleware';
+import { rateLimit } from '../middleware/rate-limit.middleware';
+import { handleValidationErrors, validateRequest } from '../middleware/validation';
+import { browserActionSchema } from './scraper';
+
+const router = Router();
+
+// Sessions are used by scrapes, so managing them needs the scrape scope
+router.use(apiKeyAuth, requireScope('scrape'));
+
+/**
+ * Validation rules for creating a session
+ */
+const createSessionSchema = z.object({
+  loginUrl: z.string().url(),
+  actions: z.array(browserActionSchema).min(1).max(50),
+  loginSelector: z.string().min(1).max(500).optional(),
+  name: z.string().trim().min(1).max(100).optional(),
+  ttlSeconds: z.number().int().min(60).max(2592000).optional(),
+  options: z.object({
+    userAgent: z.string().max(500).optional(),
+    headers: z.record(z.string()).optional(),
+    timeout: z.number().int().min(1000).max(300000).optional()
+  }).optional()
+});
+
+/**
+ * Validation rules for session ID parameter
+ */
+const sessionIdValidation = [
+  param('sessionId')
+    .isUUID()
+    .withMessage('Session ID must be a valid UUID')
+];
+
+/**
+ * @route   POST /api/sessions
+ * @desc    Run a login flow and store the logged-in session (body: loginUrl, actions, loginSelector, name, ttlSeconds, options)
+ * @access  Private (API Key with the scrape scope required)
+ */
+router.post('/', rateLimit('scrape'), consumeQuota, validateRequest(createSessionSchema), createSession);
+
+/**
+ * @route   GET /api/sessions/:sessionId
+ * @desc    Get a session (never its credentials or cookies)
+ * @access  Private (API Key with the scrape scope required)
+ */
+router.get('/:sessionId', sessionIdValidation, handleValidationErrors, getSession);
+
+/**
+ * @route   POST /api/sessions/:sessionId/refresh
+ * @desc    Run the session's login flow again
+ * @access  Private (API Key with the scrape scope required)
+ */
+router.post('/:sessionId/refresh', rateLimit('scrape'), consumeQuota, sessionIdValidation, handleValidationErrors, refreshSession);
+
+/**
+ * @route   DELETE /api/sessions/:sessionId
+ * @desc    Delete a session and its stored cookies
+ * @access  Private (API Key with the scrape scope required)
+ */
+router.delete('/:sessionId', sessionIdValidation, handleValidationErrors, deleteSession);
+
+export default router;
@@ -0,0 +1,24 @@
+import { Router } from 'express';
+import { getUsageReport, getScrapeUsage } from '../controllers/usage.controller';
+import { apiKeyAuth } from '../middleware/auth.middleware';
+
+const router = Router();
+
+// Apply API key authentication to all routes
+router.use(apiKeyAuth);
+
+/**
+ * @route   GET /api/usage
+ * @desc    LLM token usage and cost report (query: from, to, groupBy, apiKeyId)
+ * @access  Private (API Key required; non-admin keys see only their own usage)
+ */
+router.get('/', getUsageReport);
+
+/**
+ * @route   GET /api/usage/scrapes/:scrapeId
+ * @desc    LLM token usage and cost of a single scrape
+ * @access  Private (API Key required; non-admin keys see only their own usage)
+ */
+router.get('/scrapes/:scrapeId', getScrapeUsage);
+
+export default router;
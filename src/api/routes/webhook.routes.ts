@@ -0,0 +1,31 @@
+import { Router } from 'express';
+import { getWebhookDeliveries, getWebhookDelivery, redeliverWebhook } from '../controllers/webhook.controller';
+import { apiKeyAuth, requireScope } from '../middleware/auth.middleware';
+
+const router = Router();
+
+// Apply API key authentication to all routes; the delivery log spans every key, so admin only
+router.use(apiKeyAuth, requireScope('admin'));
+
+/**
+ * @route   GET /api/webhooks/deliveries
+ * @desc    List webhook deliveries (query: limit, offset, status, event)
+ * @access  Private (API Key with admin scope)
+ */
+router.get('/deliveries', getWebhookDeliveries);
+
+/**
+ * @route   GET /api/webhooks/deliveries/:deliveryId
+ * @desc    Get a webhook delivery and its attempts
+ * @access  Private (API Key with admin scope)
+ */
+router.get('/deliveries/:deliveryId', getWebhookDelivery);
+
+/**
+ * @route   POST /api/webhooks/deliveries/:deliveryId/redeliver
+ * @desc    Send a failed webhook delivery once more
+ * @access  Private (API Key with admin scope)
+ */
+router.post('/deliveries/:deliveryId/redeliver', redeliverWebhook);
+
+export default router;
@@ -8,8 +8,17 @@ import path from 'path';
 import scraperRoutes from './api/routes/scraper';
 import crawlerRoutes from './api/routes/crawler.routes';
 import batchScrapeRoutes from './api/routes/batch-scrape.routes';
+import webhookRoutes from './api/routes/webhook.routes';
+import usageRoutes from './api/routes/usage.routes';
+import apiKeyRoutes from './api/routes/api-key.routes';
+import metricsRoutes from './api/routes/metrics.routes';
+import captureRoutes from './api/routes/capture.routes';
+import sessionRoutes from './api/routes/session.routes';
 import { logger } from './utils/logger';
 import { initQueue, initializeWorker, closeQueue } from './services/queue.service';
+import { crawlEventsService } from './services/crawl-events.service';
+import { webhookService } from './services/webhook.service';
+import { browserPool } from './services/browser-pool.service';
 
 // Load environment variables
 dotenv.config();
@@ -37,6 +46,7 @@ app.use(helmet()); // Security headers
 const corsOptions = {
   origin: process.env.ALLOWED_ORIGINS?.split(',') || false, // Set to specific origins in production
   credentials: true,
+  exposedHeaders: ['RateLimit-Limit', 'RateLimit-Remaining', 'RateLimit-Reset', 'RateLimit-Policy', 'Retry-After'],
   optionsSuccessStatus: 200
 };
 app.use(cors(corsOptions)); // CORS support with security settings
@@ -48,6 +58,14 @@ app.use(morgan('combined', { stream: accessLogStream })); // HTTP request loggin
 app.use('/api', scraperRoutes);
 app.use('/api/crawl', crawlerRoutes);
 app.use('/api/batch', batchScrapeRoutes);
+app.use('/api/webhooks', webhookRoutes);
+app.use('/api/usage', usageRoutes);
+app.use('/api/keys', apiKeyRoutes);
+app.use('/api/captures', captureRoutes);
+app.use('/api/sessions', sessionRoutes);
+
+// Prometheus metrics
+app.use('/metrics', metricsRoutes);
 
 // Health check endpoint
 app.get('/health', (req, res) => {
@@ -55,7 +73,7 @@ app.get('/health', (req, res) => {
 });
 
 // Error handling middleware
-app.use((err: Error, req: express.Request, res: express.Response, next: express.NextFunction) => {
+app.use((err: Error, req: express.Request, res: express.Response, _next: express.NextFunction) => {
   logger.error(`Unhandled error: ${err.message}`);
   res.status(500).json({
     success: false,
@@ -80,12 +98,18 @@ async function initializeCrawlQueue() {
     // Start worker to process crawl jobs
     initializeWorker();
     
+    // Start worker to deliver webhooks
+    webhookService.initializeWorker();
+    
     logger.info('Crawl queue and worker initialized successfully');
     
     // Graceful shutdown
     const shutdown = async () => {
       logger.info('Shutting down enhanced queue service...');
       await closeQueue();
+      await crawlEventsService.close();
+      await webhookService.close();
+      await browserPool.close();
       process.exit(0);
     };
     
@@ -1,10 +1,28 @@
 import { Job } from 'bullmq';
 import { logger } from '../utils/logger';
 import { WebCrawler } from './crawler';
-import { getCrawl, markCrawlFinished, addCrawlJobs, addExportedFile } from '../services/redis.service';
+import {
+  getCrawl,
+  markCrawlFinished,
+  addExportedFile,
+  lockCrawlUrls,
+  getCrawlVisitedCount,
+  addFrontierEntries,
+  markFrontierInFlight,
+  markFrontierDone,
+  getPendingFrontierEntries,
+  getPageFingerprint,
+  savePageFingerprint
+} from '../services/redis.service';
 import { ScraperManager } from './scraper-manager';
 import { fileExportService } from '../services/file-export.service';
-import axios from 'axios';
+import { politenessService } from '../services/politeness.service';
+import { changeDetectionService } from '../services/change-detection.service';
+import { crawlEventsService } from '../services/crawl-events.service';
+import { UrlNormalizationService } from '../services/url-normalization.service';
+import { FrontierEntry, PageChangeStatus, PageFingerprint, SitemapEntry, StoredCrawl } from '../types/crawler';
+import { webhookService } from '../services/webhook.service';
+import { WebhookEventType } from '../types/webhook';
 
 // Type for the queue function to break circular dependency
 type AddJobsToQueueFn = (crawlId: string, jobsData: any[]) => Promise<string[]>;
@@ -23,7 +41,7 @@ export function setAddJobsToQueueFn(fn: AddJobsToQueueFn): void {
  * Process a crawl job
  */
 export async function processCrawlJob(job: Job): Promise<any> {
-  const { url, mode, scrapeOptions, webhook, crawlId } = job.data;
+  const { url, mode, scrapeOptions, crawlId, sitemap, depth } = job.data;
   
   try {
     logger.info(`Processing ${mode} job for crawl ${crawlId}`, { url, crawlId, jobId: job.id });
@@ -31,10 +49,29 @@ export async function processCrawlJob(job: Job): Promise<any> {
     // Handle different job modes
     if (mode === 'kickoff') {
       // This is the initial job that starts the crawl
-      return await handleCrawlKickoff(crawlId, url, scrapeOptions);
+      const result = await handleCrawlKickoff(crawlId, url, scrapeOptions);
+      await notifyCrawlWebhook(crawlId, 'crawl.started', {
+        url,
+        discoveredCount: result.discoveredCount,
+        sitemapCount: result.sitemapCount,
+        strategy: result.strategy,
+        outputDirectory: result.outputDirectory
+      });
+      return result;
     } else if (mode === 'page') {
       // This is a job to scrape a specific page
-      return await handlePageScrape(url, scrapeOptions, crawlId);
+      await markFrontierInFlight(crawlId, url);
+      const result = await handlePageScrape(url, scrapeOptions, crawlId, depth ?? 1, sitemap);
+      await markFrontierDone(crawlId, url);
+      await notifyCrawlWebhook(crawlId, 'crawl.page', {
+        url,
+        title: result.title,
+        status: result.metadata?.status,
+        changeStatus: result.changeStatus,
+        depth: depth ?? 1,
+        discoveredCount: result.discoveredCount
+      });
+      return result;
     } else {
       throw new Error(`Unknown job mode: ${mode}`);
     }
@@ -46,24 +83,57 @@ export async function processCrawlJob(job: Job): Promise<any> {
       await markCrawlFinished(crawlId);
     }
     
-    // Send webhook if configured
-    if (webhook) {
-      try {
-        await axios.post(webhook, {
-          success: false,
-          crawlId,
-          url,
-          error: error.message
-        });
-      } catch (webhookError) {
-        logger.error('Failed to send webhook notification', { error: webhookError, webhook });
+    // Only report failures once BullMQ has no retries left
+    const isFinalAttempt = job.attemptsMade + 1 >= (job.opts.attempts ?? 1);
+    if (isFinalAttempt) {
+      if (mode === 'page') {
+        // Page URLs leave the frontier once their last retry has failed
+        await markFrontierDone(crawlId, url);
       }
+      
+      await notifyCrawlWebhook(crawlId, mode === 'kickoff' ? 'crawl.failed' : 'crawl.page.failed', {
+        url,
+        error: error.message,
+        attempts: job.attemptsMade + 1
+      });
     }
     
     throw error;
   }
 }
 
+/**
+ * Re-enqueue the queued and in-flight URLs of a crawl from its persisted frontier
+ * @returns Number of page jobs added back to the queue
+ */
+export async function resumeCrawl(crawlId: string): Promise<number> {
+  const crawl: StoredCrawl | null = await getCrawl(crawlId);
+  if (!crawl) {
+    throw new Error(`Crawl ${crawlId} not found`);
+  }
+  
+  const entries = await getPendingFrontierEntries(crawlId);
+  if (entries.length === 0) {
+    return 0;
+  }
+  
+  // Rebuild the crawler so priorities follow the stored strategy
+  const crawler = createCrawlerFromStoredCrawl(crawlId, crawl, false);
+  const jobsData = entries.map(entry => ({
+    ...buildPageJobData(entry.url, entry.depth, crawler, crawl, crawl.scrapeOptions ?? {}),
+    ...(entry.sitemap && { sitemap: entry.sitemap })
+  }));
+  
+  await enqueuePageJobs(crawlId, jobsData);
+  
+  logger.info(`Crawl ${crawlId} resumed with ${jobsData.length} pending URLs`, {
+    crawlId,
+    strategy: crawler.getStrategy()
+  });
+  
+  return jobsData.length;
+}
+
 /**
  * Handle the kickoff job that starts a crawl
  */
@@ -75,34 +145,7 @@ async function handleCrawlKickoff(crawlId: string, url: string, scrapeOptions: a
   }
   
   // Initialize the crawler with strategy if specified
-  const crawler = new WebCrawler({
-    jobId: crawlId,
-    initialUrl: url,
-    baseUrl: new URL(url).origin,
-    includes: crawl.crawlerOptions.includePaths,
-    excludes: crawl.crawlerOptions.excludePaths,
-    maxCrawledLinks: crawl.crawlerOptions.limit,
-    limit: crawl.crawlerOptions.limit,
-    maxCrawledDepth: crawl.crawlerOptions.maxDepth,
-    allowBackwardCrawling: crawl.crawlerOptions.allowBackwardCrawling,
-    allowExternalContentLinks: crawl.crawlerOptions.allowExternalContentLinks,
-    allowSubdomains: crawl.crawlerOptions.allowSubdomains,
-    ignoreRobotsTxt: crawl.crawlerOptions.ignoreRobotsTxt,
-    regexOnFullURL: crawl.crawlerOptions.regexOnFullURL,
-    // Use the strategy from the crawl options if available
-    strategy: crawl.crawlerOptions.strategy,
-    // Setup hooks if needed - for now we'll just use the default empty object
-    hooks: {},
-    // Use browser-based crawling if specified
-    useBrowser: crawl.crawlerOptions.useBrowser ?? false,
-    // Enable URL deduplication by default
-    deduplicateSimilarUrls: true
-  });
-  
-  // Import robots.txt if it was previously fetched
-  if (crawl.robots) {
-    crawler.importRobotsTxt(crawl.robots);
-  }
+  const crawler = createCrawlerFromStoredCrawl(crawlId, crawl, crawl.crawlerOptions.useBrowser ?? false);
   
   logger.info(`Starting crawl with strategy: ${crawler.getStrategy()}`, { 
     crawlId, 
@@ -111,6 +154,8 @@ async function handleCrawlKickoff(crawlId: string, url: string, scrapeOptions: a
     useBrowser: crawl.crawlerOptions.useBrowser ?? false
   });
   
+  const limit = crawl.crawlerOptions.limit ?? 100;
+  const maxDepth = crawl.crawlerOptions.maxDepth ?? 5;
   let filteredLinks: string[] = [];
   
   // If using browser, use browser-based URL discovery
@@ -119,10 +164,7 @@ async function handleCrawlKickoff(crawlId: string, url: string, scrapeOptions: a
     
     // Use browser-based discovery
     try {
-      filteredLinks = await crawler.discoverUrlsWithBrowser(
-        crawl.crawlerOptions.maxDepth ?? 5,
-        crawl.crawlerOptions.limit ?? 100
-      );
+      filteredLinks = await crawler.discoverUrlsWithBrowser(maxDepth, limit);
       
       logger.info(`Browser-based discovery completed for ${url}. Found ${filteredLinks.length} URLs`, {
         crawlId,
@@ -137,15 +179,20 @@ async function handleCrawlKickoff(crawlId: string, url: string, scrapeOptions: a
       
       // Fallback to regular crawling on error
       logger.info(`Falling back to regular crawling for ${url}`);
+      await waitForHostSlot(url, crawl, crawler);
       const result = await crawler.crawlPage(url, scrapeOptions.skipTlsVerification);
       filteredLinks = crawler.filterLinks(
         result.links, 
-        crawl.crawlerOptions.limit ?? 100, 
-        crawl.crawlerOptions.maxDepth ?? 5
+        limit, 
+        maxDepth
       );
+    } finally {
+      // Hand the discovery browser context back to the pool
+      await crawler.close();
     }
   } else {
     // Use regular crawling
+    await waitForHostSlot(url, crawl, crawler);
     const { links } = await crawler.crawlPage(
       url, 
       scrapeOptions.skipTlsVerification
@@ -154,43 +201,44 @@ async function handleCrawlKickoff(crawlId: string, url: string, scrapeOptions: a
     // Filter links based on crawler options
     filteredLinks = crawler.filterLinks(
       links, 
-      crawl.crawlerOptions.limit ?? 100, 
-      crawl.crawlerOptions.maxDepth ?? 5
+      limit, 
+      maxDepth
     );
   }
   
-  // Create jobs for each discovered URL
-  const jobsData = filteredLinks.map(link => ({
-    url: link,
-    mode: 'page',
-    scrapeOptions: {
-      ...scrapeOptions,
-      // Ensure extractorFormat is set to markdown for consistent processing
-      extractorFormat: scrapeOptions.extractorFormat ?? 'markdown',
-      // If we're using browser mode, pass that to each page job
-      useBrowser: crawl.crawlerOptions.useBrowser ?? false
-    }
-  }));
+  // Seed the crawl with sitemap URLs that link discovery may never reach
+  const sitemapEntries = crawl.crawlerOptions.ignoreSitemap
+    ? new Map<string, SitemapEntry>()
+    : await getSitemapSeeds(crawler, crawl, scrapeOptions);
+  filteredLinks = mergeSeedLinks(filteredLinks, [...sitemapEntries.keys()], limit);
   
-  // Add jobs to the queue using injected function
-  if (!addJobsToQueueFn) {
-    throw new Error('Queue function not initialized. Call setAddJobsToQueueFn first.');
-  }
-  const jobIds = await addJobsToQueueFn(crawlId, jobsData);
+  // Claim the start page and discovered URLs in the shared visited set
+  filteredLinks = await claimUrls(crawlId, [url, ...filteredLinks], limit);
   
-  // Track jobs in Redis
-  await addCrawlJobs(crawlId, jobIds);
+  // The start page is scraped like any other page, at depth 0
+  const jobsData = filteredLinks.map(link => {
+    const isStartPage = UrlNormalizationService.normalizeUrl(link) === UrlNormalizationService.normalizeUrl(url);
+    const sitemapEntry = sitemapEntries.get(UrlNormalizationService.normalizeUrl(link));
+    return {
+      ...buildPageJobData(link, isStartPage ? 0 : 1, crawler, crawl, scrapeOptions),
+      ...(sitemapEntry && {
+        sitemap: {
+          lastmod: sitemapEntry.lastmod,
+          priority: sitemapEntry.priority
+        }
+      })
+    };
+  });
   
-  // Ensure to close browser if we used it
-  if (crawl.crawlerOptions.useBrowser) {
-    await crawler.close();
-  }
+  // Add jobs to the frontier and the queue
+  await enqueuePageJobs(crawlId, jobsData);
   
   // Log crawl initiation for summary tracking
   logger.info(`Crawl ${crawlId} initiated - discovered ${filteredLinks.length} URLs to process`, {
     crawlId,
     initialUrl: url,
     discoveredCount: filteredLinks.length,
+    sitemapCount: sitemapEntries.size,
     strategy: crawler.getStrategy(),
     usedBrowser: crawl.crawlerOptions.useBrowser ?? false,
     outputDir: fileExportService.getCrawlOutputDir(crawlId)
@@ -201,12 +249,249 @@ async function handleCrawlKickoff(crawlId: string, url: string, scrapeOptions: a
     url,
     links: filteredLinks,
     discoveredCount: filteredLinks.length,
+    sitemapCount: sitemapEntries.size,
     strategy: crawler.getStrategy(),
     usedBrowser: crawl.crawlerOptions.useBrowser ?? false,
     outputDirectory: fileExportService.getCrawlOutputDir(crawlId)
   };
 }
 
+/**
+ * Build a WebCrawler configured from the stored crawl options
+ */
+function createCrawlerFromStoredCrawl(crawlId: string, crawl: StoredCrawl, useBrowser: boolean): WebCrawler {
+  const crawler = new WebCrawler({
+    jobId: crawlId,
+    initialUrl: crawl.originUrl,
+    baseUrl: new URL(crawl.originUrl).origin,
+    includes: crawl.crawlerOptions.includePaths,
+    excludes: crawl.crawlerOptions.excludePaths,
+    maxCrawledLinks: crawl.crawlerOptions.limit,
+    limit: crawl.crawlerOptions.limit,
+    maxCrawledDepth: crawl.crawlerOptions.maxDepth,
+    allowBackwardCrawling: crawl.crawlerOptions.allowBackwardCrawling,
+    allowExternalContentLinks: crawl.crawlerOptions.allowExternalContentLinks,
+    allowSubdomains: crawl.crawlerOptions.allowSubdomains,
+    ignoreRobotsTxt: crawl.crawlerOptions.ignoreRobotsTxt,
+    regexOnFullURL: crawl.crawlerOptions.regexOnFullURL,
+    // Use the strategy from the crawl options if available
+    strategy: crawl.crawlerOptions.strategy,
+    // Setup hooks if needed - for now we'll just use the default empty object
+    hooks: {},
+    // Use browser-based crawling if specified
+    useBrowser,
+    includeDocuments: crawl.crawlerOptions.includeDocuments,
+    // Enable URL deduplication by default
+    deduplicateSimilarUrls: true
+  });
+  
+  // Import robots.txt if it was previously fetched
+  if (crawl.robots) {
+    crawler.importRobotsTxt(crawl.robots);
+  }
+  
+  return crawler;
+}
+
+/**
+ * Build the job data for a page job, prioritized by the crawl strategy
+ */
+function buildPageJobData(
+  link: string,
+  depth: number,
+  crawler: WebCrawler,
+  crawl: StoredCrawl,
+  scrapeOptions: any
+): any {
+  return {
+    url: link,
+    mode: 'page',
+    depth,
+    priority: crawler.getQueuePriority(link, depth),
+    scrapeOptions: {
+      ...scrapeOptions,
+      // Ensure extractorFormat is set to markdown for consistent processing
+      extractorFormat: scrapeOptions.extractorFormat ?? 'markdown',
+      // If we're using browser mode, pass that to each page job
+      useBrowser: crawl.crawlerOptions.useBrowser ?? false
+    }
+  };
+}
+
+/**
+ * Wait for the per-host politeness bucket, honoring robots.txt Crawl-delay
+ */
+async function waitForHostSlot(url: string, crawl: StoredCrawl, crawler: WebCrawler): Promise<void> {
+  const politeness = crawl.crawlerOptions.politeness ?? {};
+  
+  await politenessService.acquire(url, {
+    delayMs: politeness.delayMs,
+    burst: politeness.burst,
+    crawlDelaySeconds: politeness.ignoreCrawlDelay ? undefined : crawler.getCrawlDelay()
+  });
+}
+
+/**
+ * Queue a webhook event for the crawl, if it has a webhook subscribed to it
+ */
+async function notifyCrawlWebhook(
+  crawlId: string,
+  event: WebhookEventType,
+  data: Record<string, any>
+): Promise<void> {
+  try {
+    const crawl: StoredCrawl | null = await getCrawl(crawlId);
+    if (crawl?.webhook) {
+      await webhookService.dispatch(crawl.webhook, event, { crawlId, ...data });
+    }
+  } catch (error) {
+    logger.error(`Failed to queue ${event} webhook for crawl ${crawlId}`, { error });
+  }
+}
+
+/**
+ * Record page jobs in the crawl frontier, then add them to the queue
+ */
+async function enqueuePageJobs(crawlId: string, jobsData: any[]): Promise<void> {
+  if (!addJobsToQueueFn) {
+    throw new Error('Queue function not initialized. Call setAddJobsToQueueFn first.');
+  }
+  
+  const entries: FrontierEntry[] = jobsData.map(data => ({
+    url: data.url,
+    depth: data.depth,
+    priority: data.priority,
+    ...(data.sitemap && { sitemap: data.sitemap })
+  }));
+  
+  await addFrontierEntries(crawlId, entries);
+  await addJobsToQueueFn(crawlId, jobsData);
+}
+
+/**
+ * Claim links in the crawl's shared visited set
+ * @returns Links no other job has claimed yet, within the crawl limit
+ */
+async function claimUrls(crawlId: string, links: string[], limit: number): Promise<string[]> {
+  const linksByUrl = new Map<string, string>();
+  for (const link of links) {
+    const normalizedLink = UrlNormalizationService.normalizeUrl(link);
+    if (!linksByUrl.has(normalizedLink)) {
+      linksByUrl.set(normalizedLink, link);
+    }
+  }
+  
+  const claimed = await lockCrawlUrls(crawlId, [...linksByUrl.keys()], limit);
+  return claimed.map(normalizedLink => linksByUrl.get(normalizedLink) ?? normalizedLink);
+}
+
+/**
+ * Filter links found on a crawled page and enqueue the new ones one level deeper
+ * @returns The links that were enqueued
+ */
+async function enqueueDiscoveredLinks(
+  crawlId: string,
+  links: string[],
+  depth: number,
+  scrapeOptions: any
+): Promise<string[]> {
+  if (links.length === 0) return [];
+  
+  const crawl: StoredCrawl | null = await getCrawl(crawlId);
+  if (!crawl || crawl.cancelled) return [];
+  
+  const limit = crawl.crawlerOptions.limit ?? 100;
+  const maxDepth = crawl.crawlerOptions.maxDepth ?? 5;
+  
+  if (depth >= maxDepth) {
+    logger.debug(`Crawl ${crawlId}: max depth ${maxDepth} reached, not following links`, { depth });
+    return [];
+  }
+  
+  if (await getCrawlVisitedCount(crawlId) >= limit) {
+    logger.debug(`Crawl ${crawlId}: limit ${limit} reached, not following links`);
+    return [];
+  }
+  
+  // Page jobs only need the filtering rules, never a browser
+  const crawler = createCrawlerFromStoredCrawl(crawlId, crawl, false);
+  const candidates = crawler.filterLinks(links, limit, maxDepth);
+  const newLinks = await claimUrls(crawlId, candidates, limit);
+  
+  if (newLinks.length === 0) return [];
+  
+  await enqueuePageJobs(
+    crawlId,
+    newLinks.map(link => buildPageJobData(link, depth + 1, crawler, crawl, scrapeOptions))
+  );
+  
+  for (const link of newLinks) {
+    crawlEventsService.publish(crawlId, 'url-discovered', { url: link, depth: depth + 1 });
+  }
+  
+  logger.info(`Crawl ${crawlId}: enqueued ${newLinks.length} new URLs at depth ${depth + 1}`, {
+    crawlId,
+    strategy: crawler.getStrategy()
+  });
+  
+  return newLinks;
+}
+
+/**
+ * Fetch sitemap entries and filter them with the crawler's rules
+ * @returns Map of normalized URL to its sitemap entry
+ */
+async function getSitemapSeeds(
+  crawler: WebCrawler,
+  crawl: StoredCrawl,
+  scrapeOptions: any
+): Promise<Map<string, SitemapEntry>> {
+  const seeds = new Map<string, SitemapEntry>();
+  
+  try {
+    const entries = await crawler.tryGetSitemap(scrapeOptions.skipTlsVerification ?? false);
+    const entriesByUrl = new Map(entries.map(entry => [entry.url, entry]));
+    
+    const allowedUrls = crawler.filterLinks(
+      entries.map(entry => entry.url),
+      crawl.crawlerOptions.limit ?? 100,
+      crawl.crawlerOptions.maxDepth ?? 5,
+      true
+    );
+    
+    for (const url of allowedUrls) {
+      const entry = entriesByUrl.get(url);
+      if (entry) {
+        seeds.set(url, entry);
+      }
+    }
+  } catch (error) {
+    logger.warn(`Sitemap discovery failed for ${crawl.originUrl}, continuing with link discovery`, { error });
+  }
+  
+  return seeds;
+}
+
+/**
+ * Merge discovered links with sitemap links, deduplicating by normalized URL
+ */
+function mergeSeedLinks(discoveredLinks: string[], sitemapLinks: string[], limit: number): string[] {
+  const seen = new Set<string>();
+  const merged: string[] = [];
+  
+  for (const link of [...discoveredLinks, ...sitemapLinks]) {
+    const normalizedLink = UrlNormalizationService.normalizeUrl(link);
+    if (seen.has(normalizedLink)) continue;
+    
+    seen.add(normalizedLink);
+    merged.push(link);
+    
+    if (merged.length >= limit) break;
+  }
+  
+  return merged;
+}
+
 /**
  * Build enhanced scraping options based on input options and browser usage
  */
@@ -244,15 +529,18 @@ function extractOriginalHtml(result: any): string | null {
 
 /**
  * Export page content to file and track it
+ * @returns Path of the exported file, if one was written
  */
 async function exportPageContent(
   url: string, 
   result: any, 
   crawlId: string, 
-  useBrowser: boolean
-): Promise<void> {
+  useBrowser: boolean,
+  changeStatus: PageChangeStatus,
+  sitemap?: Omit<SitemapEntry, 'url'>
+): Promise<string | undefined> {
   if (!result.content || result.contentType !== 'markdown') {
-    return;
+    return undefined;
   }
 
   try {
@@ -267,40 +555,55 @@ async function exportPageContent(
         loadTime: result.metadata?.loadTime,
         usedBrowser: useBrowser,
         processingTime: result.metadata?.processingTime,
-        timestamp: new Date().toISOString()
+        timestamp: new Date().toISOString(),
+        changeStatus,
+        ...(sitemap && { sitemap })
       }
     );
     
     await addExportedFile(crawlId, exportedFilePath);
+    crawlEventsService.publish(crawlId, 'page-exported', { url, file: exportedFilePath, changeStatus });
     
     logger.info(`Page exported to file: ${exportedFilePath}`, { 
       url, 
       crawlId,
       contentLength: result.content.length 
     });
+    
+    return exportedFilePath;
   } catch (exportError) {
     logger.error(`Failed to export page to file: ${url}`, { 
       error: exportError, 
       crawlId 
     });
+    return undefined;
   }
 }
 
 /**
  * Build the response object for scraped page
  */
-function buildPageScrapeResponse(result: any, originalHtml: string | null, useBrowser: boolean): any {
+function buildPageScrapeResponse(
+  result: any,
+  originalHtml: string | null,
+  useBrowser: boolean,
+  discoveredLinks: string[],
+  changeStatus: PageChangeStatus,
+  sitemap?: Omit<SitemapEntry, 'url'>
+): any {
   const baseResponse = {
     url: result.url,
     title: result.title,
     html: originalHtml,
     content: result.content,
     contentType: result.contentType,
-    links: [],
-    discoveredCount: 0,
+    changeStatus,
+    links: discoveredLinks,
+    discoveredCount: discoveredLinks.length,
     metadata: {
       ...result.metadata,
-      usedBrowser: useBrowser
+      usedBrowser: useBrowser,
+      ...(sitemap && { sitemap })
     }
   };
 
@@ -310,17 +613,84 @@ function buildPageScrapeResponse(result: any, originalHtml: string | null, useBr
   };
 }
 
+/**
+ * Handle a page the server reports as not modified since the previous crawl
+ * Nothing is exported; links remembered from the previous crawl are still followed
+ */
+async function handleUnchangedPage(
+  url: string,
+  crawlId: string,
+  depth: number,
+  scrapeOptions: any,
+  previous: PageFingerprint,
+  sitemap?: Omit<SitemapEntry, 'url'>
+): Promise<any> {
+  logger.info(`Crawl ${crawlId}: ${url} not modified since previous crawl, skipping scrape`);
+  
+  const discoveredLinks = await enqueueDiscoveredLinks(crawlId, previous.links ?? [], depth, scrapeOptions);
+  
+  await savePageFingerprint(crawlId, { ...previous, url, status: 'unchanged' });
+  
+  const result = {
+    url,
+    title: previous.title ?? '',
+    content: '',
+    contentType: 'markdown',
+    metadata: {
+      timestamp: new Date().toISOString(),
+      status: 304,
+      headers: {}
+    }
+  };
+  
+  return buildPageScrapeResponse(result, null, false, discoveredLinks, 'unchanged', sitemap);
+}
+
 /**
  * Handle scraping of an individual page during crawling
  */
-async function handlePageScrape(url: string, scrapeOptions: any, crawlId: string): Promise<any> {
+async function handlePageScrape(
+  url: string,
+  scrapeOptions: any,
+  crawlId: string,
+  depth: number,
+  sitemap?: Omit<SitemapEntry, 'url'>
+): Promise<any> {
   const scraperManager = new ScraperManager();
   const useBrowser = scrapeOptions.useBrowser === true;
   
   logger.info(`Crawl ${crawlId}: Scraping page ${url} using ${useBrowser ? 'browser-based' : 'standard'} approach`);
   
   const enhancedOptions = buildEnhancedScrapeOptions(scrapeOptions, useBrowser);
-  const result = await scraperManager.scrape(url, enhancedOptions);
+  
+  // Share the host's request budget with every other worker
+  const crawl: StoredCrawl | null = await getCrawl(crawlId);
+  if (crawl) {
+    await waitForHostSlot(url, crawl, createCrawlerFromStoredCrawl(crawlId, crawl, false));
+  }
+  
+  // For incremental re-crawls, ask the server whether the page changed at all. Without
+  // validators from the previous crawl it can't answer "not modified", so don't ask
+  const previousCrawlId = crawl?.previousCrawlId;
+  const previous = previousCrawlId ? await getPageFingerprint(previousCrawlId, url) : null;
+  let validators: { etag?: string; lastModified?: string } = {};
+  if (previous?.etag || previous?.lastModified) {
+    const check = await changeDetectionService.checkNotModified(
+      url,
+      previous ?? undefined,
+      scrapeOptions.skipTlsVerification ?? false
+    );
+    if (check.notModified && previous) {
+      return await handleUnchangedPage(url, crawlId, depth, scrapeOptions, previous, sitemap);
+    }
+    validators = { etag: check.etag, lastModified: check.lastModified };
+  }
+  
+  // Each page gets its own manager, so hand its browser context back once the page is done
+  const result = await scraperManager.scrape(url, {
+    ...enhancedOptions,
+    usageContext: { crawlId, apiKeyId: crawl?.apiKeyId }
+  }).finally(() => scraperManager.close());
   
   logger.info(`Crawl ${crawlId}: Completed scraping page ${url}`, {
     contentLength: result.content?.length ?? 0,
@@ -333,7 +703,37 @@ async function handlePageScrape(url: string, scrapeOptions: any, crawlId: string
   
   logger.info(`Returning content for ${url}, type: ${result.contentType}, length: ${result.content?.length ?? 0}`);
   
-  await exportPageContent(url, result, crawlId, useBrowser);
+  // A failed scrape says nothing about the page: nothing is exported, and what the previous
+  // crawl saw is carried forward so the page isn't reported as removed. The job fails, so the
+  // page is retried and, after its last attempt, reported as failed rather than crawled
+  if (result.error) {
+    if (previous) {
+      await savePageFingerprint(crawlId, { ...previous, url, status: 'error' });
+    }
+    throw new Error(`Failed to scrape ${url}: ${result.error}`);
+  }
+  
+  // Compare the cleaned content with the previous crawl; only changed pages are exported
+  const contentHash = changeDetectionService.hashContent(result.content ?? '');
+  const changeStatus = previousCrawlId ? changeDetectionService.classify(previous, contentHash) : 'new';
+  const exportedFile = changeStatus === 'unchanged'
+    ? previous?.exportedFile
+    : await exportPageContent(url, result, crawlId, useBrowser, changeStatus, sitemap);
   
-  return buildPageScrapeResponse(result, originalHtml, useBrowser);
-} 
\ No newline at end of file
+  // Follow links found on the page until the crawl's limit or max depth is hit
+  const discoveredLinks = await enqueueDiscoveredLinks(crawlId, result.links ?? [], depth, scrapeOptions);
+  
+  const headerValidators = changeDetectionService.getValidators(result.metadata?.headers);
+  await savePageFingerprint(crawlId, {
+    url,
+    title: result.title,
+    contentHash,
+    etag: validators.etag ?? headerValidators.etag,
+    lastModified: validators.lastModified ?? headerValidators.lastModified,
+    links: result.links ?? [],
+    status: changeStatus,
+    exportedFile
+  });
+  
+  return buildPageScrapeResponse(result, originalHtml, useBrowser, discoveredLinks, changeStatus, sitemap);
+}
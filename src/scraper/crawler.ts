@@ -4,9 +4,12 @@ import { URL } from "url";
 import robotsParser, { Robot } from "robots-parser";
 import https from "https";
 import { logger } from "../utils/logger";
-import { CrawlStrategy, CrawlerHooks, CrawlerOptions } from "../types/crawler";
+import { CrawlStrategy, CrawlerHooks, CrawlerOptions, SitemapEntry } from "../types/crawler";
 import { PlaywrightService, PlaywrightOptions } from "../services/playwright.service";
 import { UrlNormalizationService } from "../services/url-normalization.service";
+import { getEntriesFromSitemap } from "./sitemap";
+import { detectDocumentType } from "../transformers/document-parser";
+import { crawlEventsService } from "../services/crawl-events.service";
 
 export class WebCrawler {
   private readonly jobId: string;
@@ -39,6 +42,7 @@ export class WebCrawler {
   private readonly urlScores: Map<string, number> = new Map();
   private playwrightService: PlaywrightService | null = null;
   private useBrowser: boolean = false;
+  private readonly includeDocuments: boolean;
   private readonly urlNormalizationService = UrlNormalizationService;
 
   constructor({
@@ -61,6 +65,7 @@ export class WebCrawler {
     currentDiscoveryDepth,
     useBrowser = false,
     deduplicateSimilarUrls = true,
+    includeDocuments = false,
   }: CrawlerOptions) {
     this.jobId = jobId;
     this.initialUrl = initialUrl;
@@ -84,19 +89,30 @@ export class WebCrawler {
     this.hooks = hooks;
     this.useBrowser = useBrowser;
     this.deduplicateSimilarUrls = deduplicateSimilarUrls;
+    this.includeDocuments = includeDocuments ?? false;
 
     // Initialize PlaywrightService if browser mode is enabled
     if (this.useBrowser) {
-      this.playwrightService = new PlaywrightService();
-      this.playwrightService.on('url-discovered', (data) => {
-        logger.info(`Discovered URL: ${data.url} (Total: ${data.totalDiscovered})`);
-      });
-      this.playwrightService.on('url-crawled', (data) => {
-        logger.info(`Crawled URL: ${data.url} (Total: ${data.totalCrawled})`);
-      });
+      this.playwrightService = this.createPlaywrightService();
     }
   }
 
+  /**
+   * Create a PlaywrightService whose discovery events are logged and published to crawl streams
+   */
+  private createPlaywrightService(): PlaywrightService {
+    const playwrightService = new PlaywrightService();
+    playwrightService.on('url-discovered', (data) => {
+      logger.info(`Discovered URL: ${data.url} (Total: ${data.totalDiscovered})`);
+      crawlEventsService.publish(this.jobId, 'url-discovered', data);
+    });
+    playwrightService.on('url-crawled', (data) => {
+      logger.info(`Crawled URL: ${data.url} (Total: ${data.totalCrawled})`);
+      crawlEventsService.publish(this.jobId, 'url-crawled', data);
+    });
+    return playwrightService;
+  }
+
   /**
    * Check if link matches exclude patterns
    */
@@ -227,6 +243,11 @@ export class WebCrawler {
   }
 
   private isFile(url: string): boolean {
+    // PDF and Office documents are scraped as markdown when the crawl asks for them
+    if (this.includeDocuments && detectDocumentType(undefined, url)) {
+      return false;
+    }
+
     const fileExtensions = [
       '.pdf', '.doc', '.docx', '.xls', '.xlsx', '.ppt', '.pptx',
       '.zip', '.rar', '.tar', '.gz', '.jpg', '.jpeg', '.png', '.gif',
@@ -355,6 +376,72 @@ export class WebCrawler {
     this.robots = robotsParser(this.robotsTxtUrl, txt);
   }
 
+  /**
+   * Get the Crawl-delay (in seconds) robots.txt asks of us, if any
+   */
+  public getCrawlDelay(): number | undefined {
+    if (this.ignoreRobotsTxt) {
+      return undefined;
+    }
+    return this.robots.getCrawlDelay("DeepScrapeCrawler");
+  }
+
+  /**
+   * Collect candidate sitemap URLs from robots.txt and the default location
+   */
+  private getSitemapUrls(): string[] {
+    const sitemapUrls = new Set<string>();
+
+    try {
+      for (const sitemapUrl of this.robots.getSitemaps()) {
+        sitemapUrls.add(sitemapUrl);
+      }
+    } catch (error) {
+      this.logger.debug(`Error reading sitemaps from robots.txt: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    if (this.initialUrl.endsWith("sitemap.xml")) {
+      sitemapUrls.add(this.initialUrl);
+    }
+    sitemapUrls.add(`${this.baseUrl}${this.baseUrl.endsWith("/") ? "" : "/"}sitemap.xml`);
+
+    return [...sitemapUrls];
+  }
+
+  /**
+   * Discover page URLs from the site's sitemaps
+   * Reads `Sitemap:` lines from robots.txt plus /sitemap.xml, expanding
+   * sitemap indexes and gzipped sitemaps
+   * @returns Sitemap entries with lastmod/priority when the sitemap provides them
+   */
+  public async tryGetSitemap(skipTlsVerification = false, abort?: AbortSignal): Promise<SitemapEntry[]> {
+    const entries = new Map<string, SitemapEntry>();
+
+    for (const sitemapUrl of this.getSitemapUrls()) {
+      if (entries.size >= this.limit) break;
+
+      const sitemapEntries = await getEntriesFromSitemap(sitemapUrl, this.sitemapsHit, {
+        skipTlsVerification,
+        abort,
+        maxEntries: this.limit - entries.size,
+      });
+
+      for (const entry of sitemapEntries) {
+        const normalizedUrl = this.urlNormalizationService.normalizeUrl(entry.url);
+        if (!entries.has(normalizedUrl)) {
+          entries.set(normalizedUrl, { ...entry, url: normalizedUrl });
+        }
+      }
+    }
+
+    this.logger.info(`Found ${entries.size} URLs in sitemaps for ${this.baseUrl}`, {
+      jobId: this.jobId,
+      sitemapsHit: this.sitemapsHit.size
+    });
+
+    return [...entries.values()];
+  }
+
   public async extractLinksFromHtml(html: string, baseUrl: string): Promise<string[]> {
     try {
       const $ = load(html);
@@ -439,7 +526,7 @@ export class WebCrawler {
    */
   private async initializePlaywrightService(options: PlaywrightOptions): Promise<void> {
     if (!this.playwrightService) {
-      this.playwrightService = new PlaywrightService();
+      this.playwrightService = this.createPlaywrightService();
       await this.playwrightService.initialize(options);
     }
   }
@@ -621,6 +708,25 @@ export class WebCrawler {
     }
   }
 
+  /**
+   * Map a URL to a BullMQ job priority for the crawl strategy (lower runs first)
+   * @param url URL to prioritize
+   * @param depth Link depth from the start URL
+   */
+  public getQueuePriority(url: string, depth: number): number {
+    switch (this.strategy) {
+      case CrawlStrategy.DFS:
+        return Math.max(1, 1000 - depth);
+
+      case CrawlStrategy.BEST_FIRST:
+        return Math.max(1, 500 - this.calculateUrlScore(url));
+
+      case CrawlStrategy.BFS:
+      default:
+        return depth + 1;
+    }
+  }
+
   /**
    * Get the current crawling strategy
    * @returns The strategy name as a string
@@ -642,7 +748,7 @@ export class WebCrawler {
     }
 
     // Initialize PlaywrightService if not already initialized
-    this.playwrightService ??= new PlaywrightService();
+    this.playwrightService ??= this.createPlaywrightService();
 
     // Configure playwright options for discovery
     const playwrightOptions: PlaywrightOptions = {
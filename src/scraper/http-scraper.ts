@@ -1,11 +1,17 @@
 import axios from 'axios';
-import { ScraperOptions, ScraperResponse } from '../types';
+import { DocumentType, ScraperOptions, ScraperResponse } from '../types';
+import { SessionStorageState } from '../types/session';
+import { DocumentParser, detectDocumentType } from '../transformers/document-parser';
 import { logger } from '../utils/logger';
 
 /**
  * Simple HTTP-based scraper using axios (fallback when Playwright fails)
+ * PDF and Office documents are converted to markdown instead of being read as HTML
  */
 export class HttpScraper {
+  private readonly documentParser = new DocumentParser();
+  private readonly maxDocumentSize = parseInt(process.env.DOCUMENT_MAX_SIZE_MB ?? '50') * 1024 * 1024;
+
   /**
    * Scrape a URL using HTTP requests
    */
@@ -22,21 +28,34 @@ export class HttpScraper {
         timeout,
         headers: {
           'User-Agent': userAgent,
-          'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
+          'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,application/pdf;q=0.8,image/webp,*/*;q=0.8',
           'Accept-Language': 'en-US,en;q=0.5',
           'Accept-Encoding': 'gzip, deflate',
           'Connection': 'keep-alive',
           'Upgrade-Insecure-Requests': '1',
+          ...(options.storageState && { Cookie: this.getSessionCookies(url, options.storageState) }),
           ...options.headers
         },
         maxRedirects: 5,
+        maxContentLength: this.maxDocumentSize,
+        // Read the raw bytes so documents can be told apart from HTML
+        responseType: 'arraybuffer',
         validateStatus: (status) => status < 400
       });
       
       const loadTime = Date.now() - startTime;
+      const body = Buffer.from(response.data);
+      const contentType = String(response.headers['content-type'] ?? '');
+      
+      const documentType = detectDocumentType(contentType, url, body);
+      if (documentType) {
+        return await this.scrapeDocument(url, body, documentType, contentType, response.status, response.headers as Record<string, string>, loadTime);
+      }
+      
+      const html = body.toString('utf-8');
       
       // Extract title from HTML
-      const titleMatch = response.data.match(/<title[^>]*>([^<]+)<\/title>/i);
+      const titleMatch = html.match(/<title[^>]*>([^<]+)<\/title>/i);
       const title = titleMatch ? titleMatch[1].trim() : '';
       
       logger.info(`HTTP scraping completed for ${url} in ${loadTime}ms`);
@@ -44,7 +63,7 @@ export class HttpScraper {
       return {
         url,
         title,
-        content: response.data,
+        content: html,
         contentType: 'html',
         metadata: {
           timestamp: new Date().toISOString(),
@@ -70,4 +89,61 @@ export class HttpScraper {
       };
     }
   }
-} 
\ No newline at end of file
+
+  /**
+   * Convert a downloaded PDF or Office document to markdown
+   */
+  private async scrapeDocument(
+    url: string,
+    body: Buffer,
+    documentType: DocumentType,
+    contentType: string,
+    status: number,
+    headers: Record<string, string>,
+    loadTime: number
+  ): Promise<ScraperResponse> {
+    const document = await this.documentParser.parse(body, documentType, url);
+    
+    logger.info(`HTTP scraping completed for ${documentType} document ${url} in ${loadTime}ms`);
+    
+    return {
+      url,
+      title: document.title,
+      content: document.markdown,
+      contentType: 'markdown',
+      metadata: {
+        timestamp: new Date().toISOString(),
+        status,
+        headers,
+        loadTime,
+        document: {
+          type: documentType,
+          contentType,
+          size: body.length,
+          pages: document.pages,
+          author: document.author
+        }
+      }
+    };
+  }
+
+  /**
+   * Cookie header with the session cookies a browser would send to this URL
+   */
+  private getSessionCookies(url: string, storageState: SessionStorageState): string {
+    const { hostname, pathname, protocol } = new URL(url);
+    const now = Date.now() / 1000;
+
+    return storageState.cookies
+      .filter(cookie => {
+        const domain = cookie.domain.replace(/^\./, '');
+        const domainMatches = hostname === domain || (cookie.domain.startsWith('.') && hostname.endsWith(`.${domain}`));
+        return domainMatches
+          && pathname.startsWith(cookie.path)
+          && (!cookie.secure || protocol === 'https:')
+          && (cookie.expires === -1 || cookie.expires > now);
+      })
+      .map(cookie => `${cookie.name}=${cookie.value}`)
+      .join('; ');
+  }
+}
@@ -1,8 +1,45 @@
-import { chromium, Browser, Page } from 'playwright';
+import { LaunchOptions, Page, Request } from 'playwright';
 import { randomBytes } from 'crypto';
 import { logger } from '../utils/logger';
-import { ScraperOptions, BrowserAction, ScraperResponse, AD_SERVING_DOMAINS } from '../types';
+import { ScraperOptions, BrowserAction, BrowserActionType, ActionResult, ActionIteration, ScraperResponse, AD_SERVING_DOMAINS } from '../types';
+import { SessionStorageState } from '../types/session';
 import { PlaywrightService, PlaywrightOptions } from '../services/playwright.service';
+import { browserPool, BrowserLease } from '../services/browser-pool.service';
+
+// How long waiting actions may take when they don't set a timeout (ms)
+const DEFAULT_ACTION_TIMEOUT = 30000;
+// Largest JSON an evaluate action may return
+const MAX_EVALUATE_RESULT_BYTES = parseInt(process.env.BROWSER_ACTION_MAX_RESULT_KB ?? '256') * 1024;
+// Passes a repeat or forEach action makes when it doesn't set maxIterations
+const DEFAULT_MAX_ITERATIONS = 20;
+// Most actions one flow may run, counting every pass of repeat and forEach actions
+const MAX_TOTAL_ACTIONS = parseInt(process.env.BROWSER_ACTION_MAX_TOTAL ?? '1000');
+// How long one flow may run before no further action is started (ms)
+const ACTION_FLOW_TIMEOUT = parseInt(process.env.BROWSER_ACTION_FLOW_TIMEOUT_MS ?? '300000');
+// Actions that target the current forEach element when they have no selector
+const ELEMENT_ACTIONS: BrowserActionType[] = ['click', 'hover', 'screenshot'];
+
+// What a single action produced, before it is reported
+type ActionOutput = Partial<Pick<ActionResult, 'result' | 'url' | 'scrolls' | 'matches' | 'condition' | 'actions' | 'iterations'>> & {
+  screenshot?: Buffer;
+};
+
+// Where actions run: the forEach element their selectors are relative to, the screenshots taken so far,
+// and the flow's budget of actions and time, shared by nested actions
+interface ActionContext {
+  scope?: string;
+  screenshots: Array<{ result: ActionResult; data: Buffer }>;
+  budget: { executed: number; deadline: number };
+}
+
+function createActionContext(): ActionContext {
+  return { screenshots: [], budget: { executed: 0, deadline: Date.now() + ACTION_FLOW_TIMEOUT } };
+}
+
+interface ActionResults {
+  actionResults: ActionResult[];
+  actionScreenshots: ActionContext['screenshots'];
+}
 
 /**
  * Browser-based scraper using Playwright
@@ -41,29 +78,13 @@ export class PlaywrightScraper {
   }
 
   /**
-   * Build browser launch options
+   * Build browser launch options on top of the pool defaults
    */
-  private buildLaunchOptions(options: ScraperOptions, isEcommerce: boolean): any {
-    const launchOptions: any = {
+  private buildLaunchOptions(options: ScraperOptions, isEcommerce: boolean): LaunchOptions {
+    return {
       headless: !isEcommerce, // Use non-headless for e-commerce to bypass bot detection
-      executablePath: process.env.PLAYWRIGHT_EXECUTABLE_PATH ?? process.env.PUPPETEER_EXECUTABLE_PATH ?? undefined,
-      args: [
-        '--no-sandbox',
-        '--disable-setuid-sandbox',
-        '--disable-dev-shm-usage',
-        '--disable-accelerated-2d-canvas',
-        '--no-first-run',
-        '--no-zygote',
-        '--disable-gpu'
-      ],
       ...options.puppeteerLaunchOptions
     };
-
-    if (process.env.PLAYWRIGHT_CHROMIUM_EXECUTABLE_PATH) {
-      launchOptions.executablePath = process.env.PLAYWRIGHT_CHROMIUM_EXECUTABLE_PATH;
-    }
-
-    return launchOptions;
   }
 
   /**
@@ -126,7 +147,7 @@ export class PlaywrightScraper {
   /**
    * Handle post-navigation actions and waits
    */
-  private async handlePostNavigation(page: any, url: string, options: ScraperOptions, isAmazon: boolean, timeout: number): Promise<void> {
+  private async handlePostNavigation(page: any, url: string, options: ScraperOptions, isAmazon: boolean, timeout: number): Promise<ActionResults | undefined> {
     // Wait for selector if provided
     if (options.waitForSelector) {
       logger.info(`Waiting for selector: ${options.waitForSelector}`);
@@ -153,8 +174,11 @@ export class PlaywrightScraper {
     // Execute actions
     if (options.actions && options.actions.length > 0) {
       logger.info(`Executing ${options.actions.length} actions`);
-      await this.performActions(page, options.actions);
+      const context = createActionContext();
+      const actionResults = await this.performActions(page, options.actions, context);
+      return { actionResults, actionScreenshots: context.screenshots };
     }
+    return undefined;
   }
 
   /**
@@ -166,12 +190,14 @@ export class PlaywrightScraper {
     status: number;
     headers: Record<string, string>;
     screenshot?: Buffer;
+    pdf?: Buffer;
+    captureErrors: string[];
   }> {
     const title = await page.title();
     
     // Get response info
     let status = 0;
-    let headers: Record<string, string> = {};
+    const headers: Record<string, string> = {};
     try {
       const responseInfo = await page.evaluate(() => {
         const perf = window.performance.getEntriesByType('navigation')[0] as any;
@@ -190,13 +216,54 @@ export class PlaywrightScraper {
       await this.extractAmazonProductData(page) : 
       await page.content();
     
-    // Take screenshot if requested
-    let screenshot;
-    if (options.fullPage) {
-      screenshot = await page.screenshot({ fullPage: true, type: 'png' });
-    }
+    const { screenshot, pdf, captureErrors } = await this.captureFormats(page, options);
     
-    return { title, content, status, headers, screenshot };
+    return { title, content, status, headers, screenshot, pdf, captureErrors };
+  }
+
+  /**
+   * Take the screenshot and PDF requested through `formats`
+   *
+   * A failed capture is reported rather than failing the scrape, since the
+   * page content is still usable.
+   */
+  private async captureFormats(page: Page, options: ScraperOptions): Promise<{
+    screenshot?: Buffer;
+    pdf?: Buffer;
+    captureErrors: string[];
+  }> {
+    const capture = options.capture ?? {};
+    // Without formats, the legacy fullPage flag still asks for a full-page screenshot
+    const wantsScreenshot = options.formats ? options.formats.includes('screenshot') : options.fullPage === true;
+    const captureErrors: string[] = [];
+    let screenshot: Buffer | undefined;
+    let pdf: Buffer | undefined;
+
+    if (wantsScreenshot) {
+      const type = capture.imageFormat ?? 'png';
+      const imageOptions = { type, quality: type === 'jpeg' ? capture.quality : undefined };
+      try {
+        screenshot = capture.selector
+          ? await page.locator(capture.selector).first().screenshot({ ...imageOptions, timeout: options.timeout ?? 30000 })
+          : await page.screenshot({ ...imageOptions, fullPage: capture.fullPage ?? options.fullPage ?? false });
+      } catch (error) {
+        logger.warn(`Screenshot failed: ${error instanceof Error ? error.message : String(error)}`);
+        captureErrors.push(`screenshot: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    if (options.formats?.includes('pdf')) {
+      try {
+        // Keep the on-screen layout instead of print styles; only headless Chromium can print
+        await page.emulateMedia({ media: 'screen' });
+        pdf = await page.pdf({ printBackground: true, format: 'A4' });
+      } catch (error) {
+        logger.warn(`PDF capture failed: ${error instanceof Error ? error.message : String(error)}`);
+        captureErrors.push(`pdf: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    return { screenshot, pdf, captureErrors };
   }
 
   /**
@@ -224,38 +291,42 @@ export class PlaywrightScraper {
     const startTime = Date.now();
     
     try {
-      if (options.useBrowser) {
+      // Captures and actions need the page itself and sessions the context, which the PlaywrightService path doesn't expose
+      const wantsCapture = options.formats?.some(format => format === 'screenshot' || format === 'pdf') ?? false;
+      if (options.useBrowser && !wantsCapture && !options.storageState && !options.actions?.length) {
         return await this.scrapeWithPlaywrightService(url, options);
       }
       
       const { isEcommerce, isAmazon } = this.isEcommerceSite(url);
       const { timeout, blockAds, blockResources, userAgent } = this.getDefaultOptions(options);
       
-      let browser: Browser | null = null;
+      let lease: BrowserLease | null = null;
       
       try {
         if (isEcommerce) {
           logger.info('E-commerce site detected, using enhanced anti-bot measures');
         }
         
-        logger.info(`Launching browser with options: ${JSON.stringify(options.puppeteerLaunchOptions ?? {})}`);
-        const launchOptions = this.buildLaunchOptions(options, isEcommerce);
-        
-        browser = await chromium.launch(launchOptions);
-        const context = await browser.newContext({
-          userAgent,
-          viewport: { width: 1920, height: 1080 },
-          ignoreHTTPSErrors: true
+        logger.info(`Leasing browser with options: ${JSON.stringify(options.puppeteerLaunchOptions ?? {})}`);
+        lease = await browserPool.acquire({
+          launchOptions: this.buildLaunchOptions(options, isEcommerce),
+          contextOptions: {
+            userAgent,
+            viewport: options.capture?.viewport ?? { width: 1920, height: 1080 },
+            ignoreHTTPSErrors: true,
+            storageState: options.storageState
+          }
         });
+        const context = lease.context;
         
         await this.setupEcommerceContext(context, isEcommerce);
         
         const page = await context.newPage();
         await this.setupPage(page, options, blockAds, blockResources);
         await this.navigateToUrl(page, url, isAmazon, timeout);
-        await this.handlePostNavigation(page, url, options, isAmazon, timeout);
+        const actions = await this.handlePostNavigation(page, url, options, isAmazon, timeout);
         
-        const { title, content, status, headers, screenshot } = await this.extractPageData(page, url, isAmazon, options);
+        const { title, content, status, headers, screenshot, pdf, captureErrors } = await this.extractPageData(page, url, isAmazon, options);
         
         const loadTime = Date.now() - startTime;
         logger.info(`Page loaded in ${loadTime}ms`);
@@ -269,14 +340,18 @@ export class PlaywrightScraper {
             timestamp: new Date().toISOString(),
             status,
             headers,
-            loadTime
+            loadTime,
+            ...(captureErrors.length > 0 && { captureErrors }),
+            ...(actions && { actionResults: actions.actionResults })
           },
-          screenshot
+          screenshot,
+          pdf,
+          ...(actions && actions.actionScreenshots.length > 0 && { actionScreenshots: actions.actionScreenshots })
         };
       } finally {
-        if (browser) {
-          logger.info('Closing browser');
-          await browser.close();
+        if (lease) {
+          logger.info('Returning browser context to the pool');
+          await lease.release();
         }
       }
     } catch (error) {
@@ -285,6 +360,78 @@ export class PlaywrightScraper {
     }
   }
 
+  /**
+   * Run a login flow and save the logged-in context's cookies and localStorage
+   *
+   * Unlike scrape(), the action that failed is reported in the results,
+   * so callers can tell which step of the flow went wrong.
+   */
+  async login(url: string, actions: BrowserAction[], options: ScraperOptions = {}): Promise<{
+    url: string;
+    content: string;
+    storageState?: SessionStorageState;
+    actionResults: ActionResult[];
+    error?: string;
+  }> {
+    const { timeout, blockAds, userAgent } = this.getDefaultOptions(options);
+    const context = createActionContext();
+    const actionResults: ActionResult[] = [];
+    let lease: BrowserLease | null = null;
+
+    try {
+      lease = await browserPool.acquire({
+        launchOptions: this.buildLaunchOptions(options, false),
+        contextOptions: {
+          userAgent,
+          viewport: { width: 1920, height: 1080 },
+          ignoreHTTPSErrors: true,
+          storageState: options.storageState
+        }
+      });
+
+      const page = await lease.context.newPage();
+      // Login pages often need their scripts and styles to work, so only ads are blocked
+      await this.setupPage(page, options, blockAds, false);
+      await this.navigateToUrl(page, url, false, timeout);
+
+      for (const [index, action] of actions.entries()) {
+        this.spendActionBudget(context);
+        // Run every action as optional so a failure is recorded before the flow stops
+        const result = await this.executeActionSafely(page, { ...action, optional: true }, index, context);
+        actionResults.push(result);
+        if (!result.success && !action.optional) {
+          return { url: page.url(), content: '', actionResults, error: `Login action ${index} (${action.type}) failed: ${result.error}` };
+        }
+      }
+
+      return {
+        url: page.url(),
+        content: await page.content(),
+        storageState: await lease.context.storageState(),
+        actionResults
+      };
+    } catch (error) {
+      logger.error(`Login flow failed for ${url}: ${error instanceof Error ? error.message : String(error)}`);
+      return {
+        url,
+        content: '',
+        actionResults,
+        error: `Login flow error: ${error instanceof Error ? error.message : String(error)}`
+      };
+    } finally {
+      if (lease) {
+        await lease.release();
+      }
+    }
+  }
+
+  /**
+   * Return the PlaywrightService's browser context to the pool
+   */
+  async close(): Promise<void> {
+    await this.playwrightService.close();
+  }
+
   /**
    * Scrape URL using the enhanced PlaywrightService with rate limiting and stealth
    */
@@ -451,10 +598,251 @@ export class PlaywrightScraper {
     }
   }
 
+  /**
+   * Execute a press action, on the focused element or on `selector`
+   */
+  private async executePressAction(page: Page, action: BrowserAction): Promise<void> {
+    if (!action.key) return;
+
+    if (action.selector) {
+      await page.press(action.selector, action.key, { timeout: action.timeout });
+    } else {
+      await page.keyboard.press(action.key);
+    }
+  }
+
+  /**
+   * Execute a hover action
+   */
+  private async executeHoverAction(page: Page, action: BrowserAction): Promise<void> {
+    if (action.selector) {
+      await page.hover(action.selector, { timeout: action.timeout });
+    }
+  }
+
+  /**
+   * Wait for the navigation started by an earlier action, or for the page to reach `url`
+   */
+  private async executeWaitForNavigationAction(page: Page, action: BrowserAction): Promise<ActionOutput> {
+    const waitUntil = action.waitUntil ?? 'load';
+    const timeout = action.timeout ?? DEFAULT_ACTION_TIMEOUT;
+
+    if (action.url) {
+      await page.waitForURL(action.url, { waitUntil, timeout });
+    } else {
+      await page.waitForLoadState(waitUntil === 'commit' ? 'domcontentloaded' : waitUntil, { timeout });
+    }
+    return { url: page.url() };
+  }
+
+  /**
+   * Wait until no request has been in flight for `idleTime` ms
+   *
+   * Unlike the networkidle load state, this also works after the page has loaded,
+   * e.g. for the XHR fired by a "load more" click.
+   */
+  private async executeWaitForNetworkIdleAction(page: Page, action: BrowserAction): Promise<void> {
+    const idleTime = action.idleTime ?? 500;
+    const timeout = action.timeout ?? DEFAULT_ACTION_TIMEOUT;
+    const inFlight = new Set<Request>();
+    const onStart = (request: Request) => inFlight.add(request);
+    const onEnd = (request: Request) => inFlight.delete(request);
+
+    page.on('request', onStart);
+    page.on('requestfinished', onEnd);
+    page.on('requestfailed', onEnd);
+    try {
+      const deadline = Date.now() + timeout;
+      let idleSince = Date.now();
+      while (Date.now() - idleSince < idleTime) {
+        if (Date.now() > deadline) {
+          throw new Error(`Network still busy after ${timeout}ms (${inFlight.size} requests in flight)`);
+        }
+        await page.waitForTimeout(100);
+        if (inFlight.size > 0) {
+          idleSince = Date.now();
+        }
+      }
+    } finally {
+      page.off('request', onStart);
+      page.off('requestfinished', onEnd);
+      page.off('requestfailed', onEnd);
+    }
+  }
+
+  /**
+   * Wait until a script returns a truthy value in the page
+   */
+  private async executeWaitForFunctionAction(page: Page, action: BrowserAction): Promise<void> {
+    if (!action.script) return;
+
+    await page.waitForFunction(
+      `(() => { ${action.script}\n})()`,
+      undefined,
+      { timeout: action.timeout ?? DEFAULT_ACTION_TIMEOUT, polling: 100 }
+    );
+  }
+
+  /**
+   * Run a script in the page and return its result as JSON
+   *
+   * The script is a function body evaluated in the page, never in this process.
+   * Its return value is serialized in the page, so only JSON data comes back,
+   * and the run is bounded by the action timeout and the result by
+   * BROWSER_ACTION_MAX_RESULT_KB.
+   */
+  private async executeEvaluateAction(page: Page, action: BrowserAction): Promise<ActionOutput> {
+    if (!action.script) return {};
+
+    const timeout = action.timeout ?? DEFAULT_ACTION_TIMEOUT;
+    // A string expression is evaluated over the DevTools protocol, so page CSP can't block it
+    const expression = `(async () => {
+      const value = await (async () => { "use strict"; ${action.script}\n})();
+      return JSON.stringify(value === undefined ? null : value);
+    })()`;
+
+    let timer: NodeJS.Timeout | undefined;
+    const timedOut = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error(`Script did not finish within ${timeout}ms`)), timeout);
+    });
+    try {
+      const serialized = await Promise.race([page.evaluate<string>(expression), timedOut]);
+      if (Buffer.byteLength(serialized) > MAX_EVALUATE_RESULT_BYTES) {
+        throw new Error(`Script result exceeds ${MAX_EVALUATE_RESULT_BYTES / 1024}KB`);
+      }
+      return { result: JSON.parse(serialized) };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Take a screenshot of the page, or of the first element matching `selector`, mid-flow
+   */
+  private async executeScreenshotAction(page: Page, action: BrowserAction): Promise<ActionOutput> {
+    const screenshot = action.selector
+      ? await page.locator(action.selector).first().screenshot({ timeout: action.timeout ?? DEFAULT_ACTION_TIMEOUT })
+      : await page.screenshot({ fullPage: action.fullPage ?? false });
+    return { screenshot };
+  }
+
+  /**
+   * Scroll to the bottom until `selector` matches `count` elements (or appears),
+   * the page stops growing, or `maxScrolls` is reached
+   */
+  private async executeScrollUntilAction(page: Page, action: BrowserAction): Promise<ActionOutput> {
+    const maxScrolls = action.maxScrolls ?? 20;
+    const settleTime = action.timeout ?? 1000;
+    const target = action.count ?? 1;
+    const countMatches = async () => action.selector ? page.locator(action.selector).count() : 0;
+
+    let scrolls = 0;
+    let matches = await countMatches();
+    let height = await page.evaluate(() => document.body.scrollHeight);
+
+    while (scrolls < maxScrolls && !(action.selector && matches >= target)) {
+      await page.evaluate(() => window.scrollTo(0, document.body.scrollHeight));
+      scrolls++;
+      await page.waitForTimeout(settleTime);
+
+      matches = await countMatches();
+      const newHeight = await page.evaluate(() => document.body.scrollHeight);
+      if (newHeight <= height) {
+        logger.info(`Page stopped growing after ${scrolls} scrolls`);
+        break;
+      }
+      height = newHeight;
+    }
+
+    return action.selector ? { scrolls, matches } : { scrolls };
+  }
+
+  /**
+   * Execute a setViewport action
+   */
+  private async executeSetViewportAction(page: Page, action: BrowserAction): Promise<void> {
+    if (action.viewport) {
+      await page.setViewportSize(action.viewport);
+    }
+  }
+
+  /**
+   * Whether `selector` matches an element, or a visible one for state 'visible'
+   */
+  private async conditionHolds(page: Page, selector: string, state: BrowserAction['state'] = 'exists'): Promise<boolean> {
+    const locator = state === 'visible' ? page.locator(selector).filter({ visible: true }) : page.locator(selector);
+    return (await locator.count()) > 0;
+  }
+
+  /**
+   * Run `actions` when the condition holds, `elseActions` otherwise
+   */
+  private async executeIfAction(page: Page, action: BrowserAction, context: ActionContext): Promise<ActionOutput> {
+    const condition = action.selector ? await this.conditionHolds(page, action.selector, action.state) : false;
+    const branch = (condition ? action.actions : action.elseActions) ?? [];
+    return { condition, actions: await this.performActions(page, branch, context) };
+  }
+
+  /**
+   * Run `actions` while the condition holds (every time without a selector), up to `maxIterations` times
+   */
+  private async executeRepeatAction(page: Page, action: BrowserAction, context: ActionContext): Promise<ActionOutput> {
+    const maxIterations = action.maxIterations ?? DEFAULT_MAX_ITERATIONS;
+    const iterations: ActionIteration[] = [];
+
+    while (iterations.length < maxIterations) {
+      if (action.selector && !(await this.conditionHolds(page, action.selector, action.state))) {
+        break;
+      }
+      // The page each pass starts from, so the page the last pass leads to is the scrape's content
+      const html = action.captureHtml ? await page.content() : undefined;
+      const actions = await this.performActions(page, action.actions ?? [], context);
+      iterations.push({ index: iterations.length, ...(html !== undefined && { html }), actions });
+    }
+
+    if (iterations.length === maxIterations) {
+      logger.info(`Repeat stopped after reaching ${maxIterations} iterations`);
+    }
+    return { iterations };
+  }
+
+  /**
+   * Run `actions` on each element matching `selector`, then capture the element's HTML
+   *
+   * Elements are counted once up front and addressed by position, so actions that
+   * add or remove matching elements shift the ones still to come.
+   */
+  private async executeForEachAction(page: Page, action: BrowserAction, context: ActionContext): Promise<ActionOutput> {
+    if (!action.selector) return {};
+
+    const count = Math.min(await page.locator(action.selector).count(), action.maxIterations ?? DEFAULT_MAX_ITERATIONS);
+    const iterations: ActionIteration[] = [];
+
+    for (let index = 0; index < count; index++) {
+      const scope = `${action.selector} >> nth=${index}`;
+      const actions = await this.performActions(page, action.actions ?? [], { ...context, scope });
+      const html = await page.locator(scope).evaluate(element => element.outerHTML, undefined, {
+        timeout: action.timeout ?? DEFAULT_ACTION_TIMEOUT
+      });
+      iterations.push({ index, html, actions });
+    }
+    return { iterations };
+  }
+
+  /**
+   * Make a forEach child's selector relative to the current element; click, hover
+   * and screenshot actions without a selector target the element itself
+   */
+  private scopeAction(action: BrowserAction, scope?: string): BrowserAction {
+    if (!scope) return action;
+    if (action.selector) return { ...action, selector: `${scope} >> ${action.selector}` };
+    return ELEMENT_ACTIONS.includes(action.type) ? { ...action, selector: scope } : action;
+  }
+
   /**
    * Execute a single browser action based on its type
    */
-  private async executeSingleAction(page: Page, action: BrowserAction): Promise<void> {
+  private async executeSingleAction(page: Page, action: BrowserAction, context: ActionContext): Promise<ActionOutput> {
     switch (action.type) {
       case 'click':
         await this.executeClickAction(page, action);
@@ -471,33 +859,94 @@ export class PlaywrightScraper {
       case 'select':
         await this.executeSelectAction(page, action);
         break;
+      case 'press':
+        await this.executePressAction(page, action);
+        break;
+      case 'hover':
+        await this.executeHoverAction(page, action);
+        break;
+      case 'waitForNavigation':
+        return this.executeWaitForNavigationAction(page, action);
+      case 'waitForNetworkIdle':
+        await this.executeWaitForNetworkIdleAction(page, action);
+        break;
+      case 'waitForFunction':
+        await this.executeWaitForFunctionAction(page, action);
+        break;
+      case 'evaluate':
+        return this.executeEvaluateAction(page, action);
+      case 'screenshot':
+        return this.executeScreenshotAction(page, action);
+      case 'scrollUntil':
+        return this.executeScrollUntilAction(page, action);
+      case 'setViewport':
+        await this.executeSetViewportAction(page, action);
+        break;
+      case 'if':
+        return this.executeIfAction(page, action, context);
+      case 'repeat':
+        return this.executeRepeatAction(page, action, context);
+      case 'forEach':
+        return this.executeForEachAction(page, action, context);
     }
+    return {};
   }
 
   /**
    * Handle action execution with error handling
    */
-  private async executeActionSafely(page: Page, action: BrowserAction): Promise<void> {
+  private async executeActionSafely(page: Page, action: BrowserAction, index: number, context: ActionContext): Promise<ActionResult> {
+    const startTime = Date.now();
+    const base = { index, type: action.type, ...(action.name && { name: action.name }) };
+    const scopedAction = this.scopeAction(action, context.scope);
     try {
-      logger.info(`Performing action: ${action.type} ${action.selector ?? ''}`);
-      await this.executeSingleAction(page, action);
+      logger.info(`Performing action: ${action.type} ${scopedAction.selector ?? ''}`);
+      const { screenshot, ...output } = await this.executeSingleAction(page, scopedAction, context);
       await page.waitForTimeout(500); // Small delay between actions
+
+      const result: ActionResult = { ...base, success: true, duration: Date.now() - startTime, ...output };
+      if (screenshot) {
+        context.screenshots.push({ result, data: screenshot });
+      }
+      return result;
     } catch (error) {
       if (action.optional) {
-        logger.warn(`Optional action failed: ${action.type} ${action.selector ?? ''} - ${error instanceof Error ? error.message : String(error)}`);
+        logger.warn(`Optional action failed: ${action.type} ${scopedAction.selector ?? ''} - ${error instanceof Error ? error.message : String(error)}`);
+        return {
+          ...base,
+          success: false,
+          duration: Date.now() - startTime,
+          error: error instanceof Error ? error.message : String(error)
+        };
       } else {
         throw error;
       }
     }
   }
 
+  /**
+   * Count an action against the flow's budget, failing the flow once it has run
+   * BROWSER_ACTION_MAX_TOTAL actions or BROWSER_ACTION_FLOW_TIMEOUT_MS has passed
+   */
+  private spendActionBudget(context: ActionContext): void {
+    if (Date.now() > context.budget.deadline) {
+      throw new Error(`Browser actions exceeded the ${ACTION_FLOW_TIMEOUT}ms flow timeout`);
+    }
+    if (++context.budget.executed > MAX_TOTAL_ACTIONS) {
+      throw new Error(`Browser actions exceeded the limit of ${MAX_TOTAL_ACTIONS} actions per flow`);
+    }
+  }
+
   /**
    * Execute a sequence of browser actions
    */
-  private async performActions(page: Page, actions: BrowserAction[]): Promise<void> {
-    for (const action of actions) {
-      await this.executeActionSafely(page, action);
+  private async performActions(page: Page, actions: BrowserAction[], context: ActionContext): Promise<ActionResult[]> {
+    const actionResults: ActionResult[] = [];
+    for (const [index, action] of actions.entries()) {
+      this.spendActionBudget(context);
+      actionResults.push(await this.executeActionSafely(page, action, index, context));
     }
+    return actionResults;
   }
 
   /**
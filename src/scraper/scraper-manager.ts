@@ -1,19 +1,31 @@
-import { ScraperOptions, ScraperResponse } from '../types';
+import { v4 as uuidv4 } from 'uuid';
+import { ScraperOptions, ScraperResponse, ScrapeFormat } from '../types';
 import { PlaywrightScraper } from './playwright-scraper';
 import { HttpScraper } from './http-scraper';
 import { ContentCleaner } from '../transformers/content-cleaner';
 import { HtmlToMarkdownTransformer } from '../transformers/html-to-markdown';
+import { MetadataExtractor } from '../transformers/metadata-extractor';
+import { TableExtractor } from '../transformers/table-extractor';
+import { detectDocumentType } from '../transformers/document-parser';
 import { LLMExtractor } from '../transformers/llm-extractor';
 import { LLMServiceFactory } from '../services/llm-service-factory';
 import { CacheService } from '../services/cache.service';
-import { ExtractionOptions } from '../types/schema';
+import { usageService } from '../services/usage.service';
+import { captureService } from '../services/capture.service';
+import { sessionService } from '../services/session.service';
+import { metrics } from '../services/metrics.service';
+import { ExtractionOptions, ExtractionResult } from '../types/schema';
+import { SessionRecord } from '../types/session';
 import { logger } from '../utils/logger';
+import { extractLinks } from '../utils/html-utils';
 
 export class ScraperManager {
   private readonly playwriteScraper: PlaywrightScraper;
   private readonly httpScraper: HttpScraper;
   private readonly contentCleaner: ContentCleaner;
   private readonly markdownTransformer: HtmlToMarkdownTransformer;
+  private readonly metadataExtractor: MetadataExtractor;
+  private readonly tableExtractor: TableExtractor;
   private llmExtractor: LLMExtractor | null = null;
   private readonly cacheService: CacheService;
 
@@ -22,6 +34,8 @@ export class ScraperManager {
     this.httpScraper = new HttpScraper();
     this.contentCleaner = new ContentCleaner();
     this.markdownTransformer = new HtmlToMarkdownTransformer();
+    this.metadataExtractor = new MetadataExtractor();
+    this.tableExtractor = new TableExtractor();
     
     // Initialize cache service
     this.cacheService = new CacheService({
@@ -42,7 +56,13 @@ export class ScraperManager {
     const cacheableOptions = {
       extractorFormat: options.extractorFormat,
       waitForSelector: options.waitForSelector,
-      actions: options.actions
+      actions: options.actions,
+      // Formats are a set; the order they were asked for in doesn't change the result
+      formats: options.formats ? [...new Set(options.formats)].sort() : undefined,
+      capture: options.capture,
+      fullPage: options.fullPage,
+      // Pages seen through a session are only served from cache to that session
+      sessionId: options.sessionId
     };
     
     return `${url}:${JSON.stringify(cacheableOptions)}`;
@@ -98,6 +118,9 @@ export class ScraperManager {
     const cachedResponse = await this.cacheService.get<ScraperResponse>(cacheKey);
     if (cachedResponse) {
       logger.info(`Retrieved from cache: ${url}`);
+      // A cache hit spends no tokens, so don't report the original scrape's usage again
+      delete cachedResponse.metadata.llmUsage;
+      delete (cachedResponse as ScraperResponse & { extractionResult?: ExtractionResult<unknown> }).extractionResult?.metadata?.llmUsage;
     }
     return cachedResponse;
   }
@@ -106,21 +129,71 @@ export class ScraperManager {
    * Get raw content using scrapers with fallback
    */
   private async getRawContent(url: string, options: ScraperOptions): Promise<ScraperResponse> {
-    let scraperResponse = await this.playwriteScraper.scrape(url, options);
+    const outcome = (response: ScraperResponse) => ({ outcome: response.error ? 'error' : 'success' });
+
+    // Browsers download documents rather than render them, so fetch and parse them directly
+    if (detectDocumentType(undefined, url)) {
+      logger.info(`URL looks like a document, fetching it over HTTP: ${url}`);
+      return metrics.scrapeDuration.time(
+        { scraper: 'http' },
+        () => this.httpScraper.scrape(url, options),
+        outcome
+      );
+    }
+
+    let scraperResponse = await metrics.scrapeDuration.time(
+      { scraper: 'playwright' },
+      () => this.playwriteScraper.scrape(url, options),
+      outcome
+    );
     
     // Try HTTP scraper as fallback if Playwright fails
     if (scraperResponse.error?.includes('browserType.launch')) {
       logger.warn(`Playwright failed, falling back to HTTP scraper: ${scraperResponse.error}`);
-      scraperResponse = await this.httpScraper.scrape(url, options);
+      metrics.browserLaunchFailures.inc();
+      scraperResponse = await metrics.scrapeDuration.time(
+        { scraper: 'http' },
+        () => this.httpScraper.scrape(url, options),
+        outcome
+      );
       
       if (!scraperResponse.error) {
         logger.info('HTTP scraper fallback successful');
       }
+    } else if (scraperResponse.error?.includes('Download is starting')) {
+      // The URL served a file without a document extension; the HTTP scraper sniffs its content type
+      logger.info(`Navigation started a download, fetching over HTTP instead: ${url}`);
+      scraperResponse = await metrics.scrapeDuration.time(
+        { scraper: 'http' },
+        () => this.httpScraper.scrape(url, options),
+        outcome
+      );
     }
     
     return scraperResponse;
   }
 
+  /**
+   * Get raw content logged in as the session. Landing on the session's login page
+   * means it was logged out, so the login flow is run again and the page retried once
+   */
+  private async getRawContentWithSession(url: string, options: ScraperOptions, session: SessionRecord): Promise<ScraperResponse> {
+    const scraperResponse = await this.getRawContent(url, { ...options, storageState: session.storageState });
+    if (scraperResponse.error || scraperResponse.contentType !== 'html' || !sessionService.isLoginPage(session, scraperResponse.content)) {
+      return scraperResponse;
+    }
+
+    logger.info(`Session ${session.id} was logged out, logging in again`);
+    const refreshed = await sessionService.refresh(session.id, options.usageContext?.apiKeyId);
+    if (!refreshed) {
+      return { ...scraperResponse, error: `Session ${session.id} was logged out and logging in again failed` };
+    }
+
+    const retried = await this.getRawContent(url, { ...options, storageState: refreshed.storageState });
+    retried.metadata.sessionRefreshed = true;
+    return retried;
+  }
+
   /**
    * Clean HTML content
    */
@@ -140,17 +213,69 @@ export class ScraperManager {
   private applyContentTransformations(cleanedResponse: ScraperResponse, options: ScraperOptions): ScraperResponse {
     let processedResponse = cleanedResponse;
     
-    logger.info(`Processing response. Content type: ${cleanedResponse.contentType}, Extractor format: ${options.extractorFormat}`);
+    const extractorFormat = this.resolveContentFormat(options);
+    
+    logger.info(`Processing response. Content type: ${cleanedResponse.contentType}, Extractor format: ${extractorFormat}`);
+
+    // Documents are converted to markdown when they are fetched
+    if (cleanedResponse.contentType === 'markdown') {
+      return processedResponse;
+    }
 
-    if (options.extractorFormat === 'markdown') {
+    if (extractorFormat === 'markdown') {
       processedResponse = this.convertToMarkdown(cleanedResponse);
-    } else if (options.extractorFormat === 'text') {
+    } else if (extractorFormat === 'text') {
       processedResponse = this.extractTextOnly(cleanedResponse);
     }
     
     return processedResponse;
   }
 
+  /**
+   * Format of `content`: extractorFormat, else the first of markdown, html and text in `formats`
+   */
+  private resolveContentFormat(options: ScraperOptions): ScraperOptions['extractorFormat'] {
+    if (options.extractorFormat) {
+      return options.extractorFormat;
+    }
+    const contentFormats: ScrapeFormat[] = ['markdown', 'html', 'text'];
+    return contentFormats.find(format => options.formats?.includes(format)) as ScraperOptions['extractorFormat'];
+  }
+
+  /**
+   * Build the markdown, html, rawHtml and text outputs requested through `formats`,
+   * reusing `content` when it already is one of them
+   */
+  private buildFormatOutputs(
+    rawResponse: ScraperResponse,
+    cleanedResponse: ScraperResponse,
+    processedResponse: ScraperResponse,
+    formats: ScrapeFormat[]
+  ): Pick<ScraperResponse, 'markdown' | 'html' | 'rawHtml' | 'text'> {
+    const outputs: Pick<ScraperResponse, 'markdown' | 'html' | 'rawHtml' | 'text'> = {};
+    // Documents have no HTML to return
+    const isHtml = rawResponse.contentType === 'html';
+
+    if (formats.includes('rawHtml') && isHtml) {
+      outputs.rawHtml = rawResponse.content;
+    }
+    if (formats.includes('html') && isHtml) {
+      outputs.html = cleanedResponse.content;
+    }
+    if (formats.includes('markdown')) {
+      outputs.markdown = processedResponse.contentType === 'markdown'
+        ? processedResponse.content
+        : this.convertToMarkdown({ ...cleanedResponse }).content;
+    }
+    if (formats.includes('text')) {
+      outputs.text = processedResponse.contentType === 'text'
+        ? processedResponse.content
+        : this.extractTextOnly(cleanedResponse).content;
+    }
+
+    return outputs;
+  }
+
   /**
    * Convert content to markdown format
    */
@@ -191,6 +316,16 @@ export class ScraperManager {
         processedResponse, 
         options.extractionOptions
       );
+
+      const usage = extractionResult.extractionResult?.metadata?.llmUsage;
+      if (usage && usage.calls > 0) {
+        const scrapeId = uuidv4();
+        await usageService.record(usage, { ...options.usageContext, scrapeId });
+        extractionResult.metadata = {
+          ...extractionResult.metadata,
+          llmUsage: { scrapeId, ...usage }
+        };
+      }
       return extractionResult;
     } else {
       logger.warn('Extraction options provided but LLM extractor failed to initialize');
@@ -198,6 +333,36 @@ export class ScraperManager {
     }
   }
 
+  /**
+   * Move raw screenshot and PDF buffers off the response and store them as requested
+   */
+  private async storeCaptures(scraperResponse: ScraperResponse, options: ScraperOptions): Promise<ScraperResponse['captures']> {
+    const { screenshot, pdf, actionScreenshots } = scraperResponse;
+    delete scraperResponse.screenshot;
+    delete scraperResponse.pdf;
+    delete scraperResponse.actionScreenshots;
+
+    const storage = options.capture?.storage ?? 'base64';
+    // Screenshots taken by actions are reported with the action that took them
+    for (const { result, data } of actionScreenshots ?? []) {
+      result.screenshot = await captureService.save(data, 'image/png', storage);
+    }
+
+    if (!screenshot && !pdf) {
+      return undefined;
+    }
+
+    const captures: NonNullable<ScraperResponse['captures']> = {};
+    if (screenshot) {
+      const contentType = options.capture?.imageFormat === 'jpeg' ? 'image/jpeg' : 'image/png';
+      captures.screenshot = await captureService.save(screenshot, contentType, storage);
+    }
+    if (pdf) {
+      captures.pdf = await captureService.save(pdf, 'application/pdf', storage);
+    }
+    return captures;
+  }
+
   /**
    * Finalize response with metadata and caching
    */
@@ -253,6 +418,15 @@ export class ScraperManager {
     
     try {
       logger.info(`Starting scraping process for URL: ${url}`);
+
+      // Look the session up before the cache, so deleted or expired sessions can't be read from it
+      let session: SessionRecord | null = null;
+      if (options.sessionId) {
+        session = await sessionService.get(options.sessionId, options.usageContext?.apiKeyId);
+        if (!session) {
+          return this.createErrorResponse(url, new Error(`Session ${options.sessionId} not found or expired`), startTime);
+        }
+      }
       
       // Check cache first
       const cachedResponse = await this.checkCache(cacheKey, url, options.skipCache ?? false);
@@ -261,23 +435,54 @@ export class ScraperManager {
       }
       
       // Get raw content with fallback
-      const scraperResponse = await this.getRawContent(url, options);
+      const scraperResponse = session
+        ? await this.getRawContentWithSession(url, options, session)
+        : await this.getRawContent(url, options);
       if (scraperResponse.error) {
         logger.error(`Error occurred during scraping: ${scraperResponse.error}`);
         return scraperResponse;
       }
 
+      const captures = await this.storeCaptures(scraperResponse, options);
+
+      // Collect links and page metadata before cleaning strips navigation and scripts
+      const links = scraperResponse.contentType === 'html'
+        ? extractLinks(scraperResponse.content, scraperResponse.url || url)
+        : [];
+      const pageMetadata = scraperResponse.contentType === 'html'
+        ? this.metadataExtractor.extract(scraperResponse.content, scraperResponse.url || url)
+        : undefined;
+
       // Clean content
       const cleanedResponse = this.cleanHtmlContent(scraperResponse);
       if (cleanedResponse.error && !scraperResponse.error) {
         return cleanedResponse;
       }
 
+      // Tables come from the main content, leaving out layout tables in navigation and footers
+      const tables = cleanedResponse.contentType === 'html'
+        ? this.tableExtractor.extract(cleanedResponse.content)
+        : [];
+
       // Apply transformations
       let processedResponse = this.applyContentTransformations(cleanedResponse, options);
+      const formatOutputs = options.formats
+        ? this.buildFormatOutputs(scraperResponse, cleanedResponse, processedResponse, options.formats)
+        : {};
       
       // Apply LLM extraction
       processedResponse = await this.applyLLMExtraction<T>(processedResponse, options);
+      processedResponse.links = links;
+      if (tables.length > 0) {
+        processedResponse.tables = tables;
+      }
+      if (pageMetadata) {
+        processedResponse.metadata.page = pageMetadata;
+      }
+      Object.assign(processedResponse, formatOutputs);
+      if (captures) {
+        processedResponse.captures = captures;
+      }
       
       // Finalize and cache
       return await this.finalizeResponse(processedResponse, url, startTime, cacheKey, options);
@@ -292,8 +497,9 @@ export class ScraperManager {
    * Close browser instances
    */
   async close(): Promise<void> {
-    // This method is needed to properly close any Playwright instances
+    // Return any browser context still leased to the pool; the pool itself is closed on shutdown
     logger.info('Closing Scraper Manager resources');
+    await this.playwriteScraper.close();
   }
 
   /**
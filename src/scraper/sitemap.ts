@@ -0,0 +1,154 @@
+import axios from "axios";
+import https from "https";
+import zlib from "zlib";
+import { parseStringPromise } from "xml2js";
+import { logger } from "../utils/logger";
+import { SitemapEntry } from "../types/crawler";
+
+// Guard rails against sitemap index loops and huge sitemap trees
+const MAX_SITEMAP_DEPTH = 3;
+const MAX_SITEMAP_ENTRIES = 50000;
+// Largest sitemap to download or inflate; the sitemap protocol allows 50 MB uncompressed
+const MAX_SITEMAP_BYTES = parseInt(process.env.SITEMAP_MAX_SIZE_MB ?? "50") * 1024 * 1024;
+
+export interface SitemapFetchOptions {
+  skipTlsVerification?: boolean;
+  abort?: AbortSignal;
+  maxEntries?: number;
+}
+
+/**
+ * Check if a payload is gzip-compressed (by URL, content type or magic bytes)
+ */
+function isGzipped(url: string, contentType: string | undefined, data: Buffer): boolean {
+  if (url.toLowerCase().endsWith(".gz")) return true;
+  if (contentType && /gzip/i.test(contentType)) return true;
+  return data.length > 2 && data[0] === 0x1f && data[1] === 0x8b;
+}
+
+/**
+ * Download a sitemap and return its XML as a string, inflating gzipped sitemaps
+ */
+async function fetchSitemapXml(url: string, options: SitemapFetchOptions): Promise<string | null> {
+  try {
+    const response = await axios.get(url, {
+      timeout: 15000,
+      responseType: "arraybuffer",
+      maxContentLength: MAX_SITEMAP_BYTES,
+      signal: options.abort,
+      ...(options.skipTlsVerification && {
+        httpsAgent: new https.Agent({ rejectUnauthorized: false }),
+      }),
+    });
+
+    const data = Buffer.from(response.data);
+    const contentType = response.headers["content-type"] as string | undefined;
+
+    if (isGzipped(url, contentType, data)) {
+      try {
+        return zlib.gunzipSync(data, { maxOutputLength: MAX_SITEMAP_BYTES }).toString("utf8");
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ERR_BUFFER_TOO_LARGE") {
+          logger.warn(`Sitemap ${url} inflates to more than ${MAX_SITEMAP_BYTES} bytes, skipping it`);
+          return null;
+        }
+        // Some servers set Content-Encoding and axios already inflated the body
+        logger.debug(`Sitemap ${url} was not gzip data, reading as plain XML`, {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    return data.toString("utf8");
+  } catch (error) {
+    logger.debug(`Failed to fetch sitemap ${url}`, {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+}
+
+/**
+ * Read the first text value of an xml2js node field
+ */
+function firstText(node: any, field: string): string | undefined {
+  const value = node?.[field]?.[0];
+  if (value === undefined || value === null) return undefined;
+  const text = typeof value === "string" ? value : value._;
+  return typeof text === "string" ? text.trim() : undefined;
+}
+
+/**
+ * Fetch a sitemap (or sitemap index) and collect all page entries
+ *
+ * Nested sitemap indexes are followed up to MAX_SITEMAP_DEPTH levels. The
+ * `visited` set is shared across calls so the same sitemap is never fetched twice.
+ */
+export async function getEntriesFromSitemap(
+  sitemapUrl: string,
+  visited: Set<string>,
+  options: SitemapFetchOptions = {},
+  depth = 0,
+): Promise<SitemapEntry[]> {
+  if (depth > MAX_SITEMAP_DEPTH || visited.has(sitemapUrl)) {
+    return [];
+  }
+  visited.add(sitemapUrl);
+
+  const xml = await fetchSitemapXml(sitemapUrl, options);
+  if (!xml) {
+    return [];
+  }
+
+  let parsed: any;
+  try {
+    parsed = await parseStringPromise(xml);
+  } catch (error) {
+    logger.debug(`Failed to parse sitemap XML from ${sitemapUrl}`, {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return [];
+  }
+
+  const maxEntries = options.maxEntries ?? MAX_SITEMAP_ENTRIES;
+  const entries: SitemapEntry[] = [];
+
+  if (parsed?.sitemapindex?.sitemap) {
+    const childSitemaps: string[] = parsed.sitemapindex.sitemap
+      .map((sitemap: any) => firstText(sitemap, "loc"))
+      .filter((loc: string | undefined): loc is string => !!loc);
+
+    logger.debug(`Sitemap index ${sitemapUrl} references ${childSitemaps.length} sitemaps`);
+
+    for (const childUrl of childSitemaps) {
+      if (entries.length >= maxEntries) break;
+      const childEntries = await getEntriesFromSitemap(
+        childUrl,
+        visited,
+        { ...options, maxEntries: maxEntries - entries.length },
+        depth + 1,
+      );
+      entries.push(...childEntries);
+    }
+  } else if (parsed?.urlset?.url) {
+    for (const urlNode of parsed.urlset.url) {
+      if (entries.length >= maxEntries) break;
+
+      const loc = firstText(urlNode, "loc");
+      if (!loc) continue;
+
+      const priorityText = firstText(urlNode, "priority");
+      const priority = priorityText !== undefined ? parseFloat(priorityText) : undefined;
+
+      entries.push({
+        url: loc,
+        lastmod: firstText(urlNode, "lastmod"),
+        priority: priority !== undefined && !isNaN(priority) ? priority : undefined,
+      });
+    }
+  } else {
+    logger.debug(`Sitemap ${sitemapUrl} contains neither <urlset> nor <sitemapindex>`);
+  }
+
+  return entries.slice(0, maxEntries);
+}
@@ -0,0 +1,336 @@
+import axios, { AxiosInstance } from 'axios';
+import {
+  LLMProvider,
+  LLMConfig,
+  LLMResponse,
+  LLMCompletionOptions,
+  LLMMessage,
+  LLMProviderType
+} from '../types/llm.types';
+import { logger } from '../utils/logger';
+
+const DEFAULT_BASE_URL = 'https://api.anthropic.com';
+const DEFAULT_API_VERSION = '2023-06-01';
+
+// Name of the tool the model is forced to call when JSON output is requested
+const JSON_TOOL_NAME = 'extract_data';
+
+/**
+ * Tool input must be an object, so array and scalar schemas are sent as its "data" property
+ */
+function isWrappedSchema(schema?: object): boolean {
+  return schema !== undefined && (schema as { type?: unknown }).type !== 'object';
+}
+
+/**
+ * Message in the Anthropic Messages API format
+ */
+interface AnthropicMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+interface AnthropicContentBlock {
+  type: 'text' | 'tool_use' | string;
+  text?: string;
+  name?: string;
+  input?: any;
+}
+
+interface AnthropicMessagesResponse {
+  id: string;
+  model: string;
+  content: AnthropicContentBlock[];
+  stop_reason?: string;
+  usage?: {
+    input_tokens: number;
+    output_tokens: number;
+    cache_creation_input_tokens?: number;
+    cache_read_input_tokens?: number;
+  };
+}
+
+/**
+ * Service for Anthropic models through the native Messages API
+ */
+export class AnthropicService implements LLMProvider {
+  private readonly client: AxiosInstance;
+  private readonly config: LLMConfig;
+
+  constructor(config: LLMConfig) {
+    this.config = config;
+
+    this.client = axios.create({
+      baseURL: (config.baseUrl ?? DEFAULT_BASE_URL).replace(/\/+$/, ''),
+      timeout: config.timeout ?? 120000,
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': config.apiKey,
+        'anthropic-version': process.env.ANTHROPIC_VERSION ?? DEFAULT_API_VERSION
+      }
+    });
+
+    logger.info('Initialized anthropic LLM service', {
+      baseUrl: config.baseUrl ?? DEFAULT_BASE_URL,
+      model: config.model
+    });
+  }
+
+  /**
+   * Get the provider type
+   */
+  getProvider(): LLMProviderType {
+    return 'anthropic';
+  }
+
+  /**
+   * Get the current model
+   */
+  getModel(): string {
+    return this.config.model;
+  }
+
+  /**
+   * Convert our message format to the Messages API format.
+   * System messages go into the top-level system prompt, and consecutive messages
+   * with the same role are joined because the API expects alternating turns.
+   */
+  private convertMessages(messages: LLMMessage[]): { system?: string; messages: AnthropicMessage[] } {
+    const systemParts: string[] = [];
+    const converted: AnthropicMessage[] = [];
+
+    for (const msg of messages) {
+      if (msg.role === 'system') {
+        systemParts.push(msg.content);
+        continue;
+      }
+
+      // Function/tool results have no equivalent without tool IDs, so send them as user text
+      const role = msg.role === 'assistant' ? 'assistant' : 'user';
+      const previous = converted[converted.length - 1];
+
+      if (previous?.role === role) {
+        previous.content += `\n\n${msg.content}`;
+      } else {
+        converted.push({ role, content: msg.content });
+      }
+    }
+
+    // The conversation has to open with a user turn
+    if (converted[0]?.role === 'assistant') {
+      converted.unshift({ role: 'user', content: 'Continue.' });
+    }
+
+    return {
+      system: systemParts.length > 0 ? systemParts.join('\n\n') : undefined,
+      messages: converted
+    };
+  }
+
+  /**
+   * Build the request body, forcing a tool call when JSON output is requested
+   */
+  private buildRequestBody(
+    messages: LLMMessage[],
+    options: LLMCompletionOptions,
+    responseFormat?: { type: string; schema?: object }
+  ): Record<string, any> {
+    const { system, messages: converted } = this.convertMessages(messages);
+
+    const body: Record<string, any> = {
+      model: this.config.model,
+      messages: converted,
+      max_tokens: options.maxTokens ?? 4000,
+      temperature: options.temperature ?? 0.2,
+      ...(system && { system }),
+      ...(options.topP !== undefined && { top_p: options.topP }),
+      ...(options.stop && { stop_sequences: options.stop }),
+      ...(options.user && { metadata: { user_id: options.user } })
+    };
+
+    if (responseFormat && responseFormat.type !== 'text') {
+      const schema = responseFormat.schema;
+      body.tools = [{
+        name: JSON_TOOL_NAME,
+        description: 'Return the extracted data as structured JSON.',
+        input_schema: isWrappedSchema(schema)
+          ? { type: 'object', properties: { data: schema }, required: ['data'] }
+          : schema ?? { type: 'object', additionalProperties: true }
+      }];
+      body.tool_choice = { type: 'tool', name: JSON_TOOL_NAME };
+    }
+
+    return body;
+  }
+
+  /**
+   * Read the tool input for JSON requests, otherwise the joined text blocks
+   */
+  private processResponseContent<T>(response: AnthropicMessagesResponse, schema?: object): T {
+    const toolUse = response.content.find(block => block.type === 'tool_use' && block.name === JSON_TOOL_NAME);
+    if (toolUse) {
+      return (isWrappedSchema(schema) ? toolUse.input?.data : toolUse.input) as T;
+    }
+
+    const text = response.content
+      .filter(block => block.type === 'text')
+      .map(block => block.text ?? '')
+      .join('');
+
+    try {
+      return text.trim().startsWith('{') ? JSON.parse(text) : text as unknown as T;
+    } catch {
+      return text as unknown as T;
+    }
+  }
+
+  /**
+   * Build error message based on error type
+   */
+  private buildErrorMessage(error: unknown): string {
+    let errorMessage = 'anthropic error: ';
+
+    if (axios.isAxiosError(error)) {
+      const apiError = error.response?.data?.error;
+      if (apiError?.message) {
+        errorMessage += `${error.response?.status} ${apiError.type ?? ''} ${apiError.message}`.replace(/\s+/g, ' ');
+      } else if (error.code === 'ECONNREFUSED') {
+        errorMessage += `Cannot connect to ${this.config.baseUrl ?? DEFAULT_BASE_URL}.`;
+      } else if (error.code === 'ECONNABORTED') {
+        errorMessage += 'Request timed out. Try increasing LLM_TIMEOUT.';
+      } else {
+        errorMessage += error.message;
+      }
+    } else {
+      errorMessage += error instanceof Error ? error.message : String(error);
+    }
+
+    return errorMessage;
+  }
+
+  /**
+   * Whether a failed request is worth retrying (rate limits, overload, server errors)
+   */
+  private isRetryable(error: unknown): boolean {
+    if (!axios.isAxiosError(error)) return false;
+    const status = error.response?.status;
+    return status === undefined || status === 429 || status >= 500;
+  }
+
+  /**
+   * Get a completion from the Messages API
+   */
+  async getCompletion<T>(
+    messages: LLMMessage[],
+    options: LLMCompletionOptions = {},
+    responseFormat?: { type: string; schema?: object }
+  ): Promise<LLMResponse<T>> {
+    const maxRetries = this.config.maxRetries ?? 2;
+    const body = this.buildRequestBody(messages, options, responseFormat);
+    const startTime = Date.now();
+
+    logger.debug('Sending request to anthropic', {
+      model: this.config.model,
+      messageCount: messages.length,
+      structured: Boolean(body.tools)
+    });
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const { data: response } = await this.client.post<AnthropicMessagesResponse>('/v1/messages', body);
+        const latency = Date.now() - startTime;
+
+        if (response.stop_reason === 'max_tokens') {
+          logger.warn('Anthropic response was cut off at max_tokens', { model: response.model });
+        }
+
+        const usage = response.usage;
+        const promptTokens = usage
+          ? usage.input_tokens + (usage.cache_creation_input_tokens ?? 0) + (usage.cache_read_input_tokens ?? 0)
+          : 0;
+
+        logger.debug('Received response from anthropic', {
+          model: response.model,
+          latency,
+          tokensUsed: usage ? promptTokens + usage.output_tokens : undefined
+        });
+
+        return {
+          success: true,
+          data: this.processResponseContent<T>(response, responseFormat?.schema),
+          metadata: {
+            model: response.model,
+            provider: 'anthropic',
+            usage: usage ? {
+              promptTokens,
+              completionTokens: usage.output_tokens,
+              totalTokens: promptTokens + usage.output_tokens
+            } : undefined,
+            latency
+          }
+        };
+      } catch (error) {
+        if (attempt < maxRetries && this.isRetryable(error)) {
+          const retryAfter = axios.isAxiosError(error) ? Number(error.response?.headers?.['retry-after']) : NaN;
+          const delay = Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter * 1000 : Math.pow(2, attempt) * 1000;
+          logger.warn(`Anthropic request failed, retrying in ${delay}ms (${attempt + 1}/${maxRetries})`, {
+            error: error instanceof Error ? error.message : String(error)
+          });
+          await new Promise(resolve => setTimeout(resolve, delay));
+          continue;
+        }
+
+        logger.error('anthropic completion error', {
+          error: error instanceof Error ? error.message : String(error),
+          model: this.config.model
+        });
+
+        return {
+          success: false,
+          error: this.buildErrorMessage(error),
+          statusCode: axios.isAxiosError(error) ? error.response?.status : undefined
+        };
+      }
+    }
+  }
+
+  /**
+   * Anthropic has no embeddings endpoint
+   */
+  async getEmbeddings(_text: string | string[]): Promise<LLMResponse<number[][]>> {
+    return {
+      success: false,
+      error: 'anthropic embeddings error: Embeddings are not supported by this provider.'
+    };
+  }
+
+  /**
+   * List available models
+   */
+  async listModels(): Promise<string[]> {
+    try {
+      const { data } = await this.client.get<{ data: Array<{ id: string }> }>('/v1/models');
+      return data.data.map(model => model.id);
+    } catch (error) {
+      logger.warn('Failed to list models from anthropic', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return [];
+    }
+  }
+
+  /**
+   * Check if the service is healthy
+   */
+  async healthCheck(): Promise<boolean> {
+    try {
+      await this.client.get('/v1/models', { params: { limit: 1 } });
+      return true;
+    } catch (error) {
+      logger.warn('anthropic health check failed', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return false;
+    }
+  }
+}
@@ -0,0 +1,344 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { redisClient } from './redis.service';
+import { logger } from '../utils/logger';
+import {
+  ApiKeyInfo,
+  ApiKeyLimitResult,
+  ApiKeyRecord,
+  ApiKeyScope,
+  CreateApiKeyRequest
+} from '../types/api-key';
+
+export const API_KEY_SCOPES: ApiKeyScope[] = ['scrape', 'extract', 'crawl', 'batch', 'admin'];
+
+// Id of the key configured through the API_KEY environment variable
+export const ENV_API_KEY_ID = 'env';
+
+const KEY_PREFIX = 'ds_';
+const LAST_USED_WRITE_INTERVAL = 60 * 1000;
+
+/**
+ * Persistence for API key records
+ */
+interface ApiKeyStore {
+  list(): Promise<ApiKeyRecord[]>;
+  get(id: string): Promise<ApiKeyRecord | null>;
+  findByHash(keyHash: string): Promise<ApiKeyRecord | null>;
+  save(record: ApiKeyRecord, previous?: ApiKeyRecord): Promise<void>;
+  touch(id: string, lastUsedAt: string): Promise<void>;
+}
+
+/**
+ * Keys stored in Redis, with a hash -> id index for lookups
+ */
+class RedisApiKeyStore implements ApiKeyStore {
+  private static readonly RECORDS_KEY = 'apikeys:records';
+  private static readonly HASH_INDEX_KEY = 'apikeys:hashes';
+  private static readonly LAST_USED_KEY = 'apikeys:lastused';
+
+  async list(): Promise<ApiKeyRecord[]> {
+    const [records, lastUsed] = await Promise.all([
+      redisClient.hvals(RedisApiKeyStore.RECORDS_KEY),
+      redisClient.hgetall(RedisApiKeyStore.LAST_USED_KEY)
+    ]);
+    return records.map(data => {
+      const record: ApiKeyRecord = JSON.parse(data);
+      return { ...record, lastUsedAt: lastUsed[record.id] };
+    });
+  }
+
+  async get(id: string): Promise<ApiKeyRecord | null> {
+    const [data, lastUsedAt] = await Promise.all([
+      redisClient.hget(RedisApiKeyStore.RECORDS_KEY, id),
+      redisClient.hget(RedisApiKeyStore.LAST_USED_KEY, id)
+    ]);
+    return data ? { ...JSON.parse(data), lastUsedAt: lastUsedAt ?? undefined } : null;
+  }
+
+  async findByHash(keyHash: string): Promise<ApiKeyRecord | null> {
+    const id = await redisClient.hget(RedisApiKeyStore.HASH_INDEX_KEY, keyHash);
+    return id ? this.get(id) : null;
+  }
+
+  async save(record: ApiKeyRecord, previous?: ApiKeyRecord): Promise<void> {
+    const multi = redisClient.multi();
+    multi.hset(RedisApiKeyStore.RECORDS_KEY, record.id, JSON.stringify(record));
+
+    // Drop index entries for hashes the record no longer accepts
+    const hashes = [record.keyHash, record.previousKeyHash].filter(Boolean);
+    for (const hash of [previous?.keyHash, previous?.previousKeyHash]) {
+      if (hash && !hashes.includes(hash)) {
+        multi.hdel(RedisApiKeyStore.HASH_INDEX_KEY, hash);
+      }
+    }
+    for (const hash of hashes) {
+      multi.hset(RedisApiKeyStore.HASH_INDEX_KEY, hash as string, record.id);
+    }
+
+    await multi.exec();
+  }
+
+  // Kept apart from the record so it never races with rotations or revocations
+  async touch(id: string, lastUsedAt: string): Promise<void> {
+    await redisClient.hset(RedisApiKeyStore.LAST_USED_KEY, id, lastUsedAt);
+  }
+}
+
+/**
+ * Keys stored in a local JSON file, for single-instance deployments
+ */
+class FileApiKeyStore implements ApiKeyStore {
+  private records: ApiKeyRecord[] | null = null;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  async list(): Promise<ApiKeyRecord[]> {
+    if (!this.records) {
+      try {
+        const data = JSON.parse(await fs.promises.readFile(this.filePath, 'utf-8'));
+        this.records = Array.isArray(data.keys) ? data.keys : [];
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+        this.records = [];
+      }
+    }
+    return this.records as ApiKeyRecord[];
+  }
+
+  async get(id: string): Promise<ApiKeyRecord | null> {
+    return (await this.list()).find(record => record.id === id) ?? null;
+  }
+
+  async findByHash(keyHash: string): Promise<ApiKeyRecord | null> {
+    return (await this.list()).find(record =>
+      record.keyHash === keyHash || record.previousKeyHash === keyHash
+    ) ?? null;
+  }
+
+  async save(record: ApiKeyRecord): Promise<void> {
+    const records = await this.list();
+    const index = records.findIndex(existing => existing.id === record.id);
+    if (index === -1) {
+      records.push(record);
+    } else {
+      records[index] = record;
+    }
+
+    await this.flush();
+  }
+
+  async touch(id: string, lastUsedAt: string): Promise<void> {
+    const record = await this.get(id);
+    if (!record) return;
+    record.lastUsedAt = lastUsedAt;
+    await this.flush();
+  }
+
+  private async flush(): Promise<void> {
+    // Writes are serialized so concurrent saves never share the temp file
+    this.writing = this.writing.catch(() => undefined).then(() => this.write(this.records ?? []));
+    await this.writing;
+  }
+
+  private async write(records: ApiKeyRecord[]): Promise<void> {
+    // Write to a temp file first so a crash never leaves a truncated key file
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.tmp`;
+    await fs.promises.writeFile(tempPath, JSON.stringify({ keys: records }, null, 2), { mode: 0o600 });
+    await fs.promises.rename(tempPath, this.filePath);
+  }
+}
+
+/**
+ * Issues, verifies and limits API keys. Keys are only ever stored as SHA-256 hashes
+ */
+export class ApiKeyService {
+  private static readonly QUOTA_KEY_PREFIX = 'apikeys:quota:';
+
+  private readonly store: ApiKeyStore;
+
+  constructor() {
+    if (process.env.API_KEY_STORE === 'file') {
+      const filePath = process.env.API_KEYS_FILE ?? './data/api-keys.json';
+      this.store = new FileApiKeyStore(filePath);
+      logger.info(`Using file API key store: ${filePath}`);
+    } else {
+      this.store = new RedisApiKeyStore();
+    }
+  }
+
+  /**
+   * Create a key. The plaintext key is only returned here
+   */
+  async createKey(request: CreateApiKeyRequest): Promise<{ key: string; apiKey: ApiKeyInfo }> {
+    const key = this.generateKey();
+    const record: ApiKeyRecord = {
+      id: uuidv4(),
+      name: request.name,
+      keyHash: this.hashKey(key),
+      keyPrefix: key.substring(0, KEY_PREFIX.length + 6),
+      scopes: [...new Set(request.scopes)],
+      rateLimit: request.rateLimit,
+      monthlyQuota: request.monthlyQuota,
+      createdAt: new Date().toISOString()
+    };
+
+    await this.store.save(record);
+    logger.info(`Created API key ${record.id} (${record.name})`, { scopes: record.scopes });
+
+    return { key, apiKey: this.toInfo(record) };
+  }
+
+  /**
+   * Replace a key's secret. The old key keeps working for gracePeriodSeconds
+   */
+  async rotateKey(id: string, gracePeriodSeconds: number = 0): Promise<{ key: string; apiKey: ApiKeyInfo } | null> {
+    const existing = await this.store.get(id);
+    if (!existing || existing.revokedAt) return null;
+
+    const key = this.generateKey();
+    const now = new Date();
+    const record: ApiKeyRecord = {
+      ...existing,
+      keyHash: this.hashKey(key),
+      keyPrefix: key.substring(0, KEY_PREFIX.length + 6),
+      rotatedAt: now.toISOString(),
+      previousKeyHash: gracePeriodSeconds > 0 ? existing.keyHash : undefined,
+      previousKeyExpiresAt: gracePeriodSeconds > 0
+        ? new Date(now.getTime() + gracePeriodSeconds * 1000).toISOString()
+        : undefined
+    };
+
+    await this.store.save(record, existing);
+    logger.info(`Rotated API key ${id}`, { gracePeriodSeconds });
+
+    return { key, apiKey: this.toInfo(record) };
+  }
+
+  /**
+   * Revoke a key permanently
+   */
+  async revokeKey(id: string): Promise<ApiKeyInfo | null> {
+    const existing = await this.store.get(id);
+    if (!existing) return null;
+    if (existing.revokedAt) return this.toInfo(existing);
+
+    const record: ApiKeyRecord = {
+      ...existing,
+      revokedAt: new Date().toISOString(),
+      previousKeyHash: undefined,
+      previousKeyExpiresAt: undefined
+    };
+
+    await this.store.save(record, existing);
+    logger.info(`Revoked API key ${id} (${existing.name})`);
+
+    return this.toInfo(record);
+  }
+
+  async listKeys(): Promise<ApiKeyInfo[]> {
+    const records = await this.store.list();
+    return records
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+      .map(record => this.toInfo(record));
+  }
+
+  async getKey(id: string): Promise<ApiKeyInfo | null> {
+    const record = await this.store.get(id);
+    return record ? this.toInfo(record) : null;
+  }
+
+  /**
+   * Resolve a presented key to its record, or null if it is unknown, revoked or expired
+   */
+  async authenticate(key: string): Promise<ApiKeyRecord | null> {
+    const envKey = process.env.API_KEY;
+    if (envKey && this.safeEqual(key, envKey)) {
+      return this.envKeyRecord(envKey);
+    }
+
+    const keyHash = this.hashKey(key);
+    const record = await this.store.findByHash(keyHash);
+    if (!record || record.revokedAt) return null;
+
+    if (record.keyHash !== keyHash) {
+      // Previous key after a rotation: only valid during the grace period
+      const expiresAt = record.previousKeyExpiresAt ? Date.parse(record.previousKeyExpiresAt) : 0;
+      if (record.previousKeyHash !== keyHash || expiresAt <= Date.now()) return null;
+    }
+
+    if (!record.lastUsedAt || Date.now() - Date.parse(record.lastUsedAt) > LAST_USED_WRITE_INTERVAL) {
+      this.store.touch(record.id, new Date().toISOString()).catch(error => {
+        logger.warn(`Failed to update last use of API key ${record.id}`, { error: error.message });
+      });
+    }
+
+    return record;
+  }
+
+  /**
+   * Count a request against the key's monthly quota
+   */
+  async consumeQuota(record: ApiKeyRecord): Promise<ApiKeyLimitResult> {
+    if (record.monthlyQuota !== undefined) {
+      const now = new Date();
+      const key = `${ApiKeyService.QUOTA_KEY_PREFIX}${record.id}:${now.toISOString().substring(0, 7)}`;
+      const nextMonth = Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1);
+      const secondsLeft = Math.ceil((nextMonth - now.getTime()) / 1000);
+
+      const [[, used]] = (await redisClient.multi().incr(key).expire(key, secondsLeft + 86400).exec()) ?? [[null, 0]];
+      if ((used as number) > record.monthlyQuota) {
+        return { allowed: false, retryAfter: secondsLeft, quotaUsed: record.monthlyQuota };
+      }
+      return { allowed: true, quotaUsed: used as number };
+    }
+
+    return { allowed: true };
+  }
+
+  /**
+   * Whether the key may use a route requiring the given scope (admin may use everything)
+   */
+  hasScope(record: ApiKeyRecord, scope: ApiKeyScope): boolean {
+    return record.scopes.includes(scope) || record.scopes.includes('admin');
+  }
+
+  /**
+   * The API_KEY environment variable acts as an unlimited admin key
+   */
+  private envKeyRecord(envKey: string): ApiKeyRecord {
+    return {
+      id: ENV_API_KEY_ID,
+      name: 'API_KEY environment variable',
+      keyHash: this.hashKey(envKey),
+      keyPrefix: '',
+      scopes: [...API_KEY_SCOPES],
+      createdAt: new Date(0).toISOString()
+    };
+  }
+
+  private generateKey(): string {
+    return `${KEY_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+  }
+
+  private hashKey(key: string): string {
+    return crypto.createHash('sha256').update(key).digest('hex');
+  }
+
+  private safeEqual(a: string, b: string): boolean {
+    const hashA = crypto.createHash('sha256').update(a).digest();
+    const hashB = crypto.createHash('sha256').update(b).digest();
+    return crypto.timingSafeEqual(hashA, hashB);
+  }
+
+  private toInfo(record: ApiKeyRecord): ApiKeyInfo {
+    const { keyHash, previousKeyHash, ...info } = record;
+    return info;
+  }
+}
+
+export const apiKeyService = new ApiKeyService();
@@ -9,7 +9,7 @@ import {
   ScraperOptions,
   ScraperResponse 
 } from '../types';
-import axios from 'axios';
+import { webhookService } from './webhook.service';
 
 /**
  * Service for handling batch scraping operations
@@ -25,7 +25,7 @@ export class BatchScrapeService {
   /**
    * Initiate a new batch scraping operation
    */
-  async initiateBatch(request: BatchScrapeRequest): Promise<{
+  async initiateBatch(request: BatchScrapeRequest, apiKeyId?: string): Promise<{
     batchId: string;
     totalUrls: number;
     estimatedTime: number;
@@ -54,7 +54,8 @@ export class BatchScrapeService {
       webhook: request.webhook,
       failFast: request.failFast ?? false,
       maxRetries: request.maxRetries ?? 3,
-      options: request.options ?? {}
+      options: request.options ?? {},
+      apiKeyId
     };
 
     // Store batch metadata in Redis
@@ -83,7 +84,11 @@ export class BatchScrapeService {
 
     // Start processing asynchronously
     setImmediate(() => {
-      this.processBatch(batchId, request.options ?? {}, concurrency, timeout)
+      const options: ScraperOptions = {
+        ...request.options,
+        usageContext: { batchId, apiKeyId }
+      };
+      this.processBatch(batchId, options, concurrency, timeout)
         .catch(error => {
           logger.error(`Batch processing failed for ${batchId}`, { error: (error as Error).message });
         });
@@ -141,22 +146,6 @@ export class BatchScrapeService {
         'EX',
         86400
       );
-
-      // Send webhook if configured
-      if (metadata.webhook) {
-        setImmediate(() => {
-          this.sendWebhook(metadata.webhook, {
-            batchId,
-            status,
-            totalUrls: metadata.totalUrls,
-            completedUrls: completedJobs.length,
-            failedUrls: failedJobs.length,
-            endTime: metadata.endTime
-          }).catch(error => {
-            logger.error(`Failed to send webhook for batch ${batchId}`, { error: (error as Error).message });
-          });
-        });
-      }
     }
 
     return {
@@ -176,6 +165,14 @@ export class BatchScrapeService {
     };
   }
 
+  /**
+   * Get the API key that started a batch, if it still exists and a key started it
+   */
+  async getBatchOwner(batchId: string): Promise<string | undefined> {
+    const metadataStr = await redisClient.get(`${BatchScrapeService.BATCH_KEY_PREFIX}${batchId}`);
+    return metadataStr ? JSON.parse(metadataStr).apiKeyId : undefined;
+  }
+
   /**
    * Cancel a batch operation
    */
@@ -237,6 +234,7 @@ export class BatchScrapeService {
 
         try {
           await this.processJob(job, scraperManager, options, metadata.maxRetries);
+          await this.notifyPageWebhook(batchId, metadata.webhook, job);
         } catch (error) {
           logger.error(`Error processing job ${job.id}`, { error: (error as Error).message });
         } finally {
@@ -245,9 +243,9 @@ export class BatchScrapeService {
           // Save updated jobs
           await redisClient.set(`${BatchScrapeService.BATCH_JOBS_KEY_PREFIX}${batchId}`, JSON.stringify(jobs), 'EX', 86400);
           
-          // Process next job if available
+          // Process next job if available (awaited so the batch only settles once every job has run)
           if (jobIndex < jobs.length && activeJobs < concurrency) {
-            processingPromises.push(processNextJob());
+            await processNextJob();
           }
         }
       };
@@ -264,6 +262,7 @@ export class BatchScrapeService {
       ]);
 
       logger.info(`Completed batch processing for ${batchId}`);
+      await this.finalizeBatch(batchId, jobs);
 
     } catch (error) {
       logger.error(`Batch processing failed for ${batchId}`, { error: (error as Error).message });
@@ -276,10 +275,71 @@ export class BatchScrapeService {
         metadata.endTime = Date.now();
         metadata.error = (error as Error).message;
         await redisClient.set(`${BatchScrapeService.BATCH_KEY_PREFIX}${batchId}`, JSON.stringify(metadata), 'EX', 86400);
+
+        await webhookService.dispatch(metadata.webhook, 'batch.failed', {
+          batchId,
+          totalUrls: metadata.totalUrls,
+          error: metadata.error,
+          endTime: metadata.endTime
+        });
       }
     }
   }
 
+  /**
+   * Record the final batch status and notify the webhook
+   */
+  private async finalizeBatch(batchId: string, jobs: BatchScrapeJob[]): Promise<void> {
+    const metadataStr = await redisClient.get(`${BatchScrapeService.BATCH_KEY_PREFIX}${batchId}`);
+    if (!metadataStr) return;
+
+    const metadata = JSON.parse(metadataStr);
+    if (metadata.status === 'cancelled') return;
+
+    const completedUrls = jobs.filter(job => job.status === 'completed').length;
+    const failedUrls = jobs.filter(job => job.status === 'failed').length;
+
+    // getBatchStatus may already have settled the status while the last job was saved
+    if (metadata.status === 'processing') {
+      metadata.status = failedUrls === 0 ? 'completed' : 'completed_with_errors';
+      metadata.endTime = Date.now();
+      await redisClient.set(`${BatchScrapeService.BATCH_KEY_PREFIX}${batchId}`, JSON.stringify(metadata), 'EX', 86400);
+    }
+
+    await webhookService.dispatch(metadata.webhook, 'batch.completed', {
+      batchId,
+      status: metadata.status,
+      totalUrls: metadata.totalUrls,
+      completedUrls,
+      failedUrls,
+      endTime: metadata.endTime
+    });
+  }
+
+  /**
+   * Report a finished URL to the batch's webhook as batch.page or batch.page.failed
+   */
+  private async notifyPageWebhook(batchId: string, webhook: BatchScrapeRequest['webhook'], job: BatchScrapeJob): Promise<void> {
+    if (job.status === 'completed') {
+      await webhookService.dispatch(webhook, 'batch.page', {
+        batchId,
+        jobId: job.id,
+        url: job.url,
+        title: job.result?.title,
+        status: job.result?.metadata?.status,
+        attempts: (job.retryCount ?? 0) + 1
+      });
+    } else {
+      await webhookService.dispatch(webhook, 'batch.page.failed', {
+        batchId,
+        jobId: job.id,
+        url: job.url,
+        error: job.error,
+        attempts: (job.retryCount ?? 0) + 1
+      });
+    }
+  }
+
   /**
    * Process individual job with retries
    */
@@ -334,32 +394,6 @@ export class BatchScrapeService {
     }
   }
 
-  /**
-   * Send webhook notification
-   */
-  private async sendWebhook(webhookUrl: string, data: any): Promise<void> {
-    try {
-      await axios.post(webhookUrl, {
-        event: 'batch_scrape.completed',
-        data,
-        timestamp: new Date().toISOString()
-      }, {
-        timeout: 10000,
-        headers: {
-          'Content-Type': 'application/json',
-          'User-Agent': 'DeepScrape-Webhook/1.0'
-        }
-      });
-
-      logger.info(`Webhook sent successfully`, { webhookUrl });
-    } catch (error) {
-      logger.error(`Failed to send webhook`, { 
-        webhookUrl, 
-        error: (error as Error).message 
-      });
-    }
-  }
-
   /**
    * Validate batch request
    */
@@ -0,0 +1,446 @@
+import fs from 'fs';
+import { chromium, Browser, BrowserContext, BrowserContextOptions, LaunchOptions } from 'playwright';
+import { logger } from '../utils/logger';
+import { metrics, metricsService } from './metrics.service';
+
+export interface BrowserPoolConfig {
+  maxBrowsers: number;
+  contextsPerBrowser: number;
+  maxPagesPerBrowser: number;     // Recycle a browser after serving this many pages (0 disables)
+  maxBrowserMemoryMb: number;     // Recycle a browser above this resident memory (0 disables)
+  healthCheckIntervalMs: number;
+  idleTimeoutMs: number;          // Close browsers unused for this long (0 keeps them)
+  acquireTimeoutMs: number;       // How long a lease waits for a free slot
+}
+
+export interface BrowserLeaseOptions {
+  launchOptions?: LaunchOptions;
+  contextOptions?: BrowserContextOptions;
+}
+
+/**
+ * A browser context borrowed from the pool; call release() when done with it
+ */
+export interface BrowserLease {
+  browser: Browser;
+  context: BrowserContext;
+  /** True once the browser is being recycled or has gone away; long-lived holders should re-acquire */
+  readonly expired: boolean;
+  release(): Promise<void>;
+}
+
+interface PooledBrowser {
+  id: number;
+  key: string;                    // Launch options the browser was started with
+  ready: Promise<Browser>;
+  browser: Browser | null;
+  leases: number;
+  pagesServed: number;
+  retiring: boolean;
+  closed: boolean;
+  lastUsedAt: number;
+}
+
+interface Waiter {
+  key: string;
+  launchOptions: LaunchOptions;
+  resolve: (entry: PooledBrowser) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * Launch options shared by pooled browsers unless a caller overrides them
+ */
+export const DEFAULT_LAUNCH_OPTIONS: LaunchOptions = {
+  headless: true,
+  executablePath: process.env.PLAYWRIGHT_CHROMIUM_EXECUTABLE_PATH ?? process.env.PLAYWRIGHT_EXECUTABLE_PATH ?? process.env.PUPPETEER_EXECUTABLE_PATH ?? undefined,
+  args: [
+    '--no-sandbox',
+    '--disable-setuid-sandbox',
+    '--disable-dev-shm-usage',
+    '--disable-accelerated-2d-canvas',
+    '--no-first-run',
+    '--no-zygote',
+    '--disable-gpu'
+  ]
+};
+
+/**
+ * Shared pool of Chromium browsers that hands out isolated contexts
+ *
+ * Browsers are launched on demand up to `maxBrowsers`, each serving up to
+ * `contextsPerBrowser` leases at once. Browsers started with different launch
+ * options are kept apart; an idle browser is closed to make room for another
+ * kind when the pool is full.
+ */
+export class BrowserPool {
+  private readonly config: BrowserPoolConfig;
+  private readonly browsers: PooledBrowser[] = [];
+  private readonly waiters: Waiter[] = [];
+  private healthCheckInterval: NodeJS.Timeout | null = null;
+  private nextId = 1;
+  private dispatching = false;
+  private isShuttingDown = false;
+
+  constructor(config: Partial<BrowserPoolConfig> = {}) {
+    this.config = {
+      maxBrowsers: parseInt(process.env.BROWSER_POOL_MAX_BROWSERS ?? '2'),
+      contextsPerBrowser: parseInt(process.env.BROWSER_POOL_CONTEXTS_PER_BROWSER ?? '5'),
+      maxPagesPerBrowser: parseInt(process.env.BROWSER_POOL_MAX_PAGES_PER_BROWSER ?? '200'),
+      maxBrowserMemoryMb: parseInt(process.env.BROWSER_POOL_MAX_MEMORY_MB ?? '1024'),
+      healthCheckIntervalMs: parseInt(process.env.BROWSER_POOL_HEALTH_CHECK_INTERVAL ?? '30000'),
+      idleTimeoutMs: parseInt(process.env.BROWSER_POOL_IDLE_TIMEOUT ?? '300000'),
+      acquireTimeoutMs: parseInt(process.env.BROWSER_POOL_ACQUIRE_TIMEOUT ?? '60000'),
+      ...config
+    };
+
+    metricsService.registerCollector(() => {
+      const live = this.browsers.filter(entry => !entry.closed);
+      metrics.browserPoolBrowsers.set({}, live.length);
+      metrics.browserPoolLeases.set({}, live.reduce((sum, entry) => sum + entry.leases, 0));
+      metrics.browserPoolWaiting.set({}, this.waiters.length);
+    });
+  }
+
+  get currentConfig(): BrowserPoolConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Lease a fresh context on a pooled browser, waiting for a free slot if needed
+   */
+  async acquire(options: BrowserLeaseOptions = {}): Promise<BrowserLease> {
+    if (this.isShuttingDown) {
+      throw new Error('Browser pool is shutting down');
+    }
+
+    const launchOptions = { ...DEFAULT_LAUNCH_OPTIONS, ...options.launchOptions };
+    const key = JSON.stringify(launchOptions);
+
+    const entry = this.reserve(key, launchOptions) ?? await this.waitForSlot(key, launchOptions);
+
+    let browser: Browser;
+    let context: BrowserContext;
+    try {
+      browser = await entry.ready;
+      context = await browser.newContext(options.contextOptions);
+    } catch (error) {
+      // A browser that can't open contexts is not worth keeping
+      this.retire(entry, 'error');
+      this.returnSlot(entry);
+      throw error;
+    }
+
+    context.on('page', () => {
+      entry.pagesServed++;
+      if (this.config.maxPagesPerBrowser > 0 && entry.pagesServed >= this.config.maxPagesPerBrowser) {
+        this.retire(entry, 'pages');
+      }
+    });
+
+    let released = false;
+    return {
+      browser,
+      context,
+      get expired() {
+        return entry.retiring || entry.closed;
+      },
+      release: async () => {
+        if (released) return;
+        released = true;
+
+        try {
+          await context.close();
+        } catch (error) {
+          logger.debug(`Failed to close leased browser context: ${error instanceof Error ? error.message : String(error)}`);
+        }
+        this.returnSlot(entry);
+      }
+    };
+  }
+
+  /**
+   * Check every browser: drop disconnected ones, recycle those over the memory limit
+   * and close browsers that have been idle too long
+   */
+  async checkHealth(): Promise<void> {
+    const now = Date.now();
+
+    // Entries may be removed while checking, so iterate over a copy
+    await Promise.all([...this.browsers].map(async entry => {
+      if (!entry.browser || entry.closed) return;
+
+      if (!entry.browser.isConnected()) {
+        logger.warn(`Pooled browser ${entry.id} disconnected, removing it from the pool`);
+        metrics.browserRecycles.inc({ reason: 'crashed' });
+        await this.closeEntry(entry);
+        return;
+      }
+
+      if (entry.leases === 0 && this.config.idleTimeoutMs > 0 && now - entry.lastUsedAt > this.config.idleTimeoutMs) {
+        logger.info(`Closing browser ${entry.id} after ${Math.round((now - entry.lastUsedAt) / 1000)}s idle`);
+        this.retire(entry, 'idle');
+        return;
+      }
+
+      if (this.config.maxBrowserMemoryMb > 0 && !entry.retiring) {
+        const memoryMb = await this.getBrowserMemoryMb(entry.browser);
+        if (memoryMb === null) {
+          logger.warn(`Pooled browser ${entry.id} failed its health check, recycling it`);
+          this.retire(entry, 'unhealthy');
+        } else if (memoryMb > this.config.maxBrowserMemoryMb) {
+          logger.info(`Recycling browser ${entry.id} using ${Math.round(memoryMb)}MB (limit ${this.config.maxBrowserMemoryMb}MB)`);
+          this.retire(entry, 'memory');
+        }
+      }
+    }));
+  }
+
+  /**
+   * Start periodic health checks
+   */
+  startHealthChecks(): void {
+    if (this.healthCheckInterval || this.config.healthCheckIntervalMs <= 0) return;
+
+    this.healthCheckInterval = setInterval(() => {
+      this.checkHealth().catch(error => {
+        logger.error(`Browser pool health check failed: ${error instanceof Error ? error.message : String(error)}`);
+      });
+    }, this.config.healthCheckIntervalMs);
+    // Health checks alone should not keep the process alive
+    this.healthCheckInterval.unref();
+  }
+
+  getStats(): { browsers: number; leases: number; waiting: number; retiring: number } {
+    const live = this.browsers.filter(entry => !entry.closed);
+    return {
+      browsers: live.length,
+      leases: live.reduce((sum, entry) => sum + entry.leases, 0),
+      waiting: this.waiters.length,
+      retiring: live.filter(entry => entry.retiring).length
+    };
+  }
+
+  /**
+   * Reject pending leases and close every browser
+   */
+  async close(): Promise<void> {
+    if (this.isShuttingDown) return;
+    this.isShuttingDown = true;
+
+    logger.info('Shutting down browser pool...');
+
+    if (this.healthCheckInterval) {
+      clearInterval(this.healthCheckInterval);
+      this.healthCheckInterval = null;
+    }
+
+    for (const waiter of this.waiters.splice(0)) {
+      clearTimeout(waiter.timer);
+      waiter.reject(new Error('Browser pool is shutting down'));
+    }
+
+    await Promise.all([...this.browsers].map(entry => this.closeEntry(entry)));
+    logger.info('Browser pool shut down');
+  }
+
+  /**
+   * Take a lease slot on a browser for `key`, launching one if there is room
+   */
+  private reserve(key: string, launchOptions: LaunchOptions): PooledBrowser | null {
+    const available = this.browsers
+      .filter(entry => entry.key === key && !entry.retiring && !entry.closed && entry.leases < this.config.contextsPerBrowser)
+      // Fill the busiest browser first so idle ones can be closed
+      .sort((a, b) => b.leases - a.leases)[0];
+
+    if (available) {
+      available.leases++;
+      available.lastUsedAt = Date.now();
+      return available;
+    }
+
+    if (this.browsers.length >= this.config.maxBrowsers) {
+      // Make room by closing an idle browser of another kind
+      const idle = this.browsers.find(entry => entry.leases === 0 && entry.key !== key);
+      if (!idle) return null;
+      this.retire(idle, 'evicted');
+    }
+
+    if (this.browsers.length >= this.config.maxBrowsers) {
+      return null;
+    }
+
+    const entry = this.launch(key, launchOptions);
+    entry.leases++;
+    return entry;
+  }
+
+  private launch(key: string, launchOptions: LaunchOptions): PooledBrowser {
+    const entry: PooledBrowser = {
+      id: this.nextId++,
+      key,
+      ready: chromium.launch(launchOptions).then(
+        browser => this.onLaunched(entry, browser),
+        error => {
+          logger.error(`Failed to launch pooled browser ${entry.id}: ${error instanceof Error ? error.message : String(error)}`);
+          entry.closed = true;
+          this.remove(entry);
+          throw error;
+        }
+      ),
+      browser: null,
+      leases: 0,
+      pagesServed: 0,
+      retiring: false,
+      closed: false,
+      lastUsedAt: Date.now()
+    };
+    // Callers observe launch failures through their own await
+    entry.ready.catch(() => undefined);
+
+    this.browsers.push(entry);
+    logger.info(`Launching pooled browser ${entry.id} (${this.browsers.length}/${this.config.maxBrowsers})`);
+    this.startHealthChecks();
+    return entry;
+  }
+
+  private onLaunched(entry: PooledBrowser, browser: Browser): Browser {
+    entry.browser = browser;
+    browser.on('disconnected', () => {
+      if (!entry.closed) {
+        logger.warn(`Pooled browser ${entry.id} disconnected`);
+        entry.closed = true;
+        this.remove(entry);
+      }
+    });
+
+    // Closed or shut down while launching
+    if (entry.closed) {
+      browser.close().catch(() => undefined);
+      throw new Error('Browser pool is shutting down');
+    }
+    return browser;
+  }
+
+  private waitForSlot(key: string, launchOptions: LaunchOptions): Promise<PooledBrowser> {
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = {
+        key,
+        launchOptions,
+        resolve,
+        reject,
+        timer: setTimeout(() => {
+          const index = this.waiters.indexOf(waiter);
+          if (index !== -1) this.waiters.splice(index, 1);
+          reject(new Error(`Timed out after ${this.config.acquireTimeoutMs}ms waiting for a browser from the pool`));
+        }, this.config.acquireTimeoutMs)
+      };
+      this.waiters.push(waiter);
+    });
+  }
+
+  /**
+   * Hand freed capacity to waiting callers in order
+   */
+  private dispatch(): void {
+    // Evicting a browser while reserving re-enters here; the running loop already covers it
+    if (this.dispatching) return;
+    this.dispatching = true;
+
+    try {
+      for (let i = 0; i < this.waiters.length && !this.isShuttingDown; ) {
+        const waiter = this.waiters[i];
+        const entry = this.reserve(waiter.key, waiter.launchOptions);
+        if (!entry) {
+          i++;
+          continue;
+        }
+        this.waiters.splice(i, 1);
+        clearTimeout(waiter.timer);
+        waiter.resolve(entry);
+      }
+    } finally {
+      this.dispatching = false;
+    }
+  }
+
+  private returnSlot(entry: PooledBrowser): void {
+    entry.leases = Math.max(entry.leases - 1, 0);
+    entry.lastUsedAt = Date.now();
+
+    if (entry.retiring && entry.leases === 0) {
+      this.closeEntry(entry);
+    }
+    this.dispatch();
+  }
+
+  /**
+   * Stop leasing from a browser; it closes once its last lease is returned
+   */
+  private retire(entry: PooledBrowser, reason: string): void {
+    if (entry.retiring || entry.closed) return;
+    entry.retiring = true;
+    metrics.browserRecycles.inc({ reason });
+    logger.info(`Retiring pooled browser ${entry.id} (${reason}) after ${entry.pagesServed} pages`);
+
+    if (entry.leases === 0) {
+      this.closeEntry(entry);
+    }
+  }
+
+  private async closeEntry(entry: PooledBrowser): Promise<void> {
+    const wasClosed = entry.closed;
+    entry.closed = true;
+    this.remove(entry);
+    if (wasClosed) return;
+
+    try {
+      const browser = entry.browser ?? await entry.ready;
+      await browser.close();
+    } catch (error) {
+      logger.debug(`Failed to close pooled browser ${entry.id}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  private remove(entry: PooledBrowser): void {
+    const index = this.browsers.indexOf(entry);
+    if (index === -1) return;
+    this.browsers.splice(index, 1);
+    this.dispatch();
+  }
+
+  /**
+   * Resident memory of a browser and its child processes, or null if it does not respond
+   */
+  private async getBrowserMemoryMb(browser: Browser): Promise<number | null> {
+    let session;
+    try {
+      session = await browser.newBrowserCDPSession();
+      const { processInfo } = await Promise.race([
+        session.send('SystemInfo.getProcessInfo'),
+        new Promise<never>((_, reject) => setTimeout(() => reject(new Error('Health check timed out')), 10000).unref())
+      ]);
+
+      // Per-process memory is only readable on Linux; elsewhere report the browser as healthy
+      if (process.platform !== 'linux') return 0;
+
+      const rssKb = await Promise.all(processInfo.map(async ({ id }) => {
+        try {
+          const status = await fs.promises.readFile(`/proc/${id}/status`, 'utf-8');
+          return parseInt(/^VmRSS:\s+(\d+)/m.exec(status)?.[1] ?? '0');
+        } catch {
+          return 0;
+        }
+      }));
+      return rssKb.reduce((sum, kb) => sum + kb, 0) / 1024;
+    } catch (error) {
+      logger.debug(`Browser health check failed: ${error instanceof Error ? error.message : String(error)}`);
+      return null;
+    } finally {
+      await session?.detach().catch(() => undefined);
+    }
+  }
+}
+
+export const browserPool = new BrowserPool();
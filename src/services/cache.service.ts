@@ -2,6 +2,7 @@ import fs from 'fs';
 import path from 'path';
 import crypto from 'crypto';
 import { logger } from '../utils/logger';
+import { metrics } from './metrics.service';
 
 /**
  * Cache options interface
@@ -57,6 +58,7 @@ export class CacheService {
       
       // Check if cache files exist
       if (!fs.existsSync(cacheFile) || !fs.existsSync(metadataFile)) {
+        metrics.cacheRequests.inc({ result: 'miss' });
         return null;
       }
       
@@ -67,14 +69,17 @@ export class CacheService {
       if (Date.now() > metadata.expiresAt) {
         logger.debug(`Cache expired for key: ${key}`);
         this.invalidate(key);
+        metrics.cacheRequests.inc({ result: 'miss' });
         return null;
       }
       
       // Read cache data
       const cacheData = JSON.parse(fs.readFileSync(cacheFile, 'utf-8')) as T;
       logger.info(`Cache hit for key: ${key}`);
+      metrics.cacheRequests.inc({ result: 'hit' });
       return cacheData;
     } catch (error) {
+      metrics.cacheRequests.inc({ result: 'error' });
       logger.error(`Error reading from cache: ${error instanceof Error ? error.message : String(error)}`);
       return null;
     }
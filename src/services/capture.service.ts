@@ -0,0 +1,60 @@
+import fs from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { logger } from '../utils/logger';
+import { CaptureResult } from '../types';
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'application/pdf': 'pdf'
+};
+
+// Stored files are named by a random ID, so anything else is not ours to serve
+const CAPTURE_FILENAME_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\.(png|jpg|pdf)$/;
+
+/**
+ * Stores screenshots and PDFs inline as base64 or as files in the export directory
+ */
+export class CaptureService {
+  private readonly captureDir: string;
+
+  constructor(outputDir?: string) {
+    this.captureDir = path.resolve(outputDir ?? process.env.CRAWL_OUTPUT_DIR ?? './crawl-output', 'captures');
+  }
+
+  /**
+   * Encode a capture for the response, or save it and return its download path
+   */
+  async save(data: Buffer, contentType: string, storage: 'base64' | 'file' = 'base64'): Promise<CaptureResult> {
+    if (storage === 'base64') {
+      return { contentType, size: data.length, data: data.toString('base64') };
+    }
+
+    const filename = `${uuidv4()}.${EXTENSIONS[contentType] ?? 'bin'}`;
+    await fs.promises.mkdir(this.captureDir, { recursive: true });
+    await fs.promises.writeFile(path.join(this.captureDir, filename), data);
+    logger.info(`Saved ${contentType} capture to ${filename} (${data.length} bytes)`);
+
+    return { contentType, size: data.length, url: `/api/captures/${filename}` };
+  }
+
+  /**
+   * Absolute path of a stored capture, or null if the name is not a capture file or it is gone
+   */
+  async resolve(filename: string): Promise<string | null> {
+    if (!CAPTURE_FILENAME_PATTERN.test(filename)) {
+      return null;
+    }
+
+    const filePath = path.join(this.captureDir, filename);
+    try {
+      await fs.promises.access(filePath);
+      return filePath;
+    } catch {
+      return null;
+    }
+  }
+}
+
+export const captureService = new CaptureService();
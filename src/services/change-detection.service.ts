@@ -0,0 +1,91 @@
+import axios from 'axios';
+import https from 'https';
+import crypto from 'crypto';
+import { logger } from '../utils/logger';
+import { PageChangeStatus, PageFingerprint } from '../types/crawler';
+
+/**
+ * Result of a conditional request against a previously crawled page
+ */
+export interface ConditionalCheckResult {
+  notModified: boolean;
+  etag?: string;
+  lastModified?: string;
+}
+
+/**
+ * Detects page changes between crawls using HTTP validators and content hashes
+ */
+export class ChangeDetectionService {
+  /**
+   * Hash cleaned page content so formatting-only differences in the HTML are ignored
+   */
+  hashContent(content: string): string {
+    const normalized = content.replace(/\r\n/g, '\n').trim();
+    return crypto.createHash('sha256').update(normalized).digest('hex');
+  }
+
+  /**
+   * Read ETag/Last-Modified from response headers, whatever their casing
+   */
+  getValidators(headers: Record<string, any> = {}): { etag?: string; lastModified?: string } {
+    const lowerCased: Record<string, any> = {};
+    for (const [key, value] of Object.entries(headers)) {
+      lowerCased[key.toLowerCase()] = value;
+    }
+
+    return {
+      etag: typeof lowerCased['etag'] === 'string' ? lowerCased['etag'] : undefined,
+      lastModified: typeof lowerCased['last-modified'] === 'string' ? lowerCased['last-modified'] : undefined
+    };
+  }
+
+  /**
+   * Send a conditional HEAD request using the validators from the previous crawl
+   */
+  async checkNotModified(
+    url: string,
+    previous?: PageFingerprint,
+    skipTlsVerification = false
+  ): Promise<ConditionalCheckResult> {
+    const headers: Record<string, string> = {};
+    if (previous?.etag) headers['If-None-Match'] = previous.etag;
+    if (previous?.lastModified) headers['If-Modified-Since'] = previous.lastModified;
+
+    try {
+      const response = await axios.head(url, {
+        headers,
+        timeout: 15000,
+        maxRedirects: 5,
+        validateStatus: status => status < 500,
+        ...(skipTlsVerification && {
+          httpsAgent: new https.Agent({ rejectUnauthorized: false })
+        })
+      });
+
+      const validators = this.getValidators(response.headers as Record<string, any>);
+      const hasValidators = Object.keys(headers).length > 0;
+
+      return {
+        notModified: hasValidators && response.status === 304,
+        etag: validators.etag ?? (response.status === 304 ? previous?.etag : undefined),
+        lastModified: validators.lastModified ?? (response.status === 304 ? previous?.lastModified : undefined)
+      };
+    } catch (error) {
+      logger.debug(`Conditional request failed for ${url}, falling back to a full scrape`, {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return { notModified: false };
+    }
+  }
+
+  /**
+   * Classify a page against its fingerprint from the previous crawl
+   */
+  classify(previous: PageFingerprint | null, contentHash: string): PageChangeStatus {
+    if (!previous) return 'new';
+    return previous.contentHash === contentHash ? 'unchanged' : 'modified';
+  }
+}
+
+export const changeDetectionService = new ChangeDetectionService();
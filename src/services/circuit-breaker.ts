@@ -0,0 +1,125 @@
+import { logger } from '../utils/logger';
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerOptions {
+  windowSize?: number;      // Recent calls considered for the error rate
+  minimumCalls?: number;    // Calls needed in the window before the error rate can trip the breaker
+  errorThreshold?: number;  // Error rate (0-1) that opens the breaker
+  cooldownMs?: number;      // Time the breaker stays open before probing again
+}
+
+/**
+ * Circuit breaker for one backend: opens when the error rate over the recent calls
+ * is too high, then probes with an optional health check before letting a single
+ * trial call through
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private outcomes: boolean[] = [];
+  private openedAt = 0;
+  private probing: Promise<boolean> | null = null;
+
+  private readonly windowSize: number;
+  private readonly minimumCalls: number;
+  private readonly errorThreshold: number;
+  private readonly cooldownMs: number;
+
+  constructor(
+    private readonly name: string,
+    options: CircuitBreakerOptions = {},
+    private readonly healthCheck?: () => Promise<boolean>
+  ) {
+    this.windowSize = options.windowSize ?? 20;
+    this.minimumCalls = options.minimumCalls ?? 5;
+    this.errorThreshold = options.errorThreshold ?? 0.5;
+    this.cooldownMs = options.cooldownMs ?? 30000;
+  }
+
+  getState(): CircuitState {
+    return this.state;
+  }
+
+  /**
+   * Whether a call may go through now
+   */
+  async allowRequest(): Promise<boolean> {
+    if (this.state === 'closed') return true;
+
+    // Only one trial call at a time while half-open
+    if (this.state === 'half-open') return false;
+
+    if (Date.now() - this.openedAt < this.cooldownMs) return false;
+
+    // The caller that starts the probe makes the trial call; everyone else waits it out elsewhere
+    if (this.probing) return false;
+
+    this.probing = this.probe().finally(() => {
+      this.probing = null;
+    });
+    return this.probing;
+  }
+
+  /**
+   * Record a successful call
+   */
+  recordSuccess(): void {
+    if (this.state !== 'closed') {
+      logger.info(`Circuit breaker for ${this.name} closed`);
+      this.state = 'closed';
+      this.outcomes = [];
+    }
+    this.pushOutcome(true);
+  }
+
+  /**
+   * Record a failed call
+   */
+  recordFailure(): void {
+    if (this.state === 'half-open') {
+      this.open('trial call failed');
+      return;
+    }
+
+    this.pushOutcome(false);
+
+    const failures = this.outcomes.filter(ok => !ok).length;
+    const errorRate = failures / this.outcomes.length;
+    if (this.outcomes.length >= this.minimumCalls && errorRate >= this.errorThreshold) {
+      this.open(`error rate ${Math.round(errorRate * 100)}% over ${this.outcomes.length} calls`);
+    }
+  }
+
+  private async probe(): Promise<boolean> {
+    let healthy = true;
+    if (this.healthCheck) {
+      try {
+        healthy = await this.healthCheck();
+      } catch {
+        healthy = false;
+      }
+    }
+
+    if (!healthy) {
+      this.open('health check failed');
+      return false;
+    }
+
+    logger.info(`Circuit breaker for ${this.name} half-open, allowing a trial call`);
+    this.state = 'half-open';
+    return true;
+  }
+
+  private open(reason: string): void {
+    logger.warn(`Circuit breaker for ${this.name} opened: ${reason}`, { cooldownMs: this.cooldownMs });
+    this.state = 'open';
+    this.openedAt = Date.now();
+  }
+
+  private pushOutcome(ok: boolean): void {
+    this.outcomes.push(ok);
+    if (this.outcomes.length > this.windowSize) {
+      this.outcomes.shift();
+    }
+  }
+}
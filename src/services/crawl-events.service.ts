@@ -0,0 +1,120 @@
+import { EventEmitter } from 'events';
+import Redis from 'ioredis';
+import { redisClient } from './redis.service';
+import { logger } from '../utils/logger';
+
+export type CrawlEventType =
+  | 'url-discovered'
+  | 'url-crawled'
+  | 'page-completed'
+  | 'page-failed'
+  | 'page-exported'
+  | 'crawl-completed'
+  | 'crawl-cancelled';
+
+export interface CrawlEvent {
+  type: CrawlEventType;
+  crawlId: string;
+  timestamp: string;
+  data: Record<string, any>;
+}
+
+const CHANNEL_PREFIX = 'crawl-events:';
+
+/**
+ * Publishes crawl progress over Redis pub/sub so any API instance can stream it,
+ * no matter which worker processed the page
+ */
+export class CrawlEventsService {
+  private subscriber: Redis | null = null;
+  // Pending psubscribe, shared so every stream waits until events actually arrive
+  private subscribed: Promise<void> | null = null;
+  private readonly emitter = new EventEmitter();
+
+  constructor() {
+    // One listener per open stream; large dashboards can hold many
+    this.emitter.setMaxListeners(0);
+  }
+
+  /**
+   * Publish an event for a crawl (fire-and-forget; failures are only logged)
+   */
+  async publish(crawlId: string, type: CrawlEventType, data: Record<string, any> = {}): Promise<void> {
+    const event: CrawlEvent = {
+      type,
+      crawlId,
+      timestamp: new Date().toISOString(),
+      data
+    };
+
+    try {
+      await redisClient.publish(`${CHANNEL_PREFIX}${crawlId}`, JSON.stringify(event));
+    } catch (error) {
+      logger.debug(`Failed to publish crawl event ${type}`, {
+        crawlId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  /**
+   * Listen to the events of one crawl
+   * @returns Function that removes the listener
+   */
+  async subscribe(crawlId: string, listener: (event: CrawlEvent) => void): Promise<() => void> {
+    await this.ensureSubscriber();
+
+    const channel = `${CHANNEL_PREFIX}${crawlId}`;
+    this.emitter.on(channel, listener);
+
+    return () => {
+      this.emitter.off(channel, listener);
+    };
+  }
+
+  /**
+   * Lazily open the dedicated subscriber connection (subscribed clients can't run other commands)
+   */
+  private ensureSubscriber(): Promise<void> {
+    if (!this.subscribed) {
+      this.subscribed = this.openSubscriber().catch(error => {
+        // Let the next stream try again
+        this.subscriber?.disconnect();
+        this.subscriber = null;
+        this.subscribed = null;
+        throw error;
+      });
+    }
+    return this.subscribed;
+  }
+
+  private async openSubscriber(): Promise<void> {
+    this.subscriber = redisClient.duplicate();
+    this.subscriber.on('error', (err) => {
+      logger.error('Crawl events subscriber error', { error: err });
+    });
+    this.subscriber.on('pmessage', (_pattern: string, channel: string, message: string) => {
+      try {
+        this.emitter.emit(channel, JSON.parse(message) as CrawlEvent);
+      } catch (error) {
+        logger.debug('Ignoring malformed crawl event', { channel, error });
+      }
+    });
+
+    await this.subscriber.psubscribe(`${CHANNEL_PREFIX}*`);
+    logger.info('Subscribed to crawl events');
+  }
+
+  /**
+   * Close the subscriber connection
+   */
+  async close(): Promise<void> {
+    if (this.subscriber) {
+      await this.subscriber.quit();
+      this.subscriber = null;
+      this.subscribed = null;
+    }
+  }
+}
+
+export const crawlEventsService = new CrawlEventsService();
@@ -1,7 +1,10 @@
-import { Queue, Worker, Job, QueueEvents, ConnectionOptions } from 'bullmq';
+import crypto from 'crypto';
+import { Queue, Worker, Job, QueueEvents, ConnectionOptions, KeepJobs } from 'bullmq';
 import { Redis } from 'ioredis';
 import { logger } from '../utils/logger';
 import { redisClient } from './redis.service';
+import { metrics, metricsService } from './metrics.service';
+import { systemLoadService } from './system-load.service';
 
 export interface QueueConfig {
   concurrency: number;
@@ -20,8 +23,9 @@ export interface JobOptions {
   delay?: number;
   lockDuration?: number;
   attempts?: number;
-  removeOnComplete?: number;
-  removeOnFail?: number;
+  removeOnComplete?: number | KeepJobs;
+  removeOnFail?: number | KeepJobs;
+  jobId?: string;
 }
 
 export interface QueueStats {
@@ -35,10 +39,17 @@ export interface QueueStats {
   throughput: number; // jobs per minute
 }
 
-export interface SystemLoad {
-  cpu: number;
-  memory: number;
-  activeConnections: number;
+/**
+ * Load levels that drive dynamic scaling (percentages unless noted)
+ */
+export interface ScalingThresholds {
+  intervalMs: number;
+  cpuLow: number;
+  cpuHigh: number;
+  memoryLow: number;
+  memoryHigh: number;
+  eventLoopLagMs: number;
+  maxChromiumProcesses: number; // 0 disables the browser process limit
 }
 
 /**
@@ -51,6 +62,8 @@ export class EnhancedQueueService {
   private readonly queueEvents: QueueEvents;
   private readonly redis: Redis;
   private readonly config: QueueConfig;
+  private readonly scaling: ScalingThresholds;
+  private scalingInterval: NodeJS.Timeout | null = null;
   private isShuttingDown = false;
   private readonly lockExtensionIntervals = new Map<string, NodeJS.Timeout>();
   private readonly throughputTracker = {
@@ -73,6 +86,16 @@ export class EnhancedQueueService {
       ...config
     };
 
+    this.scaling = {
+      intervalMs: parseInt(process.env.QUEUE_SCALING_INTERVAL ?? '30000'),
+      cpuLow: parseFloat(process.env.QUEUE_SCALING_CPU_LOW ?? '70'),
+      cpuHigh: parseFloat(process.env.QUEUE_SCALING_CPU_HIGH ?? '85'),
+      memoryLow: parseFloat(process.env.QUEUE_SCALING_MEMORY_LOW ?? '80'),
+      memoryHigh: parseFloat(process.env.QUEUE_SCALING_MEMORY_HIGH ?? '90'),
+      eventLoopLagMs: parseFloat(process.env.QUEUE_SCALING_EVENT_LOOP_LAG_MS ?? '200'),
+      maxChromiumProcesses: parseInt(process.env.QUEUE_SCALING_MAX_CHROMIUM_PROCESSES ?? '0')
+    };
+
     const connection: ConnectionOptions = {
       host: process.env.REDIS_HOST ?? 'localhost',
       port: parseInt(process.env.REDIS_PORT ?? '6379'),
@@ -106,6 +129,8 @@ export class EnhancedQueueService {
       this.startDynamicScaling();
     }
 
+    metricsService.registerCollector(() => this.collectMetrics());
+
     logger.info(`Enhanced queue service initialized: ${queueName}`, {
       config: this.config,
       queueName
@@ -125,7 +150,7 @@ export class EnhancedQueueService {
     }
 
     // Generate job ID to prevent duplicates if needed
-    const jobId = options.priority !== undefined ? undefined : this.generateJobId(jobName, data);
+    const jobId = options.jobId ?? (options.priority !== undefined ? undefined : this.generateJobId(jobName, data));
 
     const jobOptions = {
       priority: options.priority ?? 0,
@@ -329,12 +354,9 @@ export class EnhancedQueueService {
    * Get comprehensive queue statistics
    */
   async getStats(): Promise<QueueStats> {
-    const [waiting, active, completed, failed, delayed, paused] = await Promise.all([
-      this.queue.getWaiting(),
-      this.queue.getActive(),
-      this.queue.getCompleted(),
-      this.queue.getFailed(),
-      this.queue.getDelayed(),
+    // Counts only; fetching the job lists would load every retained job on each call
+    const [counts, paused] = await Promise.all([
+      this.queue.getJobCounts('waiting', 'active', 'completed', 'failed', 'delayed'),
       this.queue.isPaused()
     ]);
 
@@ -343,63 +365,82 @@ export class EnhancedQueueService {
     const throughput = elapsed > 0 ? (this.throughputTracker.processedJobs / elapsed) * 60000 : 0;
 
     return {
-      waiting: waiting.length,
-      active: active.length,
-      completed: completed.length,
-      failed: failed.length,
-      delayed: delayed.length,
+      waiting: counts.waiting ?? 0,
+      active: counts.active ?? 0,
+      completed: counts.completed ?? 0,
+      failed: counts.failed ?? 0,
+      delayed: counts.delayed ?? 0,
       paused: paused ? 1 : 0,
       currentConcurrency: this.config.concurrency,
       throughput
     };
   }
 
+  /**
+   * Publish queue depth, active jobs and throughput to the metrics registry
+   */
+  private async collectMetrics(): Promise<void> {
+    if (this.isShuttingDown) return;
+
+    const stats = await this.getStats();
+    const queue = this.queue.name;
+
+    for (const state of ['waiting', 'active', 'delayed', 'failed', 'completed'] as const) {
+      metrics.queueJobs.set({ queue, state }, stats[state]);
+    }
+    metrics.queueConcurrency.set({ queue }, stats.currentConcurrency);
+    metrics.queueThroughput.set({ queue }, stats.throughput);
+  }
+
   /**
    * Dynamic concurrency adjustment based on system load and queue metrics
    */
   async adjustConcurrency(): Promise<void> {
-    if (!this.config.enableDynamicScaling || !this.worker) {
+    if (!this.config.enableDynamicScaling || !this.worker || this.isShuttingDown) {
       return;
     }
 
     try {
       const stats = await this.getStats();
-      const systemLoad = await this.getSystemLoad();
-      
-      let newConcurrency = this.config.concurrency;
-      
-      // Increase concurrency if:
-      // - System load is reasonable
-      // - Many jobs are waiting
-      // - We're below max concurrency
-      if (systemLoad.cpu < 70 && 
-          systemLoad.memory < 80 && 
-          stats.waiting > 10 && 
-          this.config.concurrency < this.config.maxConcurrency) {
-        newConcurrency = Math.min(this.config.concurrency + 1, this.config.maxConcurrency);
+      // Queues in the same process share one sample so they see the same load window
+      const systemLoad = await systemLoadService.getLoad(this.scaling.intervalMs / 2);
+      const previousConcurrency = this.config.concurrency;
+      let newConcurrency = previousConcurrency;
+
+      const overloaded = systemLoad.cpu > this.scaling.cpuHigh ||
+        systemLoad.memory > this.scaling.memoryHigh ||
+        systemLoad.eventLoopLagMs > this.scaling.eventLoopLagMs ||
+        (this.scaling.maxChromiumProcesses > 0 && systemLoad.chromiumProcesses > this.scaling.maxChromiumProcesses);
+
+      const hasHeadroom = systemLoad.cpu < this.scaling.cpuLow &&
+        systemLoad.memory < this.scaling.memoryLow &&
+        systemLoad.eventLoopLagMs < this.scaling.eventLoopLagMs / 2 &&
+        (this.scaling.maxChromiumProcesses === 0 || systemLoad.chromiumProcesses < this.scaling.maxChromiumProcesses);
+
+      // Decrease concurrency when any resource is saturated
+      if (overloaded && previousConcurrency > this.config.minConcurrency) {
+        newConcurrency = Math.max(previousConcurrency - 1, this.config.minConcurrency);
       }
-      
-      // Decrease concurrency if:
-      // - System load is high
-      // - We're above min concurrency
-      else if ((systemLoad.cpu > 85 || systemLoad.memory > 90) && 
-               this.config.concurrency > this.config.minConcurrency) {
-        newConcurrency = Math.max(this.config.concurrency - 1, this.config.minConcurrency);
+
+      // Increase concurrency when every slot is busy, jobs are waiting and there is headroom
+      else if (hasHeadroom &&
+               stats.waiting > 0 &&
+               stats.active >= previousConcurrency &&
+               previousConcurrency < this.config.maxConcurrency) {
+        newConcurrency = Math.min(previousConcurrency + 1, this.config.maxConcurrency);
       }
-      
-      if (newConcurrency !== this.config.concurrency) {
+
+      if (newConcurrency !== previousConcurrency) {
         this.config.concurrency = newConcurrency;
-        
-        // Update worker concurrency (BullMQ doesn't support runtime changes,
-        // so we'll restart the worker if needed)
-        logger.info(`Adjusting queue concurrency to ${newConcurrency}`, {
-          previousConcurrency: this.config.concurrency,
+
+        // BullMQ applies the new limit as jobs finish; running jobs are not interrupted
+        this.worker.concurrency = newConcurrency;
+
+        logger.info(`Adjusted ${this.queue.name} concurrency to ${newConcurrency}`, {
+          previousConcurrency,
           systemLoad,
           queueStats: stats
         });
-        
-        // Note: In production, you might want to implement graceful worker restart
-        // For now, we'll just log the change
       }
     } catch (error) {
       logger.error('Failed to adjust concurrency', { 
@@ -412,32 +453,17 @@ export class EnhancedQueueService {
    * Start dynamic scaling monitoring
    */
   private startDynamicScaling(): void {
-    // Check every 30 seconds
-    setInterval(() => {
+    this.scalingInterval = setInterval(() => {
       if (!this.isShuttingDown) {
         this.adjustConcurrency();
       }
-    }, 30000);
-  }
-
-  /**
-   * Get system load metrics (placeholder implementation)
-   */
-  private async getSystemLoad(): Promise<SystemLoad> {
-    // In a real implementation, you would measure actual CPU and memory usage
-    // For now, we'll return mock values
-    return {
-      cpu: Math.random() * 100,
-      memory: Math.random() * 100,
-      activeConnections: Math.floor(Math.random() * 50)
-    };
+    }, this.scaling.intervalMs);
   }
 
   /**
    * Generate deterministic job ID for duplicate prevention
    */
   private generateJobId(jobName: string, data: any): string {
-    const crypto = require('crypto');
     // Using SHA-256 instead of MD5 for better security (though this is just for job IDs)
     const hash = crypto.createHash('sha256');
     hash.update(jobName);
@@ -496,6 +522,13 @@ export class EnhancedQueueService {
     });
   }
 
+  /**
+   * Look up a job by ID (null once it has been removed)
+   */
+  async getJob(jobId: string): Promise<Job | null> {
+    return (await this.queue.getJob(jobId)) ?? null;
+  }
+
   /**
    * Pause the queue
    */
@@ -534,6 +567,11 @@ export class EnhancedQueueService {
     this.isShuttingDown = true;
     
     logger.info('Shutting down enhanced queue service...');
+
+    if (this.scalingInterval) {
+      clearInterval(this.scalingInterval);
+      this.scalingInterval = null;
+    }
     
     // Clear all lock extension intervals
     for (const interval of this.lockExtensionIntervals.values()) {
@@ -1,6 +1,7 @@
 import fs from 'fs';
 import path from 'path';
 import { logger } from '../utils/logger';
+import { ChangeManifest } from '../types/crawler';
 
 /**
  * Service for exporting crawled content to files
@@ -294,6 +295,7 @@ export class FileExportService {
       metadata?.contentType ? `content_type: "${metadata.contentType}"` : '',
       metadata?.loadTime ? `load_time: ${metadata.loadTime}ms` : '',
       metadata?.usedBrowser ? `browser_mode: ${metadata.usedBrowser}` : '',
+      metadata?.changeStatus ? `change_status: ${metadata.changeStatus}` : '',
       '---',
       ''
     ].filter(Boolean).join('\n');
@@ -358,6 +360,31 @@ export class FileExportService {
     }
   }
 
+  /**
+   * Export the change manifest listing new, modified, unchanged and removed pages
+   */
+  async exportChangeManifest(crawlId: string, manifest: ChangeManifest): Promise<string> {
+    try {
+      const crawlDir = path.join(this.outputDir, crawlId);
+      if (!fs.existsSync(crawlDir)) {
+        fs.mkdirSync(crawlDir, { recursive: true });
+      }
+      
+      const filepath = path.join(crawlDir, `${crawlId}_changes.json`);
+      await fs.promises.writeFile(filepath, JSON.stringify(manifest, null, 2), 'utf8');
+      
+      logger.info(`Exported change manifest: ${filepath}`, { crawlId, counts: manifest.counts });
+      
+      return filepath;
+    } catch (error) {
+      logger.error(`Failed to export change manifest`, {
+        crawlId,
+        error: (error as Error).message
+      });
+      throw error;
+    }
+  }
+
   /**
    * Get the output directory for a specific crawl
    */
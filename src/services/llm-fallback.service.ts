@@ -0,0 +1,154 @@
+import {
+  LLMProvider,
+  LLMResponse,
+  LLMCompletionOptions,
+  LLMMessage,
+  LLMProviderType
+} from '../types/llm.types';
+import { CircuitBreaker, CircuitBreakerOptions, CircuitState } from './circuit-breaker';
+import { logger } from '../utils/logger';
+
+interface ChainMember {
+  provider: LLMProvider;
+  breaker: CircuitBreaker;
+}
+
+/**
+ * Whether a failure is the backend's (server errors, rate limits, timeouts, connection
+ * errors) rather than a request it rejected, which every other provider would reject too
+ */
+function isBackendFailure(response: LLMResponse<unknown>): boolean {
+  const status = response.statusCode;
+  return status === undefined || status === 429 || status >= 500;
+}
+
+/**
+ * Composite provider that tries an ordered chain of providers, skipping
+ * any whose circuit breaker is open
+ */
+export class FallbackLLMService implements LLMProvider {
+  private readonly chain: ChainMember[];
+
+  constructor(providers: LLMProvider[], breakerOptions: CircuitBreakerOptions = {}) {
+    if (providers.length === 0) {
+      throw new Error('Fallback chain needs at least one provider');
+    }
+
+    this.chain = providers.map(provider => ({
+      provider,
+      breaker: new CircuitBreaker(
+        `${provider.getProvider()}:${provider.getModel()}`,
+        breakerOptions,
+        provider.healthCheck?.bind(provider)
+      )
+    }));
+
+    logger.info(`Initialized LLM fallback chain: ${this.describeChain()}`);
+  }
+
+  /**
+   * The first provider whose breaker is closed, i.e. the one expected to answer next
+   */
+  private get active(): LLMProvider {
+    return (this.chain.find(member => member.breaker.getState() === 'closed') ?? this.chain[0]).provider;
+  }
+
+  getProvider(): LLMProviderType {
+    return this.active.getProvider();
+  }
+
+  getModel(): string {
+    return this.active.getModel();
+  }
+
+  /**
+   * Breaker state of every provider in the chain
+   */
+  getChainStatus(): Array<{ provider: LLMProviderType; model: string; state: CircuitState }> {
+    return this.chain.map(({ provider, breaker }) => ({
+      provider: provider.getProvider(),
+      model: provider.getModel(),
+      state: breaker.getState()
+    }));
+  }
+
+  async getCompletion<T>(
+    messages: LLMMessage[],
+    options?: LLMCompletionOptions,
+    responseFormat?: { type: string; schema?: object }
+  ): Promise<LLMResponse<T>> {
+    return this.runWithFallback('completion', provider => provider.getCompletion<T>(messages, options, responseFormat));
+  }
+
+  async getEmbeddings(text: string | string[]): Promise<LLMResponse<number[][]>> {
+    return this.runWithFallback('embeddings', provider => provider.getEmbeddings(text));
+  }
+
+  async listModels(): Promise<string[]> {
+    const results = await Promise.all(this.chain.map(({ provider }) => provider.listModels?.() ?? Promise.resolve([])));
+    return [...new Set(results.flat())];
+  }
+
+  async healthCheck(): Promise<boolean> {
+    for (const { provider } of this.chain) {
+      if (!provider.healthCheck || await provider.healthCheck()) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Call providers in order until one succeeds, feeding every outcome to its breaker
+   */
+  private async runWithFallback<R>(
+    operation: string,
+    call: (provider: LLMProvider) => Promise<LLMResponse<R>>
+  ): Promise<LLMResponse<R>> {
+    const errors: string[] = [];
+
+    for (const { provider, breaker } of this.chain) {
+      const name = provider.getProvider();
+
+      if (!(await breaker.allowRequest())) {
+        errors.push(`${name}: circuit open`);
+        continue;
+      }
+
+      let response: LLMResponse<R>;
+      try {
+        response = await call(provider);
+      } catch (error) {
+        response = { success: false, error: error instanceof Error ? error.message : String(error) };
+      }
+
+      if (response.success || !isBackendFailure(response)) {
+        // A rejected request still shows the backend is up
+        breaker.recordSuccess();
+        if (response.success && errors.length > 0) {
+          logger.info(`LLM ${operation} served by fallback provider ${name}`, { skipped: errors });
+        }
+        return {
+          ...response,
+          metadata: {
+            ...response.metadata,
+            provider: name
+          }
+        };
+      }
+
+      breaker.recordFailure();
+      errors.push(`${name}: ${response.error}`);
+      logger.warn(`LLM ${operation} failed on ${name}, trying next provider`, { error: response.error });
+    }
+
+    return {
+      success: false,
+      error: `All LLM providers failed (${errors.join('; ')})`
+    };
+  }
+
+  private describeChain(): string {
+    return this.chain.map(({ provider }) => `${provider.getProvider()}(${provider.getModel()})`).join(' -> ');
+  }
+}
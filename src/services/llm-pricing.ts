@@ -0,0 +1,106 @@
+import fs from 'fs';
+import { logger } from '../utils/logger';
+import { LLMResponse } from '../types/llm.types';
+import { LLMUsage, LLMUsageTotals, ModelPrice } from '../types/usage';
+
+// USD per million tokens; matched by longest model-name prefix. Override with LLM_PRICE_TABLE.
+const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4-turbo': { input: 10, output: 30 },
+  'gpt-4': { input: 30, output: 60 },
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+  'claude-opus-4': { input: 15, output: 75 },
+  'claude-sonnet-4': { input: 3, output: 15 },
+  'claude-haiku-4': { input: 1, output: 5 },
+  'claude-3-7-sonnet': { input: 3, output: 15 },
+  'claude-3-5-sonnet': { input: 3, output: 15 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 }
+};
+
+/**
+ * Create an empty usage record
+ */
+export function createEmptyUsage(): LLMUsage {
+  return { calls: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, costUsd: 0, models: {} };
+}
+
+export function emptyTotals(): LLMUsageTotals {
+  return { calls: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, costUsd: 0 };
+}
+
+/**
+ * Prices LLM calls from a per-model table and totals their usage
+ */
+export class LLMPricing {
+  private readonly prices: Record<string, ModelPrice>;
+  private readonly unpricedModels = new Set<string>();
+
+  constructor() {
+    this.prices = { ...DEFAULT_PRICES, ...this.loadPriceTable() };
+  }
+
+  /**
+   * Read LLM_PRICE_TABLE as inline JSON or as a path to a JSON file
+   */
+  private loadPriceTable(): Record<string, ModelPrice> {
+    const source = process.env.LLM_PRICE_TABLE?.trim();
+    if (!source) return {};
+
+    try {
+      const json = source.startsWith('{') ? source : fs.readFileSync(source, 'utf-8');
+      return JSON.parse(json);
+    } catch (error) {
+      logger.error(`Failed to load LLM_PRICE_TABLE, using default prices: ${error instanceof Error ? error.message : String(error)}`);
+      return {};
+    }
+  }
+
+  /**
+   * Price for a model by longest matching prefix (providers may append dates or tags)
+   */
+  getPrice(model: string): ModelPrice | undefined {
+    const name = model.toLowerCase();
+    const match = Object.keys(this.prices)
+      .filter(prefix => name === prefix.toLowerCase() || name.startsWith(prefix.toLowerCase()))
+      .sort((a, b) => b.length - a.length)[0];
+    return match ? this.prices[match] : undefined;
+  }
+
+  calculateCost(model: string, promptTokens: number, completionTokens: number): number {
+    const price = this.getPrice(model);
+    if (!price) {
+      if (!this.unpricedModels.has(model)) {
+        this.unpricedModels.add(model);
+        logger.debug(`No price configured for model ${model}, counting its cost as 0`);
+      }
+      return 0;
+    }
+    return (promptTokens * price.input + completionTokens * price.output) / 1_000_000;
+  }
+
+  /**
+   * Add the usage reported by one LLM response to a running total
+   */
+  addResponse(usage: LLMUsage, response: LLMResponse<any>, fallbackModel: string): void {
+    const reported = response.metadata?.usage;
+    if (!reported) return;
+
+    const model = response.metadata?.model ?? fallbackModel;
+    const key = `${response.metadata?.provider ?? 'unknown'}/${model}`;
+    const costUsd = this.calculateCost(model, reported.promptTokens, reported.completionTokens);
+
+    for (const totals of [usage, (usage.models[key] ??= emptyTotals())]) {
+      totals.calls++;
+      totals.promptTokens += reported.promptTokens;
+      totals.completionTokens += reported.completionTokens;
+      totals.totalTokens += reported.promptTokens + reported.completionTokens;
+      totals.costUsd += costUsd;
+    }
+  }
+}
+
+export const llmPricing = new LLMPricing();
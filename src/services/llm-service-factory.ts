@@ -1,5 +1,7 @@
 import { OpenAIService } from './openai.service';
 import { LocalLLMService } from './local-llm.service';
+import { AnthropicService } from './anthropic.service';
+import { FallbackLLMService } from './llm-fallback.service';
 import { LLMProvider, LLMProviderType, LLMConfig } from '../types/llm.types';
 import { logger } from '../utils/logger';
 
@@ -12,6 +14,8 @@ export enum TaskComplexity {
   HIGH = 'high',
 }
 
+const VALID_PROVIDERS: LLMProviderType[] = ['openai', 'anthropic', 'vllm', 'ollama', 'localai', 'litellm', 'custom'];
+
 /**
  * Factory class for creating LLM services
  * Always uses the OpenAI model specified in env variables
@@ -22,9 +26,8 @@ export class LLMServiceFactory {
    */
   private static getLLMProvider(): LLMProviderType {
     const provider = process.env.LLM_PROVIDER?.toLowerCase();
-    const validProviders: LLMProviderType[] = ['openai', 'vllm', 'ollama', 'localai', 'litellm', 'custom'];
     
-    if (provider && validProviders.includes(provider as LLMProviderType)) {
+    if (provider && VALID_PROVIDERS.includes(provider as LLMProviderType)) {
       return provider as LLMProviderType;
     }
     
@@ -32,10 +35,29 @@ export class LLMServiceFactory {
     return 'openai';
   }
   
+  /**
+   * Get the ordered provider chain from LLM_PROVIDER_CHAIN (e.g. "vllm,litellm,openai"),
+   * or just LLM_PROVIDER when no chain is configured
+   */
+  private static getLLMProviderChain(): LLMProviderType[] {
+    const chain = (process.env.LLM_PROVIDER_CHAIN ?? '')
+      .split(',')
+      .map(provider => provider.trim().toLowerCase())
+      .filter(Boolean);
+    
+    const invalid = chain.filter(provider => !VALID_PROVIDERS.includes(provider as LLMProviderType));
+    if (invalid.length > 0) {
+      logger.warn(`Ignoring unknown providers in LLM_PROVIDER_CHAIN: ${invalid.join(', ')}`);
+    }
+    
+    const valid = [...new Set(chain.filter(provider => VALID_PROVIDERS.includes(provider as LLMProviderType)))];
+    return valid.length > 0 ? valid as LLMProviderType[] : [this.getLLMProvider()];
+  }
+  
   /**
    * Create an OpenAI service instance
    */
-  static createOpenAIService(taskComplexity?: TaskComplexity): OpenAIService | null {
+  static createOpenAIService(_taskComplexity?: TaskComplexity): OpenAIService | null {
     try {
       // Get configuration
       const apiKey = process.env.OPENAI_API_KEY;
@@ -63,15 +85,53 @@ export class LLMServiceFactory {
     }
   }
   
+  /**
+   * Create an Anthropic service instance
+   */
+  static createAnthropicService(): AnthropicService | null {
+    try {
+      const apiKey = process.env.ANTHROPIC_API_KEY;
+      const model = process.env.ANTHROPIC_MODEL ?? 'claude-sonnet-4-5';
+      const baseUrl = process.env.ANTHROPIC_BASE_URL;
+      const timeout = process.env.LLM_TIMEOUT ? parseInt(process.env.LLM_TIMEOUT) : undefined;
+      const maxRetries = process.env.LLM_MAX_RETRIES ? parseInt(process.env.LLM_MAX_RETRIES) : undefined;
+      
+      if (!apiKey) {
+        logger.warn(
+          'Anthropic service not configured correctly. Missing environment variable: ANTHROPIC_API_KEY. ' +
+          'Make sure to set this variable in your .env file.'
+        );
+        return null;
+      }
+      
+      logger.info(`Creating Anthropic service with model: ${model}`);
+      
+      return new AnthropicService({
+        provider: 'anthropic',
+        baseUrl,
+        apiKey,
+        model,
+        timeout,
+        maxRetries
+      });
+    } catch (error) {
+      logger.error(`Error creating Anthropic service: ${error instanceof Error ? error.message : String(error)}`);
+      return null;
+    }
+  }
+  
   /**
    * Create a local LLM service instance
    */
   static createLocalLLMService(provider: LLMProviderType): LLMProvider | null {
     try {
-      // Get base configuration from environment
-      const baseUrl = process.env.LLM_BASE_URL;
-      const apiKey = process.env.LLM_API_KEY ?? 'dummy-key';
-      const model = process.env.LLM_MODEL;
+      // Get base configuration from environment. The generic LLM_* variables belong to the
+      // primary provider; fallback providers read prefixed ones such as LITELLM_BASE_URL.
+      const prefix = provider.toUpperCase();
+      const isPrimary = provider === this.getLLMProviderChain()[0];
+      const baseUrl = (isPrimary ? process.env.LLM_BASE_URL : undefined) ?? process.env[`${prefix}_BASE_URL`];
+      const apiKey = (isPrimary ? process.env.LLM_API_KEY : undefined) ?? process.env[`${prefix}_API_KEY`] ?? 'dummy-key';
+      const model = (isPrimary ? process.env.LLM_MODEL : undefined) ?? process.env[`${prefix}_MODEL`];
       const timeout = process.env.LLM_TIMEOUT ? parseInt(process.env.LLM_TIMEOUT) : undefined;
       const maxRetries = process.env.LLM_MAX_RETRIES ? parseInt(process.env.LLM_MAX_RETRIES) : undefined;
       
@@ -138,12 +198,43 @@ export class LLMServiceFactory {
    * This is the main method to use for getting an LLM service instance
    */
   static createLLMService(taskComplexity?: TaskComplexity): LLMProvider | null {
-    const provider = this.getLLMProvider();
+    const chain = this.getLLMProviderChain();
+    if (chain.length === 1) {
+      return this.createProvider(chain[0], taskComplexity);
+    }
     
+    logger.info(`Creating LLM service with provider chain: ${chain.join(' -> ')}`);
+    
+    // Providers that are not configured are left out of the chain
+    const providers = chain
+      .map(provider => this.createProvider(provider, taskComplexity))
+      .filter((provider): provider is LLMProvider => provider !== null);
+    
+    if (providers.length === 0) {
+      return null;
+    }
+    if (providers.length === 1) {
+      return providers[0];
+    }
+    
+    return new FallbackLLMService(providers, {
+      windowSize: process.env.LLM_BREAKER_WINDOW ? parseInt(process.env.LLM_BREAKER_WINDOW) : undefined,
+      minimumCalls: process.env.LLM_BREAKER_MIN_CALLS ? parseInt(process.env.LLM_BREAKER_MIN_CALLS) : undefined,
+      errorThreshold: process.env.LLM_BREAKER_ERROR_THRESHOLD ? parseFloat(process.env.LLM_BREAKER_ERROR_THRESHOLD) : undefined,
+      cooldownMs: process.env.LLM_BREAKER_COOLDOWN_MS ? parseInt(process.env.LLM_BREAKER_COOLDOWN_MS) : undefined
+    });
+  }
+  
+  /**
+   * Create a single provider by type
+   */
+  private static createProvider(provider: LLMProviderType, taskComplexity?: TaskComplexity): LLMProvider | null {
     logger.info(`Creating LLM service with provider: ${provider}`);
     
     if (provider === 'openai') {
       return this.createOpenAIService(taskComplexity);
+    } else if (provider === 'anthropic') {
+      return this.createAnthropicService();
     } else {
       return this.createLocalLLMService(provider);
     }
@@ -153,7 +244,7 @@ export class LLMServiceFactory {
    * Determine the task complexity (kept for API compatibility)
    * This is ignored in model selection but maintained for interface compatibility
    */
-  static getTaskComplexityForExtraction(options: { extractionType?: string; schema?: any }): TaskComplexity {
+  static getTaskComplexityForExtraction(_options: { extractionType?: string; schema?: any }): TaskComplexity {
     // Always return MEDIUM complexity as it doesn't matter anymore
     return TaskComplexity.MEDIUM;
   }
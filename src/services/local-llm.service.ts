@@ -135,7 +135,7 @@ export class LocalLLMService implements LLMProvider {
     
     // Add response format only if supported by provider
     if (this.supportsResponseFormat() && responseFormat) {
-      requestParams.response_format = responseFormat;
+      requestParams.response_format = { type: responseFormat.type };
     }
     
     // Disable thinking mode for Qwen models
@@ -260,6 +260,7 @@ export class LocalLLMService implements LLMProvider {
       return {
         success: false,
         error: this.buildErrorMessage(error),
+        statusCode: error instanceof OpenAI.APIError ? error.status : undefined,
       };
     }
   }
@@ -313,6 +314,7 @@ export class LocalLLMService implements LLMProvider {
       return {
         success: false,
         error: errorMessage,
+        statusCode: error instanceof OpenAI.APIError ? error.status : undefined,
       };
     }
   }
@@ -0,0 +1,170 @@
+import client, { Counter, Gauge, Registry } from 'prom-client';
+import { logger } from '../utils/logger';
+
+type Labels = Record<string, string>;
+
+const DEFAULT_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60];
+
+/**
+ * Histogram that can time an async operation, labelling it with its outcome
+ */
+export class Histogram extends client.Histogram<string> {
+  /**
+   * Time an async operation in seconds; `labelsFor` can add labels from its outcome
+   */
+  async time<T>(labels: Labels, operation: () => Promise<T>, labelsFor?: (result: T) => Labels): Promise<T> {
+    const end = this.startTimer(labels);
+
+    try {
+      const result = await operation();
+      end(labelsFor?.(result));
+      return result;
+    } catch (error) {
+      end({ outcome: 'error' });
+      throw error;
+    }
+  }
+}
+
+/**
+ * Prometheus registry for the service's metrics, optionally with the default
+ * process and Node.js metrics
+ */
+export class MetricsService {
+  private readonly registry = new Registry();
+  private readonly collectors: Array<() => Promise<void> | void> = [];
+
+  constructor(options: { defaultMetrics?: boolean } = {}) {
+    if (options.defaultMetrics) {
+      client.collectDefaultMetrics({ register: this.registry });
+    }
+  }
+
+  get contentType(): string {
+    return this.registry.contentType;
+  }
+
+  counter(name: string, help: string, labelNames: string[] = []): Counter {
+    return new Counter({ name, help, labelNames, registers: [this.registry] });
+  }
+
+  gauge(name: string, help: string, labelNames: string[] = []): Gauge {
+    return new Gauge({ name, help, labelNames, registers: [this.registry] });
+  }
+
+  histogram(name: string, help: string, labelNames: string[] = [], buckets: number[] = DEFAULT_BUCKETS): Histogram {
+    return new Histogram({ name, help, labelNames, buckets, registers: [this.registry] });
+  }
+
+  /**
+   * Run `collect` before every render, for gauges sampled at scrape time
+   */
+  registerCollector(collect: () => Promise<void> | void): void {
+    this.collectors.push(collect);
+  }
+
+  async render(): Promise<string> {
+    const results = await Promise.allSettled(this.collectors.map(collect => collect()));
+    results.forEach(result => {
+      if (result.status === 'rejected') {
+        logger.warn(`Metrics collector failed: ${result.reason instanceof Error ? result.reason.message : String(result.reason)}`);
+      }
+    });
+
+    return this.registry.metrics();
+  }
+}
+
+export const metricsService = new MetricsService({ defaultMetrics: true });
+
+/**
+ * Metrics shared across the service
+ */
+export const metrics = {
+  scrapeDuration: metricsService.histogram(
+    'deepscrape_scrape_duration_seconds',
+    'Time to fetch a page, by scraper and outcome',
+    ['scraper', 'outcome'],
+    [0.25, 0.5, 1, 2.5, 5, 10, 20, 30, 60, 120]
+  ),
+  browserLaunchFailures: metricsService.counter(
+    'deepscrape_browser_launch_failures_total',
+    'Browser launch failures that fell back to the HTTP scraper'
+  ),
+  cacheRequests: metricsService.counter(
+    'deepscrape_cache_requests_total',
+    'Response cache lookups, by result',
+    ['result']
+  ),
+  cacheHitRatio: metricsService.gauge(
+    'deepscrape_cache_hit_ratio',
+    'Share of cache lookups that were hits since startup'
+  ),
+  queueJobs: metricsService.gauge(
+    'deepscrape_queue_jobs',
+    'Jobs in each queue, by state',
+    ['queue', 'state']
+  ),
+  queueConcurrency: metricsService.gauge(
+    'deepscrape_queue_concurrency',
+    'Configured worker concurrency per queue',
+    ['queue']
+  ),
+  queueThroughput: metricsService.gauge(
+    'deepscrape_queue_throughput_per_minute',
+    'Jobs started per minute over the current hour',
+    ['queue']
+  ),
+  llmRequestDuration: metricsService.histogram(
+    'deepscrape_llm_request_duration_seconds',
+    'LLM completion latency, by provider, model and outcome',
+    ['provider', 'model', 'outcome'],
+    [0.5, 1, 2.5, 5, 10, 20, 30, 60, 120]
+  ),
+  llmTokens: metricsService.counter(
+    'deepscrape_llm_tokens_total',
+    'LLM tokens used, by provider, model and type (prompt or completion)',
+    ['provider', 'model', 'type']
+  ),
+  browserPoolBrowsers: metricsService.gauge(
+    'deepscrape_browser_pool_browsers',
+    'Browsers currently running in the shared pool'
+  ),
+  browserPoolLeases: metricsService.gauge(
+    'deepscrape_browser_pool_leases',
+    'Browser contexts currently leased from the pool'
+  ),
+  browserPoolWaiting: metricsService.gauge(
+    'deepscrape_browser_pool_waiting',
+    'Callers waiting for a free browser context'
+  ),
+  browserRecycles: metricsService.counter(
+    'deepscrape_browser_recycles_total',
+    'Pooled browsers closed, by reason (pages, memory, idle, unhealthy, crashed, evicted, error)',
+    ['reason']
+  ),
+  systemCpu: metricsService.gauge(
+    'deepscrape_system_cpu_percent',
+    'Host CPU utilisation used for worker scaling'
+  ),
+  systemMemory: metricsService.gauge(
+    'deepscrape_system_memory_percent',
+    'Memory in use against the container limit (or host memory) used for worker scaling'
+  ),
+  eventLoopLag: metricsService.gauge(
+    'deepscrape_event_loop_lag_seconds',
+    'p99 event loop delay between samples'
+  ),
+  chromiumProcesses: metricsService.gauge(
+    'deepscrape_chromium_processes',
+    'Live Chromium processes on the host'
+  )
+};
+
+metricsService.registerCollector(async () => {
+  const { values } = await metrics.cacheRequests.get();
+  const count = (result: string) => values.find(value => value.labels.result === result)?.value ?? 0;
+  const hits = count('hit');
+  const misses = count('miss');
+  metrics.cacheHitRatio.set(hits + misses > 0 ? hits / (hits + misses) : 0);
+});
@@ -105,7 +105,8 @@ export class OpenAIService implements LLMProvider {
         stop,
         seed,
         user,
-        response_format: responseFormat as any
+        // The schema is only used by providers that enforce it through tools
+        response_format: responseFormat && { type: responseFormat.type } as any
       });
       
       // Process the response
@@ -151,7 +152,8 @@ export class OpenAIService implements LLMProvider {
       logger.error(`Error calling OpenAI: ${error instanceof Error ? error.message : String(error)}`);
       return {
         success: false,
-        error: `OpenAI service error: ${error instanceof Error ? error.message : String(error)}`
+        error: `OpenAI service error: ${error instanceof Error ? error.message : String(error)}`,
+        statusCode: error instanceof OpenAI.APIError ? error.status : undefined
       };
     }
   }
@@ -189,7 +191,8 @@ export class OpenAIService implements LLMProvider {
       logger.error(`Error getting embeddings: ${error instanceof Error ? error.message : String(error)}`);
       return {
         success: false,
-        error: `OpenAI embeddings error: ${error instanceof Error ? error.message : String(error)}`
+        error: `OpenAI embeddings error: ${error instanceof Error ? error.message : String(error)}`,
+        statusCode: error instanceof OpenAI.APIError ? error.status : undefined
       };
     }
   }
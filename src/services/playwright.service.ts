@@ -1,7 +1,8 @@
-import { chromium, Browser, BrowserContext, Page, Route, Request } from 'playwright';
+import { Browser, BrowserContext, LaunchOptions, Page, Route, Request } from 'playwright';
 import { logger } from '../utils/logger';
 import UserAgent from 'user-agents';
 import { EventEmitter } from 'events';
+import { browserPool, BrowserLease } from './browser-pool.service';
 
 // Constants
 const AD_SERVING_DOMAINS = [
@@ -20,6 +21,18 @@ const AD_SERVING_DOMAINS = [
   'ads-twitter.com'
 ];
 
+const LAUNCH_OPTIONS: LaunchOptions = {
+  headless: true,
+  args: [
+    '--disable-dev-shm-usage',
+    '--disable-gpu',
+    '--disable-setuid-sandbox',
+    '--no-sandbox',
+    '--disable-web-security',
+    '--disable-features=IsolateOrigins,site-per-process'
+  ]
+};
+
 // Interfaces
 export interface PlaywrightResponse {
   content: string;
@@ -71,8 +84,12 @@ declare global {
 
 // Main service class
 export class PlaywrightService extends EventEmitter {
+  private lease: BrowserLease | null = null;
   private browser: Browser | null = null;
   private context: BrowserContext | null = null;
+  private activePages = 0;
+  // Context setup in flight; concurrent crawls wait on it instead of leasing their own
+  private contextSetup: Promise<void> | null = null;
   private discoveredUrls: Set<string> = new Set();
   private crawledUrls: Set<string> = new Set();
   private urlsToVisit: string[] = [];
@@ -172,22 +189,12 @@ export class PlaywrightService extends EventEmitter {
   }
 
   /**
-   * Launch browser with default options
+   * Lease a browser context from the shared pool
    */
-  private async launchBrowser(): Promise<Browser> {
-    const launchOptions = {
-      headless: true,
-      args: [
-        '--disable-dev-shm-usage',
-        '--disable-gpu',
-        '--disable-setuid-sandbox',
-        '--no-sandbox',
-        '--disable-web-security',
-        '--disable-features=IsolateOrigins,site-per-process'
-      ]
-    };
-
-    return await chromium.launch(launchOptions);
+  private async leaseContext(contextOptions: any): Promise<void> {
+    this.lease = await browserPool.acquire({ launchOptions: LAUNCH_OPTIONS, contextOptions });
+    this.browser = this.lease.browser;
+    this.context = this.lease.context;
   }
 
   /**
@@ -351,12 +358,12 @@ export class PlaywrightService extends EventEmitter {
    * Reinitialize browser context with new settings
    */
   private async reinitializeContext(options: PlaywrightOptions): Promise<void> {
-    if (!this.browser || !this.context) return;
+    if (!this.lease) return;
     
-    await this.context.close();
+    await this.lease.release();
     
     const contextOptions = this.buildContextOptionsForRetry(options);
-    this.context = await this.browser.newContext(contextOptions);
+    await this.leaseContext(contextOptions);
     
     await this.reapplyContextSettings(options);
   }
@@ -405,16 +412,44 @@ export class PlaywrightService extends EventEmitter {
   }
 
   /**
-   * Ensure browser and context are initialized
+   * Ensure browser and context are initialized and count a page as open on the context.
+   * The page is counted in the same step as the check, so a recycle can't close the
+   * context between them
    */
   private async ensureBrowserContext(options: PlaywrightOptions): Promise<void> {
-    if (!this.browser || !this.context) {
-      await this.initialize(options);
+    while (this.contextSetup || this.needsNewContext()) {
+      if (!this.contextSetup) {
+        this.contextSetup = this.setupBrowserContext(options).finally(() => {
+          this.contextSetup = null;
+        });
+      }
+      await this.contextSetup;
     }
 
     if (!this.context) {
       throw new Error('Browser context not initialized');
     }
+    this.activePages++;
+  }
+
+  /**
+   * Whether there is no context yet, or the pool is recycling its browser and no pages are open on it
+   */
+  private needsNewContext(): boolean {
+    return !this.browser || !this.context || (this.lease?.expired === true && this.activePages === 0);
+  }
+
+  private async setupBrowserContext(options: PlaywrightOptions): Promise<void> {
+    // Swap out a browser the pool is recycling once no pages are open on it
+    if (this.lease?.expired && this.activePages === 0) {
+      logger.info('Pooled browser is being recycled, leasing a new context');
+      await this.close();
+      await this.createContext(options);
+    }
+
+    if (!this.browser || !this.context) {
+      await this.initialize(options);
+    }
   }
 
   /**
@@ -545,18 +580,22 @@ export class PlaywrightService extends EventEmitter {
     this.updateRateLimitConfig(options);
     this.addProxiesIfProvided(options);
 
-    this.browser = await this.launchBrowser();
-    logger.info('Browser launched successfully');
+    return await this.createContext(options);
+  }
 
+  /**
+   * Lease a browser context and apply stealth and blocking settings
+   */
+  private async createContext(options: PlaywrightOptions): Promise<{ browser: Browser; context: BrowserContext }> {
     const userAgent = this.getUserAgent(options);
     const contextOptions = this.buildContextOptions(options, userAgent);
     
-    this.context = await this.browser.newContext(contextOptions);
-    logger.info(`Created browser context with user agent: ${userAgent}`);
+    await this.leaseContext(contextOptions);
+    logger.info(`Leased browser context with user agent: ${userAgent}`);
 
     await this.setupContextFeatures(options);
 
-    return { browser: this.browser, context: this.context };
+    return { browser: this.browser!, context: this.context! };
   }
 
   /**
@@ -609,7 +648,13 @@ export class PlaywrightService extends EventEmitter {
     await this.ensureBrowserContext(options);
     
     logger.info(`Crawling page: ${url}`);
-    const page = await this.context!.newPage();
+    let page: Page;
+    try {
+      page = await this.context!.newPage();
+    } catch (error) {
+      this.activePages--;
+      throw error;
+    }
 
     try {
       await this._addHumanBehavior(page);
@@ -636,6 +681,7 @@ export class PlaywrightService extends EventEmitter {
       logger.error(`Error crawling ${url}: ${(error as Error).message}`);
       throw error;
     } finally {
+      this.activePages--;
       await page.close();
       logger.debug(`Page closed for URL: ${url}`);
     }
@@ -859,14 +905,16 @@ export class PlaywrightService extends EventEmitter {
   }
 
   /**
-   * Close the browser and context
+   * Return the browser context to the pool
    */
   public async close(): Promise<void> {
-    if (this.browser) {
-      await this.browser.close();
+    if (this.lease) {
+      const lease = this.lease;
+      this.lease = null;
       this.browser = null;
       this.context = null;
-      logger.info('Browser closed successfully');
+      await lease.release();
+      logger.info('Browser context returned to the pool');
     }
   }
 
@@ -913,7 +961,7 @@ export class PlaywrightService extends EventEmitter {
       
       // Mock permissions API to make it always return granted
       if (navigator.permissions) {
-        navigator.permissions.query = async function(permissionDesc: any): Promise<PermissionStatus> {
+        navigator.permissions.query = async function(_permissionDesc: any): Promise<PermissionStatus> {
           return Promise.resolve({
             state: "granted",
             onchange: null
@@ -0,0 +1,118 @@
+import { redisClient } from './redis.service';
+import { logger } from '../utils/logger';
+
+/**
+ * Politeness settings for a single request
+ */
+export interface PolitenessSettings {
+  delayMs?: number;           // Minimum time between requests to the same host
+  burst?: number;             // Requests allowed back to back before delaying
+  crawlDelaySeconds?: number; // Crawl-delay from robots.txt, used as a floor
+}
+
+// Never let a hostile Crawl-delay stall a job for more than a minute per request
+const MAX_CRAWL_DELAY_MS = 60 * 1000;
+// Give up waiting for a slot after this long and proceed anyway
+const MAX_WAIT_MS = 5 * 60 * 1000;
+
+// Token bucket refilled at one token per interval; returns ms to wait (0 = token taken).
+// Uses the Redis clock so every worker sees the same time.
+const TAKE_TOKEN_SCRIPT = `
+local interval = tonumber(ARGV[1])
+local capacity = tonumber(ARGV[2])
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+local state = redis.call('HMGET', KEYS[1], 'tokens', 'updatedAt')
+local tokens = tonumber(state[1]) or capacity
+local updatedAt = tonumber(state[2]) or now
+tokens = math.min(capacity, tokens + (now - updatedAt) / interval)
+local wait = 0
+if tokens >= 1 then
+  tokens = tokens - 1
+else
+  wait = math.ceil((1 - tokens) * interval)
+end
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'updatedAt', now)
+redis.call('PEXPIRE', KEYS[1], math.max(interval * capacity * 2, 60000))
+return wait
+`;
+
+/**
+ * Per-host politeness scheduler shared by all workers through Redis
+ */
+export class PolitenessService {
+  private readonly defaultDelayMs: number;
+  private readonly defaultBurst: number;
+
+  constructor() {
+    this.defaultDelayMs = parseInt(process.env.POLITENESS_DELAY_MS ?? '1000');
+    this.defaultBurst = parseInt(process.env.POLITENESS_BURST ?? '1');
+  }
+
+  /**
+   * Resolve the interval between requests to a host, honoring Crawl-delay.
+   * POLITENESS_DELAY_MS is a floor: a crawl can slow its requests down, never speed them up
+   */
+  getIntervalMs(settings: PolitenessSettings = {}): number {
+    const delayMs = Math.max(settings.delayMs ?? this.defaultDelayMs, this.defaultDelayMs);
+    const crawlDelayMs = settings.crawlDelaySeconds
+      ? Math.min(settings.crawlDelaySeconds * 1000, MAX_CRAWL_DELAY_MS)
+      : 0;
+
+    return Math.max(delayMs, crawlDelayMs);
+  }
+
+  /**
+   * Wait until the URL's host has a free request slot
+   * @returns Time spent waiting in milliseconds
+   */
+  async acquire(url: string, settings: PolitenessSettings = {}): Promise<number> {
+    const intervalMs = this.getIntervalMs(settings);
+    if (intervalMs <= 0) {
+      return 0;
+    }
+
+    let host: string;
+    try {
+      host = new URL(url).host;
+    } catch {
+      return 0;
+    }
+
+    const burst = Math.max(1, settings.burst ?? this.defaultBurst);
+    const startTime = Date.now();
+
+    try {
+      while (Date.now() - startTime < MAX_WAIT_MS) {
+        const waitMs = await redisClient.eval(
+          TAKE_TOKEN_SCRIPT,
+          1,
+          `politeness:${host}`,
+          intervalMs,
+          burst
+        ) as number;
+
+        if (waitMs <= 0) {
+          const waited = Date.now() - startTime;
+          if (waited > 0) {
+            logger.debug(`Politeness: waited ${waited}ms for ${host}`, { intervalMs });
+          }
+          return waited;
+        }
+
+        await new Promise(resolve => setTimeout(resolve, waitMs));
+      }
+
+      logger.warn(`Politeness: gave up waiting for a slot on ${host} after ${MAX_WAIT_MS}ms`);
+    } catch (error) {
+      // Redis trouble should not stop the crawl, only make it less polite
+      logger.error(`Politeness check failed for ${host}`, {
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+
+    return Date.now() - startTime;
+  }
+}
+
+export const politenessService = new PolitenessService();
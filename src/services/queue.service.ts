@@ -1,9 +1,10 @@
 import { Job, Worker } from 'bullmq';
 import { v4 as uuidv4 } from 'uuid';
-import { markCrawlJobDone, addCrawlJob } from './redis.service';
+import { markCrawlJobDone, addCrawlJob, addCrawlJobs } from './redis.service';
 import { logger } from '../utils/logger';
 import { processCrawlJob, setAddJobsToQueueFn } from '../scraper/crawler-processor';
 import { EnhancedQueueService } from './enhanced-queue.service';
+import { crawlEventsService } from './crawl-events.service';
 
 const QUEUE_NAME = 'deepscrape-crawler-queue';
 
@@ -70,12 +71,15 @@ export async function addCrawlJobsToQueue(
   
   const jobIds = jobsData.map(() => uuidv4());
   
-  // Use enhanced queue service for bulk operations
+  // Track jobs in Redis before they can run, so the crawl is never seen as finished early
+  await addCrawlJobs(crawlId, jobIds);
+  
+  // Use enhanced queue service for bulk operations; jobs may carry their own priority
   await enhancedQueue.addBulkJobs(
     jobsData.map((data, index) => ({
       name: jobIds[index],
       data: { ...data, crawlId, jobId: jobIds[index] },
-      opts: { priority }
+      opts: { priority: data.priority ?? priority }
     }))
   );
   
@@ -102,8 +106,9 @@ export function initializeWorker(): Worker {
     } catch (error: any) {
       logger.error(`Job ${job.id} failed: ${error.message}`, { error });
       
-      // Mark job as failed in Redis
-      if (job.data.crawlId) {
+      // Mark job as failed in Redis once BullMQ has no retries left; until then it is still pending
+      const isFinalAttempt = job.attemptsMade + 1 >= (job.opts.attempts ?? 1);
+      if (job.data.crawlId && isFinalAttempt) {
         await markCrawlJobDone(job.data.crawlId, job.id as string, false);
       }
       
@@ -115,6 +120,18 @@ export function initializeWorker(): Worker {
   worker.on('completed', (job) => {
     logger.debug('Crawler job completed', { jobId: job.id });
     
+    if (job.data.crawlId && job.data.mode === 'page') {
+      crawlEventsService.publish(job.data.crawlId, 'page-completed', {
+        jobId: job.id,
+        url: job.data.url,
+        depth: job.data.depth,
+        title: job.returnvalue?.title,
+        status: job.returnvalue?.metadata?.status,
+        changeStatus: job.returnvalue?.changeStatus,
+        discoveredCount: job.returnvalue?.discoveredCount ?? 0
+      });
+    }
+    
     // Store the full job result in Redis
     if (job.data.crawlId && job.returnvalue) {
       markCrawlJobDone(job.data.crawlId, job.id as string, true, job.returnvalue)
@@ -124,6 +141,16 @@ export function initializeWorker(): Worker {
   
   worker.on('failed', (job, error) => {
     logger.error('Crawler job failed', { jobId: job?.id, error });
+    
+    if (job?.data.crawlId) {
+      crawlEventsService.publish(job.data.crawlId, 'page-failed', {
+        jobId: job.id,
+        url: job.data.url,
+        mode: job.data.mode,
+        attempt: job.attemptsMade,
+        error: error.message
+      });
+    }
   });
   
   logger.info('Enhanced crawler worker initialized with advanced features', {
@@ -0,0 +1,112 @@
+import crypto from 'crypto';
+import { redisClient } from './redis.service';
+import { logger } from '../utils/logger';
+
+export type RateLimitGroup = 'scrape' | 'extract' | 'crawl' | 'batch';
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  windowMs: number;
+  resetMs: number;   // Time until the oldest request in the window expires
+}
+
+// Requests per window for each route group when RATE_LIMIT_<GROUP> is not set
+const DEFAULT_GROUP_LIMITS: Record<RateLimitGroup, number> = {
+  scrape: 60,
+  extract: 20,
+  crawl: 10,
+  batch: 10
+};
+
+/**
+ * Sliding window log: drop entries older than the window, then admit the request
+ * only if fewer than `limit` remain. Runs atomically so concurrent requests
+ * can't all slip under the limit.
+ */
+const SLIDING_WINDOW_SCRIPT = `
+local key = KEYS[1]
+local now = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local limit = tonumber(ARGV[3])
+
+redis.call('ZREMRANGEBYSCORE', key, 0, now - window)
+local count = redis.call('ZCARD', key)
+local allowed = 0
+if count < limit then
+  redis.call('ZADD', key, now, ARGV[4])
+  count = count + 1
+  allowed = 1
+end
+redis.call('PEXPIRE', key, window)
+
+local reset = window
+local oldest = redis.call('ZRANGE', key, 0, 0, 'WITHSCORES')
+if oldest[2] then
+  reset = tonumber(oldest[2]) + window - now
+end
+return {allowed, count, reset}
+`;
+
+/**
+ * Redis sliding-window rate limiter shared by every API instance
+ */
+export class RateLimiterService {
+  private static readonly KEY_PREFIX = 'ratelimit:';
+
+  private readonly enabled: boolean;
+  private readonly windowMs: number;
+
+  constructor() {
+    this.enabled = process.env.RATE_LIMIT_ENABLED !== 'false';
+    this.windowMs = parseInt(process.env.RATE_LIMIT_WINDOW_MS ?? '60000');
+  }
+
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  /**
+   * Requests allowed per window for a route group (0 disables the group's limit)
+   */
+  getGroupLimit(group: RateLimitGroup): { limit: number; windowMs: number } {
+    const configured = process.env[`RATE_LIMIT_${group.toUpperCase()}`];
+    return {
+      limit: configured !== undefined ? parseInt(configured) : DEFAULT_GROUP_LIMITS[group],
+      windowMs: this.windowMs
+    };
+  }
+
+  /**
+   * Count one request against `key`. Fails open if Redis is unavailable
+   */
+  async hit(key: string, limit: number, windowMs: number): Promise<RateLimitResult> {
+    const now = Date.now();
+
+    try {
+      const [allowed, count, resetMs] = await redisClient.eval(
+        SLIDING_WINDOW_SCRIPT,
+        1,
+        `${RateLimiterService.KEY_PREFIX}${key}`,
+        now,
+        windowMs,
+        limit,
+        `${now}-${crypto.randomBytes(4).toString('hex')}`
+      ) as [number, number, number];
+
+      return {
+        allowed: allowed === 1,
+        limit,
+        remaining: Math.max(limit - count, 0),
+        windowMs,
+        resetMs: Math.max(resetMs, 0)
+      };
+    } catch (error) {
+      logger.warn(`Rate limiter unavailable, allowing request: ${error instanceof Error ? error.message : String(error)}`);
+      return { allowed: true, limit, remaining: limit, windowMs, resetMs: windowMs };
+    }
+  }
+}
+
+export const rateLimiterService = new RateLimiterService();
@@ -1,5 +1,14 @@
 import Redis from 'ioredis';
 import { logger } from '../utils/logger';
+import { UrlNormalizationService } from './url-normalization.service';
+import {
+  ChangeManifest,
+  CrawlFrontierCounts,
+  FrontierEntry,
+  PageFingerprint,
+  PolitenessOptions
+} from '../types/crawler';
+import { WebhookConfig } from '../types/webhook';
 
 // Connect to Redis using the Docker configuration
 const redisClient = new Redis({
@@ -31,8 +40,14 @@ export async function saveCrawl(
     regexOnFullURL?: boolean;
     strategy?: string;
     useBrowser?: boolean;
+    ignoreSitemap?: boolean;
+    includeDocuments?: boolean;
+    politeness?: PolitenessOptions;
+    previousCrawlId?: string;
+    webhook?: WebhookConfig;
     scrapeOptions?: any;
     robots?: string;
+    apiKeyId?: string;
   }
 ): Promise<void> {
   const storedCrawl: any = {
@@ -48,14 +63,24 @@ export async function saveCrawl(
       ignoreRobotsTxt: data.ignoreRobotsTxt,
       regexOnFullURL: data.regexOnFullURL,
       strategy: data.strategy,
-      useBrowser: data.useBrowser
+      useBrowser: data.useBrowser,
+      ignoreSitemap: data.ignoreSitemap,
+      includeDocuments: data.includeDocuments,
+      politeness: data.politeness
     },
     scrapeOptions: data.scrapeOptions ?? {},
     createdAt: Date.now(),
-    robots: data.robots
+    robots: data.robots,
+    previousCrawlId: data.previousCrawlId,
+    webhook: data.webhook,
+    apiKeyId: data.apiKeyId
   };
   
   await redisClient.set(`crawl:${id}`, JSON.stringify(storedCrawl));
+  // Kept as long as the page fingerprints, so later crawls can be checked before diffing against this one
+  if (data.apiKeyId) {
+    await redisClient.set(`crawl:${id}:owner`, data.apiKeyId, 'EX', FINGERPRINT_TTL);
+  }
 }
 
 export async function getCrawl(id: string): Promise<any> {
@@ -73,6 +98,12 @@ export async function getCrawl(id: string): Promise<any> {
   }
 }
 
+// Overwrite stored crawl data (e.g. to flip the cancelled flag)
+export async function updateCrawl(id: string, storedCrawl: any): Promise<void> {
+  await redisClient.set(`crawl:${id}`, JSON.stringify(storedCrawl));
+  await redisClient.expire(`crawl:${id}`, 24 * 60 * 60);
+}
+
 export async function addCrawlJob(crawlId: string, jobId: string): Promise<void> {
   try {
     await redisClient.sadd(`crawl:${crawlId}:jobs`, jobId);
@@ -95,6 +126,52 @@ export async function addCrawlJobs(crawlId: string, jobIds: string[]): Promise<v
   }
 }
 
+// Atomically claim URLs in the crawl's visited set without exceeding the page limit
+const LOCK_CRAWL_URLS_SCRIPT = `
+local limit = tonumber(ARGV[1])
+local locked = {}
+for i = 2, #ARGV do
+  if redis.call('SCARD', KEYS[1]) >= limit then
+    break
+  end
+  if redis.call('SADD', KEYS[1], ARGV[i]) == 1 then
+    table.insert(locked, ARGV[i])
+  end
+end
+redis.call('EXPIRE', KEYS[1], 86400)
+return locked
+`;
+
+/**
+ * Claim URLs for crawling, shared across all workers
+ * @returns The URLs that were not visited before and fit within the limit
+ */
+export async function lockCrawlUrls(crawlId: string, urls: string[], limit: number): Promise<string[]> {
+  if (urls.length === 0) return [];
+  
+  try {
+    return await redisClient.eval(
+      LOCK_CRAWL_URLS_SCRIPT,
+      1,
+      `crawl:${crawlId}:visited`,
+      limit,
+      ...urls
+    ) as string[];
+  } catch (error) {
+    logger.error('Error locking crawl URLs', { error, crawlId });
+    throw error;
+  }
+}
+
+export async function getCrawlVisitedCount(crawlId: string): Promise<number> {
+  try {
+    return await redisClient.scard(`crawl:${crawlId}:visited`);
+  } catch (error) {
+    logger.error('Error getting crawl visited count', { error, crawlId });
+    throw error;
+  }
+}
+
 export async function getCrawlJobs(crawlId: string): Promise<string[]> {
   try {
     return await redisClient.smembers(`crawl:${crawlId}:jobs`);
@@ -104,6 +181,15 @@ export async function getCrawlJobs(crawlId: string): Promise<string[]> {
   }
 }
 
+export async function getCrawlJobsCount(crawlId: string): Promise<number> {
+  try {
+    return await redisClient.scard(`crawl:${crawlId}:jobs`);
+  } catch (error) {
+    logger.error('Error getting crawl job count', { error, crawlId });
+    throw error;
+  }
+}
+
 // Mark a job as done in Redis and store its result
 export async function markCrawlJobDone(
   crawlId: string,
@@ -204,6 +290,24 @@ export async function markCrawlFinished(crawlId: string): Promise<boolean> {
         
         logger.info(`Crawl ${crawlId} marked as finished`, { crawlId });
         
+        // Import here to avoid circular dependency
+        const { crawlEventsService } = await import('./crawl-events.service');
+        const { webhookService } = await import('./webhook.service');
+        const { fileExportService } = await import('./file-export.service');
+        const completion = {
+          crawlId,
+          successfulPages: await redisClient.scard(`crawl:${crawlId}:jobs:done:success`),
+          failedPages: await redisClient.scard(`crawl:${crawlId}:jobs:done:failed`)
+        };
+        crawlEventsService.publish(crawlId, 'crawl-completed', completion);
+        
+        const crawl = await getCrawl(crawlId);
+        await webhookService.dispatch(crawl?.webhook, 'crawl.completed', {
+          ...completion,
+          url: crawl?.originUrl,
+          outputDirectory: fileExportService.getCrawlOutputDir(crawlId)
+        });
+        
         // Trigger summary generation asynchronously (don't block completion)
         setImmediate(async () => {
           try {
@@ -227,8 +331,9 @@ export async function isCrawlFinished(crawlId: string): Promise<boolean> {
   try {
     const jobCount = await redisClient.scard(`crawl:${crawlId}:jobs`);
     
-    // Try both the new and old format for done jobs
-    const newDoneJobCount = await redisClient.scard(`crawl:${crawlId}:jobs:done:success`);
+    // Try both the new and old format for done jobs; pages that failed their last retry are done too
+    const newDoneJobCount = await redisClient.scard(`crawl:${crawlId}:jobs:done:success`)
+      + await redisClient.scard(`crawl:${crawlId}:jobs:done:failed`);
     const oldDoneJobCount = await redisClient.scard(`crawl:${crawlId}:jobs_done`);
     
     const doneJobCount = Math.max(newDoneJobCount, oldDoneJobCount);
@@ -248,13 +353,166 @@ export async function cancelCrawl(crawlId: string): Promise<void> {
     if (!crawl) throw new Error('Crawl not found');
     
     crawl.cancelled = true;
-    await saveCrawl(crawlId, crawl);
+    await updateCrawl(crawlId, crawl);
   } catch (error) {
     logger.error('Error canceling crawl', { error, crawlId });
     throw error;
   }
 }
 
+// Crawl frontier operations
+// Every claimed URL moves queued -> in_flight -> done; entries keep depth and priority
+// so a crawl can be re-enqueued after the queue is lost.
+export async function addFrontierEntries(crawlId: string, entries: FrontierEntry[]): Promise<void> {
+  if (entries.length === 0) return;
+  
+  try {
+    const pipeline = redisClient.pipeline();
+    for (const entry of entries) {
+      const key = UrlNormalizationService.normalizeUrl(entry.url);
+      pipeline.hset(`crawl:${crawlId}:frontier:entries`, key, JSON.stringify(entry));
+      pipeline.zadd(`crawl:${crawlId}:frontier:queued`, entry.priority, key);
+      pipeline.srem(`crawl:${crawlId}:frontier:in_flight`, key);
+    }
+    for (const suffix of ['entries', 'queued', 'in_flight']) {
+      pipeline.expire(`crawl:${crawlId}:frontier:${suffix}`, 24 * 60 * 60);
+    }
+    await pipeline.exec();
+  } catch (error) {
+    logger.error('Error adding frontier entries', { error, crawlId });
+    throw error;
+  }
+}
+
+export async function markFrontierInFlight(crawlId: string, url: string): Promise<void> {
+  try {
+    const key = UrlNormalizationService.normalizeUrl(url);
+    await redisClient.pipeline()
+      .zrem(`crawl:${crawlId}:frontier:queued`, key)
+      .sadd(`crawl:${crawlId}:frontier:in_flight`, key)
+      .expire(`crawl:${crawlId}:frontier:in_flight`, 24 * 60 * 60)
+      .exec();
+  } catch (error) {
+    logger.error('Error marking frontier URL in flight', { error, crawlId, url });
+  }
+}
+
+export async function markFrontierDone(crawlId: string, url: string): Promise<void> {
+  try {
+    const key = UrlNormalizationService.normalizeUrl(url);
+    await redisClient.pipeline()
+      .zrem(`crawl:${crawlId}:frontier:queued`, key)
+      .srem(`crawl:${crawlId}:frontier:in_flight`, key)
+      .sadd(`crawl:${crawlId}:frontier:done`, key)
+      .expire(`crawl:${crawlId}:frontier:done`, 24 * 60 * 60)
+      .exec();
+  } catch (error) {
+    logger.error('Error marking frontier URL done', { error, crawlId, url });
+  }
+}
+
+/**
+ * Get frontier entries that were queued or in flight, in priority order
+ */
+export async function getPendingFrontierEntries(crawlId: string): Promise<FrontierEntry[]> {
+  try {
+    const queued = await redisClient.zrange(`crawl:${crawlId}:frontier:queued`, 0, -1);
+    const inFlight = await redisClient.smembers(`crawl:${crawlId}:frontier:in_flight`);
+    const keys = [...new Set([...inFlight, ...queued])];
+    if (keys.length === 0) return [];
+    
+    const values = await redisClient.hmget(`crawl:${crawlId}:frontier:entries`, ...keys);
+    return values
+      .filter((value): value is string => value !== null)
+      .map(value => JSON.parse(value) as FrontierEntry)
+      .sort((a, b) => a.priority - b.priority);
+  } catch (error) {
+    logger.error('Error getting pending frontier entries', { error, crawlId });
+    throw error;
+  }
+}
+
+export async function getCrawlFrontierCounts(crawlId: string): Promise<CrawlFrontierCounts> {
+  try {
+    const [queued, inFlight, done] = await Promise.all([
+      redisClient.zcard(`crawl:${crawlId}:frontier:queued`),
+      redisClient.scard(`crawl:${crawlId}:frontier:in_flight`),
+      redisClient.scard(`crawl:${crawlId}:frontier:done`)
+    ]);
+    return { queued, inFlight, done };
+  } catch (error) {
+    logger.error('Error getting crawl frontier counts', { error, crawlId });
+    throw error;
+  }
+}
+
+/**
+ * Drop tracked job IDs that never finished (their queue entries are gone). Jobs that failed
+ * their last retry stay, since they count as done in isCrawlFinished
+ * @returns Number of job IDs removed
+ */
+export async function pruneUnfinishedCrawlJobs(crawlId: string): Promise<number> {
+  try {
+    const jobIds = await redisClient.smembers(`crawl:${crawlId}:jobs`);
+    const doneJobIds = new Set([
+      ...await redisClient.smembers(`crawl:${crawlId}:jobs:done:success`),
+      ...await redisClient.smembers(`crawl:${crawlId}:jobs:done:failed`)
+    ]);
+    const staleJobIds = jobIds.filter(jobId => !doneJobIds.has(jobId));
+    
+    if (staleJobIds.length > 0) {
+      await redisClient.srem(`crawl:${crawlId}:jobs`, ...staleJobIds);
+    }
+    return staleJobIds.length;
+  } catch (error) {
+    logger.error('Error pruning unfinished crawl jobs', { error, crawlId });
+    throw error;
+  }
+}
+
+// Page fingerprints outlive the crawl itself so the next re-crawl can diff against them
+const FINGERPRINT_TTL = parseInt(process.env.CRAWL_FINGERPRINT_TTL_DAYS ?? '30') * 24 * 60 * 60;
+
+export async function savePageFingerprint(crawlId: string, fingerprint: PageFingerprint): Promise<void> {
+  try {
+    const key = UrlNormalizationService.normalizeUrl(fingerprint.url);
+    await redisClient.hset(`crawl:${crawlId}:pages`, key, JSON.stringify(fingerprint));
+    await redisClient.expire(`crawl:${crawlId}:pages`, FINGERPRINT_TTL);
+    await redisClient.expire(`crawl:${crawlId}:owner`, FINGERPRINT_TTL);
+  } catch (error) {
+    logger.error('Error saving page fingerprint', { error, crawlId, url: fingerprint.url });
+  }
+}
+
+export async function getPageFingerprint(crawlId: string, url: string): Promise<PageFingerprint | null> {
+  try {
+    const data = await redisClient.hget(`crawl:${crawlId}:pages`, UrlNormalizationService.normalizeUrl(url));
+    return data ? JSON.parse(data) : null;
+  } catch (error) {
+    logger.error('Error getting page fingerprint', { error, crawlId, url });
+    return null;
+  }
+}
+
+export async function getPageFingerprints(crawlId: string): Promise<PageFingerprint[]> {
+  try {
+    const values = await redisClient.hvals(`crawl:${crawlId}:pages`);
+    return values.map(value => JSON.parse(value) as PageFingerprint);
+  } catch (error) {
+    logger.error('Error getting page fingerprints', { error, crawlId });
+    return [];
+  }
+}
+
+export async function hasPageFingerprints(crawlId: string): Promise<boolean> {
+  return (await redisClient.exists(`crawl:${crawlId}:pages`)) === 1;
+}
+
+// Key that started a crawl, kept for as long as its page fingerprints
+export async function getCrawlOwner(crawlId: string): Promise<string | null> {
+  return redisClient.get(`crawl:${crawlId}:owner`);
+}
+
 // Track exported files for crawls
 export async function addExportedFile(crawlId: string, filePath: string): Promise<void> {
   try {
@@ -274,6 +532,37 @@ export async function getExportedFiles(crawlId: string): Promise<string[]> {
   }
 }
 
+// Diff this crawl's page fingerprints against the previous crawl's
+async function buildChangeManifest(crawlId: string, previousCrawlId: string): Promise<ChangeManifest> {
+  const currentPages = await getPageFingerprints(crawlId);
+  const previousPages = await getPageFingerprints(previousCrawlId);
+  
+  const seenUrls = new Set(currentPages.map(page => UrlNormalizationService.normalizeUrl(page.url)));
+  const removedPages = previousPages.filter(page => !seenUrls.has(UrlNormalizationService.normalizeUrl(page.url)));
+  
+  const pages: ChangeManifest['pages'] = [
+    ...currentPages.map(page => ({
+      url: page.url,
+      status: page.status ?? 'new',
+      file: page.exportedFile
+    })),
+    ...removedPages.map(page => ({ url: page.url, status: 'removed' as const }))
+  ];
+  
+  const counts = { new: 0, modified: 0, unchanged: 0, removed: 0, error: 0 };
+  for (const page of pages) {
+    counts[page.status]++;
+  }
+  
+  return {
+    crawlId,
+    previousCrawlId,
+    generatedAt: new Date().toISOString(),
+    counts,
+    pages
+  };
+}
+
 // Generate crawl summary when crawl completes
 async function generateCrawlSummary(crawlId: string): Promise<void> {
   try {
@@ -306,6 +595,12 @@ async function generateCrawlSummary(crawlId: string): Promise<void> {
     
     await fileExportService.exportCrawlSummary(crawlId, summary);
     
+    // Incremental re-crawls also get a manifest of what changed
+    if (crawl.previousCrawlId) {
+      const manifest = await buildChangeManifest(crawlId, crawl.previousCrawlId);
+      await fileExportService.exportChangeManifest(crawlId, manifest);
+    }
+    
     // Also create consolidated export files for easy access
     try {
       const consolidatedMarkdown = await fileExportService.exportCrawlAsConsolidatedFile(crawlId, 'markdown');
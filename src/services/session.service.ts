@@ -0,0 +1,267 @@
+import crypto from 'crypto';
+import * as cheerio from 'cheerio';
+import { v4 as uuidv4 } from 'uuid';
+import { redisClient } from './redis.service';
+import { logger } from '../utils/logger';
+import { PlaywrightScraper } from '../scraper/playwright-scraper';
+import { BrowserAction } from '../types';
+import {
+  CreateSessionRequest,
+  SessionInfo,
+  SessionLoginOptions,
+  SessionLoginResult,
+  SessionRecord,
+  SessionStorageState
+} from '../types/session';
+
+const SESSION_KEY_PREFIX = 'sessions:';
+const MAX_SESSION_TTL = 30 * 24 * 60 * 60; // 30 days
+
+/**
+ * Runs login flows once and keeps the logged-in browser state, encrypted with
+ * AES-256-GCM, in Redis until the session expires
+ */
+export class SessionService {
+  private readonly defaultTtl = parseInt(process.env.SESSION_TTL ?? '86400');
+  private readonly encryptionKey: Buffer | null;
+  private readonly scraper = new PlaywrightScraper();
+  // Refreshes in flight by key and session, so scrapes that find the same session logged out
+  // only log in once, and a key never gets a refresh another key started
+  private readonly refreshing = new Map<string, Promise<SessionRecord | null>>();
+
+  constructor() {
+    const secret = process.env.SESSION_ENCRYPTION_KEY;
+    // Any secret works; it is hashed to the 256-bit key AES needs
+    this.encryptionKey = secret ? crypto.createHash('sha256').update(secret).digest() : null;
+  }
+
+  /**
+   * Sessions are only stored when SESSION_ENCRYPTION_KEY is set
+   */
+  isEnabled(): boolean {
+    return this.encryptionKey !== null;
+  }
+
+  /**
+   * Run the login flow and store the session it leaves behind
+   */
+  async create(request: CreateSessionRequest, apiKeyId?: string): Promise<SessionLoginResult> {
+    if (request.loginSelector && !this.isValidSelector(request.loginSelector)) {
+      return { error: 'loginSelector must be a valid CSS selector', actionResults: [] };
+    }
+
+    const login = await this.runLogin(request.loginUrl, request.actions, request.loginSelector, request.options);
+    if (login.error || !login.storageState) {
+      return { error: login.error ?? 'Login flow did not return a browser state', actionResults: login.actionResults };
+    }
+
+    const ttl = Math.min(request.ttlSeconds ?? this.defaultTtl, MAX_SESSION_TTL);
+    const now = new Date();
+    const record: SessionRecord = {
+      id: uuidv4(),
+      name: request.name,
+      loginUrl: request.loginUrl,
+      actions: request.actions,
+      loginSelector: request.loginSelector,
+      options: request.options,
+      storageState: login.storageState,
+      apiKeyId,
+      createdAt: now.toISOString(),
+      expiresAt: new Date(now.getTime() + ttl * 1000).toISOString()
+    };
+
+    await this.save(record);
+    logger.info(`Created session ${record.id} for ${request.loginUrl}`, { cookies: record.storageState.cookies.length });
+
+    return { session: this.toInfo(record), actionResults: login.actionResults };
+  }
+
+  /**
+   * Get a session; sessions created with an API key can only be used with that key
+   */
+  async get(id: string, apiKeyId?: string): Promise<SessionRecord | null> {
+    if (!this.encryptionKey) {
+      logger.warn('SESSION_ENCRYPTION_KEY is not set; sessions are disabled');
+      return null;
+    }
+
+    const data = await redisClient.get(`${SESSION_KEY_PREFIX}${id}`);
+    if (!data) {
+      return null;
+    }
+
+    let record: SessionRecord;
+    try {
+      record = this.decrypt(id, data);
+    } catch (error) {
+      // Most likely SESSION_ENCRYPTION_KEY changed since the session was stored
+      logger.warn(`Could not decrypt session ${id}: ${error instanceof Error ? error.message : String(error)}`);
+      return null;
+    }
+
+    return !record.apiKeyId || record.apiKeyId === apiKeyId ? record : null;
+  }
+
+  /**
+   * Session details without its credentials or browser state
+   */
+  async getInfo(id: string, apiKeyId?: string): Promise<SessionInfo | null> {
+    const record = await this.get(id, apiKeyId);
+    return record ? this.toInfo(record) : null;
+  }
+
+  /**
+   * Run the session's login flow again, keeping its expiry. Returns null when the
+   * session is gone or logging in failed
+   */
+  async refresh(id: string, apiKeyId?: string): Promise<SessionRecord | null> {
+    const key = `${apiKeyId ?? ''}:${id}`;
+    const inFlight = this.refreshing.get(key);
+    if (inFlight) {
+      return inFlight;
+    }
+
+    const refresh = this.refreshRecord(id, apiKeyId).finally(() => this.refreshing.delete(key));
+    this.refreshing.set(key, refresh);
+    return refresh;
+  }
+
+  /**
+   * Delete a session. Returns false when it doesn't exist or belongs to another key
+   */
+  async delete(id: string, apiKeyId?: string): Promise<boolean> {
+    const record = await this.get(id, apiKeyId);
+    if (!record) {
+      return false;
+    }
+
+    await redisClient.del(`${SESSION_KEY_PREFIX}${id}`);
+    logger.info(`Deleted session ${id}`);
+    return true;
+  }
+
+  /**
+   * Whether a page is the session's login page, meaning the session was logged out
+   */
+  isLoginPage(record: SessionRecord, html: string): boolean {
+    return record.loginSelector ? this.matchesSelector(html, record.loginSelector) : false;
+  }
+
+  private async refreshRecord(id: string, apiKeyId?: string): Promise<SessionRecord | null> {
+    const existing = await this.get(id, apiKeyId);
+    if (!existing) {
+      return null;
+    }
+
+    logger.info(`Refreshing session ${id}`);
+    const login = await this.runLogin(existing.loginUrl, existing.actions, existing.loginSelector, existing.options);
+    if (login.error || !login.storageState) {
+      logger.warn(`Could not refresh session ${id}: ${login.error}`);
+      return null;
+    }
+
+    const record: SessionRecord = {
+      ...existing,
+      storageState: login.storageState,
+      refreshedAt: new Date().toISOString()
+    };
+    await this.save(record);
+    return record;
+  }
+
+  /**
+   * Log in with a fresh browser context. Ending on the login page counts as a failure
+   */
+  private async runLogin(
+    loginUrl: string,
+    actions: BrowserAction[],
+    loginSelector?: string,
+    options: SessionLoginOptions = {}
+  ): Promise<{ storageState?: SessionStorageState; error?: string; actionResults: SessionLoginResult['actionResults'] }> {
+    const login = await this.scraper.login(loginUrl, actions, options);
+    if (login.error) {
+      return { error: login.error, actionResults: login.actionResults };
+    }
+
+    if (loginSelector && this.matchesSelector(login.content, loginSelector)) {
+      return {
+        error: 'Login flow ended on the login page; check the credentials and the actions',
+        actionResults: login.actionResults
+      };
+    }
+
+    return { storageState: login.storageState, actionResults: login.actionResults };
+  }
+
+  private async save(record: SessionRecord): Promise<void> {
+    const ttl = Math.ceil((new Date(record.expiresAt).getTime() - Date.now()) / 1000);
+    if (ttl <= 0) {
+      return;
+    }
+    await redisClient.set(`${SESSION_KEY_PREFIX}${record.id}`, this.encrypt(record), 'EX', ttl);
+  }
+
+  /**
+   * Encrypt the record, bound to its ID so stored sessions can't be swapped
+   */
+  private encrypt(record: SessionRecord): string {
+    if (!this.encryptionKey) {
+      throw new Error('SESSION_ENCRYPTION_KEY is not set');
+    }
+
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.encryptionKey, iv);
+    cipher.setAAD(Buffer.from(record.id));
+    const data = Buffer.concat([cipher.update(JSON.stringify(record), 'utf-8'), cipher.final()]);
+
+    return JSON.stringify({
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: data.toString('base64')
+    });
+  }
+
+  private decrypt(id: string, payload: string): SessionRecord {
+    const { iv, tag, data } = JSON.parse(payload);
+    const decipher = crypto.createDecipheriv('aes-256-gcm', this.encryptionKey as Buffer, Buffer.from(iv, 'base64'));
+    decipher.setAAD(Buffer.from(id));
+    decipher.setAuthTag(Buffer.from(tag, 'base64'));
+    const json = Buffer.concat([decipher.update(Buffer.from(data, 'base64')), decipher.final()]).toString('utf-8');
+    return JSON.parse(json);
+  }
+
+  private isValidSelector(selector: string): boolean {
+    try {
+      cheerio.load('').root().find(selector);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private matchesSelector(html: string, selector: string): boolean {
+    try {
+      // find() always reads a selector, where $() would parse '<form>' as markup
+      return cheerio.load(html).root().find(selector).length > 0;
+    } catch {
+      return false;
+    }
+  }
+
+  private toInfo(record: SessionRecord): SessionInfo {
+    const cookies = record.storageState.cookies;
+    return {
+      id: record.id,
+      name: record.name,
+      loginUrl: record.loginUrl,
+      loginSelector: record.loginSelector,
+      cookies: cookies.length,
+      domains: [...new Set(cookies.map(cookie => cookie.domain.replace(/^\./, '')))],
+      createdAt: record.createdAt,
+      refreshedAt: record.refreshedAt,
+      expiresAt: record.expiresAt
+    };
+  }
+}
+
+export const sessionService = new SessionService();
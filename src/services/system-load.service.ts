@@ -0,0 +1,157 @@
+import fs from 'fs';
+import os from 'os';
+import { execFile } from 'child_process';
+import { monitorEventLoopDelay, IntervalHistogram } from 'perf_hooks';
+import { logger } from '../utils/logger';
+import { metrics, metricsService } from './metrics.service';
+
+export interface SystemLoad {
+  cpu: number;               // Host CPU utilisation since the previous sample (0-100)
+  memory: number;            // Memory in use (0-100), against the cgroup limit when there is one
+  eventLoopLagMs: number;    // p99 event loop delay since the previous sample
+  chromiumProcesses: number; // Live Chromium/Chrome processes on the host
+}
+
+// Linux truncates process names to 15 characters, e.g. "chrome-headless"
+const CHROMIUM_PROCESS_PATTERN = /^(chrome|chromium|chromium-browser|headless_shell|chrome-headless.*)$/i;
+
+/**
+ * Samples real CPU, memory, event loop lag and browser process counts
+ */
+export class SystemLoadService {
+  private previousCpu = this.readCpuTimes();
+  private readonly eventLoopDelay: IntervalHistogram;
+  private lastSample: { load: SystemLoad; at: number } | null = null;
+
+  constructor() {
+    this.eventLoopDelay = monitorEventLoopDelay({ resolution: 20 });
+    this.eventLoopDelay.enable();
+
+    metricsService.registerCollector(async () => {
+      const load = await this.getLoad(10000);
+      metrics.systemCpu.set({}, load.cpu);
+      metrics.systemMemory.set({}, load.memory);
+      metrics.eventLoopLag.set({}, load.eventLoopLagMs / 1000);
+      metrics.chromiumProcesses.set({}, load.chromiumProcesses);
+    });
+  }
+
+  /**
+   * Take a new sample; CPU and event loop lag cover the time since the previous one
+   */
+  async sample(): Promise<SystemLoad> {
+    const load: SystemLoad = {
+      cpu: this.sampleCpu(),
+      memory: this.sampleMemory(),
+      eventLoopLagMs: this.sampleEventLoopLag(),
+      chromiumProcesses: await this.countChromiumProcesses()
+    };
+
+    this.lastSample = { load, at: Date.now() };
+    return load;
+  }
+
+  /**
+   * The latest sample if it is recent enough, otherwise a new one
+   */
+  async getLoad(maxAgeMs: number): Promise<SystemLoad> {
+    if (this.lastSample && Date.now() - this.lastSample.at <= maxAgeMs) {
+      return this.lastSample.load;
+    }
+    return this.sample();
+  }
+
+  private readCpuTimes(): { idle: number; total: number } {
+    return os.cpus().reduce(
+      (acc, cpu) => {
+        const total = Object.values(cpu.times).reduce((sum, time) => sum + time, 0);
+        return { idle: acc.idle + cpu.times.idle, total: acc.total + total };
+      },
+      { idle: 0, total: 0 }
+    );
+  }
+
+  private sampleCpu(): number {
+    const current = this.readCpuTimes();
+    const idle = current.idle - this.previousCpu.idle;
+    const total = current.total - this.previousCpu.total;
+    this.previousCpu = current;
+
+    return total > 0 ? Math.round((1 - idle / total) * 1000) / 10 : 0;
+  }
+
+  private sampleMemory(): number {
+    const cgroup = this.readCgroupMemory();
+    if (cgroup) {
+      return Math.round((cgroup.current / cgroup.limit) * 1000) / 10;
+    }
+
+    const total = os.totalmem();
+    return Math.round(((total - os.freemem()) / total) * 1000) / 10;
+  }
+
+  /**
+   * Memory usage and limit of the container (cgroup v2, then v1), if limited
+   */
+  private readCgroupMemory(): { current: number; limit: number } | null {
+    const candidates = [
+      ['/sys/fs/cgroup/memory.current', '/sys/fs/cgroup/memory.max'],
+      ['/sys/fs/cgroup/memory/memory.usage_in_bytes', '/sys/fs/cgroup/memory/memory.limit_in_bytes']
+    ];
+
+    for (const [currentFile, limitFile] of candidates) {
+      try {
+        const limit = Number(fs.readFileSync(limitFile, 'utf-8').trim());
+        const current = Number(fs.readFileSync(currentFile, 'utf-8').trim());
+        // "max" (NaN) or a huge v1 sentinel mean no limit
+        if (Number.isFinite(limit) && limit > 0 && limit < os.totalmem() && Number.isFinite(current)) {
+          return { current, limit };
+        }
+      } catch {
+        // Not running under this cgroup version
+      }
+    }
+
+    return null;
+  }
+
+  private sampleEventLoopLag(): number {
+    // The histogram reports nanoseconds and includes the sampling resolution
+    const lag = Math.max(this.eventLoopDelay.percentile(99) / 1e6 - 20, 0);
+    this.eventLoopDelay.reset();
+    return Math.round(lag * 10) / 10;
+  }
+
+  private async countChromiumProcesses(): Promise<number> {
+    try {
+      const names = process.platform === 'linux'
+        ? await this.readProcNames()
+        : await this.readPsNames();
+      return names.filter(name => CHROMIUM_PROCESS_PATTERN.test(name)).length;
+    } catch (error) {
+      logger.debug(`Failed to count Chromium processes: ${error instanceof Error ? error.message : String(error)}`);
+      return 0;
+    }
+  }
+
+  private async readProcNames(): Promise<string[]> {
+    const entries = await fs.promises.readdir('/proc');
+    const names = await Promise.all(
+      entries
+        .filter(entry => /^\d+$/.test(entry))
+        .map(pid => fs.promises.readFile(`/proc/${pid}/comm`, 'utf-8').then(name => name.trim(), () => ''))
+    );
+    return names;
+  }
+
+  private readPsNames(): Promise<string[]> {
+    return new Promise((resolve, reject) => {
+      execFile('ps', ['-A', '-o', 'comm='], { timeout: 5000 }, (error, stdout) => {
+        if (error) return reject(error);
+        resolve(stdout.split('\n').map(line => line.trim().split('/').pop() ?? ''));
+      });
+    });
+  }
+}
+
+export const systemLoadService = new SystemLoadService();
@@ -0,0 +1,201 @@
+import { redisClient } from './redis.service';
+import { emptyTotals } from './llm-pricing';
+import { logger } from '../utils/logger';
+import {
+  LLMUsage,
+  LLMUsageTotals,
+  ScrapeUsageRecord,
+  UsageContext,
+  UsageGroupBy,
+  UsageReport
+} from '../types/usage';
+
+export const USAGE_GROUP_BY: UsageGroupBy[] = ['day', 'apiKey', 'crawl', 'batch', 'model', 'provider', 'route'];
+
+// Costs are stored as integer micro-dollars so HINCRBY never drifts
+const MICRO_USD = 1_000_000;
+const METRICS = ['calls', 'promptTokens', 'completionTokens', 'costMicroUsd'] as const;
+
+/**
+ * Aggregates LLM token usage and cost in Redis by day, API key, crawl, batch,
+ * model, provider and route. Each key also gets its own counters per crawl, batch,
+ * model, provider and route ("apiKey|<keyId>|<dimension>|<value>|<metric>"), so
+ * restricted reports can be grouped too
+ */
+export class UsageService {
+  private static readonly DAY_KEY_PREFIX = 'usage:day:';
+  private static readonly SCRAPE_KEY_PREFIX = 'usage:scrape:';
+
+  private readonly retention: number;
+
+  constructor() {
+    this.retention = parseInt(process.env.USAGE_RETENTION_DAYS ?? '400') * 24 * 60 * 60;
+  }
+
+  /**
+   * Record usage against every dimension of its context
+   */
+  async record(usage: LLMUsage, context: UsageContext = {}): Promise<void> {
+    if (usage.calls === 0) return;
+
+    const key = `${UsageService.DAY_KEY_PREFIX}${new Date().toISOString().substring(0, 10)}`;
+
+    try {
+      const multi = redisClient.multi();
+
+      for (const [modelKey, totals] of Object.entries(usage.models)) {
+        const [provider, ...modelParts] = modelKey.split('/');
+        const dimensions: Array<[UsageGroupBy | 'total', string | undefined]> = [
+          ['total', 'all'],
+          ['apiKey', context.apiKeyId],
+          ['crawl', context.crawlId],
+          ['batch', context.batchId],
+          ['route', context.route],
+          ['model', modelParts.join('/')],
+          ['provider', provider]
+        ];
+
+        for (const [dimension, value] of dimensions) {
+          if (!value) continue;
+          const prefixes = [`${dimension}|${value}`];
+          if (context.apiKeyId && dimension !== 'total' && dimension !== 'apiKey') {
+            prefixes.push(`apiKey|${context.apiKeyId}|${dimension}|${value}`);
+          }
+
+          for (const prefix of prefixes) {
+            multi.hincrby(key, `${prefix}|calls`, totals.calls);
+            multi.hincrby(key, `${prefix}|promptTokens`, totals.promptTokens);
+            multi.hincrby(key, `${prefix}|completionTokens`, totals.completionTokens);
+            multi.hincrby(key, `${prefix}|costMicroUsd`, Math.round(totals.costUsd * MICRO_USD));
+          }
+        }
+      }
+
+      multi.expire(key, this.retention);
+
+      if (context.scrapeId) {
+        const record: ScrapeUsageRecord = {
+          ...usage,
+          scrapeId: context.scrapeId,
+          context,
+          recordedAt: new Date().toISOString()
+        };
+        multi.set(`${UsageService.SCRAPE_KEY_PREFIX}${context.scrapeId}`, JSON.stringify(record), 'EX', this.retention);
+      }
+
+      await multi.exec();
+    } catch (error) {
+      // Accounting must never fail the request that used the tokens
+      logger.error('Failed to record LLM usage', {
+        error: error instanceof Error ? error.message : String(error),
+        context
+      });
+    }
+  }
+
+  /**
+   * Get the usage recorded for a single scrape
+   */
+  async getScrapeUsage(scrapeId: string): Promise<ScrapeUsageRecord | null> {
+    const data = await redisClient.get(`${UsageService.SCRAPE_KEY_PREFIX}${scrapeId}`);
+    return data ? JSON.parse(data) : null;
+  }
+
+  /**
+   * Aggregate usage between two dates (inclusive, UTC days)
+   */
+  async getReport(from: Date, to: Date, groupBy: UsageGroupBy, apiKeyId?: string): Promise<UsageReport> {
+    const days: string[] = [];
+    for (const day = new Date(from); day <= to; day.setUTCDate(day.getUTCDate() + 1)) {
+      days.push(day.toISOString().substring(0, 10));
+    }
+
+    const totals = emptyTotals();
+    const groups = new Map<string, LLMUsageTotals>();
+
+    const pipeline = redisClient.pipeline();
+    days.forEach(day => pipeline.hgetall(`${UsageService.DAY_KEY_PREFIX}${day}`));
+    const results = (await pipeline.exec()) ?? [];
+
+    results.forEach(([error, fields], index) => {
+      if (error || !fields) return;
+
+      for (const [field, raw] of Object.entries(fields as Record<string, string>)) {
+        const [dimension, value, metric] = this.parseField(field);
+        if (!metric || !(METRICS as readonly string[]).includes(metric)) continue;
+
+        const scope = apiKeyId ? `apiKey|${apiKeyId}` : 'total|all';
+        const amount = Number(raw);
+
+        // Per-key breakdowns only count towards the groups of a report restricted to that key
+        if (dimension === 'apiKey' && value.includes('|')) {
+          const prefix = `${apiKeyId}|${groupBy}|`;
+          if (apiKeyId && value.startsWith(prefix)) {
+            this.addMetric(this.getGroup(groups, value.substring(prefix.length)), metric, amount);
+          }
+          continue;
+        }
+
+        if (`${dimension}|${value}` === scope) {
+          this.addMetric(totals, metric, amount);
+          if (groupBy === 'day') {
+            this.addMetric(this.getGroup(groups, days[index]), metric, amount);
+          }
+        }
+
+        if (!apiKeyId && groupBy !== 'day' && dimension === groupBy) {
+          this.addMetric(this.getGroup(groups, value), metric, amount);
+        }
+      }
+    });
+
+    return {
+      from: days[0],
+      to: days[days.length - 1],
+      groupBy,
+      totals: this.finalizeTotals(totals),
+      groups: [...groups.entries()]
+        .map(([key, group]) => ({ key, ...this.finalizeTotals(group) }))
+        .sort((a, b) => groupBy === 'day' ? a.key.localeCompare(b.key) : b.costUsd - a.costUsd || b.totalTokens - a.totalTokens)
+    };
+  }
+
+  /**
+   * Split "dimension|value|metric"; values such as model names may themselves contain "|"
+   */
+  private parseField(field: string): [string, string, string | undefined] {
+    const first = field.indexOf('|');
+    const last = field.lastIndexOf('|');
+    if (first === -1 || first === last) return [field, '', undefined];
+    return [field.substring(0, first), field.substring(first + 1, last), field.substring(last + 1)];
+  }
+
+  private getGroup(groups: Map<string, LLMUsageTotals>, key: string): LLMUsageTotals {
+    let group = groups.get(key);
+    if (!group) {
+      group = emptyTotals();
+      groups.set(key, group);
+    }
+    return group;
+  }
+
+  private addMetric(totals: LLMUsageTotals, metric: string, amount: number): void {
+    if (metric === 'costMicroUsd') {
+      totals.costUsd += amount;
+    } else {
+      totals[metric as 'calls' | 'promptTokens' | 'completionTokens'] += amount;
+    }
+  }
+
+  private finalizeTotals(totals: LLMUsageTotals): LLMUsageTotals {
+    return {
+      calls: totals.calls,
+      promptTokens: totals.promptTokens,
+      completionTokens: totals.completionTokens,
+      totalTokens: totals.promptTokens + totals.completionTokens,
+      costUsd: totals.costUsd / MICRO_USD
+    };
+  }
+}
+
+export const usageService = new UsageService();
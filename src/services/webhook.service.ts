@@ -0,0 +1,313 @@
+import axios from 'axios';
+import crypto from 'crypto';
+import { Job, Worker } from 'bullmq';
+import { v4 as uuidv4 } from 'uuid';
+import { redisClient } from './redis.service';
+import { EnhancedQueueService } from './enhanced-queue.service';
+import { logger } from '../utils/logger';
+import {
+  WebhookConfig,
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  WebhookEventType
+} from '../types/webhook';
+
+const QUEUE_NAME = 'deepscrape-webhook-queue';
+
+// Per-page events are opt-in; large crawls and batches would otherwise flood receivers
+const DEFAULT_EVENTS = ['crawl.started', 'crawl.completed', 'batch.completed', '*.failed'];
+
+/**
+ * Delivers signed webhooks through a BullMQ queue with exponential-backoff retries
+ */
+export class WebhookService {
+  private static readonly DELIVERY_KEY_PREFIX = 'webhook:delivery:';
+  private static readonly DELIVERY_LOG_KEY = 'webhook:deliveries';
+
+  private readonly queue: EnhancedQueueService;
+  private readonly defaultSecret?: string;
+  private readonly logSize: number;
+  private readonly logTtl: number;
+
+  constructor() {
+    // With the defaults, retries span about four hours (30s, 1m, 2m ... 2h8m)
+    this.queue = new EnhancedQueueService(QUEUE_NAME, {
+      concurrency: parseInt(process.env.WEBHOOK_CONCURRENCY ?? '5'),
+      retryAttempts: parseInt(process.env.WEBHOOK_MAX_ATTEMPTS ?? '10'),
+      retryDelay: parseInt(process.env.WEBHOOK_RETRY_DELAY ?? '30000'),
+      lockDuration: 60000,
+      lockRenewTime: 15000
+    });
+    this.defaultSecret = process.env.WEBHOOK_SECRET;
+    this.logSize = parseInt(process.env.WEBHOOK_LOG_SIZE ?? '1000');
+    this.logTtl = parseInt(process.env.WEBHOOK_LOG_TTL_DAYS ?? '7') * 24 * 60 * 60;
+  }
+
+  /**
+   * Accept the legacy string form as well as a full webhook config
+   */
+  normalizeConfig(webhook?: string | WebhookConfig): WebhookConfig | undefined {
+    if (!webhook) return undefined;
+    return typeof webhook === 'string' ? { url: webhook } : webhook;
+  }
+
+  /**
+   * Validate a webhook from a request body
+   * @returns An error message, or null when the webhook is usable
+   */
+  validateConfig(webhook: unknown): string | null {
+    if (webhook === undefined || webhook === null) return null;
+
+    const url = typeof webhook === 'string' ? webhook : (webhook as WebhookConfig)?.url;
+    try {
+      const { protocol } = new URL(url);
+      if (protocol !== 'http:' && protocol !== 'https:') {
+        return 'Webhook URL must use http or https';
+      }
+    } catch {
+      return 'Webhook must be a valid URL or an object with a valid url';
+    }
+
+    if (typeof webhook === 'object') {
+      const { events, secret } = webhook as WebhookConfig;
+      if (events !== undefined && (!Array.isArray(events) || events.some(event => typeof event !== 'string'))) {
+        return 'Webhook events must be an array of event names';
+      }
+      if (secret !== undefined && typeof secret !== 'string') {
+        return 'Webhook secret must be a string';
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Check an event against a webhook's filter ("*", "crawl.*", "*.failed" or exact names)
+   */
+  matchesEventFilter(event: WebhookEventType, patterns: string[] = DEFAULT_EVENTS): boolean {
+    return patterns.some(pattern => {
+      if (pattern === '*' || pattern === event) return true;
+      if (pattern.startsWith('*.')) return event.endsWith(pattern.substring(1));
+      if (pattern.endsWith('.*')) return event.startsWith(pattern.substring(0, pattern.length - 1));
+      return false;
+    });
+  }
+
+  /**
+   * Sign a payload as HMAC-SHA256 over "<timestamp>.<body>"
+   */
+  sign(secret: string, timestamp: number, body: string): string {
+    return crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  }
+
+  /**
+   * Queue an event for delivery if the webhook subscribes to it
+   * @returns The delivery ID, or null when the event is filtered out
+   */
+  async dispatch(
+    webhook: string | WebhookConfig | undefined,
+    event: WebhookEventType,
+    data: Record<string, any>
+  ): Promise<string | null> {
+    const config = this.normalizeConfig(webhook);
+    if (!config || !this.matchesEventFilter(event, config.events)) {
+      return null;
+    }
+
+    const now = new Date().toISOString();
+    const deliveryId = uuidv4();
+    const delivery: WebhookDelivery = {
+      id: deliveryId,
+      event,
+      url: config.url,
+      status: 'pending',
+      jobId: deliveryId,
+      createdAt: now,
+      updatedAt: now,
+      payload: {
+        id: deliveryId,
+        event,
+        timestamp: now,
+        data,
+        ...(config.metadata && { metadata: config.metadata })
+      },
+      attempts: []
+    };
+
+    try {
+      await this.saveDelivery(delivery);
+      await redisClient.lpush(WebhookService.DELIVERY_LOG_KEY, deliveryId);
+      await redisClient.ltrim(WebhookService.DELIVERY_LOG_KEY, 0, this.logSize - 1);
+
+      // The secret and extra headers travel with the job only, never in the delivery log.
+      // Failed jobs are kept as long as the log so they can be redelivered
+      await this.queue.addJob(`webhook:${event}`, {
+        deliveryId,
+        secret: config.secret,
+        headers: config.headers
+      }, { jobId: deliveryId, removeOnFail: { age: this.logTtl } });
+
+      logger.debug(`Webhook ${event} queued for ${config.url}`, { deliveryId });
+      return deliveryId;
+    } catch (error) {
+      logger.error(`Failed to queue webhook ${event}`, {
+        url: config.url,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Start the worker that performs deliveries
+   */
+  initializeWorker(): Worker {
+    if (!this.defaultSecret) {
+      logger.warn('WEBHOOK_SECRET is not set; webhooks without their own secret will be sent unsigned');
+    }
+
+    return this.queue.initializeWorker((job: Job) => this.deliver(job));
+  }
+
+  /**
+   * Perform one delivery attempt; throwing hands the retry to BullMQ's backoff
+   */
+  private async deliver(job: Job): Promise<any> {
+    const delivery = await this.getDelivery(job.data.deliveryId);
+    if (!delivery) {
+      logger.warn(`Webhook delivery ${job.data.deliveryId} not found, dropping job`);
+      return { skipped: true };
+    }
+
+    const attempt = job.attemptsMade + 1;
+    const maxAttempts = job.opts.attempts ?? 1;
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+    const secret = job.data.secret ?? this.defaultSecret;
+    const startTime = Date.now();
+
+    try {
+      const response = await axios.post(delivery.url, body, {
+        timeout: 10000,
+        headers: {
+          ...job.data.headers,
+          'Content-Type': 'application/json',
+          'User-Agent': 'DeepScrape-Webhook/1.0',
+          'X-DeepScrape-Event': delivery.event,
+          'X-DeepScrape-Delivery': delivery.id,
+          'X-DeepScrape-Timestamp': String(timestamp),
+          ...(secret && { 'X-DeepScrape-Signature': `sha256=${this.sign(secret, timestamp, body)}` })
+        }
+      });
+
+      delivery.attempts.push({
+        attempt,
+        timestamp: new Date().toISOString(),
+        statusCode: response.status,
+        durationMs: Date.now() - startTime
+      });
+      await this.updateStatus(delivery, 'delivered');
+
+      logger.info(`Webhook ${delivery.event} delivered`, { url: delivery.url, deliveryId: delivery.id, attempt });
+      return { statusCode: response.status };
+    } catch (error) {
+      const statusCode = axios.isAxiosError(error) ? error.response?.status : undefined;
+      const message = error instanceof Error ? error.message : String(error);
+
+      delivery.attempts.push({
+        attempt,
+        timestamp: new Date().toISOString(),
+        statusCode,
+        durationMs: Date.now() - startTime,
+        error: message
+      });
+      await this.updateStatus(delivery, attempt >= maxAttempts ? 'failed' : 'retrying');
+
+      logger.warn(`Webhook ${delivery.event} delivery failed (attempt ${attempt}/${maxAttempts})`, {
+        url: delivery.url,
+        deliveryId: delivery.id,
+        statusCode,
+        error: message
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Send a failed delivery once more, with its original secret and headers
+   * @returns The delivery, or why it cannot be redelivered; null when it is unknown
+   */
+  async redeliver(deliveryId: string): Promise<{ delivery?: WebhookDelivery; error?: string } | null> {
+    const delivery = await this.getDelivery(deliveryId);
+    if (!delivery) return null;
+
+    if (delivery.status !== 'failed') {
+      return { error: `Only failed deliveries can be redelivered (this one is ${delivery.status})` };
+    }
+
+    const job = delivery.jobId ? await this.queue.getJob(delivery.jobId) : null;
+    if (!job) {
+      return { error: 'The delivery has expired and can no longer be redelivered' };
+    }
+
+    await job.retry('failed');
+    await this.updateStatus(delivery, 'retrying');
+    logger.info(`Webhook ${delivery.event} queued for redelivery`, { url: delivery.url, deliveryId });
+    return { delivery };
+  }
+
+  /**
+   * List recent deliveries, newest first
+   */
+  async getDeliveries(options: {
+    limit?: number;
+    offset?: number;
+    status?: WebhookDeliveryStatus;
+    event?: string;
+  } = {}): Promise<{ deliveries: WebhookDelivery[]; total: number }> {
+    const ids = await redisClient.lrange(WebhookService.DELIVERY_LOG_KEY, 0, -1);
+    const records = ids.length > 0
+      ? await redisClient.mget(...ids.map(id => `${WebhookService.DELIVERY_KEY_PREFIX}${id}`))
+      : [];
+
+    const deliveries = records
+      .filter((record): record is string => record !== null)
+      .map(record => JSON.parse(record) as WebhookDelivery)
+      .filter(delivery => !options.status || delivery.status === options.status)
+      .filter(delivery => !options.event || delivery.event === options.event);
+
+    const offset = options.offset ?? 0;
+    const limit = options.limit ?? 50;
+
+    return {
+      deliveries: deliveries.slice(offset, offset + limit),
+      total: deliveries.length
+    };
+  }
+
+  async getDelivery(deliveryId: string): Promise<WebhookDelivery | null> {
+    const data = await redisClient.get(`${WebhookService.DELIVERY_KEY_PREFIX}${deliveryId}`);
+    return data ? JSON.parse(data) : null;
+  }
+
+  private async saveDelivery(delivery: WebhookDelivery): Promise<void> {
+    await redisClient.set(
+      `${WebhookService.DELIVERY_KEY_PREFIX}${delivery.id}`,
+      JSON.stringify(delivery),
+      'EX',
+      this.logTtl
+    );
+  }
+
+  private async updateStatus(delivery: WebhookDelivery, status: WebhookDeliveryStatus): Promise<void> {
+    delivery.status = status;
+    delivery.updatedAt = new Date().toISOString();
+    await this.saveDelivery(delivery);
+  }
+
+  async close(): Promise<void> {
+    await this.queue.close();
+  }
+}
+
+export const webhookService = new WebhookService();
@@ -0,0 +1,2 @@
+// fengari ships without type declarations
+declare module 'fengari';
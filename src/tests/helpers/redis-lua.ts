@@ -0,0 +1,83 @@
+import { lua, lauxlib, lualib, to_luastring } from 'fengari';
+
+// What redis.call hands back to a script, and what EVAL returns to the client
+export type RedisReply = number | string | null | RedisReply[];
+
+/**
+ * Run a Redis Lua script in a Lua VM, with KEYS, ARGV and a redis.call that
+ * forwards to `call`. Replies are converted the way Redis converts them
+ * (numbers to integers, false and nil to null, tables to arrays)
+ */
+export function evalRedisScript(
+  script: string,
+  keys: string[],
+  args: Array<string | number>,
+  call: (command: string, ...args: string[]) => RedisReply
+): RedisReply {
+  const L = lauxlib.luaL_newstate();
+  lualib.luaL_openlibs(L);
+
+  pushReply(L, keys);
+  lua.lua_setglobal(L, to_luastring('KEYS'));
+  pushReply(L, args.map(String));
+  lua.lua_setglobal(L, to_luastring('ARGV'));
+
+  lua.lua_createtable(L, 0, 1);
+  lua.lua_pushcfunction(L, (state: any) => {
+    const callArgs: string[] = [];
+    for (let index = 1; index <= lua.lua_gettop(state); index++) {
+      lauxlib.luaL_tolstring(state, index);
+      callArgs.push(lua.lua_tojsstring(state, -1));
+      lua.lua_pop(state, 1);
+    }
+    const [command, ...rest] = callArgs;
+    pushReply(state, call(command.toUpperCase(), ...rest));
+    return 1;
+  });
+  lua.lua_setfield(L, -2, to_luastring('call'));
+  lua.lua_setglobal(L, to_luastring('redis'));
+
+  if (lauxlib.luaL_loadstring(L, to_luastring(script)) !== lua.LUA_OK || lua.lua_pcall(L, 0, 1, 0) !== lua.LUA_OK) {
+    throw new Error(`Lua script failed: ${lua.lua_tojsstring(L, -1)}`);
+  }
+  return readReply(L, -1);
+}
+
+function pushReply(L: any, reply: RedisReply): void {
+  if (reply === null) {
+    lua.lua_pushboolean(L, false);
+  } else if (typeof reply === 'number') {
+    lua.lua_pushinteger(L, Math.trunc(reply));
+  } else if (typeof reply === 'string') {
+    lua.lua_pushstring(L, to_luastring(reply));
+  } else {
+    lua.lua_createtable(L, reply.length, 0);
+    reply.forEach((item, index) => {
+      pushReply(L, item);
+      lua.lua_rawseti(L, -2, index + 1);
+    });
+  }
+}
+
+function readReply(L: any, index: number): RedisReply {
+  switch (lua.lua_type(L, index)) {
+    case lua.LUA_TNUMBER:
+      return Math.trunc(lua.lua_tonumber(L, index));
+    case lua.LUA_TSTRING:
+      return lua.lua_tojsstring(L, index);
+    case lua.LUA_TBOOLEAN:
+      return lua.lua_toboolean(L, index) ? 1 : null;
+    case lua.LUA_TTABLE: {
+      const items: RedisReply[] = [];
+      const table = lua.lua_absindex(L, index);
+      for (let item = 1; item <= lua.lua_rawlen(L, table); item++) {
+        lua.lua_rawgeti(L, table, item);
+        items.push(readReply(L, -1));
+        lua.lua_pop(L, 1);
+      }
+      return items;
+    }
+    default:
+      return null;
+  }
+}
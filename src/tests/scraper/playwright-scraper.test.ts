@@ -0,0 +1,172 @@
+jest.mock('../../services/browser-pool.service', () => ({ browserPool: { acquire: jest.fn() } }));
+
+import { PlaywrightScraper } from '../../scraper/playwright-scraper';
+import { ActionResult, BrowserAction } from '../../types';
+
+/**
+ * Fake page over an infinite feed: every scroll to the bottom adds ten items
+ * and grows the page until it reaches `maxHeight`
+ */
+function createPage(feed = { height: 1000, maxHeight: 5000, items: 10 }) {
+  const counts = new Map<string, number>();
+  const locator = (selector: string): any => ({
+    count: jest.fn(async () => selector === '.item' ? feed.items : counts.get(selector) ?? 0),
+    filter: () => locator(selector),
+    first: () => locator(selector),
+    evaluate: jest.fn(async () => `<li>${selector}</li>`),
+    screenshot: jest.fn(async () => Buffer.from('png'))
+  });
+
+  return {
+    feed,
+    counts,
+    click: jest.fn(async (_selector: string) => undefined),
+    hover: jest.fn(async (_selector: string, _options?: object) => undefined),
+    waitForTimeout: jest.fn(async () => undefined),
+    content: jest.fn(async () => '<html></html>'),
+    locator: jest.fn(locator),
+    evaluate: jest.fn(async (script: unknown): Promise<unknown> => {
+      if (String(script).includes('scrollTo')) {
+        if (feed.height < feed.maxHeight) {
+          feed.height += 1000;
+          feed.items += 10;
+        }
+        return undefined;
+      }
+      return feed.height;
+    })
+  };
+}
+
+describe('PlaywrightScraper actions', () => {
+  const scraper = new PlaywrightScraper();
+  const createContext = (budget = { executed: 0, deadline: Date.now() + 60000 }) => ({ screenshots: [], budget });
+  const perform = (page: ReturnType<typeof createPage>, actions: BrowserAction[], context = createContext()): Promise<ActionResult[]> =>
+    (scraper as any).performActions(page, actions, context);
+
+  describe('evaluate', () => {
+    it('should run the script in the page as a string and return its JSON result', async () => {
+      const page = createPage();
+      page.evaluate.mockResolvedValueOnce(JSON.stringify({ price: 42 }));
+
+      const [result] = await perform(page, [{ type: 'evaluate', script: 'return { price: 42 };' }]);
+
+      expect(result).toMatchObject({ type: 'evaluate', success: true, result: { price: 42 } });
+      const expression = page.evaluate.mock.calls[0][0];
+      expect(typeof expression).toBe('string');
+      expect(expression).toContain('"use strict"; return { price: 42 };');
+      expect(expression).toContain('JSON.stringify');
+    });
+
+    it('should fail a script that outlives its timeout', async () => {
+      const page = createPage();
+      page.evaluate.mockReturnValueOnce(new Promise(() => undefined));
+
+      const [result] = await perform(page, [{ type: 'evaluate', script: 'while (true) {}', timeout: 20, optional: true }]);
+
+      expect(result).toMatchObject({ success: false, error: 'Script did not finish within 20ms' });
+    });
+
+    it('should reject results over the size limit', async () => {
+      const page = createPage();
+      page.evaluate.mockResolvedValueOnce(JSON.stringify('x'.repeat(256 * 1024)));
+
+      await expect(perform(page, [{ type: 'evaluate', script: 'return big;' }])).rejects.toThrow('Script result exceeds 256KB');
+    });
+  });
+
+  describe('scrollUntil', () => {
+    it('should stop scrolling once the selector matches enough elements', async () => {
+      const page = createPage({ height: 1000, maxHeight: 100000, items: 10 });
+
+      const [result] = await perform(page, [{ type: 'scrollUntil', selector: '.item', count: 35 }]);
+
+      expect(result).toMatchObject({ success: true, scrolls: 3, matches: 40 });
+    });
+
+    it('should stop when the page stops growing or after maxScrolls', async () => {
+      const [grown] = await perform(createPage({ height: 1000, maxHeight: 3000, items: 10 }), [
+        { type: 'scrollUntil', selector: '.item', count: 1000 }
+      ]);
+      const [capped] = await perform(createPage({ height: 1000, maxHeight: 100000, items: 10 }), [
+        { type: 'scrollUntil', maxScrolls: 4 }
+      ]);
+
+      expect(grown).toMatchObject({ scrolls: 3, matches: 30 });
+      expect(capped.scrolls).toBe(4);
+      expect(capped.matches).toBeUndefined();
+    });
+  });
+
+  describe('control flow', () => {
+    it('should take the if branch whose condition holds', async () => {
+      const page = createPage();
+      page.counts.set('.cookie-banner', 1);
+
+      const [shown, hidden] = await perform(page, [
+        { type: 'if', selector: '.cookie-banner', actions: [{ type: 'click', selector: '.accept' }] },
+        { type: 'if', selector: '.paywall', actions: [{ type: 'click', selector: '.close' }], elseActions: [{ type: 'wait', timeout: 10 }] }
+      ]);
+
+      expect(shown).toMatchObject({ condition: true, actions: [{ type: 'click', success: true }] });
+      expect(hidden).toMatchObject({ condition: false, actions: [{ type: 'wait', success: true }] });
+      expect(page.click).toHaveBeenCalledTimes(1);
+      expect(page.click).toHaveBeenCalledWith('.accept');
+    });
+
+    it('should repeat while the condition holds, up to maxIterations', async () => {
+      const page = createPage();
+      page.counts.set('.next', 1);
+      page.click.mockImplementation(async () => {
+        if (page.click.mock.calls.length === 3) page.counts.set('.next', 0);
+      });
+
+      const [untilGone, capped] = await perform(page, [
+        { type: 'repeat', selector: '.next', captureHtml: true, actions: [{ type: 'click', selector: '.next' }] },
+        { type: 'repeat', maxIterations: 2, actions: [{ type: 'wait', timeout: 10 }] }
+      ]);
+
+      expect(untilGone.iterations).toHaveLength(3);
+      expect(untilGone.iterations?.[0]).toMatchObject({ index: 0, html: '<html></html>', actions: [{ type: 'click' }] });
+      expect(capped.iterations).toHaveLength(2);
+      expect(capped.iterations?.[0].html).toBeUndefined();
+    });
+
+    it('should scope forEach children to the current element', async () => {
+      const page = createPage();
+      page.counts.set('ul li', 5);
+
+      const [result] = await perform(page, [{
+        type: 'forEach',
+        selector: 'ul li',
+        maxIterations: 2,
+        actions: [{ type: 'click' }, { type: 'hover', selector: '.more' }]
+      }]);
+
+      expect(page.click.mock.calls).toEqual([['ul li >> nth=0'], ['ul li >> nth=1']]);
+      expect(page.hover.mock.calls.map(call => call[0])).toEqual(['ul li >> nth=0 >> .more', 'ul li >> nth=1 >> .more']);
+      expect(result.iterations?.map(iteration => iteration.html)).toEqual(['<li>ul li >> nth=0</li>', '<li>ul li >> nth=1</li>']);
+    });
+  });
+
+  describe('action budget', () => {
+    it('should count every nested action against the flow limit', async () => {
+      const page = createPage();
+      const context = createContext({ executed: 990, deadline: Date.now() + 60000 });
+
+      await expect(perform(page, [
+        { type: 'repeat', maxIterations: 20, actions: [{ type: 'wait', timeout: 10 }] }
+      ], context)).rejects.toThrow('Browser actions exceeded the limit of 1000 actions per flow');
+
+      expect(context.budget.executed).toBe(1001);
+      expect(page.waitForTimeout).toHaveBeenCalledWith(10);
+    });
+
+    it('should fail the flow once the deadline has passed, even for optional actions', async () => {
+      const context = createContext({ executed: 0, deadline: Date.now() - 1 });
+
+      await expect(perform(createPage(), [{ type: 'wait', timeout: 10, optional: true }], context))
+        .rejects.toThrow('Browser actions exceeded the 300000ms flow timeout');
+    });
+  });
+});
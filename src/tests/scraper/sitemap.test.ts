@@ -0,0 +1,91 @@
+import zlib from 'zlib';
+
+// Sitemaps are served from an in-memory site instead of the network
+const site = new Map<string, { data: Buffer; headers?: Record<string, string> }>();
+const get = jest.fn(async (url: string) => {
+  const response = site.get(url);
+  if (!response) throw new Error('Request failed with status code 404');
+  return { data: response.data, headers: response.headers ?? {} };
+});
+jest.mock('axios', () => ({ __esModule: true, default: { get: (...args: [string]) => get(...args) } }));
+
+import { getEntriesFromSitemap } from '../../scraper/sitemap';
+
+const urlset = (body: string) => `<?xml version="1.0"?><urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">${body}</urlset>`;
+const sitemapIndex = (locs: string[]) =>
+  `<sitemapindex>${locs.map(loc => `<sitemap><loc>${loc}</loc></sitemap>`).join('')}</sitemapindex>`;
+const serve = (url: string, body: string | Buffer, headers?: Record<string, string>) =>
+  site.set(url, { data: Buffer.isBuffer(body) ? body : Buffer.from(body), headers });
+
+describe('getEntriesFromSitemap', () => {
+  beforeEach(() => {
+    site.clear();
+    get.mockClear();
+  });
+
+  it('should read page URLs with their lastmod and priority', async () => {
+    serve('https://example.com/sitemap.xml', urlset(`
+      <url><loc> https://example.com/a </loc><lastmod>2026-01-02</lastmod><priority>0.8</priority></url>
+      <url><loc>https://example.com/b</loc><priority>high</priority></url>
+      <url><lastmod>2026-01-03</lastmod></url>`));
+
+    const entries = await getEntriesFromSitemap('https://example.com/sitemap.xml', new Set());
+
+    expect(entries).toEqual([
+      { url: 'https://example.com/a', lastmod: '2026-01-02', priority: 0.8 },
+      { url: 'https://example.com/b', lastmod: undefined, priority: undefined }
+    ]);
+    expect(get).toHaveBeenCalledWith('https://example.com/sitemap.xml', expect.objectContaining({ maxContentLength: 50 * 1024 * 1024 }));
+  });
+
+  it('should follow nested sitemap indexes once each, up to the entry limit', async () => {
+    serve('https://example.com/index.xml', sitemapIndex(['https://example.com/nested.xml', 'https://example.com/index.xml']));
+    serve('https://example.com/nested.xml', sitemapIndex(['https://example.com/pages-1.xml', 'https://example.com/pages-2.xml']));
+    serve('https://example.com/pages-1.xml', urlset('<url><loc>https://example.com/1</loc></url><url><loc>https://example.com/2</loc></url>'));
+    serve('https://example.com/pages-2.xml', urlset('<url><loc>https://example.com/3</loc></url>'));
+
+    const entries = await getEntriesFromSitemap('https://example.com/index.xml', new Set(), { maxEntries: 2 });
+
+    expect(entries.map(entry => entry.url)).toEqual(['https://example.com/1', 'https://example.com/2']);
+    expect(get).toHaveBeenCalledTimes(3);
+  });
+
+  it('should stop descending after three levels of sitemap indexes', async () => {
+    for (let level = 0; level < 4; level++) {
+      serve(`https://example.com/level-${level}.xml`, sitemapIndex([`https://example.com/level-${level + 1}.xml`]));
+    }
+    serve('https://example.com/level-4.xml', urlset('<url><loc>https://example.com/deep</loc></url>'));
+
+    expect(await getEntriesFromSitemap('https://example.com/level-0.xml', new Set())).toEqual([]);
+    expect(get).toHaveBeenCalledTimes(4);
+  });
+
+  it('should inflate gzipped sitemaps, and read bodies already inflated in transit as XML', async () => {
+    serve('https://example.com/sitemap.xml.gz', zlib.gzipSync(urlset('<url><loc>https://example.com/gz</loc></url>')));
+    serve('https://example.com/plain.xml.gz', urlset('<url><loc>https://example.com/plain</loc></url>'));
+
+    expect(await getEntriesFromSitemap('https://example.com/sitemap.xml.gz', new Set())).toEqual([
+      { url: 'https://example.com/gz', lastmod: undefined, priority: undefined }
+    ]);
+    expect(await getEntriesFromSitemap('https://example.com/plain.xml.gz', new Set())).toEqual([
+      { url: 'https://example.com/plain', lastmod: undefined, priority: undefined }
+    ]);
+  });
+
+  it('should skip a gzipped sitemap that inflates past the size limit', async () => {
+    const padding = ' '.repeat(51 * 1024 * 1024);
+    const bomb = zlib.gzipSync(urlset(`<url><loc>https://example.com/bomb</loc></url>${padding}`));
+    serve('https://example.com/bomb.xml', bomb, { 'content-type': 'application/x-gzip' });
+
+    expect(await getEntriesFromSitemap('https://example.com/bomb.xml', new Set())).toEqual([]);
+  });
+
+  it('should return nothing for sitemaps that fail to download or parse', async () => {
+    serve('https://example.com/broken.xml', '<urlset><url>');
+    serve('https://example.com/feed.xml', '<rss></rss>');
+
+    expect(await getEntriesFromSitemap('https://example.com/missing.xml', new Set())).toEqual([]);
+    expect(await getEntriesFromSitemap('https://example.com/broken.xml', new Set())).toEqual([]);
+    expect(await getEntriesFromSitemap('https://example.com/feed.xml', new Set())).toEqual([]);
+  });
+});
@@ -0,0 +1,213 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { AnthropicService } from '../../services/anthropic.service';
+import { LLMServiceFactory } from '../../services/llm-service-factory';
+import { LLMExtractor } from '../../transformers/llm-extractor';
+import { LLMMessage } from '../../types/llm.types';
+import { Schema } from '../../types/schema';
+
+describe('AnthropicService', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let lastRequest: { path?: string; headers: http.IncomingHttpHeaders; body: any };
+  let nextResponse: { status: number; body: any };
+
+  beforeAll(async () => {
+    // Mock Messages API that records the last request and replies with nextResponse
+    server = http.createServer((req, res) => {
+      let raw = '';
+      req.on('data', chunk => { raw += chunk; });
+      req.on('end', () => {
+        lastRequest = { path: req.url, headers: req.headers, body: raw ? JSON.parse(raw) : undefined };
+        res.writeHead(nextResponse.status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(nextResponse.body));
+      });
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  const createService = () => new AnthropicService({
+    provider: 'anthropic',
+    baseUrl,
+    apiKey: 'test-anthropic-key',
+    model: 'claude-test',
+    maxRetries: 0
+  });
+
+  const messages: LLMMessage[] = [
+    { role: 'system', content: 'You are a data extractor.' },
+    { role: 'user', content: 'Here is an example.' },
+    { role: 'assistant', content: 'Understood.' },
+    { role: 'user', content: 'Extract the title.' },
+    { role: 'user', content: 'Return JSON.' }
+  ];
+
+  it('should map roles to the Messages API format', async () => {
+    nextResponse = {
+      status: 200,
+      body: {
+        id: 'msg_1',
+        model: 'claude-test',
+        content: [{ type: 'text', text: 'Hello' }],
+        stop_reason: 'end_turn',
+        usage: { input_tokens: 12, output_tokens: 3 }
+      }
+    };
+
+    const response = await createService().getCompletion<string>(messages, { temperature: 0.1, maxTokens: 50 });
+
+    expect(lastRequest.path).toBe('/v1/messages');
+    expect(lastRequest.headers['x-api-key']).toBe('test-anthropic-key');
+    expect(lastRequest.headers['anthropic-version']).toBeDefined();
+    expect(lastRequest.body.system).toBe('You are a data extractor.');
+    expect(lastRequest.body.messages).toEqual([
+      { role: 'user', content: 'Here is an example.' },
+      { role: 'assistant', content: 'Understood.' },
+      { role: 'user', content: 'Extract the title.\n\nReturn JSON.' }
+    ]);
+    expect(lastRequest.body.max_tokens).toBe(50);
+    expect(lastRequest.body.tools).toBeUndefined();
+
+    expect(response.success).toBe(true);
+    expect(response.data).toBe('Hello');
+    expect(response.metadata?.provider).toBe('anthropic');
+    expect(response.metadata?.usage).toEqual({ promptTokens: 12, completionTokens: 3, totalTokens: 15 });
+  });
+
+  it('should use a forced tool call for JSON output', async () => {
+    const schema = { type: 'object', properties: { title: { type: 'string' } } };
+    nextResponse = {
+      status: 200,
+      body: {
+        id: 'msg_2',
+        model: 'claude-test',
+        content: [{ type: 'tool_use', id: 'toolu_1', name: 'extract_data', input: { title: 'Example' } }],
+        stop_reason: 'tool_use',
+        usage: { input_tokens: 20, output_tokens: 8 }
+      }
+    };
+
+    const response = await createService().getCompletion<{ title: string }>(
+      messages,
+      {},
+      { type: 'json_schema', schema }
+    );
+
+    expect(lastRequest.body.tools[0].input_schema).toEqual(schema);
+    expect(lastRequest.body.tool_choice).toEqual({ type: 'tool', name: 'extract_data' });
+    expect(response.success).toBe(true);
+    expect(response.data).toEqual({ title: 'Example' });
+  });
+
+  it('should wrap array schemas in an object tool input and unwrap the result', async () => {
+    const schema = { type: 'array', items: { type: 'string' } };
+    nextResponse = {
+      status: 200,
+      body: {
+        id: 'msg_4',
+        model: 'claude-test',
+        content: [{ type: 'tool_use', id: 'toolu_3', name: 'extract_data', input: { data: ['a', 'b'] } }],
+        stop_reason: 'tool_use',
+        usage: { input_tokens: 20, output_tokens: 6 }
+      }
+    };
+
+    const response = await createService().getCompletion<string[]>(messages, {}, { type: 'json_schema', schema });
+
+    expect(lastRequest.body.tools[0].input_schema).toEqual({
+      type: 'object',
+      properties: { data: schema },
+      required: ['data']
+    });
+    expect(response.data).toEqual(['a', 'b']);
+  });
+
+  it('should send extraction schemas as JSON Schema tool input', async () => {
+    const schema: Schema = {
+      type: 'object',
+      properties: {
+        title: { type: 'string', required: true },
+        offers: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: { price: { type: 'number', required: true }, currency: { type: 'string' } }
+          }
+        }
+      }
+    };
+    nextResponse = {
+      status: 200,
+      body: {
+        id: 'msg_3',
+        model: 'claude-test',
+        content: [{ type: 'tool_use', id: 'toolu_2', name: 'extract_data', input: { title: 'Example', offers: [] } }],
+        stop_reason: 'tool_use',
+        usage: { input_tokens: 30, output_tokens: 10 }
+      }
+    };
+
+    const result = await new LLMExtractor(createService()).extract({
+      url: 'https://example.com',
+      title: 'Example',
+      content: '# Example',
+      contentType: 'markdown',
+      metadata: { timestamp: new Date().toISOString(), status: 200, headers: {} }
+    }, { schema });
+
+    expect(lastRequest.body.tools[0].input_schema).toEqual({
+      type: 'object',
+      properties: {
+        title: { type: 'string' },
+        offers: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: { price: { type: 'number' }, currency: { type: 'string' } },
+            required: ['price']
+          }
+        }
+      },
+      required: ['title']
+    });
+    expect(result.structuredData).toEqual({ title: 'Example', offers: [] });
+  });
+
+  it('should surface API errors', async () => {
+    nextResponse = {
+      status: 400,
+      body: { type: 'error', error: { type: 'invalid_request_error', message: 'max_tokens is required' } }
+    };
+
+    const response = await createService().getCompletion(messages);
+
+    expect(response.success).toBe(false);
+    expect(response.error).toContain('max_tokens is required');
+  });
+
+  it('should be created by the factory when provider is anthropic', () => {
+    const originalEnv = process.env;
+    process.env = {
+      ...originalEnv,
+      LLM_PROVIDER: 'anthropic',
+      ANTHROPIC_API_KEY: 'test-key',
+      ANTHROPIC_MODEL: 'claude-test'
+    };
+
+    try {
+      const service = LLMServiceFactory.createLLMService();
+
+      expect(service).toBeInstanceOf(AnthropicService);
+      expect(service?.getProvider()).toBe('anthropic');
+      expect(service?.getModel()).toBe('claude-test');
+    } finally {
+      process.env = originalEnv;
+    }
+  });
+});
@@ -0,0 +1,66 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+// Keys live in a JSON file here; only the limit counters would need Redis
+jest.mock('../../services/redis.service', () => ({ redisClient: {} }));
+
+import { ApiKeyService } from '../../services/api-key.service';
+
+describe('ApiKeyService', () => {
+  const originalEnv = process.env;
+  let tempDir: string;
+  let keysFile: string;
+  let service: ApiKeyService;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'api-keys-'));
+    keysFile = path.join(tempDir, 'keys.json');
+    process.env = { ...originalEnv, API_KEY_STORE: 'file', API_KEYS_FILE: keysFile, API_KEY: 'env-secret' };
+    service = new ApiKeyService();
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should store only the hash and authenticate the issued key', async () => {
+    const { key, apiKey } = await service.createKey({ name: 'team-a', scopes: ['scrape', 'extract'] });
+
+    expect(key.startsWith('ds_')).toBe(true);
+    expect(apiKey).not.toHaveProperty('keyHash');
+    expect(fs.readFileSync(keysFile, 'utf-8')).not.toContain(key);
+
+    const record = await service.authenticate(key);
+    expect(record?.id).toBe(apiKey.id);
+    expect(service.hasScope(record!, 'scrape')).toBe(true);
+    expect(service.hasScope(record!, 'crawl')).toBe(false);
+
+    expect(await service.authenticate('ds_unknown')).toBeNull();
+  });
+
+  it('should accept the API_KEY environment variable as an admin key', async () => {
+    const record = await service.authenticate('env-secret');
+
+    expect(record?.id).toBe('env');
+    expect(service.hasScope(record!, 'crawl')).toBe(true);
+  });
+
+  it('should keep the old key during the rotation grace period and reject revoked keys', async () => {
+    const { key: oldKey, apiKey } = await service.createKey({ name: 'team-b', scopes: ['crawl'] });
+
+    const rotated = await service.rotateKey(apiKey.id, 60);
+    expect(rotated).not.toBeNull();
+    expect(await service.authenticate(rotated!.key)).not.toBeNull();
+    expect(await service.authenticate(oldKey)).not.toBeNull();
+
+    const rotatedAgain = await service.rotateKey(apiKey.id);
+    expect(await service.authenticate(oldKey)).toBeNull();
+    expect(await service.authenticate(rotated!.key)).toBeNull();
+
+    await service.revokeKey(apiKey.id);
+    expect(await service.authenticate(rotatedAgain!.key)).toBeNull();
+    expect(await service.rotateKey(apiKey.id)).toBeNull();
+  });
+});
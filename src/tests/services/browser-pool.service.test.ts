@@ -0,0 +1,103 @@
+import { EventEmitter } from 'events';
+
+// Fake browsers: contexts emit 'page' like Playwright's when a page is opened
+const launched: any[] = [];
+
+function createFakeBrowser() {
+  const browser: any = new EventEmitter();
+  browser.closed = false;
+  browser.isConnected = () => !browser.closed;
+  browser.close = jest.fn(async () => {
+    browser.closed = true;
+  });
+  browser.newContext = jest.fn(async () => {
+    const context: any = new EventEmitter();
+    context.newPage = jest.fn(async () => {
+      context.emit('page', {});
+      return {};
+    });
+    context.close = jest.fn(async () => undefined);
+    return context;
+  });
+  launched.push(browser);
+  return browser;
+}
+
+jest.mock('playwright', () => ({
+  chromium: { launch: jest.fn(async () => createFakeBrowser()) }
+}));
+
+import { BrowserPool } from '../../services/browser-pool.service';
+
+describe('BrowserPool', () => {
+  let pool: BrowserPool;
+
+  beforeEach(() => {
+    launched.length = 0;
+    pool = new BrowserPool({
+      maxBrowsers: 2,
+      contextsPerBrowser: 2,
+      maxPagesPerBrowser: 3,
+      maxBrowserMemoryMb: 0,
+      healthCheckIntervalMs: 0,
+      idleTimeoutMs: 0,
+      acquireTimeoutMs: 1000
+    });
+  });
+
+  afterEach(async () => {
+    await pool.close();
+  });
+
+  it('should share browsers between leases and wait for a free slot when full', async () => {
+    const leases = await Promise.all([pool.acquire(), pool.acquire(), pool.acquire(), pool.acquire()]);
+
+    expect(launched).toHaveLength(2);
+    expect(pool.getStats()).toMatchObject({ browsers: 2, leases: 4 });
+
+    let fifthLeased = false;
+    const fifth = pool.acquire().then(lease => {
+      fifthLeased = true;
+      return lease;
+    });
+    await new Promise(resolve => setImmediate(resolve));
+    expect(fifthLeased).toBe(false);
+    expect(pool.getStats().waiting).toBe(1);
+
+    await leases[0].release();
+    const lease = await fifth;
+
+    expect(lease.browser).toBe(leases[0].browser);
+    expect(launched).toHaveLength(2);
+    expect(leases[0].context.close).toHaveBeenCalled();
+  });
+
+  it('should recycle a browser after it served the page limit', async () => {
+    const lease = await pool.acquire();
+    for (let i = 0; i < 3; i++) {
+      await lease.context.newPage();
+    }
+
+    expect(lease.expired).toBe(true);
+    expect(lease.browser.close).not.toHaveBeenCalled();
+
+    // New leases go to a fresh browser while the old one finishes its work
+    const next = await pool.acquire();
+    expect(next.browser).not.toBe(lease.browser);
+
+    await lease.release();
+    expect(lease.browser.close).toHaveBeenCalled();
+    expect(pool.getStats().browsers).toBe(1);
+  });
+
+  it('should reject waiting leases and close browsers on shutdown', async () => {
+    await Promise.all([pool.acquire(), pool.acquire(), pool.acquire(), pool.acquire()]);
+    const waiting = pool.acquire();
+
+    await pool.close();
+
+    await expect(waiting).rejects.toThrow('shutting down');
+    expect(launched.every(browser => browser.close.mock.calls.length === 1)).toBe(true);
+    await expect(pool.acquire()).rejects.toThrow('shutting down');
+  });
+});
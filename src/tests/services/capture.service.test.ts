@@ -0,0 +1,43 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { CaptureService } from '../../services/capture.service';
+
+describe('CaptureService', () => {
+  let tempDir: string;
+  let service: CaptureService;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'captures-'));
+    service = new CaptureService(tempDir);
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should inline captures as base64 by default', async () => {
+    const result = await service.save(Buffer.from('png-bytes'), 'image/png');
+
+    expect(result).toEqual({
+      contentType: 'image/png',
+      size: 9,
+      data: Buffer.from('png-bytes').toString('base64')
+    });
+  });
+
+  it('should save file captures in the export directory and resolve only their names', async () => {
+    const result = await service.save(Buffer.from('%PDF-1.7'), 'application/pdf', 'file');
+
+    expect(result.data).toBeUndefined();
+    expect(result.url).toMatch(/^\/api\/captures\/[0-9a-f-]{36}\.pdf$/);
+
+    const filename = path.basename(result.url!);
+    const filePath = await service.resolve(filename);
+    expect(filePath).toBe(path.join(tempDir, 'captures', filename));
+    expect(fs.readFileSync(filePath!, 'utf-8')).toBe('%PDF-1.7');
+
+    expect(await service.resolve('../captures/' + filename)).toBeNull();
+    expect(await service.resolve('00000000-0000-0000-0000-000000000000.pdf')).toBeNull();
+  });
+});
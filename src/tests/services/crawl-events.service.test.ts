@@ -0,0 +1,68 @@
+import { EventEmitter } from 'events';
+
+// One fake subscriber connection whose psubscribe resolves when the test says so
+const subscriber = Object.assign(new EventEmitter(), {
+  psubscribe: jest.fn(),
+  disconnect: jest.fn(),
+  quit: jest.fn(async () => 'OK')
+});
+const duplicate = jest.fn(() => subscriber);
+jest.mock('../../services/redis.service', () => ({ redisClient: { duplicate: () => duplicate() } }));
+
+import { CrawlEventsService } from '../../services/crawl-events.service';
+
+describe('CrawlEventsService', () => {
+  beforeEach(() => {
+    subscriber.removeAllListeners();
+    subscriber.psubscribe.mockReset();
+    duplicate.mockClear();
+  });
+
+  it('should make every concurrent subscriber wait for the one psubscribe to finish', async () => {
+    let confirm!: () => void;
+    subscriber.psubscribe.mockReturnValue(new Promise<void>(resolve => { confirm = resolve; }));
+    const service = new CrawlEventsService();
+
+    const settled: string[] = [];
+    const first = service.subscribe('crawl-1', jest.fn()).then(() => settled.push('first'));
+    const second = service.subscribe('crawl-1', jest.fn()).then(() => settled.push('second'));
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(settled).toEqual([]);
+    confirm();
+    await Promise.all([first, second]);
+
+    expect(settled).toEqual(['first', 'second']);
+    expect(duplicate).toHaveBeenCalledTimes(1);
+    expect(subscriber.psubscribe).toHaveBeenCalledTimes(1);
+  });
+
+  it('should deliver events to the listeners of their crawl only', async () => {
+    subscriber.psubscribe.mockResolvedValue(1);
+    const service = new CrawlEventsService();
+    const listener = jest.fn();
+    const other = jest.fn();
+    const unsubscribe = await service.subscribe('crawl-1', listener);
+    await service.subscribe('crawl-2', other);
+
+    const event = { type: 'page-completed', crawlId: 'crawl-1', timestamp: 'now', data: {} };
+    subscriber.emit('pmessage', 'crawl-events:*', 'crawl-events:crawl-1', JSON.stringify(event));
+    unsubscribe();
+    subscriber.emit('pmessage', 'crawl-events:*', 'crawl-events:crawl-1', JSON.stringify(event));
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(event);
+    expect(other).not.toHaveBeenCalled();
+  });
+
+  it('should open a new connection after psubscribe fails', async () => {
+    subscriber.psubscribe.mockRejectedValueOnce(new Error('connection refused')).mockResolvedValue(1);
+    const service = new CrawlEventsService();
+
+    await expect(service.subscribe('crawl-1', jest.fn())).rejects.toThrow('connection refused');
+    await service.subscribe('crawl-1', jest.fn());
+
+    expect(duplicate).toHaveBeenCalledTimes(2);
+    expect(subscriber.disconnect).toHaveBeenCalled();
+  });
+});
@@ -1,7 +1,8 @@
 import { LLMServiceFactory } from '../../services/llm-service-factory';
 import { LocalLLMService } from '../../services/local-llm.service';
 import { OpenAIService } from '../../services/openai.service';
-import { LLMMessage } from '../../types/llm.types';
+import { FallbackLLMService } from '../../services/llm-fallback.service';
+import { LLMMessage, LLMProvider, LLMProviderType, LLMResponse } from '../../types/llm.types';
 
 describe('LLM Provider Tests', () => {
   const originalEnv = process.env;
@@ -138,6 +139,115 @@ describe('LLM Provider Tests', () => {
     });
   });
   
+  describe('FallbackLLMService', () => {
+    const messages: LLMMessage[] = [{ role: 'user', content: 'Hello' }];
+    
+    const createProvider = (
+      provider: LLMProviderType,
+      getCompletion: () => Promise<LLMResponse<any>>
+    ): LLMProvider => ({
+      getProvider: () => provider,
+      getModel: () => `${provider}-model`,
+      getCompletion: jest.fn(getCompletion),
+      getEmbeddings: jest.fn(async () => ({ success: false, error: 'not supported' }))
+    });
+    
+    it('should fail over to the next provider and report which one answered', async () => {
+      const primary = createProvider('vllm', async () => ({ success: false, error: 'ECONNREFUSED' }));
+      const secondary = createProvider('openai', async () => ({
+        success: true,
+        data: 'hi',
+        metadata: { model: 'openai-model', provider: 'openai' }
+      }));
+      
+      const service = new FallbackLLMService([primary, secondary]);
+      const response = await service.getCompletion<string>(messages);
+      
+      expect(response.success).toBe(true);
+      expect(response.data).toBe('hi');
+      expect(response.metadata?.provider).toBe('openai');
+      expect(primary.getCompletion).toHaveBeenCalledTimes(1);
+    });
+    
+    it('should stop calling a provider once its circuit opens', async () => {
+      const primary = createProvider('ollama', async () => ({ success: false, error: 'timeout' }));
+      const secondary = createProvider('litellm', async () => ({ success: true, data: 'ok' }));
+      
+      const service = new FallbackLLMService([primary, secondary], { minimumCalls: 2, errorThreshold: 0.5, cooldownMs: 60000 });
+      
+      for (let i = 0; i < 4; i++) {
+        await service.getCompletion(messages);
+      }
+      
+      expect(primary.getCompletion).toHaveBeenCalledTimes(2);
+      expect(secondary.getCompletion).toHaveBeenCalledTimes(4);
+      expect(service.getChainStatus()[0].state).toBe('open');
+      expect(service.getProvider()).toBe('litellm');
+    });
+    
+    it('should return an error when every provider fails', async () => {
+      const service = new FallbackLLMService([
+        createProvider('vllm', async () => ({ success: false, error: 'down' })),
+        createProvider('openai', async () => ({ success: false, error: 'rate limited' }))
+      ]);
+      
+      const response = await service.getCompletion(messages);
+      
+      expect(response.success).toBe(false);
+      expect(response.error).toContain('vllm: down');
+      expect(response.error).toContain('openai: rate limited');
+    });
+    
+    it('should return request errors without failing over or tripping the circuit', async () => {
+      const primary = createProvider('openai', async () => ({ success: false, error: 'context length exceeded', statusCode: 400 }));
+      const secondary = createProvider('vllm', async () => ({ success: true, data: 'ok' }));
+      
+      const service = new FallbackLLMService([primary, secondary], { minimumCalls: 2, errorThreshold: 0.5 });
+      for (let i = 0; i < 3; i++) {
+        const response = await service.getCompletion(messages);
+        expect(response).toMatchObject({ success: false, error: 'context length exceeded', statusCode: 400 });
+      }
+      
+      expect(secondary.getCompletion).not.toHaveBeenCalled();
+      expect(service.getChainStatus()[0].state).toBe('closed');
+    });
+    
+    it('should fail over on rate limits and server errors', async () => {
+      for (const statusCode of [429, 503]) {
+        const primary = createProvider('openai', async () => ({ success: false, error: 'unavailable', statusCode }));
+        const secondary = createProvider('vllm', async () => ({ success: true, data: 'ok' }));
+        
+        const response = await new FallbackLLMService([primary, secondary]).getCompletion(messages);
+        
+        expect(response.success).toBe(true);
+        expect(response.metadata?.provider).toBe('vllm');
+      }
+    });
+    
+    it('should let a single trial call through once the cooldown is over', async () => {
+      let healthy!: (value: boolean) => void;
+      const primary = {
+        ...createProvider('ollama', async () => ({ success: false, error: 'timeout' })),
+        healthCheck: jest.fn(() => new Promise<boolean>(resolve => { healthy = resolve; }))
+      };
+      const secondary = createProvider('litellm', async () => ({ success: true, data: 'ok' }));
+      const service = new FallbackLLMService([primary, secondary], { minimumCalls: 1, errorThreshold: 0.5, cooldownMs: 0 });
+      await service.getCompletion(messages);
+      expect(service.getChainStatus()[0].state).toBe('open');
+      
+      (primary.getCompletion as jest.Mock).mockImplementation(async () => ({ success: true, data: 'back' }));
+      const trial = service.getCompletion<string>(messages);
+      const others = [service.getCompletion<string>(messages), service.getCompletion<string>(messages)];
+      healthy(true);
+      
+      expect((await trial).data).toBe('back');
+      expect((await Promise.all(others)).map(response => response.data)).toEqual(['ok', 'ok']);
+      expect(primary.healthCheck).toHaveBeenCalledTimes(1);
+      expect(primary.getCompletion).toHaveBeenCalledTimes(2);
+      expect(service.getChainStatus()[0].state).toBe('closed');
+    });
+  });
+  
   describe('Integration Tests', () => {
     // These tests would run against actual services if available
     describe.skip('Live Provider Tests', () => {
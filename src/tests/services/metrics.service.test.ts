@@ -0,0 +1,115 @@
+import { Request, Response } from 'express';
+
+const authenticate = jest.fn();
+jest.mock('../../services/api-key.service', () => ({
+  apiKeyService: {
+    authenticate: (key: string) => authenticate(key),
+    hasScope: (record: { scopes: string[] }, scope: string) => record.scopes.includes(scope)
+  }
+}));
+
+import { MetricsService } from '../../services/metrics.service';
+import { getMetrics } from '../../api/controllers/metrics.controller';
+
+describe('MetricsService', () => {
+  it('should render counters and gauges in the Prometheus text format', async () => {
+    const registry = new MetricsService();
+    const requests = registry.counter('test_requests_total', 'Requests', ['route']);
+    registry.counter('test_failures_total', 'Failures');
+    const depth = registry.gauge('test_queue_depth', 'Queue depth', ['queue']);
+
+    requests.inc({ route: '/api/scrape' });
+    requests.inc({ route: '/api/scrape' }, 2);
+    requests.inc({ route: 'say "hi"\n' });
+    registry.registerCollector(() => depth.set({ queue: 'crawl' }, 7));
+
+    const output = await registry.render();
+
+    expect(output).toContain('# TYPE test_requests_total counter');
+    expect(output).toContain('test_requests_total{route="/api/scrape"} 3');
+    expect(output).toContain('test_requests_total{route="say \\"hi\\"\\n"} 1');
+    expect(output).toContain('test_failures_total 0');
+    expect(output).toContain('test_queue_depth{queue="crawl"} 7');
+  });
+
+  it('should render cumulative histogram buckets', async () => {
+    const registry = new MetricsService();
+    const latency = registry.histogram('test_latency_seconds', 'Latency', ['outcome'], [1, 5]);
+
+    latency.observe({ outcome: 'success' }, 0.5);
+    latency.observe({ outcome: 'success' }, 3);
+    latency.observe({ outcome: 'success' }, 10);
+    await expect(latency.time({}, async () => { throw new Error('boom'); })).rejects.toThrow('boom');
+
+    const output = await registry.render();
+
+    expect(output).toContain('test_latency_seconds_bucket{le="1",outcome="success"} 1');
+    expect(output).toContain('test_latency_seconds_bucket{le="5",outcome="success"} 2');
+    expect(output).toContain('test_latency_seconds_bucket{le="+Inf",outcome="success"} 3');
+    expect(output).toContain('test_latency_seconds_sum{outcome="success"} 13.5');
+    expect(output).toContain('test_latency_seconds_count{outcome="error"} 1');
+  });
+
+  it('should label timed operations with their outcome', async () => {
+    const registry = new MetricsService();
+    const duration = registry.histogram('test_scrape_seconds', 'Scrapes', ['scraper', 'outcome']);
+
+    await duration.time({ scraper: 'http' }, async () => ({ error: undefined }), () => ({ outcome: 'success' }));
+
+    expect(await registry.render()).toContain('test_scrape_seconds_count{scraper="http",outcome="success"} 1');
+  });
+
+  it('should export the default process metrics when asked to', async () => {
+    expect(await new MetricsService({ defaultMetrics: true }).render()).toContain('process_resident_memory_bytes');
+    expect(await new MetricsService().render()).not.toContain('process_resident_memory_bytes');
+  });
+
+  it('should reject duplicate metric names', () => {
+    const registry = new MetricsService();
+    registry.gauge('test_duplicate', 'First');
+
+    expect(() => registry.counter('test_duplicate', 'Second')).toThrow('already been registered');
+  });
+});
+
+describe('getMetrics', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv, METRICS_TOKEN: 'scrape-token' };
+    delete process.env.METRICS_PUBLIC;
+    authenticate.mockReset().mockResolvedValue(null);
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  const request = async (headers: Record<string, string>) => {
+    const res = { status: jest.fn(), json: jest.fn(), send: jest.fn(), setHeader: jest.fn() };
+    res.status.mockReturnValue(res);
+    await getMetrics({ headers } as unknown as Request, res as unknown as Response);
+    return res.status.mock.calls[0][0];
+  };
+
+  it('should require the metrics token or an admin API key', async () => {
+    authenticate.mockImplementation(async (key: string) => ({
+      'admin-key': { scopes: ['admin'] },
+      'scrape-key': { scopes: ['scrape'] }
+    }[key] ?? null));
+
+    expect(await request({})).toBe(401);
+    expect(await request({ authorization: 'Bearer wrong' })).toBe(401);
+    expect(await request({ 'x-api-key': 'scrape-key' })).toBe(401);
+    expect(await request({ authorization: 'Bearer scrape-token' })).toBe(200);
+    expect(await request({ 'x-api-key': 'admin-key' })).toBe(200);
+  });
+
+  it('should stay closed without METRICS_TOKEN unless METRICS_PUBLIC is set', async () => {
+    delete process.env.METRICS_TOKEN;
+    expect(await request({ authorization: 'Bearer ' })).toBe(401);
+
+    process.env.METRICS_PUBLIC = 'true';
+    expect(await request({})).toBe(200);
+  });
+});
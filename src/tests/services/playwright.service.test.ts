@@ -0,0 +1,77 @@
+// Leases hand out fake contexts whose pages load instantly; expired is set by the test
+const leases: any[] = [];
+
+function createFakeLease() {
+  const context: any = {
+    newPage: jest.fn(async () => ({
+      viewportSize: () => null,
+      goto: jest.fn(async () => ({ status: () => 200 })),
+      waitForTimeout: jest.fn(async () => undefined),
+      evaluate: jest.fn(async () => []),
+      content: jest.fn(async () => '<html><body>ok</body></html>'),
+      title: jest.fn(async () => 'ok'),
+      close: jest.fn(async () => undefined)
+    }))
+  };
+  const lease: any = {
+    browser: {},
+    context,
+    expired: false,
+    release: jest.fn(async () => {
+      lease.expired = true;
+    })
+  };
+  leases.push(lease);
+  return lease;
+}
+
+jest.mock('../../services/browser-pool.service', () => ({
+  browserPool: {
+    // Leasing takes a moment, like launching a browser would
+    acquire: jest.fn(async () => {
+      await new Promise(resolve => setImmediate(resolve));
+      return createFakeLease();
+    })
+  }
+}));
+
+import { PlaywrightService } from '../../services/playwright.service';
+import { browserPool } from '../../services/browser-pool.service';
+
+describe('PlaywrightService', () => {
+  const options = { minDelay: 1, maxScrolls: 0, waitTime: 0 };
+
+  beforeEach(() => {
+    leases.length = 0;
+    (browserPool.acquire as jest.Mock).mockClear();
+  });
+
+  it('should lease one context for parallel crawls', async () => {
+    const service = new PlaywrightService();
+
+    await Promise.all(['a', 'b', 'c'].map(path => service.crawlPage(`https://example.com/${path}`, options)));
+
+    expect(browserPool.acquire).toHaveBeenCalledTimes(1);
+    expect(leases[0].context.newPage).toHaveBeenCalledTimes(3);
+  });
+
+  it('should swap a recycled context once for parallel crawls', async () => {
+    const service = new PlaywrightService();
+    await service.crawlPage('https://example.com/', options);
+
+    // The pool starts recycling the browser between crawls
+    leases[0].expired = true;
+    const results = await Promise.all(
+      ['a', 'b', 'c', 'd'].map(path => service.crawlPage(`https://example.com/${path}`, options))
+    );
+
+    expect(results.map(result => result.status)).toEqual([200, 200, 200, 200]);
+    expect(browserPool.acquire).toHaveBeenCalledTimes(2);
+    expect(leases[0].release).toHaveBeenCalledTimes(1);
+    expect(leases[0].context.newPage).toHaveBeenCalledTimes(1);
+    expect(leases[1].context.newPage).toHaveBeenCalledTimes(4);
+
+    await service.close();
+    expect(leases[1].release).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,119 @@
+import { evalRedisScript, RedisReply } from '../helpers/redis-lua';
+
+// The token bucket script runs in a Lua VM against in-memory hashes, on the faked clock
+const hashes = new Map<string, Map<string, string>>();
+const expiries = new Map<string, number>();
+const redisCall = (command: string, key: string, ...args: string[]): RedisReply => {
+  const hash = hashes.get(key) ?? new Map<string, string>();
+  switch (command) {
+    case 'TIME': {
+      const now = Date.now();
+      return [String(Math.floor(now / 1000)), String((now % 1000) * 1000)];
+    }
+    case 'HMGET':
+      return args.map(field => hash.get(field) ?? null);
+    case 'HSET':
+      for (let index = 0; index < args.length; index += 2) hash.set(args[index], args[index + 1]);
+      hashes.set(key, hash);
+      return args.length / 2;
+    case 'PEXPIRE':
+      expiries.set(key, Number(args[0]));
+      return 1;
+    default:
+      throw new Error(`Unexpected Redis command ${command}`);
+  }
+};
+const evalScript = jest.fn(async (script: string, keyCount: number, ...rest: Array<string | number>) =>
+  evalRedisScript(script, rest.slice(0, keyCount).map(String), rest.slice(keyCount), redisCall)
+);
+jest.mock('../../services/redis.service', () => ({ redisClient: { eval: evalScript } }));
+
+import { PolitenessService } from '../../services/politeness.service';
+
+describe('PolitenessService', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    hashes.clear();
+    expiries.clear();
+    evalScript.mockClear();
+    jest.useFakeTimers({ now: 1_700_000_000_000 });
+    process.env = { ...originalEnv };
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    process.env = originalEnv;
+  });
+
+  // Start an acquire and let the faked clock run until it gets its slot
+  const acquire = async (service: PolitenessService, url: string, settings = {}) => {
+    let waited: number | undefined;
+    const pending = service.acquire(url, settings).then(result => { waited = result; });
+    while (waited === undefined) {
+      await jest.advanceTimersByTimeAsync(100);
+    }
+    await pending;
+    return waited;
+  };
+
+  it('should let a burst through back to back, then space requests by the interval', async () => {
+    const service = new PolitenessService();
+    const url = 'https://example.com/page';
+
+    expect(await service.acquire(url, { burst: 2 })).toBe(0);
+    expect(await service.acquire(url, { burst: 2 })).toBe(0);
+    expect(await acquire(service, url, { burst: 2 })).toBe(1000);
+
+    expect(evalScript.mock.calls[0].slice(1)).toEqual([1, 'politeness:example.com', 1000, 2]);
+    expect(expiries.get('politeness:example.com')).toBe(60000);
+  });
+
+  it('should refill tokens while the host is idle, up to the burst size', async () => {
+    const service = new PolitenessService();
+    const url = 'https://example.com/';
+
+    await service.acquire(url, { burst: 2 });
+    await service.acquire(url, { burst: 2 });
+    jest.setSystemTime(Date.now() + 1500);
+
+    expect(await service.acquire(url, { burst: 2 })).toBe(0);
+    expect(await acquire(service, url, { burst: 2 })).toBe(500);
+
+    jest.setSystemTime(Date.now() + 60000);
+    expect(await service.acquire(url, { burst: 2 })).toBe(0);
+    expect(await service.acquire(url, { burst: 2 })).toBe(0);
+    expect(await acquire(service, url, { burst: 2 })).toBe(1000);
+  });
+
+  it('should keep a separate bucket per host', async () => {
+    const service = new PolitenessService();
+
+    expect(await service.acquire('https://a.example.com/1')).toBe(0);
+    expect(await service.acquire('https://b.example.com/1')).toBe(0);
+    expect(await acquire(service, 'https://a.example.com/2')).toBe(1000);
+  });
+
+  it('should honor Crawl-delay up to a minute and never go below POLITENESS_DELAY_MS', () => {
+    process.env.POLITENESS_DELAY_MS = '2000';
+    const service = new PolitenessService();
+
+    expect(service.getIntervalMs({ delayMs: 500 })).toBe(2000);
+    expect(service.getIntervalMs({ delayMs: 5000, crawlDelaySeconds: 3 })).toBe(5000);
+    expect(service.getIntervalMs({ crawlDelaySeconds: 3 })).toBe(3000);
+    expect(service.getIntervalMs({ crawlDelaySeconds: 600 })).toBe(60000);
+  });
+
+  it('should not wait when pacing is off, the URL is invalid or Redis fails', async () => {
+    process.env.POLITENESS_DELAY_MS = '0';
+    expect(await new PolitenessService().acquire('https://example.com/')).toBe(0);
+
+    process.env.POLITENESS_DELAY_MS = '1000';
+    const service = new PolitenessService();
+    expect(await service.acquire('not a url')).toBe(0);
+    expect(evalScript).not.toHaveBeenCalled();
+
+    evalScript.mockRejectedValueOnce(new Error('connection lost'));
+    expect(await service.acquire('https://example.com/')).toBe(0);
+  });
+});
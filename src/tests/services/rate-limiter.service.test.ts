@@ -0,0 +1,147 @@
+// The sliding window script runs against in-memory request logs instead of Redis
+const windows = new Map<string, number[]>();
+const evalScript = jest.fn(async (_script: string, _keys: number, key: string, now: number, window: number, limit: number) => {
+  const log = (windows.get(key) ?? []).filter(time => time > now - window);
+  const allowed = log.length < limit;
+  if (allowed) log.push(now);
+  windows.set(key, log);
+  return [allowed ? 1 : 0, log.length, log[0] + window - now];
+});
+jest.mock('../../services/redis.service', () => ({ redisClient: { eval: evalScript } }));
+
+import { Request } from 'express';
+import { RateLimiterService, rateLimiterService } from '../../services/rate-limiter.service';
+import { rateLimit } from '../../api/middleware/rate-limit.middleware';
+
+const createResponse = (apiKeyId?: string) => {
+  const headers: Record<string, string> = {};
+  const res: any = {
+    locals: { apiKeyId },
+    statusCode: 200,
+    body: undefined,
+    setHeader: jest.fn((name: string, value: string) => { headers[name] = value; }),
+    getHeader: jest.fn((name: string) => headers[name]),
+    status: jest.fn((code: number) => { res.statusCode = code; return res; }),
+    json: jest.fn((body: any) => { res.body = body; return res; })
+  };
+  return { res, headers };
+};
+
+describe('RateLimiterService', () => {
+  const originalEnv = process.env;
+  let now: number;
+
+  beforeEach(() => {
+    windows.clear();
+    evalScript.mockClear();
+    now = 1_000_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    process.env = { ...originalEnv };
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    process.env = originalEnv;
+  });
+
+  it('should admit requests until the window is full and again once old ones slide out', async () => {
+    const limiter = new RateLimiterService();
+
+    expect(await limiter.hit('key-a', 2, 60000)).toEqual({ allowed: true, limit: 2, remaining: 1, windowMs: 60000, resetMs: 60000 });
+    now += 20000;
+    expect((await limiter.hit('key-a', 2, 60000)).remaining).toBe(0);
+    now += 20000;
+    expect(await limiter.hit('key-a', 2, 60000)).toEqual({ allowed: false, limit: 2, remaining: 0, windowMs: 60000, resetMs: 20000 });
+
+    // The first request leaves the window, the second one is still in it
+    now += 20001;
+    expect(await limiter.hit('key-a', 2, 60000)).toMatchObject({ allowed: true, remaining: 0 });
+    expect(evalScript.mock.calls[0][2]).toBe('ratelimit:key-a');
+  });
+
+  it('should fail open when Redis is unavailable', async () => {
+    evalScript.mockRejectedValueOnce(new Error('connection refused'));
+
+    const result = await new RateLimiterService().hit('key-a', 5, 60000);
+
+    expect(result).toEqual({ allowed: true, limit: 5, remaining: 5, windowMs: 60000, resetMs: 60000 });
+  });
+
+  it('should read group limits from the environment', () => {
+    process.env.RATE_LIMIT_CRAWL = '3';
+    process.env.RATE_LIMIT_WINDOW_MS = '1000';
+
+    const limiter = new RateLimiterService();
+
+    expect(limiter.getGroupLimit('crawl')).toEqual({ limit: 3, windowMs: 1000 });
+    expect(limiter.getGroupLimit('scrape').limit).toBe(60);
+  });
+});
+
+describe('rateLimit middleware', () => {
+  const originalEnv = process.env;
+  const req = { ip: '10.0.0.1' } as Request;
+
+  beforeEach(() => {
+    windows.clear();
+    process.env = { ...originalEnv, RATE_LIMIT_CRAWL: '1' };
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    process.env = originalEnv;
+  });
+
+  it('should set RateLimit headers and reject with Retry-After once the limit is hit', async () => {
+    const next = jest.fn();
+
+    const first = createResponse('key-a');
+    await rateLimit('crawl')(req, first.res, next);
+    expect(next).toHaveBeenCalledTimes(1);
+    expect(first.headers).toMatchObject({
+      'RateLimit-Limit': '1',
+      'RateLimit-Remaining': '0',
+      'RateLimit-Reset': '60',
+      'RateLimit-Policy': '1;w=60'
+    });
+
+    const second = createResponse('key-a');
+    await rateLimit('crawl')(req, second.res, next);
+    expect(next).toHaveBeenCalledTimes(1);
+    expect(second.res.statusCode).toBe(429);
+    expect(Number(second.headers['Retry-After'])).toBeGreaterThanOrEqual(1);
+    expect(second.res.body).toMatchObject({ success: false, retryAfter: Number(second.headers['Retry-After']) });
+
+    // Other keys and anonymous callers have their own windows
+    const other = createResponse('key-b');
+    await rateLimit('crawl')(req, other.res, next);
+    const anonymous = createResponse();
+    await rateLimit('crawl')(req, anonymous.res, next);
+    expect(next).toHaveBeenCalledTimes(3);
+    expect([...windows.keys()]).toEqual(['ratelimit:crawl:key-a', 'ratelimit:crawl:key-b', 'ratelimit:crawl:ip:10.0.0.1']);
+  });
+
+  it('should keep the most restrictive headers when a key limit already applied', async () => {
+    const { res, headers } = createResponse('key-a');
+    headers['RateLimit-Remaining'] = '0';
+    headers['RateLimit-Limit'] = '5';
+    process.env.RATE_LIMIT_CRAWL = '10';
+
+    await rateLimit('crawl')(req, res, jest.fn());
+
+    expect(headers['RateLimit-Limit']).toBe('5');
+    expect(headers['RateLimit-Remaining']).toBe('0');
+  });
+
+  it('should let requests through when Redis is down', async () => {
+    evalScript.mockRejectedValueOnce(new Error('connection refused'));
+    const next = jest.fn();
+    const { res } = createResponse('key-a');
+
+    await rateLimit('crawl')(req, res, next);
+
+    expect(next).toHaveBeenCalled();
+    expect(res.status).not.toHaveBeenCalled();
+    expect(rateLimiterService.isEnabled()).toBe(true);
+  });
+});
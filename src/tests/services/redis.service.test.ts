@@ -0,0 +1,82 @@
+// Crawl bookkeeping runs against in-memory sets and strings instead of Redis
+const sets = new Map<string, Set<string>>();
+const strings = new Map<string, string>();
+const members = (key: string) => sets.get(key) ?? new Set<string>();
+
+jest.mock('ioredis', () => jest.fn().mockImplementation(() => ({
+  on: jest.fn(),
+  expire: jest.fn(async () => 1),
+  get: jest.fn(async (key: string) => strings.get(key) ?? null),
+  set: jest.fn(async (key: string, value: unknown) => { strings.set(key, String(value)); return 'OK'; }),
+  setnx: jest.fn(async (key: string, value: string) => {
+    if (strings.has(key)) return 0;
+    strings.set(key, value);
+    return 1;
+  }),
+  sadd: jest.fn(async (key: string, ...values: string[]) => {
+    sets.set(key, new Set([...members(key), ...values]));
+    return values.length;
+  }),
+  srem: jest.fn(async (key: string, ...values: string[]) => values.filter(value => members(key).delete(value)).length),
+  scard: jest.fn(async (key: string) => members(key).size),
+  smembers: jest.fn(async (key: string) => [...members(key)]),
+  lrange: jest.fn(async () => [])
+})));
+
+const publish = jest.fn();
+const dispatch = jest.fn();
+jest.mock('../../services/crawl-events.service', () => ({ crawlEventsService: { publish } }));
+jest.mock('../../services/webhook.service', () => ({ webhookService: { dispatch } }));
+jest.mock('../../services/file-export.service', () => ({
+  fileExportService: {
+    getCrawlOutputDir: jest.fn(() => '/tmp/crawl'),
+    exportCrawlSummary: jest.fn(),
+    exportCrawlAsConsolidatedFile: jest.fn()
+  }
+}));
+
+import { addCrawlJobs, isCrawlFinished, markCrawlJobDone, pruneUnfinishedCrawlJobs } from '../../services/redis.service';
+
+describe('crawl completion', () => {
+  beforeEach(() => {
+    sets.clear();
+    strings.clear();
+    publish.mockReset();
+    dispatch.mockReset();
+  });
+
+  it('should finish a crawl whose last page failed permanently and report it as failed', async () => {
+    const crawlId = 'crawl-1';
+    await addCrawlJobs(crawlId, ['page-a', 'page-b']);
+
+    await markCrawlJobDone(crawlId, 'page-a', true);
+    expect(await isCrawlFinished(crawlId)).toBe(false);
+    expect(publish).not.toHaveBeenCalled();
+
+    await markCrawlJobDone(crawlId, 'page-b', false);
+
+    expect(await isCrawlFinished(crawlId)).toBe(true);
+    const completion = { crawlId, successfulPages: 1, failedPages: 1 };
+    expect(publish).toHaveBeenCalledWith(crawlId, 'crawl-completed', completion);
+    expect(dispatch).toHaveBeenCalledWith(undefined, 'crawl.completed', expect.objectContaining(completion));
+  });
+
+  it('should keep failed pages counted as done when a resume prunes unfinished jobs', async () => {
+    const crawlId = 'crawl-2';
+    await addCrawlJobs(crawlId, ['page-a', 'page-b', 'page-c']);
+    await markCrawlJobDone(crawlId, 'page-a', true);
+    await markCrawlJobDone(crawlId, 'page-b', false);
+
+    // page-c's queue entry was lost; the resume drops it and enqueues the URL again
+    expect(await pruneUnfinishedCrawlJobs(crawlId)).toBe(1);
+    await addCrawlJobs(crawlId, ['page-c-retry']);
+
+    expect(await isCrawlFinished(crawlId)).toBe(false);
+    expect(publish).not.toHaveBeenCalled();
+
+    await markCrawlJobDone(crawlId, 'page-c-retry', true);
+
+    expect(await isCrawlFinished(crawlId)).toBe(true);
+    expect(publish).toHaveBeenCalledWith(crawlId, 'crawl-completed', { crawlId, successfulPages: 2, failedPages: 1 });
+  });
+});
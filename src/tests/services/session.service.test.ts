@@ -0,0 +1,118 @@
+// Sessions live in an in-memory map here instead of Redis
+const store = new Map<string, string>();
+jest.mock('../../services/redis.service', () => ({
+  redisClient: {
+    get: jest.fn(async (key: string) => store.get(key) ?? null),
+    set: jest.fn(async (key: string, value: string) => { store.set(key, value); return 'OK'; }),
+    del: jest.fn(async (key: string) => (store.delete(key) ? 1 : 0))
+  }
+}));
+
+// Logging in needs a browser, so the flow is replaced with canned results
+const login = jest.fn();
+jest.mock('../../scraper/playwright-scraper', () => ({
+  PlaywrightScraper: jest.fn().mockImplementation(() => ({ login }))
+}));
+
+import { SessionService } from '../../services/session.service';
+import { CreateSessionRequest } from '../../types/session';
+
+const loggedIn = (value: string) => ({
+  url: 'https://wiki.example.com/home',
+  content: '<html><body><h1>Welcome</h1></body></html>',
+  storageState: {
+    cookies: [{
+      name: 'sid', value, domain: '.example.com', path: '/',
+      expires: -1, httpOnly: true, secure: true, sameSite: 'Lax' as const
+    }],
+    origins: []
+  },
+  actionResults: [{ index: 0, type: 'fill' as const, success: true, duration: 5 }]
+});
+
+const request: CreateSessionRequest = {
+  loginUrl: 'https://wiki.example.com/login',
+  actions: [
+    { type: 'fill', selector: '#password', value: 'hunter2' },
+    { type: 'click', selector: 'button[type=submit]' }
+  ],
+  loginSelector: 'form#login'
+};
+
+describe('SessionService', () => {
+  const originalEnv = process.env;
+  let service: SessionService;
+
+  beforeEach(() => {
+    store.clear();
+    login.mockReset();
+    process.env = { ...originalEnv, SESSION_ENCRYPTION_KEY: 'test-secret' };
+    service = new SessionService();
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it('should store sessions encrypted and only return them to the key that created them', async () => {
+    login.mockResolvedValue(loggedIn('cookie-value'));
+
+    const { session, error } = await service.create(request, 'key-a');
+    expect(error).toBeUndefined();
+    expect(session).toMatchObject({ cookies: 1, domains: ['example.com'] });
+
+    const stored = [...store.values()][0];
+    expect(stored).not.toContain('hunter2');
+    expect(stored).not.toContain('cookie-value');
+
+    const record = await service.get(session!.id, 'key-a');
+    expect(record?.storageState.cookies[0].value).toBe('cookie-value');
+    expect(await service.get(session!.id, 'key-b')).toBeNull();
+
+    // A different encryption key can't read the session
+    process.env.SESSION_ENCRYPTION_KEY = 'other-secret';
+    expect(await new SessionService().get(session!.id, 'key-a')).toBeNull();
+  });
+
+  it('should fail a login flow that ends on the login page', async () => {
+    login.mockResolvedValue({ ...loggedIn('cookie-value'), content: '<form id="login"><input id="password"></form>' });
+
+    const result = await service.create(request, 'key-a');
+
+    expect(result.session).toBeUndefined();
+    expect(result.error).toContain('login page');
+    expect(store.size).toBe(0);
+  });
+
+  it('should log in once for concurrent refreshes and keep the session expiry', async () => {
+    login.mockResolvedValue(loggedIn('first'));
+    const { session } = await service.create({ ...request, ttlSeconds: 600 }, 'key-a');
+
+    login.mockResolvedValue(loggedIn('second'));
+    const [first, second] = await Promise.all([
+      service.refresh(session!.id, 'key-a'),
+      service.refresh(session!.id, 'key-a')
+    ]);
+
+    expect(login).toHaveBeenCalledTimes(2);
+    expect(first).toBe(second);
+    expect(first?.storageState.cookies[0].value).toBe('second');
+    expect(first?.expiresAt).toBe(session!.expiresAt);
+    expect(service.isLoginPage(first!, '<form id="login"></form>')).toBe(true);
+    expect(service.isLoginPage(first!, '<h1>Welcome</h1>')).toBe(false);
+  });
+
+  it('should not hand a refresh in flight to another key', async () => {
+    login.mockResolvedValue(loggedIn('first'));
+    const { session } = await service.create(request, 'key-a');
+
+    login.mockResolvedValue(loggedIn('second'));
+    const [owner, other] = await Promise.all([
+      service.refresh(session!.id, 'key-a'),
+      service.refresh(session!.id, 'key-b')
+    ]);
+
+    expect(owner?.storageState.cookies[0].value).toBe('second');
+    expect(other).toBeNull();
+  });
+});
@@ -0,0 +1,106 @@
+// Day hashes live in an in-memory Redis; multi() and pipeline() run their commands on exec
+const hashes = new Map<string, Map<string, number>>();
+const batch = () => {
+  const commands: Array<() => unknown> = [];
+  const chain = {
+    hincrby: (key: string, field: string, amount: number) => {
+      commands.push(() => {
+        const hash = hashes.get(key) ?? new Map<string, number>();
+        hash.set(field, (hash.get(field) ?? 0) + amount);
+        hashes.set(key, hash);
+      });
+      return chain;
+    },
+    hgetall: (key: string) => {
+      commands.push(() => Object.fromEntries([...(hashes.get(key) ?? new Map()).entries()].map(([field, value]) => [field, String(value)])));
+      return chain;
+    },
+    expire: () => chain,
+    set: () => chain,
+    exec: async () => commands.map(command => [null, command()])
+  };
+  return chain;
+};
+jest.mock('../../services/redis.service', () => ({ redisClient: { multi: () => batch(), pipeline: () => batch() } }));
+
+import { UsageService } from '../../services/usage.service';
+import { LLMUsage, LLMUsageTotals } from '../../types/usage';
+
+const totals = (calls: number, promptTokens: number, completionTokens: number, costUsd: number): LLMUsageTotals => ({
+  calls, promptTokens, completionTokens, totalTokens: promptTokens + completionTokens, costUsd
+});
+const usage = (models: Record<string, LLMUsageTotals>): LLMUsage => ({
+  ...Object.values(models).reduce((sum, model) => totals(
+    sum.calls + model.calls,
+    sum.promptTokens + model.promptTokens,
+    sum.completionTokens + model.completionTokens,
+    sum.costUsd + model.costUsd
+  ), totals(0, 0, 0, 0)),
+  models
+});
+
+describe('UsageService', () => {
+  const today = new Date();
+  let service: UsageService;
+
+  beforeEach(() => {
+    hashes.clear();
+    service = new UsageService();
+  });
+
+  it('should count usage against every dimension of its context, and per key', async () => {
+    await service.record(usage({ 'openai/gpt-4o': totals(2, 100, 20, 0.0015) }), {
+      apiKeyId: 'key-1',
+      crawlId: 'crawl-1',
+      route: '/api/crawl'
+    });
+
+    const fields = Object.fromEntries(hashes.get(`usage:day:${today.toISOString().substring(0, 10)}`) ?? []);
+    expect(fields).toMatchObject({
+      'total|all|calls': 2,
+      'apiKey|key-1|promptTokens': 100,
+      'crawl|crawl-1|completionTokens': 20,
+      'model|gpt-4o|costMicroUsd': 1500,
+      'provider|openai|calls': 2,
+      'apiKey|key-1|crawl|crawl-1|calls': 2,
+      'apiKey|key-1|model|gpt-4o|costMicroUsd': 1500
+    });
+    expect(Object.keys(fields).some(field => field.startsWith('apiKey|key-1|apiKey|'))).toBe(false);
+  });
+
+  it('should not record usage without calls', async () => {
+    await service.record(usage({}), { apiKeyId: 'key-1' });
+
+    expect(hashes.size).toBe(0);
+  });
+
+  it('should group the whole report by any dimension', async () => {
+    await service.record(usage({ 'openai/gpt-4o': totals(1, 100, 10, 0.002) }), { apiKeyId: 'key-1', crawlId: 'crawl-1' });
+    await service.record(usage({ 'anthropic/claude-sonnet': totals(1, 50, 5, 0.001) }), { apiKeyId: 'key-2', batchId: 'batch-1' });
+
+    const byKey = await service.getReport(today, today, 'apiKey');
+    const byModel = await service.getReport(today, today, 'model');
+
+    expect(byKey.totals).toEqual(totals(2, 150, 15, 0.003));
+    expect(byKey.groups).toEqual([
+      { key: 'key-1', ...totals(1, 100, 10, 0.002) },
+      { key: 'key-2', ...totals(1, 50, 5, 0.001) }
+    ]);
+    expect(byModel.groups.map(group => group.key)).toEqual(['gpt-4o', 'claude-sonnet']);
+  });
+
+  it('should limit a report restricted to one key to its own usage, grouped by crawl, batch or model', async () => {
+    await service.record(usage({ 'openai/gpt-4o': totals(1, 100, 10, 0.002) }), { apiKeyId: 'key-1', crawlId: 'crawl-1' });
+    await service.record(usage({ 'openai/gpt-4o-mini': totals(3, 30, 3, 0.0003) }), { apiKeyId: 'key-1', batchId: 'batch-1' });
+    await service.record(usage({ 'openai/gpt-4o': totals(5, 500, 50, 0.01) }), { apiKeyId: 'key-2', crawlId: 'crawl-2' });
+
+    const byCrawl = await service.getReport(today, today, 'crawl', 'key-1');
+    const byModel = await service.getReport(today, today, 'model', 'key-1');
+    const byDay = await service.getReport(today, today, 'day', 'key-1');
+
+    expect(byCrawl.totals).toEqual(totals(4, 130, 13, 0.0023));
+    expect(byCrawl.groups).toEqual([{ key: 'crawl-1', ...totals(1, 100, 10, 0.002) }]);
+    expect(byModel.groups.map(group => [group.key, group.calls])).toEqual([['gpt-4o', 1], ['gpt-4o-mini', 3]]);
+    expect(byDay.groups).toEqual([{ key: today.toISOString().substring(0, 10), ...totals(4, 130, 13, 0.0023) }]);
+  });
+});
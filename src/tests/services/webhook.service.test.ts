@@ -0,0 +1,137 @@
+import crypto from 'crypto';
+import { Job } from 'bullmq';
+
+// Delivery records live in an in-memory Redis; the queue and HTTP client are fakes
+const store = new Map<string, string>();
+jest.mock('../../services/redis.service', () => ({
+  redisClient: {
+    get: jest.fn(async (key: string) => store.get(key) ?? null),
+    set: jest.fn(async (key: string, value: string) => { store.set(key, value); return 'OK'; }),
+    lpush: jest.fn(async () => 1),
+    ltrim: jest.fn(async () => 'OK')
+  }
+}));
+
+const addJob = jest.fn();
+const getJob = jest.fn();
+jest.mock('../../services/enhanced-queue.service', () => ({
+  EnhancedQueueService: jest.fn(() => ({ addJob, getJob }))
+}));
+
+const post = jest.fn();
+jest.mock('axios', () => ({
+  __esModule: true,
+  default: {
+    post: (...args: unknown[]) => post(...args),
+    isAxiosError: (error: any) => Boolean(error?.isAxiosError)
+  }
+}));
+
+import { WebhookService } from '../../services/webhook.service';
+import { WebhookDelivery } from '../../types/webhook';
+
+describe('WebhookService', () => {
+  const originalEnv = process.env;
+  let service: WebhookService;
+
+  beforeEach(() => {
+    store.clear();
+    addJob.mockReset().mockResolvedValue({});
+    getJob.mockReset();
+    post.mockReset();
+    process.env = { ...originalEnv, WEBHOOK_SECRET: 'default-secret' };
+    service = new WebhookService();
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  // Queue an event and return the worker's delivery function bound to its job
+  const queue = async (webhook: Parameters<WebhookService['dispatch']>[0], attemptsMade = 0) => {
+    const deliveryId = await service.dispatch(webhook, 'crawl.completed', { crawlId: 'crawl-1' });
+    const [, data] = addJob.mock.calls[addJob.mock.calls.length - 1];
+    const job = { data, attemptsMade, opts: { attempts: 3 } } as unknown as Job;
+    return { deliveryId: deliveryId!, deliver: () => (service as any).deliver(job) };
+  };
+  const delivery = async (deliveryId: string) => (await service.getDelivery(deliveryId)) as WebhookDelivery;
+
+  it('should sign the timestamp and raw body with HMAC-SHA256', async () => {
+    post.mockResolvedValue({ status: 200 });
+    const { deliver } = await queue({ url: 'https://example.com/hook', secret: 'hook-secret', headers: { 'X-Tenant': 'a' } });
+
+    await deliver();
+
+    const [url, body, { headers }] = post.mock.calls[0];
+    const expected = crypto.createHmac('sha256', 'hook-secret')
+      .update(`${headers['X-DeepScrape-Timestamp']}.${body}`)
+      .digest('hex');
+    expect(url).toBe('https://example.com/hook');
+    expect(headers['X-DeepScrape-Signature']).toBe(`sha256=${expected}`);
+    expect(headers['X-Tenant']).toBe('a');
+    expect(JSON.parse(body)).toMatchObject({ event: 'crawl.completed', data: { crawlId: 'crawl-1' } });
+  });
+
+  it('should keep the secret out of the delivery log and fall back to WEBHOOK_SECRET', async () => {
+    post.mockResolvedValue({ status: 204 });
+    const { deliveryId, deliver } = await queue('https://example.com/hook');
+
+    await deliver();
+
+    const [, body, { headers }] = post.mock.calls[0];
+    expect(headers['X-DeepScrape-Signature']).toBe(`sha256=${service.sign('default-secret', Number(headers['X-DeepScrape-Timestamp']), body)}`);
+    expect(addJob).toHaveBeenCalledWith('webhook:crawl.completed', expect.anything(), expect.objectContaining({ jobId: deliveryId }));
+    expect(await delivery(deliveryId)).toMatchObject({ status: 'delivered', attempts: [{ attempt: 1, statusCode: 204 }] });
+    expect(JSON.stringify(await delivery(deliveryId))).not.toContain('secret');
+  });
+
+  it('should only queue events the webhook subscribes to', async () => {
+    expect(await service.dispatch('https://example.com/hook', 'crawl.page', {})).toBeNull();
+    expect(await service.dispatch('https://example.com/hook', 'batch.page', {})).toBeNull();
+    expect(await service.dispatch({ url: 'https://example.com/hook', events: ['crawl.*'] }, 'batch.completed', {})).toBeNull();
+    expect(addJob).not.toHaveBeenCalled();
+
+    expect(service.matchesEventFilter('crawl.page.failed')).toBe(true);
+    expect(service.matchesEventFilter('batch.page', ['batch.*'])).toBe(true);
+    expect(service.matchesEventFilter('crawl.page', ['*'])).toBe(true);
+  });
+
+  it('should mark failed attempts as retrying and the last one as failed', async () => {
+    post.mockRejectedValue(Object.assign(new Error('Request failed with status code 503'), {
+      isAxiosError: true,
+      response: { status: 503 }
+    }));
+
+    const first = await queue('https://example.com/hook', 0);
+    await expect(first.deliver()).rejects.toThrow('503');
+    expect(await delivery(first.deliveryId)).toMatchObject({
+      status: 'retrying',
+      attempts: [{ attempt: 1, statusCode: 503, error: 'Request failed with status code 503' }]
+    });
+
+    const last = await queue('https://example.com/hook', 2);
+    await expect(last.deliver()).rejects.toThrow('503');
+    expect((await delivery(last.deliveryId)).status).toBe('failed');
+  });
+
+  it('should redeliver failed deliveries only, while their job is kept', async () => {
+    post.mockRejectedValue(new Error('connect ECONNREFUSED'));
+    const { deliveryId, deliver } = await queue('https://example.com/hook', 2);
+    const retry = jest.fn();
+
+    expect(await service.redeliver('unknown')).toBeNull();
+    expect(await service.redeliver(deliveryId)).toEqual({ error: expect.stringContaining('this one is pending') });
+
+    await expect(deliver()).rejects.toThrow('ECONNREFUSED');
+    getJob.mockResolvedValueOnce(null);
+    expect(await service.redeliver(deliveryId)).toEqual({ error: expect.stringContaining('expired') });
+
+    getJob.mockResolvedValueOnce({ retry });
+    const result = await service.redeliver(deliveryId);
+
+    expect(getJob).toHaveBeenLastCalledWith(deliveryId);
+    expect(retry).toHaveBeenCalledWith('failed');
+    expect(result?.delivery?.status).toBe('retrying');
+    expect((await delivery(deliveryId)).status).toBe('retrying');
+  });
+});
@@ -0,0 +1,176 @@
+import JSZip from 'jszip';
+import { DocumentParser, detectDocumentType } from '../../transformers/document-parser';
+
+const CORE_PROPERTIES = '<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" ' +
+  'xmlns:dc="http://purl.org/dc/elements/1.1/"><dc:title>Quarterly report</dc:title><dc:creator>Ada</dc:creator></cp:coreProperties>';
+
+async function createPackage(files: Record<string, string>): Promise<Buffer> {
+  const zip = new JSZip();
+  for (const [path, content] of Object.entries(files)) {
+    zip.file(path, content);
+  }
+  return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+}
+
+/**
+ * One-page PDF with a line of text per entry, in Helvetica at the given size and position
+ */
+function createPdf(lines: Array<{ text: string; size: number; x: number; y: number }>): Buffer {
+  const stream = lines.map(line => `BT /F1 ${line.size} Tf ${line.x} ${line.y} Td (${line.text}) Tj ET`).join('\n');
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    '<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Contents 4 0 R /Resources << /Font << /F1 5 0 R >> >> >>',
+    `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>',
+    '<< /Title (Field notes) /Author (Grace) >>'
+  ];
+
+  let pdf = '%PDF-1.4\n';
+  const offsets = objects.map((object, index) => {
+    const offset = pdf.length;
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 6 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return Buffer.from(pdf, 'latin1');
+}
+
+describe('DocumentParser', () => {
+  const originalEnv = process.env;
+  let parser: DocumentParser;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+    parser = new DocumentParser();
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it('should convert Word headings, lists and tables to markdown', async () => {
+    const data = await createPackage({
+      'docProps/core.xml': CORE_PROPERTIES,
+      'word/styles.xml': '<w:styles xmlns:w="w"><w:style w:styleId="Heading1"><w:name w:val="heading 1"/></w:style></w:styles>',
+      'word/document.xml': `<w:document xmlns:w="w"><w:body>
+        <w:p><w:pPr><w:pStyle w:val="Heading1"/></w:pPr><w:r><w:t>Summary</w:t></w:r></w:p>
+        <w:p><w:r><w:t>Revenue grew.</w:t></w:r></w:p>
+        <w:p><w:pPr><w:numPr><w:ilvl w:val="0"/></w:numPr></w:pPr><w:r><w:t>North</w:t></w:r></w:p>
+        <w:p><w:pPr><w:numPr><w:ilvl w:val="1"/></w:numPr></w:pPr><w:r><w:t>Oslo</w:t></w:r></w:p>
+        <w:tbl>
+          <w:tr><w:tc><w:p><w:r><w:t>Region</w:t></w:r></w:p></w:tc><w:tc><w:p><w:r><w:t>Sales</w:t></w:r></w:p></w:tc></w:tr>
+          <w:tr><w:tc><w:p><w:r><w:t>North</w:t></w:r></w:p></w:tc><w:tc><w:p><w:r><w:t>10</w:t></w:r></w:p></w:tc></w:tr>
+        </w:tbl>
+      </w:body></w:document>`
+    });
+
+    const parsed = await parser.parse(data, 'docx', 'https://example.com/report.docx');
+
+    expect(parsed.title).toBe('Quarterly report');
+    expect(parsed.author).toBe('Ada');
+    expect(parsed.markdown).toBe([
+      '# Summary',
+      'Revenue grew.',
+      '- North\n  - Oslo',
+      '| Region | Sales |\n| --- | --- |\n| North | 10 |'
+    ].join('\n\n'));
+  });
+
+  it('should convert each visible Excel sheet to a table', async () => {
+    const data = await createPackage({
+      'xl/workbook.xml': `<workbook xmlns:r="r"><sheets>
+        <sheet name="Sales" r:id="rId1"/><sheet name="Hidden" state="hidden" r:id="rId2"/>
+      </sheets></workbook>`,
+      'xl/_rels/workbook.xml.rels': '<Relationships><Relationship Id="rId1" Target="worksheets/sheet1.xml"/></Relationships>',
+      'xl/sharedStrings.xml': '<sst><si><t>Region</t></si><si><t>Sales</t></si><si><r><t>No</t></r><r><t>rth</t></r></si></sst>',
+      'xl/worksheets/sheet1.xml': `<worksheet><sheetData>
+        <row r="2"><c r="B2" t="s"><v>0</v></c><c r="C2" t="s"><v>1</v></c></row>
+        <row r="3"><c r="B3" t="s"><v>2</v></c><c r="C3"><v>10.5</v></c><c r="D3" t="b"><v>1</v></c></row>
+      </sheetData></worksheet>`
+    });
+
+    const parsed = await parser.parse(data, 'xlsx', 'https://example.com/files/sales%20data.xlsx');
+
+    expect(parsed.title).toBe('sales data');
+    expect(parsed.pages).toBe(1);
+    expect(parsed.markdown).toBe('## Sales\n\n| Region | Sales |  |\n| --- | --- | --- |\n| North | 10.5 | TRUE |');
+  });
+
+  it('should convert PowerPoint slides in order with their titles and bullets', async () => {
+    const slide = (title: string, bullets: string) => `<p:sld xmlns:p="p" xmlns:a="a"><p:cSld><p:spTree>
+      <p:sp><p:nvSpPr><p:nvPr><p:ph type="title"/></p:nvPr></p:nvSpPr><p:txBody><a:p><a:r><a:t>${title}</a:t></a:r></a:p></p:txBody></p:sp>
+      <p:sp><p:nvSpPr><p:nvPr><p:ph idx="1"/></p:nvPr></p:nvSpPr><p:txBody>${bullets}</p:txBody></p:sp>
+    </p:spTree></p:cSld></p:sld>`;
+    const data = await createPackage({
+      'ppt/presentation.xml': '<p:presentation xmlns:p="p" xmlns:r="r"><p:sldIdLst><p:sldId r:id="rId2"/><p:sldId r:id="rId1"/></p:sldIdLst></p:presentation>',
+      'ppt/_rels/presentation.xml.rels': `<Relationships>
+        <Relationship Id="rId1" Target="slides/slide1.xml"/><Relationship Id="rId2" Target="slides/slide2.xml"/>
+      </Relationships>`,
+      'ppt/slides/slide1.xml': slide('Next steps', '<a:p><a:r><a:t>Hire</a:t></a:r></a:p>'),
+      'ppt/slides/slide2.xml': slide('Kickoff', '<a:p><a:r><a:t>Goals</a:t></a:r></a:p><a:p><a:pPr lvl="1"/><a:r><a:t>Ship</a:t></a:r></a:p>')
+    });
+
+    const parsed = await parser.parse(data, 'pptx', 'https://example.com/deck.pptx');
+
+    expect(parsed.title).toBe('Kickoff');
+    expect(parsed.pages).toBe(2);
+    expect(parsed.markdown).toBe([
+      '<!-- Slide 1 -->', '## Kickoff', '- Goals\n  - Ship',
+      '<!-- Slide 2 -->', '## Next steps', '- Hire'
+    ].join('\n\n'));
+  });
+
+  it('should convert PDF text with headings by font size', async () => {
+    const data = createPdf([
+      { text: 'Field notes', size: 24, x: 72, y: 720 },
+      { text: 'The river was high this week.', size: 12, x: 72, y: 690 },
+      { text: 'We counted forty herons.', size: 12, x: 72, y: 676 }
+    ]);
+
+    const parsed = await parser.parse(data, 'pdf', 'https://example.com/notes.pdf');
+
+    expect(parsed).toMatchObject({ title: 'Field notes', author: 'Grace', pages: 1 });
+    expect(parsed.markdown).toBe('<!-- Page 1 -->\n\n# Field notes\n\nThe river was high this week. We counted forty herons.');
+  });
+
+  it('should reject Office files that inflate past the limit', async () => {
+    process.env.DOCUMENT_MAX_UNCOMPRESSED_MB = '1';
+    parser = new DocumentParser();
+    const data = await createPackage({
+      'word/document.xml': `<w:document xmlns:w="w"><w:body><w:p><w:r><w:t>${' '.repeat(2 * 1024 * 1024)}</w:t></w:r></w:p></w:body></w:document>`
+    });
+    expect(data.length).toBeLessThan(64 * 1024);
+
+    await expect(parser.parse(data, 'docx', 'https://example.com/bomb.docx')).rejects.toThrow('larger than 1 MB uncompressed');
+  });
+
+  it('should stop inflating an entry whose declared size is forged', async () => {
+    process.env.DOCUMENT_MAX_UNCOMPRESSED_MB = '1';
+    parser = new DocumentParser();
+    const data = await createPackage({
+      'word/document.xml': `<w:document xmlns:w="w"><w:body><w:p><w:r><w:t>${' '.repeat(2 * 1024 * 1024)}</w:t></w:r></w:p></w:body></w:document>`
+    });
+
+    // Claim 100 bytes uncompressed in the local and central directory headers
+    for (let offset = 0; offset < data.length - 4; offset++) {
+      const signature = data.readUInt32LE(offset);
+      if (signature === 0x04034b50) data.writeUInt32LE(100, offset + 22);
+      if (signature === 0x02014b50) data.writeUInt32LE(100, offset + 24);
+    }
+
+    await expect(parser.parse(data, 'docx', 'https://example.com/bomb.docx')).rejects.toThrow('larger than 1 MB uncompressed');
+  });
+});
+
+describe('detectDocumentType', () => {
+  it('should use the Content-Type, then the body signature and the extension', () => {
+    expect(detectDocumentType('application/pdf; charset=binary', 'https://example.com/file')).toBe('pdf');
+    expect(detectDocumentType('application/octet-stream', 'https://example.com/file', Buffer.from('%PDF-1.7'))).toBe('pdf');
+    expect(detectDocumentType(undefined, 'https://example.com/a.xlsx', Buffer.from([0x50, 0x4b, 0x03, 0x04]))).toBe('xlsx');
+    expect(detectDocumentType('text/html', 'https://example.com/a.docx', Buffer.from('<html>'))).toBeNull();
+  });
+});
@@ -0,0 +1,46 @@
+import { mergeChunkExtractions } from '../../transformers/extraction-merger';
+
+describe('mergeChunkExtractions', () => {
+  it('should concatenate arrays and drop duplicates across chunks', () => {
+    const merged = mergeChunkExtractions([
+      { index: 0, confidence: 0.9, data: { products: [{ name: 'Desk', price: 200 }, { name: 'Lamp', price: 30 }] } },
+      { index: 1, confidence: 0.8, data: { products: [{ price: 30, name: ' lamp ' }, { name: 'Chair', price: 90 }] } }
+    ]);
+
+    expect(merged.products).toEqual([
+      { name: 'Desk', price: 200 },
+      { name: 'Lamp', price: 30 },
+      { name: 'Chair', price: 90 }
+    ]);
+  });
+
+  it('should merge objects key by key and skip empty values', () => {
+    const merged = mergeChunkExtractions([
+      { index: 0, confidence: 0.5, data: { company: { name: 'Acme', address: '' }, tags: [] } },
+      { index: 1, confidence: 0.5, data: { company: { address: '1 Main St' }, tags: ['tools', null] } }
+    ]);
+
+    expect(merged).toEqual({
+      company: { name: 'Acme', address: '1 Main St' },
+      tags: ['tools']
+    });
+  });
+
+  it('should resolve conflicting scalars by confidence, then by the earliest chunk', () => {
+    const merged = mergeChunkExtractions([
+      { index: 2, confidence: 0.6, data: { title: 'Footer title', currency: 'EUR' } },
+      { index: 0, confidence: 0.6, data: { title: 'Page title', currency: 'USD' } },
+      { index: 1, confidence: 0.9, data: { currency: 'GBP' } }
+    ]);
+
+    expect(merged).toEqual({ title: 'Page title', currency: 'GBP' });
+  });
+
+  it('should return the first result when no chunk found anything', () => {
+    expect(mergeChunkExtractions([
+      { index: 0, confidence: 0, data: { items: [] } },
+      { index: 1, confidence: 0, data: null }
+    ])).toEqual({ items: [] });
+    expect(mergeChunkExtractions([])).toBeNull();
+  });
+});
@@ -0,0 +1,83 @@
+import { chunkMarkdown, countTokens, truncateToTokens } from '../../transformers/markdown-chunker';
+
+const paragraph = (word: string, count: number) => Array(count).fill(word).join(' ');
+
+describe('chunkMarkdown', () => {
+  it('should start chunks at headings and keep the heading trail', () => {
+    const markdown = [
+      '# Guide',
+      paragraph('intro', 40),
+      '## Install',
+      paragraph('install', 40),
+      '### Linux',
+      paragraph('linux', 40),
+      '## Usage',
+      paragraph('usage', 40)
+    ].join('\n\n');
+
+    const chunks = chunkMarkdown(markdown, 60);
+
+    expect(chunks.map(chunk => chunk.content.split('\n')[0])).toEqual(['# Guide', '## Install', '### Linux', '## Usage']);
+    expect(chunks.map(chunk => chunk.headings)).toEqual([
+      ['Guide'],
+      ['Guide', 'Install'],
+      ['Guide', 'Install', 'Linux'],
+      ['Guide', 'Usage']
+    ]);
+    expect(chunks.map(chunk => chunk.index)).toEqual([0, 1, 2, 3]);
+  });
+
+  it('should pack small sections together and ignore headings inside code blocks', () => {
+    const markdown = [
+      '# One',
+      'first',
+      '```',
+      '# not a heading',
+      '```',
+      '# Two',
+      'second'
+    ].join('\n');
+
+    const chunks = chunkMarkdown(markdown, 1000);
+
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0].headings).toEqual(['One']);
+    expect(chunks[0].content).toContain('# not a heading');
+    expect(chunks[0].content).toContain('second');
+  });
+
+  it('should keep every chunk within the token budget without repeating content', () => {
+    const paragraphs = Array.from({ length: 30 }, (_, i) => `Paragraph ${i}: ${paragraph('lorem', 25)}`);
+    const markdown = `# Catalog\n\n${paragraphs.join('\n\n')}`;
+
+    const chunks = chunkMarkdown(markdown, 100);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(chunk.tokens).toBeLessThanOrEqual(100);
+      expect(countTokens(chunk.content)).toBeLessThanOrEqual(100);
+    }
+
+    // Chunks don't overlap: each paragraph lands in exactly one of them
+    for (let i = 0; i < paragraphs.length; i++) {
+      expect(chunks.filter(chunk => chunk.content.includes(`Paragraph ${i}:`))).toHaveLength(1);
+    }
+  });
+
+  it('should hard-split a single paragraph larger than the budget', () => {
+    const chunks = chunkMarkdown(paragraph('word', 500), 50);
+
+    expect(chunks.length).toBeGreaterThanOrEqual(10);
+    expect(chunks.every(chunk => countTokens(chunk.content) <= 50)).toBe(true);
+  });
+});
+
+describe('truncateToTokens', () => {
+  it('should only cut text over the budget', () => {
+    expect(truncateToTokens('short text', 10)).toEqual({ text: 'short text', truncated: false });
+
+    const { text, truncated } = truncateToTokens(paragraph('word', 100), 10);
+    expect(truncated).toBe(true);
+    expect(countTokens(text)).toBeLessThanOrEqual(10);
+  });
+});
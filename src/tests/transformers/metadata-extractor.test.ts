@@ -0,0 +1,75 @@
+import fs from 'fs';
+import path from 'path';
+import { MetadataExtractor } from '../../transformers/metadata-extractor';
+
+const fixture = (name: string) => fs.readFileSync(path.join(__dirname, '../fixtures', name), 'utf-8');
+
+describe('MetadataExtractor', () => {
+  const extractor = new MetadataExtractor();
+  const url = 'https://shop.example.com/products/walnut-lamp?ref=home';
+
+  it('should read meta tags and links, resolving URLs against the page', () => {
+    const metadata = extractor.extract(fixture('product-page.html'), url);
+
+    expect(metadata).toMatchObject({
+      description: 'A dimmable desk lamp in solid walnut.',
+      keywords: ['lamp', 'desk', 'walnut'],
+      language: 'en-US',
+      canonical: 'https://shop.example.com/products/walnut-lamp',
+      favicon: 'https://shop.example.com/favicon.ico',
+      alternates: [{ hreflang: 'de', href: 'https://shop.example.com/de/products/walnut-lamp' }]
+    });
+  });
+
+  it('should collect OpenGraph and Twitter tags, turning repeated tags into arrays and dropping repeats of one value', () => {
+    const metadata = extractor.extract(fixture('product-page.html'), url);
+
+    expect(metadata.openGraph).toEqual({
+      title: 'Walnut Desk Lamp',
+      image: ['https://cdn.example.com/lamp-1.jpg', 'https://cdn.example.com/lamp-2.jpg']
+    });
+    expect(metadata.twitter).toEqual({ card: 'summary_large_image' });
+  });
+
+  it('should parse JSON-LD wrapped in CDATA or comments and skip invalid blocks', () => {
+    const metadata = extractor.extract(fixture('product-page.html'), url);
+
+    expect(metadata.jsonLd).toEqual([
+      { '@context': 'https://schema.org', '@type': 'Product', name: 'Walnut Desk Lamp', sku: 'LMP-1' },
+      { '@type': 'BreadcrumbList', itemListElement: [] },
+      { '@type': 'Organization', name: 'Example Shop' }
+    ]);
+  });
+
+  it('should nest Microdata items in the item that holds them', () => {
+    const metadata = extractor.extract(fixture('product-page.html'), url);
+
+    expect(metadata.microdata).toEqual([
+      {
+        type: ['https://schema.org/Product'],
+        id: 'urn:sku:LMP-1',
+        properties: {
+          name: ['Walnut Desk Lamp'],
+          image: ['https://shop.example.com/images/lamp.jpg'],
+          url: ['https://shop.example.com/products/walnut-lamp'],
+          offers: [{
+            type: ['https://schema.org/Offer'],
+            properties: {
+              priceCurrency: ['USD'],
+              price: ['89.00'],
+              priceValidUntil: ['2026-12-31'],
+              seller: [{ type: ['https://schema.org/Organization'], properties: { name: ['Example Shop'] } }]
+            }
+          }],
+          category: ['Lighting'],
+          color: ['Lighting']
+        }
+      },
+      { type: ['https://schema.org/Review'], properties: { author: ['Sam'] } }
+    ]);
+  });
+
+  it('should leave out what the page does not declare', () => {
+    expect(extractor.extract('<html><head><title>Bare</title></head><body></body></html>', url)).toEqual({});
+  });
+});
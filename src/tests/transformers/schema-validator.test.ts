@@ -0,0 +1,149 @@
+import { validateAgainstSchema, formatValidationErrors } from '../../transformers/schema-validator';
+import { LLMExtractor } from '../../transformers/llm-extractor';
+import { LLMProvider, LLMProviderType } from '../../types/llm.types';
+import { ScraperResponse } from '../../types';
+import { Schema } from '../../types/schema';
+
+const schema: Schema = {
+  type: 'object',
+  required: ['title'],
+  properties: {
+    title: { type: 'string', minLength: 3 },
+    price: { type: 'number', minimum: 0, required: true },
+    currency: { type: 'string', enum: ['USD', 'EUR'] },
+    variants: {
+      type: 'array',
+      items: {
+        type: 'object',
+        additionalProperties: false,
+        properties: {
+          sku: { type: 'string', pattern: '^[A-Z]{3}-\\d+$', required: true },
+          sizes: { type: 'array', items: { type: 'integer' } }
+        }
+      }
+    }
+  }
+};
+
+const valid = {
+  title: 'Desk lamp',
+  price: 30,
+  currency: 'USD',
+  variants: [{ sku: 'LMP-1', sizes: [1, 2] }]
+};
+
+describe('validateAgainstSchema', () => {
+  it('should accept data that matches the schema', () => {
+    expect(validateAgainstSchema(valid, schema)).toEqual([]);
+  });
+
+  it('should report type mismatches once per field', () => {
+    const errors = validateAgainstSchema({ ...valid, title: 42, price: '30' }, schema);
+
+    expect(errors).toEqual([
+      { path: '$.title', keyword: 'type', message: 'expected string, got number' },
+      { path: '$.price', keyword: 'type', message: 'expected number, got string' }
+    ]);
+  });
+
+  it('should report missing required fields from the array and the per-property flag', () => {
+    const errors = validateAgainstSchema({ currency: 'EUR' }, schema);
+
+    expect(errors.map(error => `${error.path} ${error.keyword}`)).toEqual(['$.title required', '$.price required']);
+  });
+
+  it('should allow null for optional fields only', () => {
+    expect(validateAgainstSchema({ ...valid, currency: null }, schema)).toEqual([]);
+    expect(validateAgainstSchema({ ...valid, price: null }, schema).map(error => error.keyword)).toEqual(['required', 'type']);
+  });
+
+  it('should validate items of nested arrays with their paths', () => {
+    const errors = validateAgainstSchema({
+      ...valid,
+      variants: [
+        { sku: 'LMP-1', sizes: [1, 2.5] },
+        { sku: 'lamp', color: 'red' }
+      ]
+    }, schema);
+
+    expect(errors.map(error => `${error.path} ${error.keyword}`)).toEqual([
+      '$.variants[0].sizes[1] type',
+      '$.variants[1].sku pattern',
+      '$.variants[1].color additionalProperties'
+    ]);
+  });
+
+  it('should check enums and numeric and string bounds', () => {
+    const errors = validateAgainstSchema({ ...valid, title: 'ab', price: -1, currency: 'GBP' }, schema);
+
+    expect(formatValidationErrors(errors)).toBe([
+      '- $.title: must be at least 3 characters',
+      '- $.price: must be >= 0',
+      '- $.currency: must be one of "USD", "EUR"'
+    ].join('\n'));
+  });
+});
+
+describe('LLMExtractor schema repair', () => {
+  const page: ScraperResponse = {
+    url: 'https://shop.example.com/lamp',
+    title: 'Desk lamp',
+    content: '# Desk lamp\n\nA lamp for your desk. $30.',
+    contentType: 'markdown',
+    metadata: { timestamp: new Date().toISOString(), status: 200, headers: {} }
+  };
+
+  const createProvider = (...responses: any[]) => {
+    const getCompletion = jest.fn();
+    for (const data of responses) {
+      getCompletion.mockResolvedValueOnce({ success: true, data });
+    }
+    const provider: LLMProvider = {
+      getCompletion,
+      getEmbeddings: jest.fn(),
+      getProvider: () => 'openai' as LLMProviderType,
+      getModel: () => 'test-model'
+    };
+    return { provider, getCompletion };
+  };
+
+  it('should re-prompt with the validation errors until the output validates', async () => {
+    const { provider, getCompletion } = createProvider({ title: 'Desk lamp', price: '30' }, valid);
+
+    const result = await new LLMExtractor(provider).extract(page, { schema });
+
+    expect(result.structuredData).toEqual(valid);
+    expect(result.extractionResult?.validation).toEqual({ valid: true, errors: [], repairAttempts: 1 });
+    expect(getCompletion).toHaveBeenCalledTimes(2);
+
+    // The repair continues the conversation with the bad output and what was wrong with it
+    const repairMessages = getCompletion.mock.calls[1][0];
+    expect(repairMessages[repairMessages.length - 2]).toEqual({
+      role: 'assistant',
+      content: JSON.stringify({ title: 'Desk lamp', price: '30' })
+    });
+    expect(repairMessages[repairMessages.length - 1].content).toContain('- $.price: expected number, got string');
+  });
+
+  it('should stop after the repair attempts run out and keep the best output', async () => {
+    const first = { title: 'Desk lamp', price: '30', currency: 'GBP' };
+    const { provider, getCompletion } = createProvider(first, { price: 'n/a' }, { title: 'Desk lamp', price: 30, currency: 'GBP' });
+
+    const result = await new LLMExtractor(provider).extract(page, { schema, maxRepairAttempts: 2 });
+
+    expect(getCompletion).toHaveBeenCalledTimes(3);
+    expect(result.extractionResult?.success).toBe(true);
+    expect(result.structuredData).toEqual({ title: 'Desk lamp', price: 30, currency: 'GBP' });
+    expect(result.extractionResult?.validation).toMatchObject({ valid: false, repairAttempts: 2 });
+    expect(result.extractionResult?.validation?.errors.map(error => error.path)).toEqual(['$.currency']);
+  });
+
+  it('should not repair when repairs are turned off', async () => {
+    const { provider, getCompletion } = createProvider({ title: 'Desk lamp' });
+
+    const result = await new LLMExtractor(provider).extract(page, { schema, maxRepairAttempts: 0 });
+
+    expect(getCompletion).toHaveBeenCalledTimes(1);
+    expect(result.extractionResult?.validation).toMatchObject({ valid: false, repairAttempts: 0 });
+  });
+});
@@ -0,0 +1,83 @@
+import fs from 'fs';
+import path from 'path';
+import { TableExtractor } from '../../transformers/table-extractor';
+import { renderCsv, renderMarkdownTable } from '../../utils/table-utils';
+
+const fixture = (name: string) => fs.readFileSync(path.join(__dirname, '../fixtures', name), 'utf-8');
+
+describe('TableExtractor', () => {
+  const extractor = new TableExtractor();
+
+  it('should skip layout tables but extract the data tables inside them', () => {
+    const tables = extractor.extract(fixture('tables.html'));
+
+    expect(tables).toHaveLength(4);
+    expect(tables[0].caption).toBe('Quarterly results');
+  });
+
+  it('should repeat spanned cells and join stacked header rows', () => {
+    const [quarterly] = extractor.extract(fixture('tables.html'));
+
+    expect(quarterly.headers).toEqual(['Region', 'Revenue / 2025', 'Revenue / 2026']);
+    expect(quarterly.rows).toEqual([
+      ['North', 1000, 12],
+      ['North', -5, '007'],
+      ['South | East', 99, 'n/a'],
+      ['Total', 1234.5, -300]
+    ]);
+  });
+
+  it('should keep cell text as-is when number normalization is off', () => {
+    const [quarterly] = extractor.extract(fixture('tables.html'), { normalizeNumbers: false });
+
+    expect(quarterly.rows[0]).toEqual(['North', '1,000', '12%']);
+    expect(quarterly.rows[3]).toEqual(['Total', '$1,234.50', '(300)']);
+  });
+
+  it('should detect bold and text-label header rows, and tables without headers', () => {
+    const [, bold, labels, plain] = extractor.extract(fixture('tables.html'));
+
+    expect(bold).toEqual({ headers: ['Name', 'Role'], rows: [['Ada', 'Engineer Lead']] });
+    expect(labels).toEqual({ headers: ['Item', 'Qty'], rows: [['Bolts', 40]] });
+    expect(plain).toEqual({ headers: [], rows: [['alpha', 'beta'], ['gamma', 'delta']] });
+  });
+
+  it('should read only the outermost table of a fragment', () => {
+    expect(extractor.extractTable('<table><tr><td>only</td></tr></table>')).toBeNull();
+    expect(extractor.extractTable('<table><tr><th>a</th><th>b</th></tr><tr><td>1</td><td>2</td></tr></table>'))
+      .toEqual({ headers: ['a', 'b'], rows: [[1, 2]] });
+  });
+});
+
+describe('table rendering', () => {
+  it('should render GFM tables with escaped pipes and line breaks', () => {
+    expect(renderMarkdownTable(['Name', 'Notes'], [['a|b', 'line 1\nline 2'], [3]])).toBe([
+      '| Name | Notes |',
+      '| --- | --- |',
+      '| a\\|b | line 1<br>line 2 |',
+      '| 3 |  |'
+    ].join('\n'));
+  });
+
+  it('should write an empty header row when the table has none', () => {
+    expect(renderMarkdownTable([], [['x', 'y']])).toBe('|  |  |\n| --- | --- |\n| x | y |');
+  });
+
+  it('should quote CSV cells with commas, quotes and line breaks', () => {
+    expect(renderCsv(['Name', 'Quote'], [['Smith, Jo', 'She said "hi"'], ['multi\nline', 42]])).toBe(
+      'Name,Quote\r\n"Smith, Jo","She said ""hi"""\r\n"multi\nline",42\r\n'
+    );
+    expect(renderCsv([], [['a', 'b']])).toBe('a,b\r\n');
+  });
+
+  it('should neutralize CSV cells that spreadsheets would run as formulas, but not negative numbers', () => {
+    expect(renderCsv(['=Total'], [
+      ['=HYPERLINK("http://evil.example")', '+1+2', '@SUM(A1)', '\tcmd', '\rcmd'],
+      ['-12.5', -3, '+7', '- bullet']
+    ])).toBe(
+      "'=Total\r\n" +
+      `"'=HYPERLINK(""http://evil.example"")",'+1+2,'@SUM(A1),'\tcmd,"'\rcmd"\r\n` +
+      "-12.5,-3,+7,'- bullet\r\n"
+    );
+  });
+});
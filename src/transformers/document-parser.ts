@@ -0,0 +1,664 @@
+import * as cheerio from 'cheerio';
+import JSZip from 'jszip';
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+import { DocumentType } from '../types';
+import { logger } from '../utils/logger';
+import { renderMarkdownTable } from '../utils/table-utils';
+
+const DOCUMENT_CONTENT_TYPES: Record<string, DocumentType> = {
+  'application/pdf': 'pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': 'xlsx',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation': 'pptx'
+};
+
+const DOCUMENT_EXTENSIONS: DocumentType[] = ['pdf', 'docx', 'xlsx', 'pptx'];
+
+// Lines this much larger than the body text are treated as headings
+const PDF_HEADING_RATIO = 1.2;
+// Gaps wider than this many font sizes split a line into table cells
+const PDF_CELL_GAP_RATIO = 2;
+
+export interface ParsedDocument {
+  title: string;
+  markdown: string;
+  pages?: number; // PDF pages, presentation slides or workbook sheets
+  author?: string;
+}
+
+// Central directory entry; JSZip keeps the sizes it declares on the private _data
+type ZipEntry = JSZip.JSZipObject & { _data?: { uncompressedSize?: number } };
+
+interface PdfLine {
+  y: number;
+  size: number;
+  cells: string[];
+}
+
+/**
+ * Document type from the Content-Type header, else from the body's signature and the URL's extension.
+ * Without a body the URL's extension alone decides.
+ */
+export function detectDocumentType(contentType: string | undefined, url: string, data?: Buffer): DocumentType | null {
+  const mimeType = contentType?.split(';')[0].trim().toLowerCase();
+  if (mimeType && DOCUMENT_CONTENT_TYPES[mimeType]) {
+    return DOCUMENT_CONTENT_TYPES[mimeType];
+  }
+
+  const extension = getDocumentExtension(url);
+  if (!data) {
+    return extension;
+  }
+
+  if (data.subarray(0, 5).toString('latin1') === '%PDF-') {
+    return 'pdf';
+  }
+  // Office documents are ZIP archives, so only the extension tells them apart
+  const isZip = data.length >= 4 && data.readUInt32LE(0) === 0x04034b50;
+  return isZip && extension !== 'pdf' ? extension : null;
+}
+
+function getDocumentExtension(url: string): DocumentType | null {
+  try {
+    const path = new URL(url).pathname.toLowerCase();
+    return DOCUMENT_EXTENSIONS.find(extension => path.endsWith(`.${extension}`)) ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Render rows as a markdown table, the first row being the header
+ */
+function renderTable(rows: string[][]): string {
+  const [header, ...body] = rows;
+  return renderMarkdownTable(header, body);
+}
+
+/**
+ * Converts PDF and Office Open XML documents to markdown with headings, tables and page markers
+ */
+export class DocumentParser {
+  // Office files are ZIP archives; a few KB can inflate to gigabytes
+  private readonly maxUncompressedSize = parseInt(process.env.DOCUMENT_MAX_UNCOMPRESSED_MB ?? '200') * 1024 * 1024;
+  // Bytes inflated so far from each open package
+  private readonly bytesRead = new WeakMap<JSZip, number>();
+
+  async parse(data: Buffer, type: DocumentType, url: string): Promise<ParsedDocument> {
+    logger.info(`Parsing ${type} document from ${url} (${data.length} bytes)`);
+
+    let parsed: ParsedDocument;
+    switch (type) {
+      case 'pdf':
+        parsed = await this.parsePdf(data);
+        break;
+      case 'docx':
+        parsed = await this.parseDocx(await this.loadPackage(data));
+        break;
+      case 'xlsx':
+        parsed = await this.parseXlsx(await this.loadPackage(data));
+        break;
+      case 'pptx':
+        parsed = await this.parsePptx(await this.loadPackage(data));
+        break;
+    }
+
+    return { ...parsed, title: parsed.title || this.titleFromUrl(url) };
+  }
+
+  private titleFromUrl(url: string): string {
+    try {
+      const filename = new URL(url).pathname.split('/').pop() ?? '';
+      return decodeURIComponent(filename).replace(/\.[^.]+$/, '');
+    } catch {
+      return '';
+    }
+  }
+
+  /**
+   * Text of each page, with headings told apart by font size and aligned columns rendered as tables
+   */
+  private async parsePdf(data: Buffer): Promise<ParsedDocument> {
+    // Loaded on first use: pdf.js is large and warns at load time about the optional canvas module
+    const pdfjs = await import('pdfjs-dist/legacy/build/pdf');
+
+    // pdf.js takes ownership of the array it is given, so hand it a copy
+    const pdf = await pdfjs.getDocument({
+      data: new Uint8Array(data),
+      isEvalSupported: false,
+      disableFontFace: true,
+      verbosity: 0
+    }).promise;
+
+    try {
+      const pages: PdfLine[][] = [];
+      for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+        const page = await pdf.getPage(pageNumber);
+        const content = await page.getTextContent();
+        pages.push(this.groupPdfLines(content.items.filter((item): item is TextItem => 'str' in item)));
+        page.cleanup();
+      }
+
+      const bodySize = this.getBodyFontSize(pages.flat());
+      const markdown = pages
+        .map((lines, index) => [`<!-- Page ${index + 1} -->`, this.renderPdfLines(lines, bodySize)].filter(Boolean).join('\n\n'))
+        .join('\n\n');
+
+      const info = (await pdf.getMetadata()).info as Record<string, unknown> | undefined;
+      return {
+        title: typeof info?.Title === 'string' ? info.Title.trim() : '',
+        author: typeof info?.Author === 'string' && info.Author.trim() ? info.Author.trim() : undefined,
+        markdown,
+        pages: pdf.numPages
+      };
+    } finally {
+      await pdf.destroy();
+    }
+  }
+
+  /**
+   * Group text runs sharing a baseline into lines, top to bottom, splitting them into cells at wide gaps
+   */
+  private groupPdfLines(items: TextItem[]): PdfLine[] {
+    const rows: Array<{ y: number; size: number; items: TextItem[] }> = [];
+
+    for (const item of items) {
+      if (!item.str.trim()) continue;
+
+      const y = item.transform[5];
+      const size = Math.abs(item.transform[3]) || item.height;
+      const row = rows.find(candidate => Math.abs(candidate.y - y) <= Math.max(candidate.size, size) * 0.3);
+      if (row) {
+        row.items.push(item);
+        row.size = Math.max(row.size, size);
+      } else {
+        rows.push({ y, size, items: [item] });
+      }
+    }
+
+    return rows
+      .sort((a, b) => b.y - a.y)
+      .map(row => {
+        const cells: string[] = [];
+        let previousEnd: number | null = null;
+
+        for (const item of row.items.sort((a, b) => a.transform[4] - b.transform[4])) {
+          const x = item.transform[4];
+          const gap = previousEnd === null ? 0 : x - previousEnd;
+
+          if (previousEnd === null || gap > row.size * PDF_CELL_GAP_RATIO) {
+            cells.push(item.str.trim());
+          } else {
+            const separator = gap > row.size * 0.15 ? ' ' : '';
+            cells[cells.length - 1] = `${cells[cells.length - 1]}${separator}${item.str}`.replace(/\s+/g, ' ').trim();
+          }
+          previousEnd = x + item.width;
+        }
+
+        return { y: row.y, size: row.size, cells };
+      });
+  }
+
+  /**
+   * Most common font size, weighted by the amount of text set in it
+   */
+  private getBodyFontSize(lines: PdfLine[]): number {
+    const weights = new Map<number, number>();
+    for (const line of lines) {
+      const size = Math.round(line.size);
+      weights.set(size, (weights.get(size) ?? 0) + line.cells.join('').length);
+    }
+
+    let bodySize = 0;
+    let maxWeight = -1;
+    for (const [size, weight] of weights) {
+      if (weight > maxWeight) {
+        bodySize = size;
+        maxWeight = weight;
+      }
+    }
+    return bodySize;
+  }
+
+  private renderPdfLines(lines: PdfLine[], bodySize: number): string {
+    const blocks: string[] = [];
+    let paragraph: string[] = [];
+    let previous: PdfLine | null = null;
+
+    const flushParagraph = () => {
+      if (paragraph.length > 0) {
+        blocks.push(paragraph.join(' ').replace(/(\w)- (\w)/g, '$1$2'));
+        paragraph = [];
+      }
+    };
+
+    for (let index = 0; index < lines.length; index++) {
+      const line = lines[index];
+
+      // Two or more consecutive lines with the same number of columns form a table
+      if (line.cells.length > 1) {
+        let end = index + 1;
+        while (end < lines.length && lines[end].cells.length === line.cells.length) {
+          end++;
+        }
+        if (end - index > 1) {
+          flushParagraph();
+          blocks.push(renderTable(lines.slice(index, end).map(row => row.cells)));
+          index = end - 1;
+          previous = lines[index];
+          continue;
+        }
+      }
+
+      const text = line.cells.join(' ');
+      if (bodySize > 0 && line.size >= bodySize * PDF_HEADING_RATIO && text.length <= 120) {
+        flushParagraph();
+        const level = line.size >= bodySize * 1.8 ? 1 : line.size >= bodySize * 1.4 ? 2 : 3;
+        blocks.push(`${'#'.repeat(level)} ${text}`);
+        previous = line;
+        continue;
+      }
+
+      // A gap wider than normal line spacing starts a new paragraph
+      if (previous && previous.y - line.y > line.size * 1.8) {
+        flushParagraph();
+      }
+      paragraph.push(text);
+      previous = line;
+    }
+    flushParagraph();
+
+    return blocks.join('\n\n');
+  }
+
+  /**
+   * Open an Office package, rejecting it when its entries declare more than
+   * DOCUMENT_MAX_UNCOMPRESSED_MB in total
+   */
+  private async loadPackage(data: Buffer): Promise<JSZip> {
+    const zip = await JSZip.loadAsync(data);
+
+    let declaredSize = 0;
+    for (const entry of Object.values(zip.files) as ZipEntry[]) {
+      declaredSize += entry._data?.uncompressedSize ?? 0;
+      if (declaredSize > this.maxUncompressedSize) {
+        throw this.tooLargeError();
+      }
+    }
+
+    this.bytesRead.set(zip, 0);
+    return zip;
+  }
+
+  /**
+   * Inflate an entry, counting the bytes against the package's limit as they come,
+   * since the declared sizes can lie
+   */
+  private readEntry(zip: JSZip, file: JSZip.JSZipObject): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      const stream = file.nodeStream('nodebuffer');
+
+      stream.on('data', (chunk: Buffer) => {
+        const bytesRead = (this.bytesRead.get(zip) ?? 0) + chunk.length;
+        this.bytesRead.set(zip, bytesRead);
+        if (bytesRead > this.maxUncompressedSize) {
+          stream.pause();
+          reject(this.tooLargeError());
+          return;
+        }
+        chunks.push(chunk);
+      });
+      stream.on('error', reject);
+      stream.on('end', () => resolve(Buffer.concat(chunks).toString('utf-8')));
+    });
+  }
+
+  private tooLargeError(): Error {
+    return new Error(`Document is larger than ${this.maxUncompressedSize / 1024 / 1024} MB uncompressed`);
+  }
+
+  private async readXml(zip: JSZip, path: string): Promise<cheerio.CheerioAPI | null> {
+    const file = zip.file(path);
+    return file ? cheerio.load(await this.readEntry(zip, file), { xml: true }) : null;
+  }
+
+  /**
+   * Targets of a part's relationships by ID, resolved against the part's folder
+   */
+  private async readRelationships(zip: JSZip, partPath: string): Promise<Map<string, string>> {
+    const folder = partPath.substring(0, partPath.lastIndexOf('/') + 1);
+    const filename = partPath.substring(folder.length);
+    const $ = await this.readXml(zip, `${folder}_rels/${filename}.rels`);
+    const relationships = new Map<string, string>();
+    if (!$) {
+      return relationships;
+    }
+
+    $('Relationship').each((_, element) => {
+      const id = $(element).attr('Id');
+      const target = $(element).attr('Target');
+      if (id && target) {
+        relationships.set(id, target.startsWith('/') ? target.slice(1) : new URL(target, `file:///${folder}`).pathname.slice(1));
+      }
+    });
+    return relationships;
+  }
+
+  /**
+   * Title and author from the package's core properties
+   */
+  private async readCoreProperties(zip: JSZip): Promise<{ title: string; author?: string }> {
+    const $ = await this.readXml(zip, 'docProps/core.xml');
+    return {
+      title: $?.('dc\\:title').first().text().trim() ?? '',
+      author: $?.('dc\\:creator').first().text().trim() || undefined
+    };
+  }
+
+  private async parseDocx(zip: JSZip): Promise<ParsedDocument> {
+    const $ = await this.readXml(zip, 'word/document.xml');
+    if (!$) {
+      throw new Error('Not a Word document: word/document.xml is missing');
+    }
+
+    const headingLevels = await this.readDocxHeadingStyles(zip);
+    const blocks = this.renderDocxBlocks($, $('w\\:body').first(), headingLevels);
+
+    return { ...await this.readCoreProperties(zip), markdown: blocks.join('\n\n') };
+  }
+
+  /**
+   * Heading level of each paragraph style: "Title" is 1 and "heading N" is N
+   */
+  private async readDocxHeadingStyles(zip: JSZip): Promise<Map<string, number>> {
+    const $ = await this.readXml(zip, 'word/styles.xml');
+    const levels = new Map<string, number>();
+    if (!$) {
+      return levels;
+    }
+
+    $('w\\:style').each((_, element) => {
+      const styleId = $(element).attr('w:styleId');
+      const name = $(element).children('w\\:name').attr('w:val')?.toLowerCase() ?? '';
+      const heading = /^heading (\d)$/.exec(name);
+      if (styleId && heading) {
+        levels.set(styleId, Number(heading[1]));
+      } else if (styleId && name === 'title') {
+        levels.set(styleId, 1);
+      }
+    });
+    return levels;
+  }
+
+  private renderDocxBlocks($: cheerio.CheerioAPI, container: cheerio.Cheerio<any>, headingLevels: Map<string, number>): string[] {
+    const blocks: string[] = [];
+    let previousWasListItem = false;
+
+    container.children().each((_, element) => {
+      const node = $(element);
+      const isListItem = element.tagName === 'w:p' && node.children('w\\:pPr').children('w\\:numPr').length > 0;
+
+      switch (element.tagName) {
+        case 'w:p': {
+          const paragraph = this.renderDocxParagraph($, node, headingLevels);
+          // Consecutive list items stay in one list
+          if (paragraph && isListItem && previousWasListItem) {
+            blocks[blocks.length - 1] += `\n${paragraph}`;
+          } else if (paragraph) {
+            blocks.push(paragraph);
+          }
+          if (paragraph) {
+            previousWasListItem = isListItem;
+          }
+          break;
+        }
+        case 'w:tbl': {
+          const rows = this.readDocxTable($, node);
+          if (rows.length > 0) blocks.push(renderTable(rows));
+          previousWasListItem = false;
+          break;
+        }
+        case 'w:sdt':
+          // Content controls, e.g. a table of contents, wrap ordinary paragraphs
+          blocks.push(...this.renderDocxBlocks($, node.children('w\\:sdtContent'), headingLevels));
+          previousWasListItem = false;
+          break;
+      }
+    });
+    return blocks;
+  }
+
+  private renderDocxParagraph($: cheerio.CheerioAPI, paragraph: cheerio.Cheerio<any>, headingLevels: Map<string, number>): string {
+    const text = this.getDocxText($, paragraph).trim();
+    if (!text) {
+      return '';
+    }
+
+    const properties = paragraph.children('w\\:pPr');
+    const styleId = properties.children('w\\:pStyle').attr('w:val') ?? '';
+    const outlineLevel = properties.children('w\\:outlineLvl').attr('w:val');
+    const level = headingLevels.get(styleId)
+      ?? (/^heading(\d)$/i.exec(styleId) ? Number(styleId.slice(-1)) : undefined)
+      ?? (outlineLevel !== undefined && Number(outlineLevel) < 6 ? Number(outlineLevel) + 1 : undefined);
+
+    if (level) {
+      return `${'#'.repeat(Math.min(level, 6))} ${text.replace(/\s+/g, ' ')}`;
+    }
+
+    const listItem = properties.children('w\\:numPr');
+    if (listItem.length > 0) {
+      const depth = Number(listItem.children('w\\:ilvl').attr('w:val') ?? 0);
+      return `${'  '.repeat(depth)}- ${text}`;
+    }
+    return text;
+  }
+
+  private getDocxText($: cheerio.CheerioAPI, node: cheerio.Cheerio<any>): string {
+    return node
+      .find('w\\:t, w\\:tab, w\\:br, w\\:cr')
+      .map((_, element) => {
+        if (element.tagName === 'w:t') return $(element).text();
+        if (element.tagName === 'w:tab') return ' ';
+        return '\n';
+      })
+      .get()
+      .join('');
+  }
+
+  /**
+   * Rows of cell text; merged cells repeat as empty cells so columns stay aligned
+   */
+  private readDocxTable($: cheerio.CheerioAPI, table: cheerio.Cheerio<any>): string[][] {
+    return table.children('w\\:tr').map((_, row) => {
+      const cells: string[] = [];
+
+      $(row).children('w\\:tc').each((_, cell) => {
+        const properties = $(cell).children('w\\:tcPr');
+        const span = Number(properties.children('w\\:gridSpan').attr('w:val') ?? 1);
+        const verticalMerge = properties.children('w\\:vMerge');
+        const continuesMerge = verticalMerge.length > 0 && verticalMerge.attr('w:val') !== 'restart';
+
+        const text = continuesMerge
+          ? ''
+          : $(cell).find('w\\:p').map((_, paragraph) => this.getDocxText($, $(paragraph)).trim()).get().filter(Boolean).join('\n');
+        cells.push(text, ...Array(Math.max(span - 1, 0)).fill(''));
+      });
+
+      return [cells];
+    }).get();
+  }
+
+  private async parseXlsx(zip: JSZip): Promise<ParsedDocument> {
+    const workbookPath = 'xl/workbook.xml';
+    const $ = await this.readXml(zip, workbookPath);
+    if (!$) {
+      throw new Error('Not an Excel workbook: xl/workbook.xml is missing');
+    }
+
+    const sharedStrings = await this.readSharedStrings(zip);
+    const relationships = await this.readRelationships(zip, workbookPath);
+    const sheets = $('sheet')
+      .filter((_, element) => $(element).attr('state') !== 'hidden')
+      .map((_, element) => ({ name: $(element).attr('name') ?? '', path: relationships.get($(element).attr('r:id') ?? '') }))
+      .get();
+
+    const blocks: string[] = [];
+    for (const sheet of sheets) {
+      const sheet$ = sheet.path ? await this.readXml(zip, sheet.path) : null;
+      const rows = sheet$ ? this.readSheetRows(sheet$, sharedStrings) : [];
+      if (rows.length > 0) {
+        blocks.push(`## ${sheet.name}`, renderTable(rows));
+      }
+    }
+
+    return { ...await this.readCoreProperties(zip), markdown: blocks.join('\n\n'), pages: sheets.length };
+  }
+
+  private async readSharedStrings(zip: JSZip): Promise<string[]> {
+    const $ = await this.readXml(zip, 'xl/sharedStrings.xml');
+    if (!$) {
+      return [];
+    }
+
+    // Plain strings have one <t>; rich text has a <t> per run. Phonetic hints (<rPh>) are skipped.
+    return $('si')
+      .map((_, element) => $(element).children('t').text() + $(element).children('r').children('t').text())
+      .get();
+  }
+
+  /**
+   * Cell values laid out on the sheet's grid, trimmed to the used range
+   */
+  private readSheetRows($: cheerio.CheerioAPI, sharedStrings: string[]): string[][] {
+    const grid: string[][] = [];
+
+    $('sheetData > row').each((rowIndex, row) => {
+      const rowNumber = Number($(row).attr('r') ?? rowIndex + 1) - 1;
+      const cells: string[] = [];
+
+      $(row).children('c').each((cellIndex, cell) => {
+        const reference = /^([A-Z]+)/.exec($(cell).attr('r') ?? '');
+        const column = reference
+          ? [...reference[1]].reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1
+          : cellIndex;
+        cells[column] = this.getCellValue($, $(cell), sharedStrings);
+      });
+
+      grid[rowNumber] = Array.from(cells, value => value ?? '');
+    });
+
+    const rows = Array.from(grid, row => row ?? []).filter(row => row.some(value => value !== ''));
+    if (rows.length === 0) {
+      return [];
+    }
+
+    const firstColumn = Math.min(...rows.map(row => row.findIndex(value => value !== '')));
+    const lastColumn = Math.max(...rows.map(row => row.length));
+    return rows.map(row => Array.from({ length: lastColumn - firstColumn }, (_, index) => row[firstColumn + index] ?? ''));
+  }
+
+  private getCellValue($: cheerio.CheerioAPI, cell: cheerio.Cheerio<any>, sharedStrings: string[]): string {
+    const value = cell.children('v').text();
+    switch (cell.attr('t')) {
+      case 's':
+        return sharedStrings[Number(value)] ?? '';
+      case 'inlineStr':
+        return cell.children('is').find('t').text();
+      case 'b':
+        return value === '1' ? 'TRUE' : 'FALSE';
+      default:
+        return value;
+    }
+  }
+
+  private async parsePptx(zip: JSZip): Promise<ParsedDocument> {
+    const presentationPath = 'ppt/presentation.xml';
+    const $ = await this.readXml(zip, presentationPath);
+    if (!$) {
+      throw new Error('Not a PowerPoint presentation: ppt/presentation.xml is missing');
+    }
+
+    const relationships = await this.readRelationships(zip, presentationPath);
+    const slidePaths = $('p\\:sldId')
+      .map((_, element) => relationships.get($(element).attr('r:id') ?? ''))
+      .get()
+      .filter((path): path is string => !!path);
+
+    const blocks: string[] = [];
+    let firstSlideTitle = '';
+    for (const [index, slidePath] of slidePaths.entries()) {
+      const slide$ = await this.readXml(zip, slidePath);
+      if (!slide$) continue;
+
+      const { title, blocks: slideBlocks } = this.renderSlide(slide$);
+      firstSlideTitle ||= title;
+      blocks.push(`<!-- Slide ${index + 1} -->`, ...slideBlocks);
+    }
+
+    const properties = await this.readCoreProperties(zip);
+    return {
+      ...properties,
+      title: properties.title || firstSlideTitle,
+      markdown: blocks.join('\n\n'),
+      pages: slidePaths.length
+    };
+  }
+
+  /**
+   * Slide shapes in z-order: the title placeholder becomes a heading, content placeholders bullet lists
+   */
+  private renderSlide($: cheerio.CheerioAPI): { title: string; blocks: string[] } {
+    const blocks: string[] = [];
+    let title = '';
+
+    const renderShapes = (container: cheerio.Cheerio<any>) => {
+      container.children().each((_, element) => {
+        const shape = $(element);
+
+        if (element.tagName === 'p:grpSp') {
+          renderShapes(shape);
+        } else if (element.tagName === 'p:graphicFrame') {
+          const rows = shape.find('a\\:tr').map((_, row) =>
+            [$(row).children('a\\:tc').map((_, cell) => this.getSlideParagraphs($, $(cell)).join('\n')).get()]
+          ).get();
+          if (rows.length > 0) blocks.push(renderTable(rows));
+        } else if (element.tagName === 'p:sp') {
+          const placeholder = shape.children('p\\:nvSpPr').children('p\\:nvPr').children('p\\:ph');
+          const placeholderType = placeholder.attr('type');
+          const paragraphs = this.getSlideParagraphs($, shape.children('p\\:txBody'), true);
+          if (paragraphs.length === 0) return;
+
+          if (placeholderType === 'title' || placeholderType === 'ctrTitle') {
+            const heading = paragraphs.map(paragraph => paragraph.trim()).join(' ');
+            title ||= heading;
+            blocks.push(`## ${heading}`);
+          } else if (placeholder.length > 0 && (placeholderType === 'body' || placeholderType === undefined)) {
+            blocks.push(paragraphs.map(paragraph => paragraph.replace(/^( *)/, '$1- ')).join('\n'));
+          } else {
+            blocks.push(paragraphs.map(paragraph => paragraph.trim()).join('\n\n'));
+          }
+        }
+      });
+    };
+
+    renderShapes($('p\\:cSld > p\\:spTree').first());
+    return { title, blocks };
+  }
+
+  /**
+   * Non-empty paragraphs of a text body, optionally indented by outline level
+   */
+  private getSlideParagraphs($: cheerio.CheerioAPI, body: cheerio.Cheerio<any>, indent: boolean = false): string[] {
+    return body.find('a\\:p').map((_, paragraph) => {
+      const text = $(paragraph)
+        .find('a\\:t, a\\:br')
+        .map((_, element) => element.tagName === 'a:br' ? '\n' : $(element).text())
+        .get()
+        .join('')
+        .trim();
+      const level = Number($(paragraph).children('a\\:pPr').attr('lvl') ?? 0);
+      return text && indent ? `${'  '.repeat(level)}${text}` : text;
+    }).get().filter(Boolean);
+  }
+}
@@ -0,0 +1,117 @@
+/**
+ * Merges structured data extracted from separate chunks of one document
+ */
+
+/**
+ * Data extracted from a single chunk
+ */
+export interface ChunkExtraction {
+  index: number;
+  data: any;
+  confidence: number;
+}
+
+interface ScalarCandidate {
+  value: any;
+  confidence: number;
+  index: number;
+}
+
+/**
+ * Merge chunk results: arrays are concatenated and deduplicated, objects are merged
+ * key by key, and conflicting scalars go to the chunk with the highest confidence
+ * (the earliest chunk on ties)
+ */
+export function mergeChunkExtractions(extractions: ChunkExtraction[]): any {
+  const usable = extractions
+    .filter(extraction => !isEmpty(extraction.data))
+    .sort((a, b) => a.index - b.index);
+
+  if (usable.length === 0) {
+    return extractions[0]?.data ?? null;
+  }
+
+  return mergeValues(usable.map(({ data, confidence, index }) => ({ value: data, confidence, index })));
+}
+
+function mergeValues(candidates: ScalarCandidate[]): any {
+  const present = candidates.filter(candidate => !isEmpty(candidate.value));
+  if (present.length === 0) {
+    return candidates[0]?.value ?? null;
+  }
+
+  if (present.every(candidate => Array.isArray(candidate.value))) {
+    return dedupe(present.flatMap(candidate => candidate.value));
+  }
+
+  if (present.every(candidate => isPlainObject(candidate.value))) {
+    const keys = new Set(present.flatMap(candidate => Object.keys(candidate.value)));
+    const merged: Record<string, any> = {};
+
+    for (const key of keys) {
+      merged[key] = mergeValues(present
+        .filter(candidate => key in candidate.value)
+        .map(candidate => ({ ...candidate, value: candidate.value[key] })));
+    }
+
+    return merged;
+  }
+
+  // Scalars (or mixed shapes): highest confidence wins, then the earliest chunk
+  return present.reduce((best, candidate) =>
+    candidate.confidence > best.confidence ? candidate : best
+  ).value;
+}
+
+/**
+ * Remove duplicate array items, comparing objects by content rather than identity
+ */
+function dedupe(items: any[]): any[] {
+  const seen = new Set<string>();
+  const unique: any[] = [];
+
+  for (const item of items) {
+    if (isEmpty(item)) continue;
+
+    const key = canonicalKey(item);
+    if (!seen.has(key)) {
+      seen.add(key);
+      unique.push(item);
+    }
+  }
+
+  return unique;
+}
+
+/**
+ * Order-independent key for an item; strings are trimmed and lower-cased
+ * so the same record repeated in two chunks collapses into one
+ */
+function canonicalKey(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalKey).join(',')}]`;
+  }
+  if (isPlainObject(value)) {
+    return `{${Object.keys(value)
+      .filter(key => !isEmpty(value[key]))
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalKey(value[key])}`)
+      .join(',')}}`;
+  }
+  if (typeof value === 'string') {
+    return JSON.stringify(value.trim().toLowerCase());
+  }
+  return JSON.stringify(value);
+}
+
+function isPlainObject(value: any): value is Record<string, any> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isEmpty(value: any): boolean {
+  if (value === null || value === undefined) return true;
+  if (typeof value === 'string') return value.trim() === '';
+  if (Array.isArray(value)) return value.length === 0;
+  if (isPlainObject(value)) return Object.values(value).every(isEmpty);
+  return false;
+}
@@ -2,6 +2,8 @@ import TurndownService from 'turndown';
 import { ScraperResponse } from '../types';
 import { logger } from '../utils/logger';
 import * as cheerio from 'cheerio';
+import { TableExtractor } from './table-extractor';
+import { renderMarkdownTable } from '../utils/table-utils';
 
 // List of selectors for elements that should be removed as they're not part of the main content
 const EXCLUDE_NON_MAIN_TAGS = [
@@ -95,6 +97,7 @@ const CONTENT_THRESHOLD = 20;
 
 export class HtmlToMarkdownTransformer {
   private readonly turndownService: TurndownService;
+  private readonly tableExtractor = new TableExtractor();
 
   constructor() {
     // Initialize Turndown with options
@@ -116,8 +119,25 @@ export class HtmlToMarkdownTransformer {
    * Configure custom rules for Turndown
    */
   private configureTurndownRules(): void {
-    // Preserve certain HTML elements (e.g., tables)
-    this.turndownService.keep(['table', 'tr', 'td', 'th', 'thead', 'tbody']);
+    // Render data tables as GitHub-flavored pipe tables, followed by the tables nested in them;
+    // layout tables are unwrapped into their content
+    this.turndownService.addRule('tables', {
+      filter: 'table',
+      replacement: (content, node) => {
+        const html = (node as HTMLElement).outerHTML;
+        // Markdown shows cells as the page wrote them
+        const table = this.tableExtractor.extractTable(html, { normalizeNumbers: false });
+        if (!table) {
+          return `\n\n${content.trim()}\n\n`;
+        }
+
+        const tables = [table, ...this.tableExtractor.extract(html, { normalizeNumbers: false }).slice(1)];
+        const markdown = tables
+          .map(({ caption, headers, rows }) => [caption && `**${caption}**`, renderMarkdownTable(headers, rows)].filter(Boolean).join('\n\n'))
+          .join('\n\n');
+        return `\n\n${markdown}\n\n`;
+      }
+    });
 
     // Add rule for removing script and style tags
     this.turndownService.addRule('removeScriptAndStyle', {
@@ -163,7 +183,7 @@ export class HtmlToMarkdownTransformer {
         }
         
         // Prevent line breaks inside links by replacing them
-        let linkContent = content.trim().replace(/\n/g, ' ');
+        const linkContent = content.trim().replace(/\n/g, ' ');
         
         const titleAttr = title ? ` "${title}"` : '';
         return `[${linkContent}](${finalHref}${titleAttr})`;
@@ -787,7 +807,7 @@ export class HtmlToMarkdownTransformer {
       
       // Fix spacing around headings (ensure heading has empty lines around it)
       .replace(/([^\n])\n(#+\s)/g, '$1\n\n$2')
-      .replace(/(#+\s[^\n]*)\n([^\n])/g, '$1\n\n$2')
+      .replace(/^(#+\s[^\n]*)\n([^\n])/gm, '$1\n\n$2')
       
       // Improve list formatting - limit whitespace matching to avoid backtracking
       .replace(/\n(\s{0,10}[-*+])\s{2,5}/g, '\n$1 ')
@@ -821,7 +841,7 @@ export class HtmlToMarkdownTransformer {
       .replace(/\n\s*\|\s*\n/g, '\n|\n')
       
       // Ensure paragraphs are separated by blank lines - use non-greedy matching
-      .replace(/([^\n])\n([^\n\s#>*-])/g, '$1\n\n$2')
+      .replace(/([^\n])\n([^\n\s#>*|-])/g, '$1\n\n$2')
       
       // Remove "Skip to content" and similar accessibility links
       .replace(/\[Skip to [cC]ontent\]\([^)]*\)/g, '')
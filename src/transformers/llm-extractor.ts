@@ -1,29 +1,53 @@
 import { ScraperResponse } from '../types';
-import { LLMProvider, LLMMessage } from '../types/llm.types';
+import { LLMProvider, LLMMessage, LLMResponse } from '../types/llm.types';
 import { 
   ExtractionOptions, 
-  ExtractionResult
+  ExtractionResult,
+  ValidationReport
 } from '../types/schema';
 import { logger } from '../utils/logger';
+import { chunkMarkdown, countTokens, truncateToTokens, MarkdownChunk } from './markdown-chunker';
+import { mergeChunkExtractions, ChunkExtraction } from './extraction-merger';
+import { validateAgainstSchema, formatValidationErrors, toJsonSchema } from './schema-validator';
+import { llmPricing, createEmptyUsage } from '../services/llm-pricing';
+import { metrics } from '../services/metrics.service';
+import { LLMUsage } from '../types/usage';
+
+const DEFAULT_MAX_CONTENT_TOKENS = 15000;
+const DEFAULT_CHUNK_TOKENS = 6000;
+const DEFAULT_MAX_CHUNKS = 20;
+const DEFAULT_CHUNK_CONCURRENCY = 3;
+const DEFAULT_MAX_REPAIR_ATTEMPTS = 2;
+
+// Field chunk prompts ask the model to add; stripped before merging
+const CONFIDENCE_FIELD = '_confidence';
 
 /**
  * Limit token size to prevent exceeding model limits
  * @param text The text to limit
  * @param maxTokens Maximum number of tokens
  */
-function limitTextSize(text: string, maxTokens = 15000): string {
-  // Simple approximation: 1 token ≈ 4 characters for English text
-  const maxCharacters = maxTokens * 4;
+function limitTextSize(text: string, maxTokens = DEFAULT_MAX_CONTENT_TOKENS): string {
+  const { text: limited, truncated } = truncateToTokens(text, maxTokens);
   
-  if (text.length <= maxCharacters) {
+  if (!truncated) {
     return text;
   }
   
   // If text is too long, cut it and add a note
-  return text.substring(0, maxCharacters) + 
+  return limited + 
     "\n\n[Note: Content was truncated due to length limitations.]";
 }
 
+/**
+ * Position of a chunk within the document, for map-reduce prompts
+ */
+interface ChunkContext {
+  index: number;
+  total: number;
+  headings: string[];
+}
+
 export class LLMExtractor {
   private readonly llmService: LLMProvider;
   
@@ -55,8 +79,17 @@ export class LLMExtractor {
         };
       }
       
+      // Totals every LLM call this extraction makes, including chunks and repairs
+      const usage = createEmptyUsage();
+      const maxContentTokens = options.chunking?.maxContentTokens ?? DEFAULT_MAX_CONTENT_TOKENS;
+      const contentTokens = countTokens(content);
+      
+      if (this.shouldMapReduce(options, contentTokens, maxContentTokens)) {
+        return await this.extractChunked<T>(scraperResponse, content, contentTokens, options, startTime, usage);
+      }
+      
       // Limit content size to prevent token limit issues
-      const limitedContent = limitTextSize(content, 15000);
+      const limitedContent = limitTextSize(content, maxContentTokens);
       
       // Format extraction prompt based on extraction type
       const messages = this.createExtractionPrompt(
@@ -68,21 +101,17 @@ export class LLMExtractor {
       
       // Configure response format as JSON if a schema is provided
       const responseFormat = options.schema 
-        ? { type: 'json_object' } 
+        ? { type: 'json_object', schema: toJsonSchema(options.schema) } 
         : undefined;
       
       // Make the LLM API call
-      const llmResponse = await this.llmService.getCompletion<T>(
+      const llmResponse = await this.complete<T>(
         messages,
-        {
-          temperature: options.temperature ?? 0.2,
-          maxTokens: options.maxTokens ?? 4000
-        },
-        responseFormat
+        options,
+        responseFormat,
+        usage
       );
       
-      const extractionTime = Date.now() - startTime;
-      
       if (!llmResponse.success) {
         logger.error(`LLM extraction failed: ${llmResponse.error}`);
         return {
@@ -91,23 +120,35 @@ export class LLMExtractor {
             success: false,
             error: llmResponse.error,
             metadata: {
-              extractionTime
+              extractionTime: Date.now() - startTime,
+              llmUsage: usage
             }
           }
         };
       }
       
+      const { data, validation } = await this.validateAndRepair<T>(llmResponse.data as T, options, usage, messages);
+      const extractionTime = Date.now() - startTime;
+      
       // Add the structured data to the response
       logger.info(`LLM extraction completed successfully in ${extractionTime}ms`);
       return {
         ...scraperResponse,
-        structuredData: llmResponse.data,
+        structuredData: data,
         extractionResult: {
           success: true,
-          data: llmResponse.data,
+          data,
+          validation,
           metadata: {
             extractionTime,
-            modelName: this.llmService.getModel() ?? 'gpt-4o'
+            modelName: llmResponse.metadata?.model ?? this.llmService.getModel() ?? 'gpt-4o',
+            provider: llmResponse.metadata?.provider,
+            llmUsage: usage,
+            chunking: {
+              mode: 'truncate',
+              contentTokens,
+              truncated: limitedContent !== content
+            }
           }
         }
       };
@@ -124,6 +165,290 @@ export class LLMExtractor {
     }
   }
   
+  /**
+   * Call the LLM, adding the response to the extraction's usage and to the latency and token metrics
+   */
+  private async complete<T>(
+    messages: LLMMessage[],
+    options: ExtractionOptions,
+    responseFormat: { type: string; schema?: object } | undefined,
+    usage: LLMUsage
+  ): Promise<LLMResponse<T>> {
+    const start = Date.now();
+    const llmResponse = await this.llmService.getCompletion<T>(
+      messages,
+      {
+        temperature: options.temperature ?? 0.2,
+        maxTokens: options.maxTokens ?? 4000
+      },
+      responseFormat
+    );
+
+    const provider = llmResponse.metadata?.provider ?? this.llmService.getProvider();
+    const model = llmResponse.metadata?.model ?? this.llmService.getModel();
+    metrics.llmRequestDuration.observe(
+      { provider, model, outcome: llmResponse.success ? 'success' : 'error' },
+      (Date.now() - start) / 1000
+    );
+    if (llmResponse.metadata?.usage) {
+      metrics.llmTokens.inc({ provider, model, type: 'prompt' }, llmResponse.metadata.usage.promptTokens);
+      metrics.llmTokens.inc({ provider, model, type: 'completion' }, llmResponse.metadata.usage.completionTokens);
+    }
+
+    llmPricing.addResponse(usage, llmResponse, this.llmService.getModel());
+    return llmResponse;
+  }
+  
+  /**
+   * Decide whether content goes through chunked map-reduce extraction.
+   * Only schema extractions can be merged; other types are always truncated.
+   */
+  private shouldMapReduce(options: ExtractionOptions, contentTokens: number, maxContentTokens: number): boolean {
+    const mode = options.chunking?.mode ?? 'truncate';
+    if (mode === 'truncate') {
+      return false;
+    }
+    
+    if ((options.extractionType ?? 'structured') !== 'structured' || !options.schema) {
+      logger.warn(`Chunking mode "${mode}" requires a schema extraction, truncating instead`);
+      return false;
+    }
+    
+    return mode === 'map-reduce' || contentTokens > maxContentTokens;
+  }
+  
+  /**
+   * Extract from each heading-aligned chunk and merge the partial results
+   */
+  private async extractChunked<T>(
+    scraperResponse: ScraperResponse,
+    content: string,
+    contentTokens: number,
+    options: ExtractionOptions,
+    startTime: number,
+    usage: LLMUsage
+  ): Promise<ScraperResponse & { structuredData?: T; extractionResult?: ExtractionResult<T> }> {
+    const chunkTokens = options.chunking?.chunkTokens ?? DEFAULT_CHUNK_TOKENS;
+    const maxChunks = options.chunking?.maxChunks ?? DEFAULT_MAX_CHUNKS;
+    const concurrency = Math.max(1, options.chunking?.concurrency ?? DEFAULT_CHUNK_CONCURRENCY);
+    
+    const allChunks = chunkMarkdown(content, chunkTokens);
+    const chunks = allChunks.slice(0, maxChunks);
+    const droppedChunks = allChunks.length - chunks.length;
+    
+    logger.info(`Map-reduce extraction over ${chunks.length} chunks (${contentTokens} tokens)`, {
+      url: scraperResponse.url,
+      chunkTokens,
+      droppedChunks
+    });
+    
+    const extractions: ChunkExtraction[] = [];
+    const errors: string[] = [];
+    let next = 0;
+    
+    const worker = async (): Promise<void> => {
+      while (next < chunks.length) {
+        const chunk = chunks[next++];
+        try {
+          extractions.push(await this.extractChunk(chunk, chunks.length, scraperResponse, options, usage));
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          logger.warn(`Extraction failed for chunk ${chunk.index + 1}/${chunks.length}: ${message}`);
+          errors.push(message);
+        }
+      }
+    };
+    
+    await Promise.all(Array.from({ length: Math.min(concurrency, chunks.length) }, () => worker()));
+    
+    const chunking = {
+      mode: 'map-reduce' as const,
+      contentTokens,
+      chunks: chunks.length,
+      failedChunks: errors.length,
+      droppedChunks
+    };
+    
+    if (extractions.length === 0) {
+      logger.error(`LLM extraction failed for every chunk: ${errors[0]}`);
+      return {
+        ...scraperResponse,
+        extractionResult: {
+          success: false,
+          error: errors[0] ?? 'No content to extract from',
+          metadata: {
+            extractionTime: Date.now() - startTime,
+            llmUsage: usage,
+            chunking
+          }
+        }
+      };
+    }
+    
+    const merged = mergeChunkExtractions(extractions) as T;
+    const confidenceScore = extractions.reduce((sum, extraction) => sum + extraction.confidence, 0) / extractions.length;
+    
+    // The merged document has no single prompt, so repairs only see the data and the schema
+    const { data, validation } = await this.validateAndRepair<T>(merged, options, usage);
+    const extractionTime = Date.now() - startTime;
+    
+    logger.info(`Map-reduce extraction completed in ${extractionTime}ms`, { chunks: chunks.length, failedChunks: errors.length });
+    return {
+      ...scraperResponse,
+      structuredData: data,
+      extractionResult: {
+        success: true,
+        data,
+        validation,
+        metadata: {
+          confidenceScore,
+          extractionTime,
+          modelName: this.llmService.getModel() ?? 'gpt-4o',
+          llmUsage: usage,
+          chunking
+        }
+      }
+    };
+  }
+  
+  /**
+   * Validate schema extractions and re-prompt the model with the errors until the
+   * output validates or the repair attempts run out
+   * @param messages The original conversation; repairs continue it when given
+   */
+  private async validateAndRepair<T>(
+    data: T,
+    options: ExtractionOptions,
+    usage: LLMUsage,
+    messages?: LLMMessage[]
+  ): Promise<{ data: T; validation?: ValidationReport }> {
+    const { schema } = options;
+    if (!schema || (options.extractionType ?? 'structured') !== 'structured') {
+      return { data };
+    }
+    
+    const maxAttempts = Math.max(0, options.maxRepairAttempts ?? DEFAULT_MAX_REPAIR_ATTEMPTS);
+    let errors = validateAgainstSchema(data, schema);
+    let repairAttempts = 0;
+    
+    while (errors.length > 0 && repairAttempts < maxAttempts) {
+      repairAttempts++;
+      logger.info(`Extracted data failed schema validation with ${errors.length} errors, repair attempt ${repairAttempts}/${maxAttempts}`);
+      
+      const repairMessages: LLMMessage[] = [
+        ...(messages ?? [
+          { role: 'system' as const, content: 'You are an expert data extractor. Fix JSON so it conforms to a JSON schema.' },
+          { role: 'user' as const, content: `Here is the JSON schema the data must follow:\n${JSON.stringify(schema, null, 2)}` }
+        ]),
+        { role: 'assistant' as const, content: JSON.stringify(data) },
+        {
+          role: 'user' as const,
+          content: `That JSON does not match the schema:\n${formatValidationErrors(errors)}\n\n` +
+            'Return the corrected JSON only. Keep the values that were valid, and use null for optional values that are not available.'
+        }
+      ];
+      
+      const llmResponse = await this.complete<T>(
+        repairMessages,
+        options,
+        { type: 'json_object', schema: toJsonSchema(schema) },
+        usage
+      );
+      
+      if (!llmResponse.success || llmResponse.data === undefined) {
+        logger.warn(`Repair attempt ${repairAttempts} failed: ${llmResponse.error}`);
+        continue;
+      }
+      
+      const repairedErrors = validateAgainstSchema(llmResponse.data, schema);
+      // Never trade the current output for a worse one
+      if (repairedErrors.length <= errors.length) {
+        data = llmResponse.data;
+        errors = repairedErrors;
+      }
+    }
+    
+    if (errors.length > 0) {
+      logger.warn(`Extracted data still has ${errors.length} schema errors after ${repairAttempts} repair attempts`);
+    }
+    
+    return {
+      data,
+      validation: {
+        valid: errors.length === 0,
+        errors,
+        repairAttempts
+      }
+    };
+  }
+  
+  /**
+   * Run the schema extraction against a single chunk
+   */
+  private async extractChunk(
+    chunk: MarkdownChunk,
+    total: number,
+    scraperResponse: ScraperResponse,
+    options: ExtractionOptions,
+    usage: LLMUsage
+  ): Promise<ChunkExtraction> {
+    const messages = this.createExtractionPrompt(
+      chunk.content,
+      scraperResponse.title,
+      scraperResponse.url,
+      options,
+      { index: chunk.index, total, headings: chunk.headings }
+    );
+    
+    // Chunk prompts ask object extractions for a confidence field next to the schema's own
+    const schema = options.schema ? toJsonSchema(options.schema) : undefined;
+    if (schema?.type === 'object') {
+      schema.properties = { ...schema.properties, [CONFIDENCE_FIELD]: { type: 'number', minimum: 0, maximum: 1 } };
+    }
+    
+    const llmResponse = await this.complete<any>(
+      messages,
+      options,
+      { type: 'json_object', schema },
+      usage
+    );
+    
+    if (!llmResponse.success) {
+      throw new Error(llmResponse.error ?? 'LLM request failed');
+    }
+    
+    let data = llmResponse.data;
+    let confidence = this.estimateConfidence(data, options);
+    
+    if (data && typeof data === 'object' && !Array.isArray(data) && CONFIDENCE_FIELD in data) {
+      const { [CONFIDENCE_FIELD]: reported, ...rest } = data;
+      if (typeof reported === 'number' && reported >= 0 && reported <= 1) {
+        confidence = reported;
+      }
+      data = rest;
+    }
+    
+    return { index: chunk.index, data, confidence };
+  }
+  
+  /**
+   * Fallback chunk confidence: the share of top-level schema fields the chunk filled in
+   */
+  private estimateConfidence(data: any, options: ExtractionOptions): number {
+    const properties = Object.keys(options.schema?.properties ?? {});
+    if (!data || typeof data !== 'object' || properties.length === 0) {
+      return 0.5;
+    }
+    
+    const filled = properties.filter(key => {
+      const value = data[key];
+      if (value === null || value === undefined || value === '') return false;
+      return !Array.isArray(value) || value.length > 0;
+    });
+    
+    return filled.length / properties.length;
+  }
+  
   /**
    * Create an extraction prompt based on options
    */
@@ -131,7 +456,8 @@ export class LLMExtractor {
     content: string,
     title: string,
     url: string,
-    options: ExtractionOptions
+    options: ExtractionOptions,
+    chunk?: ChunkContext
   ): LLMMessage[] {
     const { schema, instructions, extractionType = 'structured', promptFormat = 'zero-shot' } = options;
     
@@ -184,6 +510,16 @@ export class LLMExtractor {
     }
     
     userMessage += ':\n\n';
+    
+    // Chunks carry their position and heading trail so the model knows it sees a fragment
+    if (chunk) {
+      userMessage += `[Part ${chunk.index + 1} of ${chunk.total}`;
+      if (chunk.headings.length > 0) {
+        userMessage += `, under: ${chunk.headings.join(' > ')}`;
+      }
+      userMessage += ']\n\n';
+    }
+    
     userMessage += content;
     
     // Add schema details if available
@@ -205,6 +541,13 @@ export class LLMExtractor {
       userMessage += '\n\nAdditional instructions: Extract the information and format as JSON';
     }
     
+    if (chunk) {
+      userMessage += '\n\nThis is only one part of the page. Extract only what appears in this part and use null or empty arrays for anything missing.';
+      if (schema?.type === 'object') {
+        userMessage += ` Add a top-level "${CONFIDENCE_FIELD}" number between 0 and 1 stating how confident you are in the values you extracted from this part.`;
+      }
+    }
+    
     messages.push({ role: 'user' as const, content: userMessage });
     
     return messages;
@@ -0,0 +1,191 @@
+import { get_encoding, Tiktoken } from '@dqbd/tiktoken';
+import { logger } from '../utils/logger';
+
+/**
+ * A slice of a markdown document sized for a single LLM call
+ */
+export interface MarkdownChunk {
+  index: number;
+  content: string;
+  tokens: number;
+  headings: string[]; // Heading trail the chunk starts under, for context
+}
+
+interface Section {
+  headings: string[];
+  content: string;
+}
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+
+// cl100k_base matches current OpenAI chat models and is close enough for other providers
+let encoder: Tiktoken | null = null;
+
+function getEncoder(): Tiktoken | null {
+  if (!encoder) {
+    try {
+      encoder = get_encoding('cl100k_base');
+    } catch (error) {
+      logger.warn(`Failed to load tiktoken encoder, falling back to character estimates: ${error instanceof Error ? error.message : String(error)}`);
+      return null;
+    }
+  }
+  return encoder;
+}
+
+/**
+ * Count tokens in text (1 token ≈ 4 characters when the encoder is unavailable)
+ */
+export function countTokens(text: string): number {
+  const enc = getEncoder();
+  return enc ? enc.encode(text).length : Math.ceil(text.length / 4);
+}
+
+/**
+ * Cut text to at most maxTokens
+ */
+export function truncateToTokens(text: string, maxTokens: number): { text: string; truncated: boolean } {
+  if (countTokens(text) <= maxTokens) {
+    return { text, truncated: false };
+  }
+  return { text: splitByTokens(text, maxTokens)[0], truncated: true };
+}
+
+/**
+ * Split markdown into chunks of at most maxTokens, breaking on heading boundaries
+ * where possible, then on paragraphs, then on raw token offsets
+ */
+export function chunkMarkdown(markdown: string, maxTokens: number): MarkdownChunk[] {
+  const chunks: MarkdownChunk[] = [];
+  let current: Section | null = null;
+  let currentTokens = 0;
+
+  const flush = () => {
+    if (current && current.content.trim()) {
+      chunks.push({
+        index: chunks.length,
+        content: current.content.trim(),
+        tokens: currentTokens,
+        headings: current.headings
+      });
+    }
+    current = null;
+    currentTokens = 0;
+  };
+
+  for (const section of splitSections(markdown)) {
+    for (const piece of splitOversized(section.content, maxTokens)) {
+      const tokens = countTokens(piece);
+
+      if (current && currentTokens + tokens > maxTokens) {
+        flush();
+      }
+
+      if (!current) {
+        current = { headings: section.headings, content: piece };
+        currentTokens = tokens;
+      } else {
+        current.content += `\n\n${piece}`;
+        currentTokens += tokens;
+      }
+    }
+  }
+  flush();
+
+  return chunks;
+}
+
+/**
+ * Split markdown into sections that each start at a heading,
+ * remembering the heading trail above each one
+ */
+function splitSections(markdown: string): Section[] {
+  const sections: Section[] = [];
+  const trail: string[] = [];
+  let lines: string[] = [];
+  let headings: string[] = [];
+  let inCodeBlock = false;
+
+  for (const line of markdown.split('\n')) {
+    if (line.trimStart().startsWith('```')) {
+      inCodeBlock = !inCodeBlock;
+    }
+
+    const match = inCodeBlock ? null : HEADING_PATTERN.exec(line);
+    if (match) {
+      if (lines.join('').trim()) {
+        sections.push({ headings, content: lines.join('\n') });
+      }
+
+      const level = match[1].length;
+      trail.length = level - 1;
+      trail[level - 1] = match[2];
+      headings = trail.filter(Boolean);
+      lines = [line];
+    } else {
+      lines.push(line);
+    }
+  }
+
+  if (lines.join('').trim()) {
+    sections.push({ headings, content: lines.join('\n') });
+  }
+
+  return sections;
+}
+
+/**
+ * Break a section that does not fit in one chunk into paragraph groups,
+ * hard-splitting single paragraphs that are still too large
+ */
+function splitOversized(text: string, maxTokens: number): string[] {
+  if (countTokens(text) <= maxTokens) {
+    return [text];
+  }
+
+  const pieces: string[] = [];
+  let buffer = '';
+
+  for (const paragraph of text.split(/\n{2,}/)) {
+    const candidate = buffer ? `${buffer}\n\n${paragraph}` : paragraph;
+    if (countTokens(candidate) <= maxTokens) {
+      buffer = candidate;
+      continue;
+    }
+
+    if (countTokens(paragraph) <= maxTokens) {
+      if (buffer) pieces.push(buffer);
+      buffer = paragraph;
+    } else {
+      // Keep a short lead-in such as the heading attached to the start of the long paragraph
+      pieces.push(...splitByTokens(candidate, maxTokens));
+      buffer = '';
+    }
+  }
+
+  if (buffer) pieces.push(buffer);
+  return pieces;
+}
+
+/**
+ * Hard-split text at token offsets
+ */
+function splitByTokens(text: string, maxTokens: number): string[] {
+  const enc = getEncoder();
+  if (!enc) {
+    const size = maxTokens * 4;
+    const parts: string[] = [];
+    for (let i = 0; i < text.length; i += size) {
+      parts.push(text.substring(i, i + size));
+    }
+    return parts;
+  }
+
+  const tokens = enc.encode(text);
+  const decoder = new TextDecoder();
+  const parts: string[] = [];
+  for (let i = 0; i < tokens.length; i += maxTokens) {
+    parts.push(decoder.decode(enc.decode(tokens.slice(i, i + maxTokens))));
+  }
+  return parts;
+}
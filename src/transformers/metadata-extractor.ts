@@ -0,0 +1,187 @@
+import * as cheerio from 'cheerio';
+import { MicrodataItem, PageMetadata } from '../types';
+import { logger } from '../utils/logger';
+
+// Elements whose Microdata value is a URL attribute rather than their text
+const MICRODATA_URL_ATTRIBUTES: Record<string, string> = {
+  a: 'href',
+  area: 'href',
+  link: 'href',
+  audio: 'src',
+  embed: 'src',
+  iframe: 'src',
+  img: 'src',
+  source: 'src',
+  track: 'src',
+  video: 'src',
+  object: 'data'
+};
+
+export class MetadataExtractor {
+  /**
+   * Extract the metadata a page declares about itself from its raw HTML
+   *
+   * Must run on the HTML as loaded: ContentCleaner removes the <script> tags
+   * that hold JSON-LD and keeps only the main content.
+   */
+  extract(html: string, url: string): PageMetadata {
+    try {
+      const $ = cheerio.load(html);
+      const metadata: PageMetadata = {
+        description: this.getMetaContent($, 'description'),
+        keywords: this.getKeywords($),
+        language: $('html').attr('lang')?.trim() || undefined,
+        canonical: this.resolveUrl($('link[rel~="canonical"]').attr('href'), url),
+        favicon: this.getFavicon($, url),
+        alternates: this.getAlternates($, url),
+        openGraph: this.getPrefixedMeta($, 'og:'),
+        twitter: this.getPrefixedMeta($, 'twitter:'),
+        jsonLd: this.getJsonLd($),
+        microdata: this.getMicrodata($, url)
+      };
+
+      // Leave out what the page doesn't declare
+      return Object.fromEntries(
+        Object.entries(metadata).filter(([, value]) =>
+          value !== undefined && !(Array.isArray(value) && value.length === 0) &&
+          !(typeof value === 'object' && !Array.isArray(value) && Object.keys(value).length === 0)
+        )
+      ) as PageMetadata;
+    } catch (error) {
+      logger.warn(`Error extracting page metadata for ${url}: ${error instanceof Error ? error.message : String(error)}`);
+      return {};
+    }
+  }
+
+  private getMetaContent($: cheerio.CheerioAPI, name: string): string | undefined {
+    const content = $(`meta[name="${name}" i]`).attr('content')?.trim();
+    return content || undefined;
+  }
+
+  private getKeywords($: cheerio.CheerioAPI): string[] | undefined {
+    const keywords = this.getMetaContent($, 'keywords');
+    return keywords?.split(',').map(keyword => keyword.trim()).filter(Boolean);
+  }
+
+  private getFavicon($: cheerio.CheerioAPI, url: string): string | undefined {
+    const href = $('link[rel~="icon" i]').attr('href') ?? $('link[rel~="apple-touch-icon" i]').attr('href');
+    return this.resolveUrl(href, url);
+  }
+
+  private getAlternates($: cheerio.CheerioAPI, url: string): Array<{ hreflang: string; href: string }> {
+    const alternates: Array<{ hreflang: string; href: string }> = [];
+    $('link[rel~="alternate"][hreflang]').each((_, element) => {
+      const hreflang = $(element).attr('hreflang')?.trim();
+      const href = this.resolveUrl($(element).attr('href'), url);
+      if (hreflang && href) {
+        alternates.push({ hreflang, href });
+      }
+    });
+    return alternates;
+  }
+
+  /**
+   * Collect og:* or twitter:* tags; repeated tags such as og:image become arrays
+   */
+  private getPrefixedMeta($: cheerio.CheerioAPI, prefix: string): Record<string, string | string[]> {
+    const values: Record<string, string | string[]> = {};
+    // Sites use both property= (the OpenGraph spec) and name= (Twitter's docs)
+    $('meta[property], meta[name]').each((_, element) => {
+      const key = ($(element).attr('property') ?? $(element).attr('name') ?? '').trim().toLowerCase();
+      const content = $(element).attr('content')?.trim();
+      if (!key.startsWith(prefix) || key.length === prefix.length || !content) return;
+
+      const name = key.slice(prefix.length);
+      const existing = values[name];
+      if (existing === undefined) {
+        values[name] = content;
+      } else if (Array.isArray(existing)) {
+        existing.push(content);
+      } else if (existing !== content) {
+        values[name] = [existing, content];
+      }
+    });
+    return values;
+  }
+
+  private getJsonLd($: cheerio.CheerioAPI): unknown[] {
+    const blocks: unknown[] = [];
+    $('script[type="application/ld+json" i]').each((_, element) => {
+      // Some CMSs wrap the JSON in CDATA or HTML comment markers
+      const source = ($(element).contents().text() ?? '')
+        .replace(/^\s*(?:<!--|\/\/\s*<!\[CDATA\[|<!\[CDATA\[)/, '')
+        .replace(/(?:-->|\/\/\s*\]\]>|\]\]>)\s*$/, '')
+        .trim();
+      if (!source) return;
+
+      try {
+        const parsed = JSON.parse(source);
+        blocks.push(...(Array.isArray(parsed) ? parsed : [parsed]));
+      } catch (error) {
+        logger.debug(`Skipping invalid JSON-LD block: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    });
+    return blocks;
+  }
+
+  /**
+   * Parse top-level Microdata items; an item nested as another item's itemprop
+   * is returned inside its parent
+   */
+  private getMicrodata($: cheerio.CheerioAPI, url: string): MicrodataItem[] {
+    return $('[itemscope]')
+      .filter((_, element) => $(element).attr('itemprop') === undefined)
+      .toArray()
+      .map(element => this.parseMicrodataItem($, element, url));
+  }
+
+  private parseMicrodataItem($: cheerio.CheerioAPI, element: any, url: string): MicrodataItem {
+    const $item = $(element);
+    const type = $item.attr('itemtype')?.trim().split(/\s+/).filter(Boolean);
+    const id = $item.attr('itemid')?.trim();
+    const item: MicrodataItem = {
+      ...(type && type.length > 0 && { type }),
+      ...(id && { id }),
+      properties: {}
+    };
+
+    $item.find('[itemprop]').each((_, propElement) => {
+      // Properties belong to the closest enclosing item
+      if ($(propElement).parent().closest('[itemscope]').get(0) !== element) return;
+
+      const value = $(propElement).attr('itemscope') !== undefined
+        ? this.parseMicrodataItem($, propElement, url)
+        : this.getMicrodataValue($, propElement, url);
+
+      for (const name of ($(propElement).attr('itemprop') ?? '').trim().split(/\s+/).filter(Boolean)) {
+        (item.properties[name] ??= []).push(value);
+      }
+    });
+
+    return item;
+  }
+
+  private getMicrodataValue($: cheerio.CheerioAPI, element: any, url: string): string {
+    const $element = $(element);
+    const tag = (element.tagName ?? '').toLowerCase();
+
+    if (tag === 'meta') return $element.attr('content')?.trim() ?? '';
+    if (MICRODATA_URL_ATTRIBUTES[tag]) {
+      const raw = $element.attr(MICRODATA_URL_ATTRIBUTES[tag]);
+      return this.resolveUrl(raw, url) ?? raw ?? '';
+    }
+    if (tag === 'data' || tag === 'meter') return $element.attr('value')?.trim() ?? '';
+    if (tag === 'time' && $element.attr('datetime')) return $element.attr('datetime')!.trim();
+
+    return $element.text().replace(/\s+/g, ' ').trim();
+  }
+
+  private resolveUrl(href: string | undefined, base: string): string | undefined {
+    if (!href?.trim()) return undefined;
+    try {
+      return new URL(href.trim(), base).toString();
+    } catch {
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,189 @@
+import { Schema, SchemaProperty, SchemaPropertyType, SchemaValidationError } from '../types/schema';
+
+/**
+ * Validate extracted data against an extraction schema.
+ * Supports required, type, enum, pattern, minimum/maximum, minLength/maxLength,
+ * additionalProperties and nested items/properties.
+ * @returns Every violation found, empty when the data is valid
+ */
+export function validateAgainstSchema(data: any, schema: Schema | SchemaProperty): SchemaValidationError[] {
+  const errors: SchemaValidationError[] = [];
+  validateValue(data, schema as SchemaProperty & { required?: boolean | string[] }, '$', errors);
+  return errors;
+}
+
+/**
+ * Convert an extraction schema to standard JSON Schema, moving per-property
+ * `required: true` flags into each object's `required` array
+ */
+export function toJsonSchema(schema: Schema | SchemaProperty): Record<string, any> {
+  const { required, properties, items, additionalProperties, ...rest } =
+    schema as SchemaProperty & { required?: boolean | string[] };
+  const jsonSchema: Record<string, any> = { ...rest };
+
+  if (properties) {
+    const requiredKeys = new Set<string>(Array.isArray(required) ? required : []);
+    jsonSchema.properties = {};
+    for (const [key, property] of Object.entries(properties)) {
+      if (property.required === true) requiredKeys.add(key);
+      jsonSchema.properties[key] = toJsonSchema(property);
+    }
+    if (requiredKeys.size > 0) {
+      jsonSchema.required = [...requiredKeys];
+    }
+  } else if (Array.isArray(required) && required.length > 0) {
+    jsonSchema.required = required;
+  }
+
+  if (items) {
+    jsonSchema.items = toJsonSchema(items);
+  }
+  if (additionalProperties !== undefined) {
+    jsonSchema.additionalProperties = typeof additionalProperties === 'object'
+      ? toJsonSchema(additionalProperties)
+      : additionalProperties;
+  }
+
+  return jsonSchema;
+}
+
+/**
+ * Render validation errors as one line each, for logs and repair prompts
+ */
+export function formatValidationErrors(errors: SchemaValidationError[]): string {
+  return errors.map(error => `- ${error.path}: ${error.message}`).join('\n');
+}
+
+function validateValue(
+  value: any,
+  schema: SchemaProperty & { required?: boolean | string[] },
+  path: string,
+  errors: SchemaValidationError[]
+): void {
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => matchesType(value, type))) {
+      errors.push({
+        path,
+        keyword: 'type',
+        message: `expected ${types.join(' or ')}, got ${describeType(value)}`
+      });
+      // Further checks would only repeat the type mismatch
+      return;
+    }
+  }
+
+  if (schema.enum && !schema.enum.some(option => deepEqual(option, value))) {
+    errors.push({
+      path,
+      keyword: 'enum',
+      message: `must be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`
+    });
+  }
+
+  if (typeof value === 'string') {
+    validateString(value, schema, path, errors);
+  } else if (typeof value === 'number') {
+    validateNumber(value, schema, path, errors);
+  } else if (Array.isArray(value)) {
+    if (schema.items) {
+      value.forEach((item, index) => validateValue(item, schema.items!, `${path}[${index}]`, errors));
+    }
+  } else if (value !== null && typeof value === 'object') {
+    validateObject(value, schema, path, errors);
+  }
+}
+
+function validateString(value: string, schema: SchemaProperty, path: string, errors: SchemaValidationError[]): void {
+  if (schema.minLength !== undefined && value.length < schema.minLength) {
+    errors.push({ path, keyword: 'minLength', message: `must be at least ${schema.minLength} characters` });
+  }
+  if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+    errors.push({ path, keyword: 'maxLength', message: `must be at most ${schema.maxLength} characters` });
+  }
+  if (schema.pattern) {
+    let regex: RegExp | null = null;
+    try {
+      regex = new RegExp(schema.pattern);
+    } catch {
+      // An invalid pattern in the schema is the caller's problem, not the data's
+    }
+    if (regex && !regex.test(value)) {
+      errors.push({ path, keyword: 'pattern', message: `must match pattern ${schema.pattern}` });
+    }
+  }
+}
+
+function validateNumber(value: number, schema: SchemaProperty, path: string, errors: SchemaValidationError[]): void {
+  if (schema.minimum !== undefined && value < schema.minimum) {
+    errors.push({ path, keyword: 'minimum', message: `must be >= ${schema.minimum}` });
+  }
+  if (schema.maximum !== undefined && value > schema.maximum) {
+    errors.push({ path, keyword: 'maximum', message: `must be <= ${schema.maximum}` });
+  }
+}
+
+function validateObject(
+  value: Record<string, any>,
+  schema: SchemaProperty & { required?: boolean | string[] },
+  path: string,
+  errors: SchemaValidationError[]
+): void {
+  const properties = schema.properties ?? {};
+
+  // Required fields come from the JSON Schema array or from the per-property flag
+  const required = new Set<string>(Array.isArray(schema.required) ? schema.required : []);
+  for (const [key, property] of Object.entries(properties)) {
+    if (property.required === true) required.add(key);
+  }
+
+  for (const key of required) {
+    if (value[key] === undefined || value[key] === null) {
+      errors.push({ path: `${path}.${key}`, keyword: 'required', message: 'is required' });
+    }
+  }
+
+  for (const [key, item] of Object.entries(value)) {
+    const property = properties[key];
+    if (property) {
+      // Optional fields may be null when the page does not have them
+      if (item === null && !required.has(key)) continue;
+      validateValue(item, property, `${path}.${key}`, errors);
+    } else if (schema.additionalProperties === false) {
+      errors.push({ path: `${path}.${key}`, keyword: 'additionalProperties', message: 'is not allowed' });
+    } else if (typeof schema.additionalProperties === 'object') {
+      validateValue(item, schema.additionalProperties, `${path}.${key}`, errors);
+    }
+  }
+}
+
+function matchesType(value: any, type: SchemaPropertyType): boolean {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'integer':
+      return Number.isInteger(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return value !== null && typeof value === 'object' && !Array.isArray(value);
+    case 'null':
+      return value === null;
+    default:
+      return true;
+  }
+}
+
+function describeType(value: any): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function deepEqual(a: any, b: any): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
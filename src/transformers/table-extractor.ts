@@ -0,0 +1,218 @@
+import * as cheerio from 'cheerio';
+import { ExtractedTable, TableCell } from '../types';
+import { logger } from '../utils/logger';
+
+// Limits the HTML spec puts on spans
+const MAX_COLSPAN = 1000;
+const MAX_ROWSPAN = 65534;
+
+// Plain or comma-grouped numbers, once currency symbols, percent signs and accounting parentheses are removed
+const NUMBER_PATTERN = /^[-+]?(\d{1,3}(,\d{3})+|\d+)?(\.\d+)?$/;
+const CURRENCY_PATTERN = /^[$€£¥₹]\s*|\s*[$€£¥₹]$/g;
+
+interface GridCell {
+  text: string;
+  header: boolean;
+}
+
+export interface TableExtractionOptions {
+  normalizeNumbers?: boolean; // Turn numeric cells into numbers (default: true)
+}
+
+export class TableExtractor {
+  /**
+   * Extract every data table in the HTML, each table before the tables nested in it
+   *
+   * Layout tables (role="presentation" or a single cell) are skipped, but data
+   * tables nested in them are still extracted.
+   */
+  extract(html: string, options: TableExtractionOptions = {}): ExtractedTable[] {
+    try {
+      const $ = cheerio.load(html);
+      return $('table')
+        .toArray()
+        .map(table => this.readTable($, table, options))
+        .filter((table): table is ExtractedTable => table !== null);
+    } catch (error) {
+      logger.warn(`Failed to extract tables: ${error instanceof Error ? error.message : String(error)}`);
+      return [];
+    }
+  }
+
+  /**
+   * Read only the outermost table in an HTML fragment, or null if it is a layout table
+   */
+  extractTable(html: string, options: TableExtractionOptions = {}): ExtractedTable | null {
+    const $ = cheerio.load(html);
+    const table = $('table').first();
+    return table.length > 0 ? this.readTable($, table.get(0), options) : null;
+  }
+
+  private readTable($: cheerio.CheerioAPI, table: any, options: TableExtractionOptions): ExtractedTable | null {
+    const role = $(table).attr('role');
+    if (role === 'presentation' || role === 'none') {
+      return null;
+    }
+
+    const grid = this.buildGrid($, table);
+    const width = Math.max(0, ...grid.map(row => row.length));
+    if (grid.length === 0 || width === 0 || (grid.length === 1 && width === 1)) {
+      return null;
+    }
+
+    const headerRowCount = this.countHeaderRows($, table, grid);
+    const headers = headerRowCount > 0
+      ? Array.from({ length: width }, (_, column) => {
+          const labels = grid.slice(0, headerRowCount).map(row => row[column]?.text ?? '').filter(Boolean);
+          return [...new Set(labels)].join(' / ');
+        })
+      : [];
+
+    const normalize = options.normalizeNumbers ?? true;
+    const rows = grid
+      .slice(headerRowCount)
+      .map(row => Array.from({ length: width }, (_, column) => {
+        const text = row[column]?.text ?? '';
+        return normalize ? this.normalizeValue(text) : text;
+      }))
+      .filter(row => row.some(value => value !== ''));
+
+    if (rows.length === 0 && headers.every(header => header === '')) {
+      return null;
+    }
+
+    const caption = $(table).children('caption').text().replace(/\s+/g, ' ').trim();
+    return { ...(caption && { caption }), headers, rows };
+  }
+
+  /**
+   * Lay the table's own rows out on a grid, repeating spanned cells in every slot they cover
+   */
+  private buildGrid($: cheerio.CheerioAPI, table: any): GridCell[][] {
+    const grid: GridCell[][] = [];
+    // Cells from earlier rows still spanning down, by column
+    const spans: Array<{ cell: GridCell; remaining: number } | undefined> = [];
+
+    const rows = this.getRows($, table);
+    rows.forEach(({ row, inHead }, rowIndex) => {
+      const cells: GridCell[] = [];
+      let column = 0;
+
+      const fillSpannedColumns = () => {
+        while (spans[column] && spans[column]!.remaining > 0) {
+          cells[column] = spans[column]!.cell;
+          spans[column]!.remaining--;
+          column++;
+        }
+      };
+
+      $(row).children('td, th').each((_, element) => {
+        fillSpannedColumns();
+
+        const cell: GridCell = {
+          text: this.getCellText($, element),
+          header: inHead || element.tagName === 'th'
+        };
+        const colspan = this.getSpan($(element).attr('colspan'), MAX_COLSPAN);
+        // rowspan="0" spans the rest of the table
+        const rowspan = $(element).attr('rowspan')?.trim() === '0'
+          ? rows.length - rowIndex
+          : this.getSpan($(element).attr('rowspan'), MAX_ROWSPAN);
+
+        for (let offset = 0; offset < colspan; offset++) {
+          cells[column] = cell;
+          spans[column] = rowspan > 1 ? { cell, remaining: rowspan - 1 } : undefined;
+          column++;
+        }
+      });
+
+      // Spans from earlier rows may continue past this row's last cell
+      for (; column < spans.length; column++) {
+        if (spans[column] && spans[column]!.remaining > 0) {
+          cells[column] = spans[column]!.cell;
+          spans[column]!.remaining--;
+        }
+      }
+
+      grid.push(Array.from(cells, cell => cell ?? { text: '', header: false }));
+    });
+
+    return grid;
+  }
+
+  /**
+   * Rows that belong to this table rather than to a nested one: <thead> first, <tfoot> last
+   */
+  private getRows($: cheerio.CheerioAPI, table: any): Array<{ row: any; inHead: boolean }> {
+    const sections = $(table).children('thead, tbody, tfoot, tr').toArray();
+    const rowsOf = (tagNames: string[], inHead: boolean) => sections
+      .filter(section => tagNames.includes(section.tagName))
+      .flatMap(section => section.tagName === 'tr' ? [section] : $(section).children('tr').toArray())
+      .map(row => ({ row, inHead }));
+
+    const head = rowsOf(['thead'], true);
+    const body = rowsOf(['tbody', 'tr'], false);
+    const foot = rowsOf(['tfoot'], false);
+    return [...head, ...body, ...foot];
+  }
+
+  private getSpan(value: string | undefined, max: number): number {
+    const span = parseInt(value ?? '1', 10);
+    return Number.isFinite(span) && span > 0 ? Math.min(span, max) : 1;
+  }
+
+  /**
+   * Cell text without the text of tables nested in it, which are extracted on their own
+   */
+  private getCellText($: cheerio.CheerioAPI, cell: any): string {
+    const copy = $(cell).clone();
+    copy.find('table').remove();
+    copy.find('br').replaceWith(' ');
+    return copy.text().replace(/\s+/g, ' ').trim();
+  }
+
+  /**
+   * Leading rows made of <th> cells or inside <thead>; without those, a first row of
+   * bold labels or of text labels above numeric data
+   */
+  private countHeaderRows($: cheerio.CheerioAPI, table: any, grid: GridCell[][]): number {
+    let count = 0;
+    while (count < grid.length - 1 && grid[count].length > 0 && grid[count].every(cell => cell.header)) {
+      count++;
+    }
+    if (count > 0 || grid.length < 2) {
+      return count;
+    }
+
+    const firstRow = this.getRows($, table)[0].row;
+    const firstCells = $(firstRow).children('td, th').toArray();
+    const isBold = firstCells.length > 0 && firstCells.every(cell => {
+      const children = $(cell).children();
+      return children.length === 1 && ['b', 'strong'].includes(children.get(0)!.tagName) && children.text().trim() === $(cell).text().trim();
+    });
+
+    const labels = grid[0].map(cell => cell.text);
+    const isTextLabels = labels.every(label => label !== '' && typeof this.normalizeValue(label) === 'string');
+    const hasNumericData = grid.slice(1).some(row => row.some(cell => typeof this.normalizeValue(cell.text) === 'number'));
+
+    return isBold || (isTextLabels && hasNumericData) ? 1 : 0;
+  }
+
+  /**
+   * Numbers as numbers: "1,234.5" → 1234.5, "$12" → 12, "45%" → 45, "(300)" → -300.
+   * Anything else, including numbers with leading zeros such as codes, stays text.
+   */
+  private normalizeValue(text: string): TableCell {
+    let value = text.replace(/[−–]/g, '-').replace(CURRENCY_PATTERN, '').replace(/%$/, '').trim();
+
+    const negative = /^\((.+)\)$/.exec(value);
+    if (negative) {
+      value = `-${negative[1].replace(CURRENCY_PATTERN, '').trim()}`;
+    }
+
+    if (!/\d/.test(value) || /^[-+]?0\d/.test(value) || !NUMBER_PATTERN.test(value)) {
+      return text;
+    }
+    return Number(value.replace(/,/g, ''));
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * Types for API key authentication
+ */
+
+export type ApiKeyScope = 'scrape' | 'extract' | 'crawl' | 'batch' | 'admin';
+
+export interface ApiKeyRateLimit {
+  requests: number;       // Requests allowed per window
+  windowSeconds: number;
+}
+
+/**
+ * Stored API key (the key itself is never stored, only its hash)
+ */
+export interface ApiKeyRecord {
+  id: string;
+  name: string;
+  keyHash: string;
+  keyPrefix: string;               // First characters of the key, to tell keys apart
+  scopes: ApiKeyScope[];
+  rateLimit?: ApiKeyRateLimit;     // Applies to every request made with the key, on top of route group limits
+  monthlyQuota?: number;           // Requests allowed per calendar month (UTC)
+  createdAt: string;
+  rotatedAt?: string;
+  revokedAt?: string;
+  lastUsedAt?: string;
+  previousKeyHash?: string;        // Old key still accepted after a rotation with a grace period
+  previousKeyExpiresAt?: string;
+}
+
+/**
+ * Key details safe to return from the API
+ */
+export type ApiKeyInfo = Omit<ApiKeyRecord, 'keyHash' | 'previousKeyHash'>;
+
+export interface CreateApiKeyRequest {
+  name: string;
+  scopes: ApiKeyScope[];
+  rateLimit?: ApiKeyRateLimit;
+  monthlyQuota?: number;
+}
+
+/**
+ * Outcome of checking a key's monthly quota for one request
+ */
+export interface ApiKeyLimitResult {
+  allowed: boolean;
+  retryAfter?: number;             // Seconds until the request may be retried
+  quotaUsed?: number;
+}
@@ -1,4 +1,5 @@
 import { ScraperOptions } from './index';
+import { WebhookConfig } from './webhook';
 
 // Define crawl strategy types
 export enum CrawlStrategy {
@@ -19,6 +20,13 @@ export interface CrawlerHooks {
   beforeProcessingComplete?: (result: ScrapedDocument, url: string) => Promise<ScrapedDocument>;
 }
 
+// Per-host politeness overrides for a crawl
+export interface PolitenessOptions {
+  delayMs?: number; // Minimum time between requests to the same host
+  burst?: number; // Requests allowed back to back before delaying
+  ignoreCrawlDelay?: boolean; // Ignore Crawl-delay from robots.txt
+}
+
 export interface CrawlerOptions {
   jobId: string;
   initialUrl: string;
@@ -39,6 +47,7 @@ export interface CrawlerOptions {
   currentDiscoveryDepth?: number;
   useBrowser?: boolean; // Option to use browser-based crawling with Playwright
   deduplicateSimilarUrls?: boolean; // Enable similar URL deduplication (default: true)
+  includeDocuments?: boolean; // Follow links to PDF and Office documents (default: false)
 }
 
 export interface StoredCrawl {
@@ -55,13 +64,23 @@ export interface StoredCrawl {
     regexOnFullURL?: boolean;
     strategy?: CrawlStrategy; // Added crawl strategy
     useBrowser?: boolean; // Option to use browser-based crawling with Playwright
+    ignoreSitemap?: boolean; // Skip sitemap discovery when seeding the crawl
+    includeDocuments?: boolean; // Follow links to PDF and Office documents
+    politeness?: PolitenessOptions; // Per-host request pacing
   };
   scrapeOptions: ScraperOptions;
   createdAt: number;
   robots?: string;
   cancelled?: boolean;
+  previousCrawlId?: string; // Crawl to diff against for incremental re-crawls
+  webhook?: WebhookConfig;
+  apiKeyId?: string; // Key that started the crawl, for usage accounting
 }
 
+// What the status endpoint reports about a crawl, without its internal bookkeeping
+export type PublicCrawl = Pick<StoredCrawl,
+  'originUrl' | 'crawlerOptions' | 'scrapeOptions' | 'createdAt' | 'cancelled' | 'previousCrawlId' | 'webhook'>;
+
 export interface CrawlRequest {
   url: string;
   includePaths?: string[];
@@ -74,9 +93,34 @@ export interface CrawlRequest {
   ignoreRobotsTxt?: boolean;
   regexOnFullURL?: boolean;
   scrapeOptions?: ScraperOptions;
-  webhook?: string;
+  webhook?: string | WebhookConfig;
   strategy?: CrawlStrategy; // Added crawl strategy
   useBrowser?: boolean; // Option to use browser-based crawling with Playwright
+  ignoreSitemap?: boolean; // Skip sitemap discovery when seeding the crawl
+  includeDocuments?: boolean; // Follow links to PDF and Office documents and export them as markdown
+  politeness?: PolitenessOptions; // Per-host request pacing
+  previousCrawlId?: string; // Only export pages that changed since this crawl
+}
+
+// Page entry read from a sitemap <urlset>
+export interface SitemapEntry {
+  url: string;
+  lastmod?: string;
+  priority?: number;
+}
+
+// URL tracked in the persisted crawl frontier
+export interface FrontierEntry {
+  url: string;
+  depth: number;
+  priority: number;
+  sitemap?: Omit<SitemapEntry, 'url'>;
+}
+
+export interface CrawlFrontierCounts {
+  queued: number;
+  inFlight: number;
+  done: number;
 }
 
 export interface CrawlResponse {
@@ -97,8 +141,35 @@ export interface CrawlStatusQuery {
   limit?: string;
 }
 
+export type PageChangeStatus = 'unchanged' | 'modified' | 'new' | 'removed' | 'error';
+
+// What a crawl remembers about each page, used to diff the next crawl
+export interface PageFingerprint {
+  url: string;
+  title?: string;
+  contentHash?: string;
+  etag?: string;
+  lastModified?: string;
+  links?: string[];
+  status?: PageChangeStatus;
+  exportedFile?: string;
+}
+
+export interface ChangeManifest {
+  crawlId: string;
+  previousCrawlId?: string;
+  generatedAt: string;
+  counts: Record<PageChangeStatus, number>;
+  pages: {
+    url: string;
+    status: PageChangeStatus;
+    file?: string;
+  }[];
+}
+
 export interface ScrapedDocument {
   url: string;
+  changeStatus?: PageChangeStatus;
   title?: string;
   content?: string;
   contentType?: 'html' | 'markdown' | 'text';
@@ -119,7 +190,7 @@ export interface ScrapedDocument {
 export interface CrawlStatusResponse {
   success: boolean;
   status?: 'scraping' | 'completed' | 'cancelled';
-  crawl?: StoredCrawl;
+  crawl?: PublicCrawl;
   jobs?: {
     id: string;
     status: string;
@@ -132,10 +203,19 @@ export interface CrawlStatusResponse {
     outputDirectory: string;
     files: string[];
   };
+  frontier?: CrawlFrontierCounts;
   error?: string;
 }
 
 export interface CrawlCancelResponse {
   success: boolean;
   error?: string;
+}
+
+export interface CrawlResumeResponse {
+  success: boolean;
+  id?: string;
+  requeued?: number;
+  message?: string;
+  error?: string;
 } 
\ No newline at end of file
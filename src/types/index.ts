@@ -1,3 +1,70 @@
+import { WebhookConfig } from './webhook';
+import { UsageContext } from './usage';
+import { SessionStorageState } from './session';
+
+// Output formats a scrape can return
+export const SCRAPE_FORMATS = ['markdown', 'html', 'rawHtml', 'text', 'links', 'metadata', 'screenshot', 'pdf'] as const;
+export type ScrapeFormat = typeof SCRAPE_FORMATS[number];
+
+// Screenshot and PDF capture settings
+export interface CaptureOptions {
+  viewport?: { width: number; height: number };
+  fullPage?: boolean;          // Capture the whole scrollable page instead of the viewport
+  selector?: string;           // Clip the screenshot to the first element matching this selector
+  imageFormat?: 'png' | 'jpeg';
+  quality?: number;            // JPEG quality (0-100)
+  storage?: 'base64' | 'file'; // Inline the bytes or save them to the export directory
+}
+
+// A captured screenshot or PDF
+export interface CaptureResult {
+  contentType: string;
+  size: number;  // Size in bytes
+  data?: string; // Base64-encoded bytes when stored inline
+  url?: string;  // API path to download the file when stored in the export directory
+}
+
+// A Microdata item (itemscope) with its itemprop values
+export interface MicrodataItem {
+  type?: string[];
+  id?: string;
+  properties: Record<string, Array<string | MicrodataItem>>;
+}
+
+// Metadata the page declares about itself
+export interface PageMetadata {
+  description?: string;
+  keywords?: string[];
+  language?: string;                                     // <html lang>
+  canonical?: string;
+  favicon?: string;
+  alternates?: Array<{ hreflang: string; href: string }>; // hreflang links
+  openGraph?: Record<string, string | string[]>;         // og:* without the prefix
+  twitter?: Record<string, string | string[]>;           // twitter:* without the prefix
+  jsonLd?: unknown[];                                     // Parsed application/ld+json blocks
+  microdata?: MicrodataItem[];                            // Top-level itemscope items
+}
+
+export type TableCell = string | number;
+
+// Data table read from a page's HTML
+export interface ExtractedTable {
+  caption?: string;
+  headers: string[];  // One per column, header rows joined with " / "; empty when none was found
+  rows: TableCell[][]; // Body rows; spanned cells repeat their value and numeric cells are numbers
+}
+
+export type DocumentType = 'pdf' | 'docx' | 'xlsx' | 'pptx';
+
+// Source document behind a markdown response converted from a PDF or Office file
+export interface DocumentMetadata {
+  type: DocumentType;
+  contentType: string; // Content-Type the server sent
+  size: number;        // Size in bytes
+  pages?: number;      // PDF pages, presentation slides or workbook sheets
+  author?: string;
+}
+
 // Scraping options
 export interface ScraperOptions {
   timeout?: number;
@@ -11,6 +78,8 @@ export interface ScraperOptions {
   waitForTimeout?: number; // Time to wait after page loads (in ms)
   fullPage?: boolean;
   javascript?: boolean;
+  formats?: ScrapeFormat[]; // Outputs to return together from one page load
+  capture?: CaptureOptions; // Screenshot and PDF settings for the screenshot and pdf formats
   extractorFormat?: 'html' | 'markdown' | 'text';
   actions?: BrowserAction[];
   url?: string; // For cookie domain when no URL is provided in launch options
@@ -45,16 +114,72 @@ export interface ScraperOptions {
   excludePaths?: string[]; // Regex patterns for paths to exclude
   excludeDomains?: string[]; // Domains to exclude
   baseUrl?: string; // Base URL for relative links
+
+  // Usage accounting
+  usageContext?: UsageContext; // Who LLM token usage for this scrape is charged to
+
+  // Login sessions
+  sessionId?: string; // Scrape as the session created with POST /api/sessions
+  storageState?: SessionStorageState; // The session's cookies and localStorage, set by the scraper manager
 }
 
+// Browser actions run in order after the page loads
+export const BROWSER_ACTION_TYPES = [
+  'click', 'scroll', 'wait', 'fill', 'select',
+  'press', 'hover', 'waitForNavigation', 'waitForNetworkIdle', 'waitForFunction',
+  'evaluate', 'screenshot', 'scrollUntil', 'setViewport',
+  'if', 'repeat', 'forEach'
+] as const;
+export type BrowserActionType = typeof BROWSER_ACTION_TYPES[number];
+
 // Browser action interface
 export interface BrowserAction {
-  type: 'click' | 'scroll' | 'wait' | 'fill' | 'select';
+  type: BrowserActionType;
+  name?: string;      // Label echoed back in the action's result
   selector?: string;
   value?: string;
   position?: number;  // For scroll actions (pixels)
-  timeout?: number;   // For wait actions (ms)
+  timeout?: number;   // For wait actions (ms), and how long the waiting actions may take
   optional?: boolean; // If true, action failure won't stop scraping
+  key?: string;       // For press actions, e.g. 'Enter', 'ArrowDown' or 'Control+A'
+  script?: string;    // For evaluate and waitForFunction actions: a function body run in the page
+  url?: string;       // For waitForNavigation actions: URL or glob pattern to wait for
+  waitUntil?: 'load' | 'domcontentloaded' | 'networkidle' | 'commit'; // For waitForNavigation actions
+  idleTime?: number;  // For waitForNetworkIdle actions: quiet period without requests (ms)
+  maxScrolls?: number; // For scrollUntil actions: give up after this many scrolls
+  count?: number;     // For scrollUntil actions: stop once `selector` matches this many elements
+  fullPage?: boolean; // For screenshot actions
+  viewport?: { width: number; height: number }; // For setViewport actions
+  state?: 'exists' | 'visible'; // For if and repeat actions: what `selector` must be for the condition to hold
+  actions?: BrowserAction[];     // For if (run when the condition holds), repeat and forEach actions
+  elseActions?: BrowserAction[]; // For if actions: run when the condition doesn't hold
+  maxIterations?: number; // For repeat and forEach actions
+  captureHtml?: boolean;  // For repeat actions: record the page HTML at the start of each iteration
+}
+
+// One pass through the actions of a repeat or forEach action
+export interface ActionIteration {
+  index: number;
+  html?: string; // The element's HTML after a forEach pass, the page's HTML before a repeat pass with captureHtml
+  actions: ActionResult[];
+}
+
+// What a browser action did, reported in metadata.actionResults
+export interface ActionResult {
+  index: number;      // Position of the action in the request
+  type: BrowserActionType;
+  name?: string;
+  success: boolean;
+  duration: number;   // Time the action took in milliseconds
+  error?: string;     // Why an optional action failed
+  result?: unknown;   // Value returned by an evaluate script
+  url?: string;       // Page URL after a waitForNavigation action
+  scrolls?: number;   // Scrolls made by a scrollUntil action
+  matches?: number;   // Elements matching the scrollUntil selector when it stopped
+  screenshot?: CaptureResult; // Image taken by a screenshot action
+  condition?: boolean;         // Whether the condition of an if action held
+  actions?: ActionResult[];    // Results of the branch an if action took
+  iterations?: ActionIteration[]; // Passes made by a repeat or forEach action
 }
 
 // Response from the scraper
@@ -72,9 +197,24 @@ export interface ScraperResponse {
     cacheTtl?: number;       // Cache TTL for this response
     cachedAt?: string;       // When this response was cached
     fromCache?: boolean;     // Whether this response came from cache
+    page?: PageMetadata;     // Metadata declared in the page's HTML
+    document?: DocumentMetadata; // Set when the URL served a PDF or Office document
+    actionResults?: ActionResult[]; // One entry per browser action, in order
     [key: string]: any;
   };
-  screenshot?: Buffer;
+  links?: string[]; // Absolute links found in the raw page HTML
+  tables?: ExtractedTable[]; // Data tables in the page's main content
+  markdown?: string; // Outputs requested through `formats`
+  html?: string;     // Cleaned HTML
+  rawHtml?: string;  // HTML as loaded, before cleaning
+  text?: string;
+  screenshot?: Buffer; // Raw capture from the browser; returned to callers through `captures`
+  pdf?: Buffer;
+  actionScreenshots?: Array<{ result: ActionResult; data: Buffer }>; // Raw screenshot action images, stored into the result that took them
+  captures?: {
+    screenshot?: CaptureResult;
+    pdf?: CaptureResult;
+  };
   error?: string;
   extractedData?: any;
 }
@@ -102,7 +242,7 @@ export interface BatchScrapeRequest {
   urls: string[];
   options?: ScraperOptions;
   concurrency?: number;
-  webhook?: string;
+  webhook?: string | WebhookConfig;
   timeout?: number;
   failFast?: boolean;
   maxRetries?: number;
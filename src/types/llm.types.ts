@@ -5,7 +5,7 @@
 /**
  * Supported LLM provider types
  */
-export type LLMProviderType = 'openai' | 'vllm' | 'ollama' | 'localai' | 'litellm' | 'custom';
+export type LLMProviderType = 'openai' | 'anthropic' | 'vllm' | 'ollama' | 'localai' | 'litellm' | 'custom';
 
 /**
  * Configuration for LLM providers
@@ -41,6 +41,7 @@ export interface LLMResponse<T> {
   success: boolean;
   data?: T;
   error?: string;
+  statusCode?: number;  // HTTP status of a failed call, when the backend answered
   metadata?: {
     model?: string;
     provider?: string;
@@ -2,6 +2,8 @@
  * Types for schema-based extraction
  */
 
+import { LLMUsage } from './usage';
+
 export type SchemaPropertyType = 
   | 'string' 
   | 'number' 
@@ -48,6 +50,40 @@ export interface ExtractionOptions {
   extractionType?: 'structured' | 'summary' | 'qa';
   promptFormat?: 'zero-shot' | 'few-shot';
   exampleData?: any;
+  chunking?: ChunkingOptions;
+  maxRepairAttempts?: number; // Re-prompts with validation errors when the output breaks the schema (default 2)
+}
+
+/**
+ * How long content is fed to the LLM
+ * - truncate: cut the content at maxContentTokens (default)
+ * - map-reduce: extract from each heading-aligned chunk and merge the results
+ * - auto: map-reduce only when the content does not fit in maxContentTokens
+ */
+export interface ChunkingOptions {
+  mode?: 'truncate' | 'map-reduce' | 'auto';
+  chunkTokens?: number;      // Maximum tokens of content per chunk
+  maxChunks?: number;        // Chunks beyond this are dropped
+  concurrency?: number;      // Chunks extracted in parallel
+  maxContentTokens?: number; // Single-call content limit
+}
+
+/**
+ * A single schema violation in extracted data
+ */
+export interface SchemaValidationError {
+  path: string;    // e.g. "$.items[2].price"
+  keyword: string; // The schema keyword that failed (type, required, enum, ...)
+  message: string;
+}
+
+/**
+ * Outcome of validating extracted data against the schema
+ */
+export interface ValidationReport {
+  valid: boolean;
+  errors: SchemaValidationError[]; // Errors left after the last repair attempt
+  repairAttempts: number;
 }
 
 /**
@@ -57,10 +93,21 @@ export interface ExtractionResult<T> {
   success: boolean;
   data?: T;
   error?: string;
+  validation?: ValidationReport;
   metadata?: {
     confidenceScore?: number;
     extractionTime?: number;
     modelName?: string;
+    provider?: string; // Backend that answered, when a fallback chain is configured
+    llmUsage?: LLMUsage;
+    chunking?: {
+      mode: 'truncate' | 'map-reduce';
+      contentTokens: number;
+      chunks?: number;
+      failedChunks?: number;
+      droppedChunks?: number;
+      truncated?: boolean;
+    };
   };
 }
 
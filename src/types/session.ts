@@ -0,0 +1,65 @@
+/**
+ * Types for reusable login sessions
+ */
+import { BrowserContext } from 'playwright';
+import { ActionResult, BrowserAction } from './index';
+
+// Cookies and localStorage of a logged-in browser context
+export type SessionStorageState = Awaited<ReturnType<BrowserContext['storageState']>>;
+
+// Settings the login flow runs with, kept so refreshes log in the same way
+export interface SessionLoginOptions {
+  userAgent?: string;
+  headers?: Record<string, string>;
+  timeout?: number;
+}
+
+/**
+ * Stored session. The whole record is encrypted, since the login actions hold credentials
+ */
+export interface SessionRecord {
+  id: string;
+  name?: string;
+  loginUrl: string;
+  actions: BrowserAction[];        // Login flow, replayed to refresh the session
+  loginSelector?: string;          // CSS selector only found on the login page
+  options?: SessionLoginOptions;
+  storageState: SessionStorageState;
+  apiKeyId?: string;               // Key that created the session; no other key can use it
+  createdAt: string;
+  refreshedAt?: string;
+  expiresAt: string;
+}
+
+/**
+ * Session details safe to return from the API
+ */
+export interface SessionInfo {
+  id: string;
+  name?: string;
+  loginUrl: string;
+  loginSelector?: string;
+  cookies: number;                 // Cookies saved by the login flow
+  domains: string[];               // Domains those cookies are sent to
+  createdAt: string;
+  refreshedAt?: string;
+  expiresAt: string;
+}
+
+export interface CreateSessionRequest {
+  loginUrl: string;
+  actions: BrowserAction[];
+  loginSelector?: string;
+  name?: string;
+  ttlSeconds?: number;             // Defaults to SESSION_TTL
+  options?: SessionLoginOptions;
+}
+
+/**
+ * Outcome of running a login flow; error is set when it failed
+ */
+export interface SessionLoginResult {
+  session?: SessionInfo;
+  error?: string;
+  actionResults: ActionResult[];   // What each login action did, to tell which step failed
+}
@@ -0,0 +1,63 @@
+/**
+ * Types for LLM usage and cost accounting
+ */
+
+/**
+ * Token counts and cost for one model
+ */
+export interface LLMUsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+}
+
+/**
+ * Usage of one extraction, possibly spread over several calls and models
+ */
+export interface LLMUsage extends LLMUsageTotals {
+  models: Record<string, LLMUsageTotals>; // Keyed by "provider/model"
+}
+
+/**
+ * Who the usage is charged to
+ */
+export interface UsageContext {
+  scrapeId?: string;
+  apiKeyId?: string;
+  crawlId?: string;
+  batchId?: string;
+  route?: string;
+}
+
+/**
+ * Price per million tokens in USD
+ */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+/**
+ * Usage stored for a single scrape
+ */
+export interface ScrapeUsageRecord extends LLMUsage {
+  scrapeId: string;
+  context: UsageContext;
+  recordedAt: string;
+}
+
+export type UsageGroupBy = 'day' | 'apiKey' | 'crawl' | 'batch' | 'model' | 'provider' | 'route';
+
+export interface UsageGroup extends LLMUsageTotals {
+  key: string;
+}
+
+export interface UsageReport {
+  from: string;
+  to: string;
+  groupBy: UsageGroupBy;
+  totals: LLMUsageTotals;
+  groups: UsageGroup[];
+}
@@ -0,0 +1,59 @@
+/**
+ * Types for webhook delivery
+ */
+
+/**
+ * Events a webhook can subscribe to
+ */
+export type WebhookEventType =
+  | 'crawl.started'
+  | 'crawl.page'
+  | 'crawl.page.failed'
+  | 'crawl.completed'
+  | 'crawl.failed'
+  | 'batch.page'
+  | 'batch.page.failed'
+  | 'batch.completed'
+  | 'batch.failed';
+
+/**
+ * Webhook target as accepted by crawl and batch requests
+ */
+export interface WebhookConfig {
+  url: string;
+  events?: string[];                 // Event filter; supports wildcards like "*.failed" or "crawl.*"
+  secret?: string;                   // HMAC secret (defaults to WEBHOOK_SECRET)
+  headers?: Record<string, string>;  // Extra headers sent with every delivery
+  metadata?: Record<string, any>;    // Echoed back in every payload
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'retrying' | 'delivered' | 'failed';
+
+export interface WebhookDeliveryAttempt {
+  attempt: number;
+  timestamp: string;
+  statusCode?: number;
+  durationMs: number;
+  error?: string;
+}
+
+/**
+ * Delivery log entry (never contains the signing secret)
+ */
+export interface WebhookDelivery {
+  id: string;
+  jobId?: string;                    // Queue job holding the secret and headers, for redelivery
+  event: WebhookEventType;
+  url: string;
+  status: WebhookDeliveryStatus;
+  createdAt: string;
+  updatedAt: string;
+  payload: {
+    id: string;
+    event: WebhookEventType;
+    timestamp: string;
+    data: Record<string, any>;
+    metadata?: Record<string, any>;
+  };
+  attempts: WebhookDeliveryAttempt[];
+}
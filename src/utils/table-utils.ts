@@ -0,0 +1,40 @@
+import { TableCell } from '../types';
+
+/**
+ * Render a table as a GitHub-flavored markdown pipe table
+ * @param headers Header cells; an empty header row is written when there are none
+ * @param rows Body rows, padded to the widest row
+ * @returns The table as markdown lines
+ */
+export function renderMarkdownTable(headers: string[], rows: TableCell[][]): string {
+  const width = Math.max(headers.length, ...rows.map(row => row.length), 1);
+  const formatRow = (row: TableCell[]) => {
+    const cells = Array.from({ length: width }, (_, index) =>
+      String(row[index] ?? '').replace(/\|/g, '\\|').replace(/\s*\n\s*/g, '<br>').trim()
+    );
+    return `| ${cells.join(' | ')} |`;
+  };
+
+  return [formatRow(headers), `| ${Array(width).fill('---').join(' | ')} |`, ...rows.map(formatRow)].join('\n');
+}
+
+/**
+ * Render a table as CSV (RFC 4180), with the header row first when there is one.
+ * Text cells that spreadsheets would run as formulas are prefixed with an apostrophe
+ * @param headers Header cells
+ * @param rows Body rows
+ * @returns CSV text with CRLF line endings
+ */
+export function renderCsv(headers: string[], rows: TableCell[][]): string {
+  const formatCell = (cell: TableCell) => {
+    let value = String(cell ?? '');
+    if (/^[=+\-@\t\r]/.test(value) && isNaN(Number(value))) {
+      value = `'${value}`;
+    }
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  };
+
+  return [...(headers.length > 0 ? [headers] : []), ...rows]
+    .map(row => row.map(formatCell).join(','))
+    .join('\r\n') + '\r\n';
+}